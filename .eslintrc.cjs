@@ -23,6 +23,11 @@ module.exports = {
     'prefer-const': 'error',
     'no-var': 'error',
     'object-shorthand': 'error',
+
+    // The core rule does not understand TypeScript signatures (interface
+    // method parameters, constructor parameter properties)
+    'no-unused-vars': 'off',
+    '@typescript-eslint/no-unused-vars': 'error',
   },
   overrides: [
     {
@@ -0,0 +1,101 @@
+import type { Command } from 'commander';
+import { WebPresenceAnalyzer } from '../../core/analyzer/index.js';
+import { applyScore } from '../../core/scorer/index.js';
+import {
+  createComplianceGuard,
+  createHttp,
+  findProspect,
+  openStore,
+  reportError,
+  reportHttpMetrics,
+  resolveConfig,
+} from '../context.js';
+import { logInfo } from '../log.js';
+import { resolveProfileOption } from './score.js';
+
+interface AnalyzeOptions {
+  input?: string;
+  url?: string;
+  profile?: string;
+}
+
+export function registerAnalyzeCommand(program: Command): void {
+  program
+    .command('analyze')
+    .description('Analyze web presence of a specific business')
+    .argument('<businessId>', 'Business ID to analyze')
+    .option(
+      '-i, --input <file>',
+      'Look the ID up in a JSON file instead of the database'
+    )
+    .option('-u, --url <url>', 'Analyze this website instead of a stored one')
+    .option('-p, --profile <file>', 'Scoring profile (JSON or YAML)')
+    .action(
+      async (
+        businessId: string,
+        options: AnalyzeOptions,
+        command: Command
+      ): Promise<void> => {
+        logInfo(`Analyzing business: ${businessId}`);
+
+        try {
+          const prospect = options.url
+            ? undefined
+            : await findProspect(command, businessId, options.input);
+          const website = options.url ?? prospect?.contact.website;
+          const http = createHttp(command);
+          const analyzer = new WebPresenceAnalyzer({
+            httpClient: createComplianceGuard(command, http).client(),
+          });
+          const report = await analyzer.analyze(website);
+          reportHttpMetrics(http.metrics);
+
+          // A skipped site keeps its last analysis, noting why it was not
+          // refreshed
+          const webPresence =
+            prospect && report.skipped
+              ? {
+                  ...prospect.webPresence,
+                  issues: [
+                    ...prospect.webPresence.issues.filter(
+                      (issue) => !issue.startsWith('Website not analyzed')
+                    ),
+                    ...report.analysis.issues,
+                  ],
+                }
+              : report.analysis;
+          const rescored = prospect
+            ? applyScore(
+                { ...prospect, webPresence },
+                resolveProfileOption(
+                  options.profile,
+                  resolveConfig(command).config
+                )
+              )
+            : undefined;
+
+          // Keep the database current when the prospect came from it
+          if (rescored && !options.input) {
+            await openStore(command).upsert([rescored]);
+          }
+
+          console.log(
+            JSON.stringify(
+              {
+                id: businessId,
+                website: website ?? null,
+                ...report,
+                ...(rescored
+                  ? { opportunityScore: rescored.opportunityScore }
+                  : {}),
+              },
+              null,
+              2
+            )
+          );
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,203 @@
+import { writeFileSync } from 'fs';
+import type { Command } from 'commander';
+import {
+  BatchCheckpoint,
+  combineOutcomes,
+  readBatchFile,
+  runBatch,
+} from '../../core/batch/index.js';
+import type { QueryOutcome } from '../../core/batch/index.js';
+import { EXPORT_FORMATS, writeProspects } from '../../core/exporter/index.js';
+import { createDefaultRegistry } from '../../core/prospector/index.js';
+import { applyScore } from '../../core/scorer/index.js';
+import {
+  excludeDoNotContact,
+  openStore,
+  reportError,
+  resolveConfig,
+} from '../context.js';
+import { formatTable } from '../format.js';
+import type { TableColumn } from '../format.js';
+import { logInfo, logWarn } from '../log.js';
+import { parseFormat, withOutput } from './extract.js';
+import { resolveProfileOption } from './score.js';
+
+interface BatchCommandOptions {
+  source?: string;
+  fixture?: string;
+  limit?: string;
+  profile?: string;
+  concurrency?: string;
+  checkpoint?: string;
+  restart?: boolean;
+  format?: string;
+  output?: string;
+  summary?: string;
+  save: boolean;
+}
+
+const SUMMARY_COLUMNS: TableColumn<QueryOutcome>[] = [
+  { header: 'INDUSTRY', value: (o) => o.query.industry },
+  { header: 'LOCATION', value: (o) => o.query.location },
+  { header: 'FOUND', value: (o) => o.found, align: 'right' },
+  { header: 'REJECTED', value: (o) => o.rejected, align: 'right' },
+  {
+    header: 'STATUS',
+    value: (o) => (o.error ? `failed: ${o.error}` : o.status),
+  },
+];
+
+function parsePositiveInteger(value: string, option: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`Invalid ${option} "${value}"`);
+  }
+  return parsed;
+}
+
+export function registerBatchCommand(program: Command): void {
+  program
+    .command('batch')
+    .description('Run many industry/location searches listed in a file')
+    .argument(
+      '<file>',
+      'CSV (industry,location[,limit]) or YAML list of searches'
+    )
+    .option(
+      '-s, --source <name>',
+      'Business source provider (default: config defaultSource)'
+    )
+    .option('--fixture <file>', 'JSON file backing the fixture source')
+    .option(
+      '-l, --limit <count>',
+      'Maximum results per search when the file gives none'
+    )
+    .option('-p, --profile <file>', 'Scoring profile (JSON or YAML)')
+    .option(
+      '-c, --concurrency <count>',
+      'Searches to run at once (default: config rateLimit.concurrency)'
+    )
+    .option(
+      '--checkpoint <file>',
+      'Progress file used to resume (default: <file>.checkpoint.json)'
+    )
+    .option('--restart', 'Ignore an existing checkpoint and start over')
+    .option(
+      '-f, --format <format>',
+      `Output format (${EXPORT_FORMATS.join(', ')}; default: config export.format)`
+    )
+    .option(
+      '-o, --output <file>',
+      'Write prospects to a file instead of stdout'
+    )
+    .option('--summary <file>', 'Write the per-search summary as JSON')
+    .option('--no-save', 'Do not save results to the local database')
+    .action(
+      async (
+        file: string,
+        options: BatchCommandOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const { config } = resolveConfig(command);
+          const format = parseFormat(options.format ?? config.export.format);
+          if (format === 'xlsx' && !options.output) {
+            throw new Error('XLSX output needs --output <file>');
+          }
+          const concurrency = options.concurrency
+            ? parsePositiveInteger(options.concurrency, '--concurrency')
+            : config.rateLimit.concurrency;
+          const limit = options.limit
+            ? parsePositiveInteger(options.limit, '--limit')
+            : undefined;
+          const profile = resolveProfileOption(options.profile, config);
+          const provider = createDefaultRegistry(
+            options.fixture ? { fixturePath: options.fixture } : {}
+          ).get(options.source ?? config.defaultSource);
+
+          const queries = readBatchFile(file).map((query) =>
+            query.limit === undefined && limit !== undefined
+              ? { ...query, limit }
+              : query
+          );
+          const checkpointPath =
+            options.checkpoint ?? `${file}.checkpoint.json`;
+          const checkpoint = options.restart
+            ? new BatchCheckpoint(checkpointPath)
+            : await BatchCheckpoint.load(checkpointPath);
+          if (checkpoint.size > 0) {
+            logInfo(`Resuming from ${checkpointPath}`);
+          }
+
+          // Status goes to stderr so stdout stays pipeable output
+          const outcomes = await runBatch(provider, queries, {
+            concurrency,
+            checkpoint,
+            onProgress: ({ completed, total, outcome, resumed }) => {
+              const { industry, location } = outcome.query;
+              const status = resumed
+                ? 'done earlier'
+                : outcome.error
+                  ? `failed: ${outcome.error}`
+                  : `${outcome.found} found`;
+              logInfo(
+                `[${completed}/${total}] ${industry} in ${location}: ${status}`
+              );
+            },
+          });
+
+          const combined = combineOutcomes(outcomes);
+          const scored = combined.prospects
+            .map((prospect) => applyScore(prospect, profile))
+            .sort((a, b) => b.opportunityScore - a.opportunityScore);
+
+          if (options.save && scored.length > 0) {
+            const store = openStore(command);
+            const saved = await store.upsert(scored);
+            logInfo(
+              `Saved to ${store.dataDir} (${saved.inserted} new, ${saved.updated} updated)`
+            );
+          }
+          const exported = await excludeDoNotContact(command, scored);
+          await withOutput(options.output, (stream) =>
+            writeProspects(exported, format, stream)
+          );
+
+          logInfo(formatTable(outcomes, SUMMARY_COLUMNS));
+          logInfo(
+            `${scored.length} unique business(es) from ${queries.length} search(es), ${combined.duplicatesMerged} duplicate(s) merged`
+          );
+          if (options.summary) {
+            const summary = outcomes.map(
+              ({ query, status, found, rejected, error }) => ({
+                query,
+                status,
+                found,
+                rejected,
+                ...(error ? { error } : {}),
+              })
+            );
+            writeFileSync(
+              options.summary,
+              `${JSON.stringify(summary, null, 2)}\n`,
+              'utf8'
+            );
+          }
+
+          const failed = outcomes.filter(
+            (outcome) => outcome.status === 'failed'
+          );
+          if (failed.length > 0) {
+            logWarn(
+              `${failed.length} search(es) failed; run the same command again to retry them`
+            );
+            process.exitCode = 1;
+          } else {
+            await checkpoint.remove();
+          }
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,68 @@
+import { writeFileSync } from 'fs';
+import { extname } from 'path';
+import type { Command } from 'commander';
+import { stringify as stringifyYaml } from 'yaml';
+import { parseBusinessHours } from '../../core/normalizer/index.js';
+import { buildBusinessConfig } from '../../core/template/index.js';
+import { findProspect, openStore, reportError } from '../context.js';
+import { logWarn } from '../log.js';
+
+interface BuildConfigOptions {
+  input?: string;
+  output?: string;
+  save: boolean;
+}
+
+export function registerBuildConfigCommand(program: Command): void {
+  program
+    .command('build-config')
+    .description('Generate the demo site template config for a business')
+    .argument('<businessId>', 'Business ID to build a config for')
+    .option(
+      '-i, --input <file>',
+      'Look the ID up in a JSON file instead of the database'
+    )
+    .option(
+      '-o, --output <file>',
+      'Config file to write, JSON or YAML by extension (default: <id>.config.json)'
+    )
+    .option('--no-save', 'Do not store the config on the saved prospect')
+    .action(
+      async (
+        businessId: string,
+        options: BuildConfigOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const prospect = await findProspect(
+            command,
+            businessId,
+            options.input
+          );
+          const config = buildBusinessConfig(prospect);
+
+          const output = options.output ?? `${businessId}.config.json`;
+          const extension = extname(output).toLowerCase();
+          writeFileSync(
+            output,
+            extension === '.yaml' || extension === '.yml'
+              ? stringifyYaml(config)
+              : `${JSON.stringify(config, null, 2)}\n`,
+            'utf8'
+          );
+          console.log(`Wrote ${output}`);
+          for (const issue of parseBusinessHours(config.hours ?? {}).issues) {
+            logWarn(`warning: hours.${issue.key} ${issue.message}`);
+          }
+
+          if (options.save && !options.input) {
+            await openStore(command).upsert([
+              { ...prospect, templateConfig: config },
+            ]);
+          }
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,75 @@
+import { existsSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import type { Command } from 'commander';
+import { stringify as stringifyYaml } from 'yaml';
+import {
+  CONFIG_FILE_NAMES,
+  maskSecrets,
+  renderStarterConfig,
+} from '../../core/config/index.js';
+import { reportError, resolveConfig } from '../context.js';
+import { logInfo } from '../log.js';
+
+interface ShowOptions {
+  json?: boolean;
+}
+
+interface InitOptions {
+  force?: boolean;
+}
+
+export function registerConfigCommand(program: Command): void {
+  const config = program
+    .command('config')
+    .description('Show or create the project configuration');
+
+  config
+    .command('show')
+    .description('Print the resolved configuration with API keys masked')
+    .option('--json', 'Print as JSON instead of YAML')
+    .action((options: ShowOptions, command: Command): void => {
+      try {
+        const { config: resolved, file } = resolveConfig(command);
+        logInfo(`Config file: ${file ?? 'none (defaults)'}`);
+        const masked = maskSecrets(resolved);
+        console.log(
+          options.json
+            ? JSON.stringify(masked, null, 2)
+            : stringifyYaml(masked).trimEnd()
+        );
+      } catch (error) {
+        reportError(error);
+      }
+    });
+
+  config
+    .command('init')
+    .description('Write a starter config file')
+    .argument(
+      '[file]',
+      'File to write (.json, .yaml or .yml)',
+      'd13-prospector.config.yaml'
+    )
+    .option('--force', 'Overwrite an existing file')
+    .action((file: string, options: InitOptions): void => {
+      try {
+        const extension = extname(file).toLowerCase();
+        if (!['.json', '.yaml', '.yml'].includes(extension)) {
+          throw new Error(
+            `Config file must end in .json, .yaml or .yml (e.g. ${CONFIG_FILE_NAMES[1]})`
+          );
+        }
+        if (existsSync(file) && !options.force) {
+          throw new Error(`${file} already exists; use --force to overwrite`);
+        }
+        writeFileSync(
+          file,
+          renderStarterConfig(extension === '.json' ? 'json' : 'yaml'),
+          'utf8'
+        );
+        console.log(`Wrote ${file}`);
+      } catch (error) {
+        reportError(error);
+      }
+    });
+}
@@ -0,0 +1,126 @@
+import type { Command } from 'commander';
+import { CrmLinkStore } from '../../core/crm/index.js';
+import {
+  DEFAULT_DEDUPE_OPTIONS,
+  findDuplicateClusters,
+} from '../../core/dedupe/index.js';
+import type { DuplicateCluster } from '../../core/dedupe/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import {
+  loadProspects,
+  openLeads,
+  openReviews,
+  openStore,
+  reportError,
+} from '../context.js';
+import { logInfo } from '../log.js';
+
+interface DedupeCommandOptions {
+  input?: string;
+  threshold: string;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+function formatCluster(
+  cluster: DuplicateCluster,
+  index: number,
+  byId: Map<string, BusinessProspect>
+): string {
+  const keep = cluster.merged.prospect.id;
+  const lines = [
+    `Cluster ${index + 1} (confidence ${cluster.confidence.toFixed(2)}, keeps ${keep})`,
+  ];
+  for (const id of cluster.merged.mergedIds) {
+    const record = byId.get(id) as BusinessProspect;
+    lines.push(
+      `  ${id === keep ? 'keep ' : 'merge'}  ${id}  ${record.name}  ${record.contact.phone}`
+    );
+  }
+  for (const match of cluster.matches) {
+    const { evidence } = match;
+    lines.push(
+      `    ${match.ids.join(' ~ ')}: ${match.confidence.toFixed(2)} (name ${evidence.nameSimilarity.toFixed(2)}, ${evidence.samePhone ? 'same phone' : 'different phone'}, ${evidence.distanceMeters} m apart)`
+    );
+  }
+  return lines.join('\n');
+}
+
+export function registerDedupeCommand(program: Command): void {
+  program
+    .command('dedupe')
+    .description('Find and merge duplicate prospects across sources')
+    .option(
+      '-i, --input <file>',
+      'Check a JSON file instead of the database (implies --dry-run)'
+    )
+    .option(
+      '-t, --threshold <confidence>',
+      'Minimum match confidence between 0 and 1',
+      String(DEFAULT_DEDUPE_OPTIONS.threshold)
+    )
+    .option('--dry-run', 'Report clusters without merging anything')
+    .option('--json', 'Print clusters as JSON')
+    .action(
+      async (
+        options: DedupeCommandOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const threshold = Number(options.threshold);
+          if (!(threshold > 0 && threshold <= 1)) {
+            throw new Error(`Invalid --threshold "${options.threshold}"`);
+          }
+
+          const prospects = await loadProspects(command, options.input);
+          const clusters = findDuplicateClusters(prospects, {
+            ...DEFAULT_DEDUPE_OPTIONS,
+            threshold,
+          });
+          const dryRun = options.dryRun || !!options.input;
+
+          if (options.json) {
+            console.log(JSON.stringify(clusters, null, 2));
+          } else {
+            const byId = new Map(prospects.map((p) => [p.id, p]));
+            clusters.forEach((cluster, index) =>
+              console.log(formatCluster(cluster, index, byId))
+            );
+            console.log(
+              `${clusters.length} duplicate cluster(s) among ${prospects.length} prospect(s)`
+            );
+          }
+
+          if (dryRun || clusters.length === 0) return;
+
+          const store = openStore(command);
+          const leads = openLeads(command);
+          const reviews = openReviews(command);
+          const links = new CrmLinkStore(store.dataDir);
+          await store.upsert(
+            clusters.map((cluster) => cluster.merged.prospect)
+          );
+          let removed = 0;
+          for (const cluster of clusters) {
+            const keep = cluster.merged.prospect.id;
+            const duplicates = cluster.merged.mergedIds.filter(
+              (id) => id !== keep
+            );
+            // Carry the duplicates' tracking over first, so a do-not-contact
+            // on any of them still holds for the merged prospect
+            await leads.merge(keep, duplicates);
+            await reviews.merge(keep, duplicates);
+            await links.merge(keep, duplicates);
+            for (const id of duplicates) {
+              if (await store.delete(id)) removed += 1;
+            }
+          }
+          logInfo(
+            `Merged ${clusters.length} cluster(s), removed ${removed} duplicate(s)`
+          );
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,71 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Command } from 'commander';
+import {
+  buildBusinessConfig,
+  renderDemoSite,
+} from '../../core/template/index.js';
+import { findProspect, reportError } from '../context.js';
+
+interface DemoOptions {
+  input?: string;
+  output?: string;
+  theme?: string;
+  rebuild?: boolean;
+}
+
+export function registerDemoCommand(program: Command): void {
+  program
+    .command('demo')
+    .description('Render a static one-page demo website for a business')
+    .argument('<businessId>', 'Business ID to render a demo site for')
+    .option(
+      '-i, --input <file>',
+      'Look the ID up in a JSON file instead of the database'
+    )
+    .option(
+      '-o, --output <dir>',
+      'Directory to write the site to (default: demo-<id>)'
+    )
+    .option(
+      '-t, --theme <name>',
+      'Theme to use instead of the one matching the industry'
+    )
+    .option(
+      '--rebuild',
+      'Derive a fresh template config instead of using the saved one'
+    )
+    .action(
+      async (
+        businessId: string,
+        options: DemoOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const prospect = await findProspect(
+            command,
+            businessId,
+            options.input
+          );
+          const config =
+            !options.rebuild && prospect.templateConfig
+              ? prospect.templateConfig
+              : buildBusinessConfig(prospect);
+          const { latitude, longitude } = prospect.location;
+          const site = renderDemoSite(config, {
+            geo: { latitude, longitude },
+            ...(options.theme ? { theme: options.theme } : {}),
+          });
+
+          const output = options.output ?? `demo-${businessId}`;
+          mkdirSync(output, { recursive: true });
+          for (const [file, contents] of Object.entries(site.files)) {
+            writeFileSync(join(output, file), contents, 'utf8');
+          }
+          console.log(`Wrote ${site.theme} demo site to ${output}`);
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,178 @@
+import type { Command } from 'commander';
+import {
+  ContactDiscovery,
+  bestEmail,
+  dnsMxResolver,
+  mergeDiscoveredEmails,
+} from '../../core/enrichment/index.js';
+import type { ContactDiscoveryResult } from '../../core/enrichment/index.js';
+import {
+  UNKNOWN_EMAIL,
+  normalizeSocialAccounts,
+} from '../../core/normalizer/index.js';
+import type { BusinessProspect, DiscoveredEmail } from '../../types/index.js';
+import {
+  createComplianceGuard,
+  createHttp,
+  openStore,
+  reportError,
+  reportHttpMetrics,
+} from '../context.js';
+import { formatTable } from '../format.js';
+import { logError, logInfo } from '../log.js';
+import { selectProspects } from './extract.js';
+
+interface EnrichOptions {
+  replace?: boolean;
+  mx: boolean;
+  json?: boolean;
+}
+
+interface EnrichRow {
+  prospect: BusinessProspect;
+  best: DiscoveredEmail | undefined;
+  found: number;
+  social: number;
+}
+
+/**
+ * The prospect with its discovered addresses and social profiles, added to
+ * the ones found before. The best address becomes its email when it had
+ * none (or always, with `replace`); profiles are added to the ones already
+ * in its site config.
+ */
+function withContacts(
+  prospect: BusinessProspect,
+  { emails: found, socialMedia }: ContactDiscoveryResult,
+  replace: boolean
+): BusinessProspect {
+  const { contact, templateConfig } = prospect;
+  const emails = mergeDiscoveredEmails(contact.emails ?? [], found);
+  const best = bestEmail(emails);
+  const email =
+    best && (replace || contact.email === UNKNOWN_EMAIL)
+      ? best.address
+      : contact.email;
+  const social = normalizeSocialAccounts([
+    ...(templateConfig.socialMedia ?? []),
+    ...socialMedia,
+  ]);
+  return {
+    ...prospect,
+    contact: { ...contact, email, emails },
+    templateConfig: {
+      ...templateConfig,
+      contact: {
+        ...templateConfig.contact,
+        // Follow the prospect unless the site config was edited separately
+        email:
+          templateConfig.contact.email === contact.email ||
+          templateConfig.contact.email === UNKNOWN_EMAIL
+            ? email
+            : templateConfig.contact.email,
+      },
+      ...(social.length > 0 ? { socialMedia: social } : {}),
+    },
+  };
+}
+
+export function registerEnrichCommand(program: Command): void {
+  program
+    .command('enrich')
+    .description('Find email addresses and social profiles for saved prospects')
+    .argument('<businessIds...>', 'Business IDs to enrich, or "all"')
+    .option('--replace', 'Replace known emails with the best one found')
+    .option('--no-mx', 'Skip the MX lookup for each email domain')
+    .option('--json', 'Print the discovered emails and profiles as JSON')
+    .action(
+      async (
+        businessIds: string[],
+        options: EnrichOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const store = openStore(command);
+          const prospects = selectProspects(await store.list(), businessIds);
+          const http = createHttp(command);
+          const { offline } = command.optsWithGlobals<{ offline?: boolean }>();
+          const discovery = new ContactDiscovery({
+            http: createComplianceGuard(command, http).client(),
+            // DNS answers are not cached, so offline runs skip the lookup
+            ...(options.mx && !offline ? { resolveMx: dnsMxResolver } : {}),
+          });
+
+          const rows: EnrichRow[] = [];
+          const enriched: BusinessProspect[] = [];
+          let failed = 0;
+          for (const prospect of prospects) {
+            logInfo(`Enriching ${prospect.id}`);
+            let result: ContactDiscoveryResult;
+            try {
+              result = await discovery.discover(prospect.contact.website);
+            } catch (error) {
+              // Skip it and keep what the other prospects turn up
+              logError(
+                `${prospect.id}: ${error instanceof Error ? error.message : String(error)}`
+              );
+              failed += 1;
+              continue;
+            }
+            for (const skipped of result.skipped) {
+              logInfo(`  skipped ${skipped}`);
+            }
+            enriched.push(
+              withContacts(prospect, result, options.replace ?? false)
+            );
+            rows.push({
+              prospect,
+              best: bestEmail(result.emails),
+              found: result.emails.length,
+              social: result.socialMedia.length,
+            });
+          }
+          await store.upsert(enriched);
+          reportHttpMetrics(http.metrics);
+          if (failed > 0) process.exitCode = 1;
+
+          if (options.json) {
+            console.log(
+              JSON.stringify(
+                enriched.map(({ id, contact, templateConfig }) => ({
+                  id,
+                  email: contact.email,
+                  emails: contact.emails,
+                  socialMedia: templateConfig.socialMedia ?? [],
+                })),
+                null,
+                2
+              )
+            );
+          } else {
+            console.log(
+              formatTable(rows, [
+                { header: 'ID', value: (row) => row.prospect.id },
+                { header: 'NAME', value: (row) => row.prospect.name },
+                {
+                  header: 'BEST EMAIL',
+                  value: (row) => row.best?.address ?? '',
+                },
+                {
+                  header: 'CONFIDENCE',
+                  value: (row) => row.best?.confidence.toFixed(2) ?? '',
+                  align: 'right',
+                },
+                { header: 'EMAILS', value: (row) => row.found, align: 'right' },
+                {
+                  header: 'SOCIAL',
+                  value: (row) => row.social,
+                  align: 'right',
+                },
+              ])
+            );
+          }
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
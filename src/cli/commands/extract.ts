@@ -0,0 +1,198 @@
+import { createWriteStream, readFileSync } from 'fs';
+import { rm } from 'fs/promises';
+import type { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import type { Command } from 'commander';
+import {
+  EXPORT_FORMATS,
+  importProspectsCsv,
+  isExportFormat,
+  writeProspects,
+} from '../../core/exporter/index.js';
+import type { ExportFormat } from '../../core/exporter/index.js';
+import { applyQuery } from '../../core/query/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import {
+  excludeDoNotContact,
+  loadProspects,
+  openStore,
+  reportError,
+  resolveConfig,
+} from '../context.js';
+import { logInfo, logWarn } from '../log.js';
+import { addQueryOptions, resolveQueryOptions } from './query.js';
+import type { QueryOptions } from './query.js';
+
+interface ExtractOptions extends QueryOptions {
+  input?: string;
+  format?: string;
+  output?: string;
+  fields?: string;
+}
+
+interface ImportOptions {
+  dryRun?: boolean;
+}
+
+export function parseFormat(value: string): ExportFormat {
+  if (!isExportFormat(value)) {
+    throw new Error(
+      `Unsupported format "${value}". Use one of: ${EXPORT_FORMATS.join(', ')}`
+    );
+  }
+  return value;
+}
+
+function parseFields(value: string | undefined): string[] | undefined {
+  const fields = value
+    ?.split(',')
+    .map((field) => field.trim())
+    .filter(Boolean);
+  return fields?.length ? fields : undefined;
+}
+
+/**
+ * The prospects with the given IDs, in that order, or all of them for
+ * `all`. Throws when an ID is not found.
+ */
+export function selectProspects(
+  prospects: BusinessProspect[],
+  businessIds: string[]
+): BusinessProspect[] {
+  if (businessIds.length === 1 && businessIds[0] === 'all') return prospects;
+
+  const byId = new Map(prospects.map((prospect) => [prospect.id, prospect]));
+  const missing = businessIds.filter((id) => !byId.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Business(es) not found: ${missing.join(', ')}`);
+  }
+  return businessIds.map((id) => byId.get(id) as BusinessProspect);
+}
+
+/**
+ * Write to a file when one is given, stdout otherwise.
+ */
+export async function withOutput(
+  path: string | undefined,
+  run: (stream: Writable) => Promise<void>
+): Promise<void> {
+  if (!path) {
+    await run(process.stdout);
+    return;
+  }
+  const stream = createWriteStream(path);
+  // Writers reject with the stream's errors, but one such as a failed open
+  // is also emitted after they stop listening; keep it from going unhandled
+  const ignore = (): void => undefined;
+  stream.on('error', ignore);
+  let complete = false;
+  try {
+    await run(stream);
+    complete = true;
+  } finally {
+    if (complete) {
+      stream.end();
+      await finished(stream);
+    } else {
+      // Close the file and drop what was written before the failure
+      stream.destroy();
+      await rm(path, { force: true });
+    }
+    stream.off('error', ignore);
+  }
+}
+
+export function registerExtractCommand(program: Command): void {
+  addQueryOptions(program.command('extract'))
+    .description('Extract detailed data from one or more businesses')
+    .argument(
+      '<businessIds...>',
+      'Business ID(s) to extract data from, or "all"'
+    )
+    .option(
+      '-i, --input <file>',
+      'Extract from a JSON file instead of the database'
+    )
+    .option(
+      '-f, --format <format>',
+      `Output format (${EXPORT_FORMATS.join(', ')}; default: config export.format)`
+    )
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option(
+      '--fields <list>',
+      'Comma-separated columns to include (e.g., "name,location,contact.phone")'
+    )
+    .action(
+      async (
+        businessIds: string[],
+        options: ExtractOptions,
+        command: Command
+      ): Promise<void> => {
+        logInfo(`Extracting data from business: ${businessIds.join(', ')}`);
+
+        try {
+          const { config } = resolveConfig(command);
+          const format = parseFormat(options.format ?? config.export.format);
+          if (format === 'xlsx' && !options.output) {
+            throw new Error('XLSX output needs --output <file>');
+          }
+          const fields = parseFields(options.fields) ?? config.export.fields;
+          const prospects = await excludeDoNotContact(
+            command,
+            applyQuery(
+              selectProspects(
+                await loadProspects(command, options.input),
+                businessIds
+              ),
+              await resolveQueryOptions(command, options)
+            )
+          );
+
+          await withOutput(options.output, (stream) =>
+            writeProspects(prospects, format, stream, fields ? { fields } : {})
+          );
+          logInfo(
+            `Wrote ${prospects.length} prospect(s) as ${format}${options.output ? ` to ${options.output}` : ''}`
+          );
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
+
+export function registerImportCommand(program: Command): void {
+  program
+    .command('import')
+    .description('Import prospects from a CSV file written by extract')
+    .argument('<file>', 'CSV file to import')
+    .option('--dry-run', 'Validate the file without saving anything')
+    .action(
+      async (
+        file: string,
+        options: ImportOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const result = importProspectsCsv(readFileSync(file, 'utf8'));
+          for (const error of result.errors) {
+            logWarn(`Row ${error.row}: ${error.message}`);
+          }
+          console.log(
+            `Validated ${result.prospects.length} prospect(s), ${result.errors.length} invalid row(s)`
+          );
+
+          if (!options.dryRun && result.prospects.length > 0) {
+            const store = openStore(command);
+            const saved = await store.upsert(result.prospects);
+            console.log(
+              `Saved to ${store.dataDir} (${saved.inserted} new, ${saved.updated} updated)`
+            );
+          }
+          if (result.errors.length > 0) process.exitCode = 1;
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
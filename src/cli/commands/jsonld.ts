@@ -0,0 +1,79 @@
+import { writeFileSync } from 'fs';
+import type { Command } from 'commander';
+import { parseBusinessHours } from '../../core/normalizer/index.js';
+import {
+  buildBusinessConfig,
+  buildJsonLd,
+  validateJsonLd,
+} from '../../core/template/index.js';
+import { findProspect, reportError } from '../context.js';
+import { logError, logInfo, logWarn } from '../log.js';
+
+interface JsonLdCommandOptions {
+  input?: string;
+  output?: string;
+  rebuild?: boolean;
+}
+
+export function registerJsonLdCommand(program: Command): void {
+  program
+    .command('jsonld')
+    .description('Export schema.org LocalBusiness JSON-LD for a business')
+    .argument('<businessId>', 'Business ID to export structured data for')
+    .option(
+      '-i, --input <file>',
+      'Look the ID up in a JSON file instead of the database'
+    )
+    .option('-o, --output <file>', 'Write to a file instead of stdout')
+    .option(
+      '--rebuild',
+      'Derive a fresh template config instead of using the saved one'
+    )
+    .action(
+      async (
+        businessId: string,
+        options: JsonLdCommandOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const prospect = await findProspect(
+            command,
+            businessId,
+            options.input
+          );
+          const config =
+            !options.rebuild && prospect.templateConfig
+              ? prospect.templateConfig
+              : buildBusinessConfig(prospect);
+          const { latitude, longitude } = prospect.location;
+          const document = buildJsonLd(config, {
+            geo: { latitude, longitude },
+          });
+
+          const json = `${JSON.stringify(document, null, 2)}\n`;
+          if (options.output) {
+            writeFileSync(options.output, json, 'utf8');
+            logInfo(`Wrote ${options.output}`);
+          } else {
+            process.stdout.write(json);
+          }
+
+          // Hours that cannot be read are left out of the document
+          for (const issue of parseBusinessHours(config.hours ?? {}).issues) {
+            logWarn(`warning: hours.${issue.key} ${issue.message}`);
+          }
+          const issues = validateJsonLd(document);
+          for (const issue of issues) {
+            (issue.severity === 'error' ? logError : logWarn)(
+              `${issue.severity}: ${issue.path} ${issue.message}`
+            );
+          }
+          if (issues.some((issue) => issue.severity === 'error')) {
+            process.exitCode = 1;
+          }
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,244 @@
+import type { Command } from 'commander';
+import {
+  LEAD_STATUSES,
+  dueLeads,
+  formatLocalDate,
+  isLeadStatus,
+  parseFollowUp,
+} from '../../core/leads/index.js';
+import type { Lead, LeadUpdate } from '../../core/leads/index.js';
+import { openLeads, openStore, reportError } from '../context.js';
+import { formatTable } from '../format.js';
+
+interface FollowUpOptions {
+  followUp?: string;
+}
+
+interface SetStatusOptions extends FollowUpOptions {
+  note?: string;
+  author?: string;
+}
+
+interface NoteOptions extends FollowUpOptions {
+  author?: string;
+}
+
+interface DueOptions {
+  date?: string;
+  owner?: string;
+  json?: boolean;
+}
+
+const FOLLOW_UP_HELP =
+  'Next follow-up: YYYY-MM-DD, today, tomorrow, +3d, +2w or none';
+
+function followUpUpdate(options: FollowUpOptions): LeadUpdate {
+  return options.followUp !== undefined
+    ? { followUp: parseFollowUp(options.followUp) }
+    : {};
+}
+
+function describeLead(businessId: string, lead: Lead): string {
+  return [
+    `${businessId}: ${lead.status}`,
+    ...(lead.owner ? [`owner ${lead.owner}`] : []),
+    ...(lead.followUp ? [`follow up ${lead.followUp}`] : []),
+  ].join(', ');
+}
+
+/**
+ * Apply a change to the lead of a saved prospect and print the result.
+ */
+async function updateLead(
+  command: Command,
+  businessId: string,
+  update: LeadUpdate
+): Promise<void> {
+  if (!(await openStore(command).get(businessId))) {
+    throw new Error(`Business ${businessId} not found`);
+  }
+  const lead = await openLeads(command).update(businessId, update);
+  console.log(describeLead(businessId, lead));
+}
+
+export function registerLeadCommands(program: Command): void {
+  const lead = program
+    .command('lead')
+    .description('Track pipeline status, owners, notes and follow-ups');
+
+  lead
+    .command('set-status')
+    .description('Move a prospect through the pipeline')
+    .argument('<businessId>', 'Business ID')
+    .argument('<status>', `One of: ${LEAD_STATUSES.join(', ')}`)
+    .option('-n, --note <text>', 'Add a note with the change')
+    .option('--author <name>', 'Who wrote the note')
+    .option('--follow-up <date>', FOLLOW_UP_HELP)
+    .action(
+      async (
+        businessId: string,
+        status: string,
+        options: SetStatusOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          if (!isLeadStatus(status)) {
+            throw new Error(
+              `Unknown status "${status}". Use one of: ${LEAD_STATUSES.join(', ')}`
+            );
+          }
+          await updateLead(command, businessId, {
+            status,
+            ...followUpUpdate(options),
+            ...(options.note
+              ? {
+                  note: {
+                    text: options.note,
+                    ...(options.author ? { author: options.author } : {}),
+                  },
+                }
+              : {}),
+          });
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+
+  lead
+    .command('assign')
+    .description('Assign a prospect to an owner ("none" to unassign)')
+    .argument('<businessId>', 'Business ID')
+    .argument('<owner>', 'Owner name')
+    .option('--follow-up <date>', FOLLOW_UP_HELP)
+    .action(
+      async (
+        businessId: string,
+        owner: string,
+        options: FollowUpOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const name = owner.trim();
+          await updateLead(command, businessId, {
+            owner: name === '' || name === 'none' ? null : name,
+            ...followUpUpdate(options),
+          });
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+
+  lead
+    .command('note')
+    .description('Add a timestamped note to a prospect')
+    .argument('<businessId>', 'Business ID')
+    .argument('<text>', 'Note text')
+    .option('--author <name>', 'Who wrote the note')
+    .option('--follow-up <date>', FOLLOW_UP_HELP)
+    .action(
+      async (
+        businessId: string,
+        text: string,
+        options: NoteOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          if (!text.trim()) throw new Error('Note text is required');
+          await updateLead(command, businessId, {
+            note: {
+              text,
+              ...(options.author ? { author: options.author } : {}),
+            },
+            ...followUpUpdate(options),
+          });
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+
+  lead
+    .command('due')
+    .description('List open leads with a follow-up due')
+    .option(
+      '--date <date>',
+      'Include follow-ups on or before this date (default: today)'
+    )
+    .option('--owner <name>', 'Only leads assigned to this owner')
+    .option('--json', 'Print due leads as JSON')
+    .action(async (options: DueOptions, command: Command): Promise<void> => {
+      try {
+        const date = options.date
+          ? parseFollowUp(options.date)
+          : formatLocalDate(new Date());
+        if (date === null) throw new Error('--date needs a date');
+        const prospects = new Map(
+          (await openStore(command).list()).map((p) => [p.id, p])
+        );
+        const due = dueLeads(await openLeads(command).list(), date).filter(
+          ([, lead]) => !options.owner || lead.owner === options.owner
+        );
+
+        if (options.json) {
+          console.log(
+            JSON.stringify(
+              due.map(([id, lead]) => ({
+                id,
+                name: prospects.get(id)?.name ?? null,
+                ...lead,
+              })),
+              null,
+              2
+            )
+          );
+        } else if (due.length === 0) {
+          console.log(`No follow-ups due by ${date}.`);
+        } else {
+          console.log(
+            formatTable(due, [
+              { header: 'FOLLOW-UP', value: ([, lead]) => lead.followUp ?? '' },
+              { header: 'ID', value: ([id]) => id },
+              {
+                header: 'NAME',
+                value: ([id]) => prospects.get(id)?.name ?? '',
+              },
+              { header: 'STATUS', value: ([, lead]) => lead.status },
+              { header: 'OWNER', value: ([, lead]) => lead.owner ?? '' },
+              {
+                header: 'LAST NOTE',
+                value: ([, lead]) => lead.notes.at(-1)?.text ?? '',
+              },
+            ])
+          );
+        }
+      } catch (error) {
+        reportError(error);
+      }
+    });
+
+  lead
+    .command('show')
+    .description("Show a prospect's status, owner, follow-up and notes")
+    .argument('<businessId>', 'Business ID')
+    .action(
+      async (
+        businessId: string,
+        _options: object,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const found = await openLeads(command).get(businessId);
+          if (!found && !(await openStore(command).get(businessId))) {
+            throw new Error(`Business ${businessId} not found`);
+          }
+          console.log(
+            JSON.stringify(found ?? { status: 'new', notes: [] }, null, 2)
+          );
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
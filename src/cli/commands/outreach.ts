@@ -0,0 +1,191 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Command } from 'commander';
+import {
+  DEFAULT_OUTREACH_TEMPLATES,
+  OUTREACH_STEPS,
+  readOutreachTemplates,
+  renderCallScript,
+  renderOutreachEmail,
+} from '../../core/outreach/index.js';
+import type { OutreachStep, RenderedEmail } from '../../core/outreach/index.js';
+import {
+  findProspect,
+  openLeads,
+  reportError,
+  resolveConfig,
+} from '../context.js';
+import { logInfo, logWarn } from '../log.js';
+
+const OUTREACH_FORMATS = ['text', 'html', 'json'] as const;
+
+type OutreachFormat = (typeof OUTREACH_FORMATS)[number];
+
+interface OutreachOptions {
+  input?: string;
+  step?: string;
+  variant?: string;
+  templates?: string;
+  format: string;
+  callScript?: boolean;
+  output?: string;
+}
+
+function parseSteps(value: string | undefined): OutreachStep[] {
+  if (!value || value === 'all') return [...OUTREACH_STEPS];
+  if (!(OUTREACH_STEPS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unknown step "${value}". Use one of: ${OUTREACH_STEPS.join(', ')}, all`
+    );
+  }
+  return [value as OutreachStep];
+}
+
+function parseOutreachFormat(value: string): OutreachFormat {
+  if (!(OUTREACH_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unsupported format "${value}". Use one of: ${OUTREACH_FORMATS.join(', ')}`
+    );
+  }
+  return value as OutreachFormat;
+}
+
+function warnMissing(name: string, missing: string[]): void {
+  for (const field of missing) {
+    logWarn(
+      field.startsWith('sender.')
+        ? `Warning: ${name} uses ${field}; set outreach.${field} in the config file`
+        : `Warning: ${name} uses ${field}, which this prospect does not have`
+    );
+  }
+}
+
+function formatEmail(email: RenderedEmail, format: OutreachFormat): string {
+  const heading = `== ${email.step} (variant ${email.variant}) ==`;
+  return format === 'html'
+    ? `<!-- ${heading} -->\n<!-- Subject: ${email.subject} -->\n${email.html}\n`
+    : `${heading}\nSubject: ${email.subject}\n\n${email.text}`;
+}
+
+export function registerOutreachCommand(program: Command): void {
+  program
+    .command('outreach')
+    .description(
+      'Write personalized cold emails and a call script for a prospect'
+    )
+    .argument('<businessId>', 'Business ID to write to')
+    .option(
+      '-i, --input <file>',
+      'Look the ID up in a JSON file instead of the database'
+    )
+    .option(
+      '--step <step>',
+      `Sequence step: ${OUTREACH_STEPS.join(', ')} or all`,
+      'all'
+    )
+    .option(
+      '--variant <name>',
+      'Use this A/B variant instead of the assigned one'
+    )
+    .option(
+      '-t, --templates <file>',
+      'Outreach templates (JSON or YAML; default: config outreach.templates or built-in)'
+    )
+    .option(
+      '-f, --format <format>',
+      `Output format: ${OUTREACH_FORMATS.join(', ')}`,
+      'text'
+    )
+    .option('--call-script', 'Write the phone script instead of emails')
+    .option(
+      '-o, --output <dir>',
+      'Write each message to a file in this directory'
+    )
+    .action(
+      async (
+        businessId: string,
+        options: OutreachOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const format = parseOutreachFormat(options.format);
+          const steps = parseSteps(options.step);
+          const { config } = resolveConfig(command);
+          const templatesPath = options.templates ?? config.outreach.templates;
+          const templates = templatesPath
+            ? readOutreachTemplates(templatesPath)
+            : DEFAULT_OUTREACH_TEMPLATES;
+          const prospect = await findProspect(
+            command,
+            businessId,
+            options.input
+          );
+          if (
+            (await openLeads(command).get(prospect.id))?.status ===
+            'do-not-contact'
+          ) {
+            throw new Error(`${prospect.id} is marked do-not-contact`);
+          }
+          const renderOptions = {
+            templates,
+            sender: config.outreach.sender,
+            ...(options.variant ? { variant: options.variant } : {}),
+          };
+
+          if (options.callScript) {
+            const script = renderCallScript(prospect, renderOptions);
+            warnMissing('the call script', script.missing);
+            if (options.output) {
+              mkdirSync(options.output, { recursive: true });
+              const path = join(
+                options.output,
+                `${prospect.id}-call-script.txt`
+              );
+              writeFileSync(path, script.text, 'utf8');
+              logInfo(`Wrote ${path}`);
+            } else if (format === 'json') {
+              console.log(JSON.stringify(script, null, 2));
+            } else {
+              process.stdout.write(script.text);
+            }
+            return;
+          }
+
+          const emails = steps.map((step) =>
+            renderOutreachEmail(prospect, step, renderOptions)
+          );
+          for (const email of emails) {
+            warnMissing(
+              `${email.step} (variant ${email.variant})`,
+              email.missing
+            );
+          }
+
+          if (options.output) {
+            mkdirSync(options.output, { recursive: true });
+            for (const email of emails) {
+              const base = join(
+                options.output,
+                `${prospect.id}-${email.step}-${email.variant}`
+              );
+              writeFileSync(
+                `${base}.txt`,
+                `Subject: ${email.subject}\n\n${email.text}`,
+                'utf8'
+              );
+              writeFileSync(`${base}.html`, `${email.html}\n`, 'utf8');
+              logInfo(`Wrote ${base}.txt and ${base}.html`);
+            }
+          } else if (format === 'json') {
+            console.log(JSON.stringify(emails, null, 2));
+          } else {
+            console.log(
+              emails.map((email) => formatEmail(email, format)).join('\n')
+            );
+          }
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,108 @@
+import type { Command } from 'commander';
+import { CrmLinkStore } from '../../core/crm/index.js';
+import { applyQuery } from '../../core/query/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { openLeads, openReviews, openStore, reportError } from '../context.js';
+import { formatTable } from '../format.js';
+import type { TableColumn } from '../format.js';
+import { addQueryOptions, resolveQueryOptions } from './query.js';
+import type { QueryOptions } from './query.js';
+
+interface ListOptions extends QueryOptions {
+  json?: boolean;
+}
+
+interface ShowOptions {
+  history?: boolean;
+}
+
+export const PROSPECT_TABLE_COLUMNS: TableColumn<BusinessProspect>[] = [
+  { header: 'ID', value: (p) => p.id },
+  { header: 'NAME', value: (p) => p.name },
+  { header: 'CATEGORY', value: (p) => p.category },
+  { header: 'CITY', value: (p) => `${p.location.city}, ${p.location.state}` },
+  { header: 'RATING', value: (p) => p.rating.toFixed(1), align: 'right' },
+  { header: 'REVIEWS', value: (p) => p.reviewCount, align: 'right' },
+  { header: 'WEBSITE', value: (p) => p.webPresence.websiteType },
+  { header: 'SCORE', value: (p) => p.opportunityScore, align: 'right' },
+];
+
+export function registerProspectCommands(program: Command): void {
+  addQueryOptions(program.command('list'))
+    .description('List prospects saved in the local database')
+    .option('--json', 'Print prospects as JSON')
+    .action(async (options: ListOptions, command: Command): Promise<void> => {
+      try {
+        const stored = await openStore(command).list();
+        const prospects = applyQuery(
+          stored,
+          await resolveQueryOptions(command, options)
+        );
+        if (options.json) {
+          console.log(JSON.stringify(prospects, null, 2));
+        } else if (stored.length === 0) {
+          console.log('No prospects saved yet. Run `search` first.');
+        } else if (prospects.length === 0) {
+          console.log('No saved prospects match the query.');
+        } else {
+          console.log(formatTable(prospects, PROSPECT_TABLE_COLUMNS));
+        }
+      } catch (error) {
+        reportError(error);
+      }
+    });
+
+  program
+    .command('show')
+    .description('Show a saved prospect')
+    .argument('<businessId>', 'Business ID to show')
+    .option('--history', 'Show every saved snapshot, oldest first')
+    .action(
+      async (
+        businessId: string,
+        options: ShowOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const store = openStore(command);
+          const result = options.history
+            ? await store.history(businessId)
+            : await store.get(businessId);
+          if (!result || (Array.isArray(result) && result.length === 0)) {
+            throw new Error(`Business ${businessId} not found`);
+          }
+          console.log(JSON.stringify(result, null, 2));
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+
+  program
+    .command('delete')
+    .description(
+      'Delete a saved prospect, its history, lead, review entry and CRM links'
+    )
+    .argument('<businessId>', 'Business ID to delete')
+    .action(
+      async (
+        businessId: string,
+        _options: object,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const store = openStore(command);
+          if (!(await store.delete(businessId))) {
+            throw new Error(`Business ${businessId} not found`);
+          }
+          // A prospect saved later under the same ID starts afresh
+          await openLeads(command).delete(businessId);
+          await openReviews(command).delete(businessId);
+          await new CrmLinkStore(store.dataDir).delete(businessId);
+          console.log(`Deleted ${businessId}`);
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
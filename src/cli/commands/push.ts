@@ -0,0 +1,196 @@
+import type { Command } from 'commander';
+import {
+  CRM_CONNECTORS,
+  CRM_CONNECTOR_DEFINITIONS,
+  CrmLinkStore,
+  isCrmConnectorName,
+  planPushes,
+  pushPlans,
+} from '../../core/crm/index.js';
+import type {
+  CrmFieldChange,
+  CrmIds,
+  PushPlan,
+  PushResult,
+} from '../../core/crm/index.js';
+import { applyQuery } from '../../core/query/index.js';
+import { createFetchHttpSender } from '../../utils/http.js';
+import {
+  excludeDoNotContact,
+  openStore,
+  reportError,
+  resolveConfig,
+} from '../context.js';
+import { formatTable } from '../format.js';
+import { logError, logInfo } from '../log.js';
+import { selectProspects } from './extract.js';
+import { addQueryOptions, resolveQueryOptions } from './query.js';
+import type { QueryOptions } from './query.js';
+
+interface PushOptions extends QueryOptions {
+  to: string;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+function formatChange(change: CrmFieldChange): string {
+  const field = `${change.object}.${change.field}`;
+  const before = JSON.stringify(change.before);
+  const after = JSON.stringify(change.after);
+  if (change.before === undefined) {
+    return `  + ${field}: ${after}`;
+  }
+  if (change.after === undefined) {
+    return `  - ${field}: ${before}`;
+  }
+  return `  ~ ${field}: ${before} -> ${after}`;
+}
+
+function formatIds(ids: CrmIds): string {
+  return Object.entries(ids)
+    .map(([object, id]) => `${object}=${id}`)
+    .join(' ');
+}
+
+function count(plans: PushPlan[], action: PushPlan['action']): number {
+  return plans.filter((plan) => plan.action === action).length;
+}
+
+function printPlans(plans: PushPlan[], json: boolean): void {
+  if (json) {
+    console.log(
+      JSON.stringify(
+        plans.map(({ prospect, action, changes, link }) => ({
+          id: prospect.id,
+          action,
+          ids: link?.ids ?? {},
+          changes,
+        })),
+        null,
+        2
+      )
+    );
+    return;
+  }
+  for (const plan of plans) {
+    console.log(`${plan.action} ${plan.prospect.id} (${plan.prospect.name})`);
+    for (const change of plan.changes) console.log(formatChange(change));
+  }
+}
+
+function printResults(results: PushResult[], json: boolean): void {
+  if (json) {
+    console.log(
+      JSON.stringify(
+        results.map(({ prospect, action, ids, error }) => ({
+          id: prospect.id,
+          action,
+          ids,
+          ...(error ? { error } : {}),
+        })),
+        null,
+        2
+      )
+    );
+    return;
+  }
+  console.log(
+    formatTable(results, [
+      { header: 'ID', value: (result) => result.prospect.id },
+      { header: 'NAME', value: (result) => result.prospect.name },
+      {
+        header: 'RESULT',
+        value: (result) => (result.error ? 'failed' : result.action),
+      },
+      { header: 'CRM IDS', value: (result) => formatIds(result.ids) },
+    ])
+  );
+}
+
+export function registerPushCommand(program: Command): void {
+  addQueryOptions(program.command('push'))
+    .description(
+      'Push saved prospects to a CRM as companies, contacts and deals'
+    )
+    .argument(
+      '[businessIds...]',
+      'Business IDs to push, or "all" (the default with --where or --query)'
+    )
+    .requiredOption(
+      '--to <connector>',
+      `CRM to push to (${CRM_CONNECTORS.join(', ')})`
+    )
+    .option('--dry-run', 'Show the changes a push would make without pushing')
+    .option('--json', 'Print the plan or results as JSON')
+    .action(
+      async (
+        businessIds: string[],
+        options: PushOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const name = options.to;
+          if (!isCrmConnectorName(name)) {
+            throw new Error(
+              `Unknown connector "${name}". Use one of: ${CRM_CONNECTORS.join(', ')}`
+            );
+          }
+          if (businessIds.length === 0 && !options.where && !options.query) {
+            throw new Error('Give business IDs, "all", --where or --query');
+          }
+
+          const { config } = resolveConfig(command);
+          const store = openStore(command);
+          const prospects = await excludeDoNotContact(
+            command,
+            applyQuery(
+              selectProspects(
+                await store.list(),
+                businessIds.length > 0 ? businessIds : ['all']
+              ),
+              await resolveQueryOptions(command, options)
+            )
+          );
+          const definition = CRM_CONNECTOR_DEFINITIONS[name];
+          const links = new CrmLinkStore(store.dataDir);
+          const mapping = config.crm[name].mapping;
+          const plans = planPushes(prospects, {
+            definition,
+            ...(mapping ? { mapping } : {}),
+            links: await links.list(name),
+          });
+
+          if (options.dryRun) {
+            printPlans(plans, options.json ?? false);
+            logInfo(
+              `Dry run for ${definition.label}: ${count(plans, 'create')} to create, ${count(plans, 'update')} to update, ${count(plans, 'unchanged')} unchanged`
+            );
+            return;
+          }
+
+          const { offline } = command.optsWithGlobals<{ offline?: boolean }>();
+          if (offline) {
+            throw new Error('push needs the network; use --dry-run offline');
+          }
+          const connector = definition.create(config.crm, {
+            sender: createFetchHttpSender(),
+            request: { maxRetries: config.rateLimit.maxRetries },
+          });
+          const results = await pushPlans(plans, { connector, links });
+          printResults(results, options.json ?? false);
+
+          const failed = results.filter((result) => result.error);
+          for (const result of failed) {
+            logError(`${result.prospect.id}: ${result.error}`);
+          }
+          const done = results.filter((result) => !result.error);
+          logInfo(
+            `Pushed to ${definition.label}: ${count(done, 'create')} created, ${count(done, 'update')} updated, ${count(done, 'unchanged')} unchanged, ${failed.length} failed`
+          );
+          if (failed.length > 0) process.exitCode = 1;
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
@@ -0,0 +1,150 @@
+import type { Command } from 'commander';
+import { QUERY_FIELDS } from '../../core/query/index.js';
+import type { ProspectQuery } from '../../core/query/index.js';
+import { openSavedQueries, reportError } from '../context.js';
+import { formatTable } from '../format.js';
+
+export interface QueryOptions {
+  where?: string;
+  sort?: string;
+  limit?: string;
+  query?: string;
+}
+
+function parseLimit(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid --limit "${value}"`);
+  }
+  return limit;
+}
+
+function fromOptions(options: QueryOptions): ProspectQuery {
+  const limit = parseLimit(options.limit);
+  return {
+    ...(options.where ? { where: options.where } : {}),
+    ...(options.sort ? { sort: options.sort } : {}),
+    ...(limit !== undefined ? { limit } : {}),
+  };
+}
+
+/**
+ * Add `--where`, `--sort`, `--limit` and `--query` to a command that lists
+ * prospects.
+ */
+export function addQueryOptions(command: Command): Command {
+  return command
+    .option(
+      '-w, --where <expr>',
+      'Filter, e.g. "rating >= 4.3 and website in (none, facebook)"'
+    )
+    .option('--sort <spec>', 'Sort fields, e.g. "score:desc,reviews:desc"')
+    .option('-l, --limit <count>', 'Maximum number of prospects')
+    .option('-q, --query <name>', 'Start from a saved query');
+}
+
+/**
+ * The saved query named by `--query`, if any, with `--where`, `--sort` and
+ * `--limit` given on the command line taking precedence.
+ */
+export async function resolveQueryOptions(
+  command: Command,
+  options: QueryOptions
+): Promise<ProspectQuery> {
+  const saved = options.query
+    ? await openSavedQueries(command).get(options.query)
+    : {};
+  return { ...saved, ...fromOptions(options) };
+}
+
+export function registerQueryCommand(program: Command): void {
+  const query = program
+    .command('query')
+    .description('Manage saved prospect queries for list and extract');
+
+  query
+    .command('save')
+    .description('Save a filter, sort and limit under a name')
+    .argument('<name>', 'Name to save the query as')
+    .option('-w, --where <expr>', 'Filter expression')
+    .option('--sort <spec>', 'Sort fields')
+    .option('-l, --limit <count>', 'Maximum number of prospects')
+    .action(
+      async (
+        name: string,
+        options: QueryOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          await openSavedQueries(command).save(name, fromOptions(options));
+          console.log(`Saved query "${name}"`);
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+
+  query
+    .command('list')
+    .description('List saved queries')
+    .option('--json', 'Print saved queries as JSON')
+    .action(
+      async (options: { json?: boolean }, command: Command): Promise<void> => {
+        try {
+          const queries = await openSavedQueries(command).list();
+          const rows = Object.entries(queries);
+          if (options.json) {
+            console.log(JSON.stringify(queries, null, 2));
+          } else if (rows.length === 0) {
+            console.log('No saved queries. Use `query save` to add one.');
+          } else {
+            console.log(
+              formatTable(rows, [
+                { header: 'NAME', value: ([name]) => name },
+                { header: 'WHERE', value: ([, saved]) => saved.where ?? '' },
+                { header: 'SORT', value: ([, saved]) => saved.sort ?? '' },
+                {
+                  header: 'LIMIT',
+                  value: ([, saved]) => saved.limit ?? '',
+                  align: 'right',
+                },
+              ])
+            );
+          }
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+
+  query
+    .command('delete')
+    .description('Delete a saved query')
+    .argument('<name>', 'Saved query to delete')
+    .action(
+      async (
+        name: string,
+        _options: object,
+        command: Command
+      ): Promise<void> => {
+        try {
+          if (!(await openSavedQueries(command).delete(name))) {
+            throw new Error(`No saved query named "${name}"`);
+          }
+          console.log(`Deleted query "${name}"`);
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+
+  query
+    .command('fields')
+    .description('List the fields filters and sorts can use')
+    .action((): void => {
+      for (const [field, { type }] of Object.entries(QUERY_FIELDS)) {
+        console.log(`${field} (${type})`);
+      }
+    });
+}
@@ -0,0 +1,182 @@
+import { writeFileSync } from 'fs';
+import type { Command } from 'commander';
+import { createDefaultRegistry } from '../../core/prospector/index.js';
+import { applyQuery } from '../../core/query/index.js';
+import {
+  DEFAULT_QUALIFY_FILTER,
+  buildChangeReport,
+  rescanProspects,
+  saveChangeReport,
+} from '../../core/rescan/index.js';
+import type {
+  ChangeReport,
+  FieldChange,
+  ReportedProspect,
+  TrackedField,
+} from '../../core/rescan/index.js';
+import { applyScore } from '../../core/scorer/index.js';
+import { openStore, reportError, resolveConfig } from '../context.js';
+import { formatTable } from '../format.js';
+import { logInfo, logWarn } from '../log.js';
+import { selectProspects } from './extract.js';
+import { addQueryOptions, resolveQueryOptions } from './query.js';
+import type { QueryOptions } from './query.js';
+import { resolveProfileOption } from './score.js';
+
+interface RescanOptions extends QueryOptions {
+  source?: string;
+  fixture?: string;
+  profile?: string;
+  qualify: string;
+  newlyQualified?: boolean;
+  output?: string;
+  json?: boolean;
+  save: boolean;
+}
+
+// The short names `--where` accepts for the tracked fields
+const FIELD_LABELS: Record<TrackedField, string> = {
+  rating: 'rating',
+  reviewCount: 'reviews',
+  'webPresence.websiteType': 'website',
+  opportunityScore: 'score',
+};
+
+function formatChange(change: FieldChange): string {
+  const delta =
+    change.delta !== undefined
+      ? ` (${change.delta > 0 ? '+' : ''}${change.delta})`
+      : '';
+  return `${FIELD_LABELS[change.field]} ${change.before} -> ${change.after}${delta}`;
+}
+
+function formatQualified({ qualified }: ReportedProspect): string {
+  if (qualified.after) return qualified.before ? 'yes' : 'new';
+  return qualified.before ? 'lost' : 'no';
+}
+
+function printReport(report: ChangeReport, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  if (report.prospects.length > 0) {
+    console.log(
+      formatTable(report.prospects, [
+        { header: 'ID', value: (prospect) => prospect.id },
+        { header: 'NAME', value: (prospect) => prospect.name },
+        { header: 'QUALIFIED', value: formatQualified },
+        {
+          header: 'CHANGES',
+          value: (prospect) => prospect.changes.map(formatChange).join(', '),
+        },
+      ])
+    );
+  }
+  for (const missing of report.missing) {
+    console.log(`missing ${missing.id} (${missing.name})`);
+  }
+}
+
+export function registerRescanCommand(program: Command): void {
+  addQueryOptions(program.command('rescan'))
+    .description(
+      'Re-fetch saved prospects and report rating, review, website and score changes'
+    )
+    .argument('[businessIds...]', 'Business IDs to rescan (default: all)')
+    .option(
+      '-s, --source <name>',
+      'Business source provider (default: config defaultSource)'
+    )
+    .option('--fixture <file>', 'JSON file backing the fixture source')
+    .option('-p, --profile <file>', 'Scoring profile (JSON or YAML)')
+    .option(
+      '--qualify <expr>',
+      'Filter a prospect must match to qualify',
+      DEFAULT_QUALIFY_FILTER
+    )
+    .option(
+      '--newly-qualified',
+      'Only report prospects that qualify now but did not before'
+    )
+    .option('-o, --output <file>', 'Also write the change report to a file')
+    .option('--json', 'Print the change report as JSON')
+    .option('--no-save', 'Do not save the new snapshots or the report')
+    .action(
+      async (
+        businessIds: string[],
+        options: RescanOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const { config } = resolveConfig(command);
+          const profile = resolveProfileOption(options.profile, config);
+          const provider = createDefaultRegistry(
+            options.fixture ? { fixturePath: options.fixture } : {}
+          ).get(options.source ?? config.defaultSource);
+          const store = openStore(command);
+          const stored = applyQuery(
+            selectProspects(
+              await store.list(),
+              businessIds.length > 0 ? businessIds : ['all']
+            ),
+            await resolveQueryOptions(command, options)
+          );
+          logInfo(
+            `Rescanning ${stored.length} prospect(s) via ${provider.name}`
+          );
+
+          const result = await rescanProspects(stored, {
+            provider,
+            qualify: options.qualify,
+            score: (prospect) => applyScore(prospect, profile),
+            onSearch: (query, found) =>
+              logInfo(
+                `  ${query.industry} in ${query.location}: ${found} found`
+              ),
+          });
+          for (const rejected of result.rejected) {
+            logWarn(
+              `Skipped invalid record from ${provider.name}: ${rejected.issues.join('; ')}`
+            );
+          }
+
+          const report = buildChangeReport(result, {
+            source: provider.name,
+            qualify: options.qualify,
+          });
+          if (options.save) {
+            await store.upsert(result.prospects.map((change) => change.after));
+            const path = await saveChangeReport(store.dataDir, report);
+            logInfo(`Saved snapshots and report to ${path}`);
+          }
+          if (options.output) {
+            writeFileSync(
+              options.output,
+              `${JSON.stringify(report, null, 2)}\n`,
+              'utf8'
+            );
+          }
+
+          const { summary } = report;
+          logInfo(
+            `${summary.scanned} scanned: ${summary.changed} changed, ${summary.newlyQualified} newly qualified, ${summary.noLongerQualified} no longer qualified, ${summary.missing} missing`
+          );
+          printReport(
+            options.newlyQualified
+              ? {
+                  ...report,
+                  prospects: report.prospects.filter(
+                    (prospect) => prospect.newlyQualified
+                  ),
+                  missing: [],
+                }
+              : report,
+            options.json ?? false
+          );
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
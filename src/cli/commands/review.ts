@@ -0,0 +1,360 @@
+import { createInterface, emitKeypressEvents } from 'readline';
+import type { Key } from 'readline';
+import type { Command } from 'commander';
+import { EXPORT_FORMATS, writeProspects } from '../../core/exporter/index.js';
+import type { ExportFormat } from '../../core/exporter/index.js';
+import { withoutDoNotContact } from '../../core/leads/index.js';
+import { applyQuery, parseSort } from '../../core/query/index.js';
+import {
+  DEFAULT_REVIEW_SORT,
+  REVIEW_COLUMNS,
+  REVIEW_SCRIPT_HELP,
+  ReviewSession,
+  applyReviewCommand,
+  formatReviewDetail,
+  parseReviewCommand,
+  renderReviewScreen,
+} from '../../core/review/index.js';
+import type { ReviewStore } from '../../core/review/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import {
+  loadProspects,
+  openLeads,
+  openReviews,
+  reportError,
+  resolveConfig,
+} from '../context.js';
+import { formatTable } from '../format.js';
+import type { TableColumn } from '../format.js';
+import { logInfo } from '../log.js';
+import { parseFormat, selectProspects, withOutput } from './extract.js';
+import { addQueryOptions, resolveQueryOptions } from './query.js';
+import type { QueryOptions } from './query.js';
+
+interface ReviewOptions extends QueryOptions {
+  input?: string;
+  format?: string;
+  output?: string;
+}
+
+interface ExportSettings {
+  format: ExportFormat;
+  fields?: string[];
+  output?: string;
+}
+
+const ALTERNATE_SCREEN = '\u001b[?1049h\u001b[?25l';
+const MAIN_SCREEN = '\u001b[?25h\u001b[?1049l';
+const CLEAR = '\u001b[H\u001b[2J';
+
+function scriptColumns(
+  session: ReviewSession
+): TableColumn<BusinessProspect>[] {
+  return [
+    { header: 'ID', value: (p) => p.id },
+    {
+      header: 'REVIEW',
+      value: (p) => session.entry(p.id)?.decision ?? '',
+    },
+    ...REVIEW_COLUMNS.map(({ header, value, align }) => ({
+      header,
+      value,
+      ...(align ? { align } : {}),
+    })),
+    {
+      header: 'TAGS',
+      value: (p) => session.entry(p.id)?.tags.join(', ') ?? '',
+    },
+  ];
+}
+
+/**
+ * Write the marked prospects, leaving out any marked do-not-contact since,
+ * and describe what was written.
+ */
+async function exportMarked(
+  command: Command,
+  session: ReviewSession,
+  settings: ExportSettings
+): Promise<string> {
+  const marked = session.marked();
+  const prospects = withoutDoNotContact(
+    marked,
+    await openLeads(command).list()
+  );
+  await withOutput(settings.output, (stream) =>
+    writeProspects(
+      prospects,
+      settings.format,
+      stream,
+      settings.fields ? { fields: settings.fields } : {}
+    )
+  );
+  const excluded = marked.length - prospects.length;
+  return `Exported ${prospects.length} marked prospect(s) as ${settings.format}${settings.output ? ` to ${settings.output}` : ''}${excluded > 0 ? ` (${excluded} do-not-contact left out)` : ''}`;
+}
+
+/**
+ * Run review commands from stdin, one per line, unless stdin is a terminal.
+ * Nothing is saved when a line fails. Prints the table when there are no
+ * commands.
+ */
+async function runScript(
+  command: Command,
+  session: ReviewSession,
+  store: ReviewStore,
+  settings: ExportSettings
+): Promise<void> {
+  let lineNumber = 0;
+  let ran = 0;
+  const lines = process.stdin.isTTY
+    ? []
+    : createInterface({ input: process.stdin, crlfDelay: Infinity });
+  for await (const line of lines) {
+    lineNumber++;
+    let parsed;
+    try {
+      parsed = parseReviewCommand(line);
+      if (!parsed || applyReviewCommand(session, parsed)) {
+        ran += parsed ? 1 : 0;
+        continue;
+      }
+    } catch (error) {
+      throw new Error(
+        `Line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    ran++;
+    switch (parsed.type) {
+      case 'list':
+        console.log(formatTable(session.rows, scriptColumns(session)));
+        break;
+      case 'show': {
+        const prospect = session.find(parsed.id);
+        console.log(
+          formatReviewDetail(prospect, session.entry(prospect.id)).join('\n')
+        );
+        break;
+      }
+      case 'export':
+        if (settings.format === 'xlsx' && !settings.output) {
+          throw new Error('XLSX output needs --output <file>');
+        }
+        logInfo(await exportMarked(command, session, settings));
+        break;
+    }
+  }
+
+  if (ran === 0) {
+    console.log(formatTable(session.rows, scriptColumns(session)));
+  }
+  await store.save(session.entries);
+  const counts = session.counts();
+  logInfo(
+    `${counts.marked} marked, ${counts.rejected} rejected of ${session.prospects.length} prospect(s)`
+  );
+}
+
+/**
+ * Full-screen table on the terminal's alternate screen. Every mark,
+ * rejection and tag is saved as it is made.
+ */
+async function runInteractive(
+  command: Command,
+  session: ReviewSession,
+  store: ReviewStore,
+  settings: ExportSettings
+): Promise<void> {
+  const { stdin, stdout } = process;
+  let status: string | undefined;
+  // The tag being typed after `t`, undefined when not prompting
+  let tagInput: string | undefined;
+  let saving = Promise.resolve();
+
+  const draw = (): void => {
+    const lines = renderReviewScreen(session, {
+      width: stdout.columns,
+      height: stdout.rows,
+      ...(tagInput !== undefined
+        ? { status: `Tag (Enter to toggle, Esc to cancel): ${tagInput}` }
+        : status
+          ? { status }
+          : {}),
+    });
+    stdout.write(`${CLEAR}${lines.join('\n')}`);
+  };
+  const save = (): void => {
+    saving = saving
+      .then(() => store.save(session.entries))
+      .catch((error: unknown) => {
+        status = `Could not save: ${error instanceof Error ? error.message : String(error)}`;
+        draw();
+      });
+  };
+  const pageSize = (): number => Math.max(1, stdout.rows - 12);
+
+  emitKeypressEvents(stdin);
+  stdin.setRawMode(true);
+  stdout.write(ALTERNATE_SCREEN);
+  try {
+    await new Promise<void>((resolve) => {
+      const onKey = (text: string | undefined, key: Key = {}): void => {
+        status = undefined;
+        if (tagInput !== undefined) {
+          if (key.name === 'return') {
+            if (tagInput.trim()) {
+              session.toggleTag(tagInput);
+              save();
+            }
+            tagInput = undefined;
+          } else if (key.name === 'escape') {
+            tagInput = undefined;
+          } else if (key.name === 'backspace') {
+            tagInput = tagInput.slice(0, -1);
+          } else if (text && !key.ctrl && !key.meta && text >= ' ') {
+            tagInput += text;
+          }
+          draw();
+          return;
+        }
+
+        switch (key.ctrl && key.name === 'c' ? 'q' : (key.name ?? text)) {
+          case 'up':
+          case 'k':
+            session.move(-1);
+            break;
+          case 'down':
+          case 'j':
+            session.move(1);
+            break;
+          case 'pageup':
+            session.move(-pageSize());
+            break;
+          case 'pagedown':
+            session.move(pageSize());
+            break;
+          case 'home':
+            session.moveTo(0);
+            break;
+          case 'end':
+            session.moveTo(session.rows.length - 1);
+            break;
+          case 's':
+            session.nextSort();
+            break;
+          case 'r':
+            session.reverseSort();
+            break;
+          case 'v':
+            session.nextView();
+            break;
+          case 'm':
+            session.toggleDecision('marked');
+            save();
+            break;
+          case 'x':
+            session.toggleDecision('rejected');
+            save();
+            break;
+          case 't':
+            if (session.current) tagInput = '';
+            break;
+          case 'e':
+            if (!settings.output) {
+              status = 'Run review with --output <file> to export';
+            } else {
+              status = 'Exporting…';
+              exportMarked(command, session, settings).then(
+                (message) => {
+                  status = message;
+                  draw();
+                },
+                (error: unknown) => {
+                  status = `Export failed: ${error instanceof Error ? error.message : String(error)}`;
+                  draw();
+                }
+              );
+            }
+            break;
+          case 'q':
+            stdin.off('keypress', onKey);
+            stdout.off('resize', draw);
+            resolve();
+            return;
+        }
+        draw();
+      };
+      stdin.on('keypress', onKey);
+      stdout.on('resize', draw);
+      draw();
+    });
+    await saving;
+  } finally {
+    stdout.write(MAIN_SCREEN);
+    stdin.setRawMode(false);
+    stdin.pause();
+  }
+  const counts = session.counts();
+  logInfo(
+    `${counts.marked} marked, ${counts.rejected} rejected of ${session.prospects.length} prospect(s)`
+  );
+}
+
+export function registerReviewCommand(program: Command): void {
+  addQueryOptions(program.command('review'))
+    .description(
+      'Triage prospects in a sortable table: mark, reject, tag and export'
+    )
+    .argument('[businessIds...]', 'Business IDs to review (default: all)')
+    .option('-i, --input <file>', 'Review a JSON file instead of the database')
+    .option(
+      '-f, --format <format>',
+      `Export format (${EXPORT_FORMATS.join(', ')}; default: config export.format)`
+    )
+    .option(
+      '-o, --output <file>',
+      'Export the marked prospects to this file (scripted default: stdout)'
+    )
+    .addHelpText(
+      'after',
+      `\nKeys: arrows or j/k move, s/r sort, v view, m mark, x reject, t tag,\ne export, q quit.\n\nWhen stdin is not a terminal, commands are read from it, one per line:\n${REVIEW_SCRIPT_HELP.replace(/^/gm, '  ')}`
+    )
+    .action(
+      async (
+        businessIds: string[],
+        options: ReviewOptions,
+        command: Command
+      ): Promise<void> => {
+        try {
+          const { config } = resolveConfig(command);
+          const settings: ExportSettings = {
+            format: parseFormat(options.format ?? config.export.format),
+            ...(config.export.fields ? { fields: config.export.fields } : {}),
+            ...(options.output ? { output: options.output } : {}),
+          };
+          const query = await resolveQueryOptions(command, options);
+          const prospects = applyQuery(
+            selectProspects(
+              await loadProspects(command, options.input),
+              businessIds.length > 0 ? businessIds : ['all']
+            ),
+            query
+          );
+          const store = openReviews(command);
+          const session = new ReviewSession(
+            prospects,
+            await store.list(),
+            parseSort(query.sort ?? DEFAULT_REVIEW_SORT)
+          );
+
+          if (process.stdin.isTTY && process.stdout.isTTY) {
+            await runInteractive(command, session, store, settings);
+          } else {
+            await runScript(command, session, store, settings);
+          }
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
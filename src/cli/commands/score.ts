@@ -0,0 +1,92 @@
+import type { Command } from 'commander';
+import { readProspectsFile } from '../../core/normalizer/index.js';
+import {
+  DEFAULT_SCORING_PROFILE,
+  loadScoringProfile,
+  resolveScoringProfile,
+  scoreProspect,
+} from '../../core/scorer/index.js';
+import type {
+  ProspectorConfig,
+  ScoreBreakdown,
+  ScoringProfile,
+} from '../../types/index.js';
+import { reportError, resolveConfig } from '../context.js';
+
+interface ScoreOptions {
+  profile?: string;
+  json?: boolean;
+}
+
+/**
+ * The `--profile` file when given. Otherwise the configured profile (or the
+ * default one) with the configured weights laid over it.
+ */
+export function resolveProfileOption(
+  path: string | undefined,
+  config: ProspectorConfig
+): ScoringProfile {
+  if (path) return loadScoringProfile(path);
+  const { profile, weights } = config.scoring;
+  const base = profile ? loadScoringProfile(profile) : DEFAULT_SCORING_PROFILE;
+  return weights ? resolveScoringProfile({ weights }, base) : base;
+}
+
+function formatBreakdown(
+  name: string,
+  id: string,
+  breakdown: ScoreBreakdown
+): string {
+  const lines = [`${String(breakdown.score).padStart(3)}  ${name} (${id})`];
+  for (const factor of breakdown.factors) {
+    lines.push(
+      `       ${factor.factor.padEnd(15)}${factor.points.toFixed(1).padStart(5)} pts  ${factor.reason}`
+    );
+  }
+  return lines.join('\n');
+}
+
+export function registerScoreCommand(program: Command): void {
+  program
+    .command('score')
+    .description('Compute opportunity scores with a per-factor breakdown')
+    .argument('<file>', 'JSON file of prospects (e.g., saved search output)')
+    .option('-p, --profile <file>', 'Scoring profile (JSON or YAML)')
+    .option('--json', 'Print scores and breakdowns as JSON')
+    .action((file: string, options: ScoreOptions, command: Command): void => {
+      try {
+        const profile = resolveProfileOption(
+          options.profile,
+          resolveConfig(command).config
+        );
+        const scored = readProspectsFile(file)
+          .map((prospect) => ({
+            prospect,
+            breakdown: scoreProspect(prospect, profile),
+          }))
+          .sort((a, b) => b.breakdown.score - a.breakdown.score);
+
+        if (options.json) {
+          console.log(
+            JSON.stringify(
+              scored.map(({ prospect, breakdown }) => ({
+                id: prospect.id,
+                name: prospect.name,
+                ...breakdown,
+              })),
+              null,
+              2
+            )
+          );
+          return;
+        }
+
+        console.log(`Scoring profile: ${profile.name}`);
+        for (const { prospect, breakdown } of scored) {
+          console.log(formatBreakdown(prospect.name, prospect.id, breakdown));
+        }
+      } catch (error) {
+        reportError(error);
+      }
+    });
+}
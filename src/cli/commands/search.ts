@@ -0,0 +1,206 @@
+import type { Command } from 'commander';
+import { geocodeOffline } from '../../core/normalizer/index.js';
+import {
+  SearchAreaError,
+  circleArea,
+  createDefaultRegistry,
+  parseCoordinates,
+  parseDistance,
+  readAreaFile,
+  searchArea,
+  searchBusinesses,
+  withinDistance,
+} from '../../core/prospector/index.js';
+import type {
+  BusinessSourceProvider,
+  SearchArea,
+  SearchQuery,
+  SearchResult,
+} from '../../core/prospector/index.js';
+import type { Coordinates } from '../../utils/geo.js';
+import { applyScore } from '../../core/scorer/index.js';
+import { openStore, reportError, resolveConfig } from '../context.js';
+import { logInfo, logWarn } from '../log.js';
+import { resolveProfileOption } from './score.js';
+
+interface SearchOptions {
+  source?: string;
+  fixture?: string;
+  limit?: string;
+  profile?: string;
+  center?: string;
+  radius?: string;
+  grid?: string;
+  area?: string;
+  maxDistance?: string;
+  save: boolean;
+}
+
+/**
+ * The `--center` coordinates, or the offline centroid of a "City, ST"
+ * location.
+ */
+function resolveCenter(location: string, options: SearchOptions): Coordinates {
+  if (options.center) return parseCoordinates(options.center);
+  const [city = '', state = ''] = location
+    .split(',')
+    .map((part) => part.trim());
+  const found = geocodeOffline({ city, state });
+  if (!found) {
+    throw new SearchAreaError(
+      `No coordinates known for "${location}"; pass --center <lat,lng>`
+    );
+  }
+  return { latitude: found.latitude, longitude: found.longitude };
+}
+
+function resolveArea(
+  location: string,
+  options: SearchOptions
+): SearchArea | undefined {
+  if (options.area) return readAreaFile(options.area);
+  if (options.radius) {
+    return circleArea(
+      resolveCenter(location, options),
+      parseDistance(options.radius)
+    );
+  }
+  if (options.grid) {
+    throw new SearchAreaError('--grid needs --radius or --area');
+  }
+  return undefined;
+}
+
+/**
+ * Search the whole area cell by cell when one is given, otherwise run a
+ * single search for the free-text location.
+ */
+async function runSearch(
+  provider: BusinessSourceProvider,
+  query: SearchQuery,
+  area: SearchArea | undefined,
+  options: SearchOptions
+): Promise<SearchResult> {
+  if (!area) return searchBusinesses(provider, query);
+
+  const gridSize = options.grid ? Number(options.grid) : 1;
+  const result = await searchArea(provider, query, area, {
+    gridSize,
+    onCell: (index, total, cell) =>
+      logInfo(`[cell ${index + 1}/${total}] ${cell.prospects.length} found`),
+  });
+  logInfo(
+    `Searched ${result.cells.length} cell(s): merged ${result.duplicates} duplicate(s), dropped ${result.outsideArea} outside the area`
+  );
+  return result;
+}
+
+export function registerSearchCommand(program: Command): void {
+  program
+    .command('search')
+    .description('Find businesses by industry and location')
+    .argument(
+      '<industry>',
+      'Industry to search for (e.g., "cleaning services")'
+    )
+    .argument('<location>', 'Location to search in (e.g., "Tampa, FL")')
+    .option(
+      '-s, --source <name>',
+      'Business source provider (default: config defaultSource)'
+    )
+    .option('--fixture <file>', 'JSON file backing the fixture source')
+    .option('-l, --limit <count>', 'Maximum number of results')
+    .option('-p, --profile <file>', 'Scoring profile (JSON or YAML)')
+    .option(
+      '--center <lat,lng>',
+      "Center point (default: the location's city centroid)"
+    )
+    .option(
+      '--radius <distance>',
+      'Search within this distance of the center (e.g. 10mi, 15km)'
+    )
+    .option(
+      '--grid <size>',
+      'Split the radius or area into size x size overlapping cells'
+    )
+    .option('--area <file>', 'Search a GeoJSON Polygon/MultiPolygon territory')
+    .option(
+      '--max-distance <distance>',
+      'Keep only businesses within this distance of the center'
+    )
+    .option('--no-save', 'Do not save results to the local database')
+    .action(
+      async (
+        industry: string,
+        location: string,
+        options: SearchOptions,
+        command: Command
+      ): Promise<void> => {
+        // Status goes to stderr so stdout stays pipeable JSON
+        logInfo(`Searching for "${industry}" businesses in "${location}"`);
+
+        try {
+          const { config } = resolveConfig(command);
+          const profile = resolveProfileOption(options.profile, config);
+          const registry = createDefaultRegistry(
+            options.fixture ? { fixturePath: options.fixture } : {}
+          );
+          const provider = registry.get(options.source ?? config.defaultSource);
+          const limit = options.limit ? Number(options.limit) : undefined;
+          if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+            throw new Error(`Invalid --limit "${options.limit}"`);
+          }
+
+          const area = resolveArea(location, options);
+          const maxDistance = options.maxDistance
+            ? parseDistance(options.maxDistance)
+            : undefined;
+
+          const result = await runSearch(
+            provider,
+            {
+              industry,
+              location,
+              ...(limit !== undefined ? { limit } : {}),
+            },
+            area,
+            options
+          );
+
+          for (const rejected of result.rejected) {
+            logWarn(
+              `Skipped invalid record from ${result.source}: ${rejected.issues.join('; ')}`
+            );
+          }
+          const prospects =
+            maxDistance !== undefined
+              ? withinDistance(
+                  result.prospects,
+                  area?.kind === 'circle'
+                    ? area.center
+                    : resolveCenter(location, options),
+                  maxDistance
+                )
+              : result.prospects;
+          logInfo(
+            `Found ${prospects.length} business(es) via ${result.source}`
+          );
+
+          const scored = prospects
+            .map((prospect) => applyScore(prospect, profile))
+            .sort((a, b) => b.opportunityScore - a.opportunityScore);
+
+          if (options.save && scored.length > 0) {
+            const store = openStore(command);
+            const saved = await store.upsert(scored);
+            logInfo(
+              `Saved to ${store.dataDir} (${saved.inserted} new, ${saved.updated} updated)`
+            );
+          }
+          console.log(JSON.stringify(scored, null, 2));
+        } catch (error) {
+          reportError(error);
+        }
+      }
+    );
+}
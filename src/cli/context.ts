@@ -0,0 +1,176 @@
+import type { Command } from 'commander';
+import { join } from 'path';
+import { AuditLog, ComplianceGuard } from '../core/compliance/index.js';
+import { loadConfig } from '../core/config/index.js';
+import type { LoadedConfig } from '../core/config/index.js';
+import { createHttpLayer } from '../core/http/index.js';
+import type { HttpLayer, HttpMetrics } from '../core/http/index.js';
+import { LeadStore, withoutDoNotContact } from '../core/leads/index.js';
+import { readProspectsFile } from '../core/normalizer/index.js';
+import { SavedQueryStore } from '../core/query/index.js';
+import { ReviewStore } from '../core/review/index.js';
+import { ProspectStore } from '../core/store/index.js';
+import type { BusinessProspect } from '../types/index.js';
+import { logInfo } from './log.js';
+
+interface GlobalOptions {
+  dataDir?: string;
+  config?: string;
+  offline?: boolean;
+  cache: boolean;
+  allowDomains?: string;
+  denyDomains?: string;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Load the config, using the file given by the global `--config` option and
+ * letting `--data-dir` override the configured data directory.
+ */
+export function resolveConfig(command: Command): LoadedConfig {
+  const { dataDir, config } = command.optsWithGlobals<GlobalOptions>();
+  return loadConfig({
+    ...(config ? { configPath: config } : {}),
+    overrides: dataDir ? { dataDir } : {},
+  });
+}
+
+/**
+ * The rate-limited, retrying, caching HTTP client every network fetch goes
+ * through, set up from the config and the global `--offline` and
+ * `--no-cache` options.
+ */
+export function createHttp(command: Command): HttpLayer {
+  const { offline, cache } = command.optsWithGlobals<GlobalOptions>();
+  const { config } = resolveConfig(command);
+  const { requestsPerSecond, burst, maxRetries } = config.rateLimit;
+  return createHttpLayer({
+    requestsPerSecond,
+    ...(burst !== undefined ? { burst } : {}),
+    maxRetries,
+    // Offline mode reads the cache even when caching new responses is off
+    ...((cache && config.cache.enabled) || offline
+      ? {
+          cache: {
+            dir: join(config.dataDir, 'http-cache'),
+            ttlMs: config.cache.ttlSeconds * 1000,
+          },
+        }
+      : {}),
+    offline: offline ?? false,
+  });
+}
+
+/**
+ * Guard that checks website fetches against robots.txt and the global
+ * `--allow-domains` and `--deny-domains` lists, logging each URL to
+ * `audit.ndjson` in the data directory.
+ */
+export function createComplianceGuard(
+  command: Command,
+  http: HttpLayer
+): ComplianceGuard {
+  const { allowDomains, denyDomains } =
+    command.optsWithGlobals<GlobalOptions>();
+  return new ComplianceGuard({
+    http: http.client,
+    domains: { allow: splitList(allowDomains), deny: splitList(denyDomains) },
+    audit: new AuditLog(
+      join(resolveConfig(command).config.dataDir, 'audit.ndjson')
+    ),
+  });
+}
+
+/**
+ * Print per-host request counts to stderr once a command is done.
+ */
+export function reportHttpMetrics(metrics: HttpMetrics): void {
+  for (const line of metrics.format()) logInfo(`HTTP ${line}`);
+}
+
+/**
+ * Open the prospect store in the configured data directory.
+ */
+export function openStore(command: Command): ProspectStore {
+  return new ProspectStore(resolveConfig(command).config.dataDir);
+}
+
+/**
+ * Saved queries in the same data directory as the store.
+ */
+export function openSavedQueries(command: Command): SavedQueryStore {
+  return new SavedQueryStore(openStore(command).dataDir);
+}
+
+/**
+ * Lead statuses, owners and notes in the same data directory as the store.
+ */
+export function openLeads(command: Command): LeadStore {
+  return new LeadStore(openStore(command).dataDir);
+}
+
+/**
+ * Review marks, rejections and tags in the same data directory as the store.
+ */
+export function openReviews(command: Command): ReviewStore {
+  return new ReviewStore(openStore(command).dataDir);
+}
+
+/**
+ * Drop prospects marked do-not-contact before they are exported or pushed,
+ * saying how many were left out.
+ */
+export async function excludeDoNotContact(
+  command: Command,
+  prospects: BusinessProspect[]
+): Promise<BusinessProspect[]> {
+  const allowed = withoutDoNotContact(
+    prospects,
+    await openLeads(command).list()
+  );
+  const excluded = prospects.length - allowed.length;
+  if (excluded > 0) {
+    logInfo(`Excluded ${excluded} do-not-contact prospect(s)`);
+  }
+  return allowed;
+}
+
+/**
+ * Prospects from a JSON file when `--input` is given, the store otherwise.
+ */
+export async function loadProspects(
+  command: Command,
+  input: string | undefined
+): Promise<BusinessProspect[]> {
+  return input ? readProspectsFile(input) : openStore(command).list();
+}
+
+/**
+ * Look up a single prospect by ID in `--input` or the store.
+ */
+export async function findProspect(
+  command: Command,
+  businessId: string,
+  input: string | undefined
+): Promise<BusinessProspect> {
+  const prospect = input
+    ? readProspectsFile(input).find((candidate) => candidate.id === businessId)
+    : await openStore(command).get(businessId);
+  if (!prospect) {
+    throw new Error(
+      `Business ${businessId} not found in ${input ?? openStore(command).dataDir}`
+    );
+  }
+  return prospect;
+}
+
+export function reportError(error: unknown): void {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+}
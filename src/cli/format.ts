@@ -0,0 +1,28 @@
+export interface TableColumn<T> {
+  header: string;
+  value: (row: T) => string | number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Render rows as a plain-text table with space-padded columns.
+ */
+export function formatTable<T>(
+  rows: readonly T[],
+  columns: readonly TableColumn<T>[]
+): string {
+  const cells = rows.map((row) =>
+    columns.map((column) => String(column.value(row)))
+  );
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((row) => row[index]!.length))
+  );
+  const pad = (text: string, index: number): string =>
+    columns[index]!.align === 'right'
+      ? text.padStart(widths[index]!)
+      : text.padEnd(widths[index]!);
+
+  return [columns.map((column) => column.header), ...cells]
+    .map((row) => row.map(pad).join('  ').trimEnd())
+    .join('\n');
+}
@@ -4,6 +4,31 @@ import { Command } from 'commander';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { CONFIG_PATH_ENV } from '../core/config/index.js';
+import { DATA_DIR_ENV } from '../core/store/index.js';
+import { registerAnalyzeCommand } from './commands/analyze.js';
+import { registerBatchCommand } from './commands/batch.js';
+import { registerBuildConfigCommand } from './commands/build-config.js';
+import { registerConfigCommand } from './commands/config.js';
+import { registerDedupeCommand } from './commands/dedupe.js';
+import { registerDemoCommand } from './commands/demo.js';
+import { registerEnrichCommand } from './commands/enrich.js';
+import {
+  registerExtractCommand,
+  registerImportCommand,
+} from './commands/extract.js';
+import { registerJsonLdCommand } from './commands/jsonld.js';
+import { registerLeadCommands } from './commands/lead.js';
+import { registerOutreachCommand } from './commands/outreach.js';
+import { registerProspectCommands } from './commands/prospects.js';
+import { registerPushCommand } from './commands/push.js';
+import { registerQueryCommand } from './commands/query.js';
+import { registerRescanCommand } from './commands/rescan.js';
+import { registerReviewCommand } from './commands/review.js';
+import { registerScoreCommand } from './commands/score.js';
+import { registerSearchCommand } from './commands/search.js';
+import { resolveConfig } from './context.js';
+import { setLogLevel } from './log.js';
 
 // Get package.json for version info
 const __filename = fileURLToPath(import.meta.url);
@@ -18,43 +43,72 @@ program
   .description(
     'TypeScript CLI tool for finding businesses without professional websites and extracting their data for sales prospecting'
   )
-  .version(packageJson.version);
-
-// Search command
-program
-  .command('search')
-  .description('Find businesses by industry and location')
-  .argument('<industry>', 'Industry to search for (e.g., "cleaning services")')
-  .argument('<location>', 'Location to search in (e.g., "Tampa, FL")')
-  .action((industry: string, location: string) => {
-    console.log(`Searching for "${industry}" businesses in "${location}"`);
-    console.log('Search functionality not yet implemented.');
+  .version(packageJson.version)
+  .option(
+    '--config <file>',
+    `Config file (default: $${CONFIG_PATH_ENV} or the nearest d13-prospector.config.*)`
+  )
+  .option('--offline', 'Serve network requests only from the response cache')
+  .option('--no-cache', 'Do not cache network responses')
+  .option(
+    '--allow-domains <list>',
+    'Only fetch sites on these comma-separated domains'
+  )
+  .option(
+    '--deny-domains <list>',
+    'Never fetch sites on these comma-separated domains'
+  )
+  .option(
+    '--data-dir <dir>',
+    `Local database directory (default: config dataDir, $${DATA_DIR_ENV} or ~/.d13-prospector)`
+  )
+  .hook('preAction', (_program, actionCommand) => {
+    try {
+      setLogLevel(resolveConfig(actionCommand).config.logLevel);
+    } catch {
+      // An invalid config is reported by the command itself
+    }
   });
 
-// Analyze command
-program
-  .command('analyze')
-  .description('Analyze web presence of a specific business')
-  .argument('<businessId>', 'Business ID to analyze')
-  .action((businessId: string) => {
-    console.log(`Analyzing business: ${businessId}`);
-    console.log('Analysis functionality not yet implemented.');
-  });
+// Search commands
+registerSearchCommand(program);
+registerBatchCommand(program);
 
-// Extract command
-program
-  .command('extract')
-  .description('Extract detailed data from a business')
-  .argument('<businessId>', 'Business ID to extract data from')
-  .option('-f, --format <format>', 'Output format (json, csv)', 'json')
-  .action((businessId: string, options: { format: string }) => {
-    console.log(`Extracting data from business: ${businessId}`);
-    console.log(`Output format: ${options.format}`);
-    console.log('Extract functionality not yet implemented.');
-  });
+// Score command
+registerScoreCommand(program);
+
+// Analyze, enrich and rescan commands
+registerAnalyzeCommand(program);
+registerEnrichCommand(program);
+registerRescanCommand(program);
+
+// Extract and import commands
+registerExtractCommand(program);
+registerImportCommand(program);
+
+// Template config, demo site and structured data commands
+registerBuildConfigCommand(program);
+registerDemoCommand(program);
+registerJsonLdCommand(program);
+
+// Outreach and CRM commands
+registerOutreachCommand(program);
+registerPushCommand(program);
+
+// Lead tracking commands
+registerLeadCommands(program);
+
+// Local database commands
+registerProspectCommands(program);
+registerReviewCommand(program);
+registerQueryCommand(program);
+registerDedupeCommand(program);
+
+// Configuration command
+registerConfigCommand(program);
 
 // Parse command line arguments
-program.parse(process.argv);
+await program.parseAsync(process.argv);
 
 // If no arguments provided, show help
 if (!process.argv.slice(2).length) {
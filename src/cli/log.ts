@@ -0,0 +1,35 @@
+import type { LogLevel } from '../types/index.js';
+
+const LOG_LEVELS: readonly LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+let threshold: LogLevel = 'info';
+
+/**
+ * Set how much status the CLI writes to stderr, from the config's
+ * `logLevel`. Command output on stdout is never affected.
+ */
+export function setLogLevel(level: LogLevel): void {
+  threshold = level;
+}
+
+function write(level: LogLevel, message: string): void {
+  if (LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(threshold)) {
+    console.error(message);
+  }
+}
+
+export function logError(message: string): void {
+  write('error', message);
+}
+
+export function logWarn(message: string): void {
+  write('warn', message);
+}
+
+export function logInfo(message: string): void {
+  write('info', message);
+}
+
+export function logDebug(message: string): void {
+  write('debug', message);
+}
@@ -0,0 +1,225 @@
+import type {
+  WebPresenceAnalysis,
+  WebsiteQuality,
+  WebsiteType,
+} from '../../types/index.js';
+import type { HttpClient, HttpResponse } from '../../utils/http.js';
+import { UrlSkippedError } from '../compliance/index.js';
+import { OfflineCacheMissError } from '../http/index.js';
+import { runQualityChecks } from './checks.js';
+import type { QualityCheckResult } from './checks.js';
+import { classifyByUrl, classifyWebsite } from './classify.js';
+
+export interface WebPresenceAnalyzerOptions {
+  httpClient: HttpClient;
+  /** Pages heavier than this fail the page weight check (default 1 MB) */
+  maxPageBytes?: number;
+  /** Copyright notices older than this fail the check (default 2 years) */
+  maxCopyrightAgeYears?: number;
+  /** Clock used for the copyright check */
+  now?: () => Date;
+}
+
+export interface WebPresenceReport {
+  analysis: WebPresenceAnalysis;
+  /** URL that was analyzed, after redirects */
+  finalUrl?: string;
+  /** Page builder detected for template sites */
+  builder?: string;
+  /** Individual quality checks; empty when the page was not fetched */
+  checks: QualityCheckResult[];
+  /** Why the site was not fetched, when the compliance guard skipped it */
+  skipped?: string;
+}
+
+/** Website types that are not really the business's own website */
+type NonWebsiteType = Exclude<
+  WebsiteType,
+  'professional' | 'template' | 'unknown'
+>;
+
+function isNonWebsite(type: WebsiteType): type is NonWebsiteType {
+  return type === 'none' || type === 'facebook' || type === 'directory';
+}
+
+const NON_WEBSITE_FINDINGS: Record<
+  NonWebsiteType,
+  Pick<WebPresenceAnalysis, 'issues' | 'opportunities'>
+> = {
+  none: {
+    issues: ['No website'],
+    opportunities: ['Professional website', 'Local SEO and online presence'],
+  },
+  facebook: {
+    issues: ['Facebook page only, no standalone website'],
+    opportunities: ['Professional website', 'Local SEO and online presence'],
+  },
+  directory: {
+    issues: ['Directory listing only, no standalone website'],
+    opportunities: ['Professional website', 'Local SEO and online presence'],
+  },
+};
+
+/**
+ * Grade a site from the share of quality checks it passes. Template sites
+ * are capped at "good": the builder limits how far they can be improved.
+ */
+export function gradeQuality(
+  checks: QualityCheckResult[],
+  type: WebsiteType
+): WebsiteQuality {
+  if (checks.length === 0) return 'poor';
+
+  const ratio = checks.filter((check) => check.passed).length / checks.length;
+  const grade: WebsiteQuality =
+    ratio >= 0.85 ? 'excellent' : ratio >= 0.6 ? 'good' : 'poor';
+  return type === 'template' && grade === 'excellent' ? 'good' : grade;
+}
+
+/**
+ * Produces a `WebPresenceAnalysis` for a business website: classifies the
+ * site, then grades its quality from concrete checks.
+ */
+export class WebPresenceAnalyzer {
+  private readonly httpClient: HttpClient;
+  private readonly maxPageBytes: number;
+  private readonly maxCopyrightAgeYears: number;
+  private readonly now: () => Date;
+
+  constructor(options: WebPresenceAnalyzerOptions) {
+    this.httpClient = options.httpClient;
+    this.maxPageBytes = options.maxPageBytes ?? 1_000_000;
+    this.maxCopyrightAgeYears = options.maxCopyrightAgeYears ?? 2;
+    this.now = options.now ?? ((): Date => new Date());
+  }
+
+  async analyze(website: string | undefined): Promise<WebPresenceReport> {
+    const byUrl = classifyByUrl(website);
+    if (byUrl && isNonWebsite(byUrl.type)) {
+      return this.nonWebsiteReport(byUrl.type, website);
+    }
+
+    // classifyByUrl only returns undefined or a template match for real URLs
+    const url = website as string;
+    let response: HttpResponse;
+    try {
+      response = await this.httpClient.get(url);
+    } catch (error) {
+      // Offline, an uncached site is unknown rather than unreachable
+      if (error instanceof OfflineCacheMissError) throw error;
+      if (error instanceof UrlSkippedError) {
+        return this.skippedReport(url, byUrl?.type, error.reason);
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      return this.unreachableReport(url, byUrl?.type, reason);
+    }
+    if (response.status >= 400) {
+      return this.unreachableReport(
+        url,
+        byUrl?.type,
+        `HTTP ${response.status}`
+      );
+    }
+
+    const classification = classifyWebsite(response.url, response.body);
+    // A redirect may land on Facebook or a directory
+    if (isNonWebsite(classification.type)) {
+      return this.nonWebsiteReport(classification.type, response.url);
+    }
+
+    const checks = runQualityChecks(
+      {
+        url: response.url,
+        html: response.body,
+        bytes: Buffer.byteLength(response.body),
+      },
+      {
+        maxPageBytes: this.maxPageBytes,
+        maxCopyrightAgeYears: this.maxCopyrightAgeYears,
+        now: this.now(),
+      }
+    );
+    const failed = checks.filter((check) => !check.passed);
+    const issues = failed.flatMap((check) =>
+      check.issue ? [check.issue] : []
+    );
+    const opportunities = failed.flatMap((check) =>
+      check.opportunity ? [check.opportunity] : []
+    );
+    if (classification.type === 'template') {
+      const builder = classification.builder ?? 'a site builder';
+      issues.unshift(`Template website built with ${builder}`);
+      opportunities.unshift('Custom-designed website');
+    }
+
+    return {
+      analysis: {
+        hasWebsite: true,
+        websiteType: classification.type,
+        websiteQuality: gradeQuality(checks, classification.type),
+        issues,
+        opportunities,
+      },
+      finalUrl: response.url,
+      ...(classification.builder ? { builder: classification.builder } : {}),
+      checks,
+    };
+  }
+
+  private nonWebsiteReport(
+    type: NonWebsiteType,
+    url: string | undefined
+  ): WebPresenceReport {
+    const findings = NON_WEBSITE_FINDINGS[type];
+    return {
+      analysis: {
+        hasWebsite: type !== 'none',
+        websiteType: type,
+        websiteQuality: type === 'none' ? 'none' : 'poor',
+        issues: [...findings.issues],
+        opportunities: [...findings.opportunities],
+      },
+      ...(url ? { finalUrl: url } : {}),
+      checks: [],
+    };
+  }
+
+  private unreachableReport(
+    url: string,
+    type: WebsiteType | undefined,
+    reason: string
+  ): WebPresenceReport {
+    return {
+      analysis: {
+        hasWebsite: true,
+        // A URL alone says nothing about a site that never loaded
+        websiteType: type ?? 'unknown',
+        websiteQuality: 'poor',
+        issues: [`Website could not be loaded (${reason})`],
+        opportunities: ['Reliable hosting and a working website'],
+      },
+      finalUrl: url,
+      checks: [],
+    };
+  }
+
+  private skippedReport(
+    url: string,
+    type: WebsiteType | undefined,
+    reason: string
+  ): WebPresenceReport {
+    return {
+      analysis: {
+        hasWebsite: true,
+        // Not fetched, so there is nothing to classify or grade it by
+        websiteType: type ?? 'unknown',
+        websiteQuality: gradeQuality([], type ?? 'unknown'),
+        issues: [`Website not analyzed (${reason})`],
+        opportunities: [],
+      },
+      finalUrl: url,
+      checks: [],
+      skipped: reason,
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import { getLinks, getMeta, getTitle, getVisibleText } from './html.js';
+
+export type QualityCheckId =
+  | 'https'
+  | 'viewport'
+  | 'title'
+  | 'metaDescription'
+  | 'phone'
+  | 'pageWeight'
+  | 'copyright';
+
+export interface QualityCheckResult {
+  id: QualityCheckId;
+  passed: boolean;
+  /** What we observed, e.g. "page weighs 1450 KB" */
+  detail: string;
+  /** Issue text recorded when the check fails */
+  issue?: string;
+  /** Sales opportunity recorded when the check fails */
+  opportunity?: string;
+}
+
+export interface PageSnapshot {
+  /** Final URL after redirects */
+  url: string;
+  html: string;
+  /** Size of the response body in bytes */
+  bytes: number;
+}
+
+export interface QualityCheckOptions {
+  /** Pages heavier than this fail the page weight check */
+  maxPageBytes: number;
+  /** Copyright notices older than this many years fail the check */
+  maxCopyrightAgeYears: number;
+  now: Date;
+}
+
+const PHONE_PATTERN =
+  /(?:\+?1[\s.-]?)?\(?\b[2-9]\d{2}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const COPYRIGHT_PATTERN =
+  /(?:©|\(c\)|copyright)\s*(?:\d{4}\s*[-–]\s*)?((?:19|20)\d{2})/gi;
+
+function result(
+  id: QualityCheckId,
+  passed: boolean,
+  detail: string,
+  failure: { issue: string; opportunity: string }
+): QualityCheckResult {
+  return passed ? { id, passed, detail } : { id, passed, detail, ...failure };
+}
+
+function checkHttps(page: PageSnapshot): QualityCheckResult {
+  const secure = page.url.toLowerCase().startsWith('https://');
+  return result(
+    'https',
+    secure,
+    secure ? 'served over HTTPS' : 'served over plain HTTP',
+    {
+      issue: 'Site is not served over HTTPS',
+      opportunity: 'Secure the site with HTTPS',
+    }
+  );
+}
+
+function checkViewport(page: PageSnapshot): QualityCheckResult {
+  const viewport = getMeta(page.html, 'viewport') ?? '';
+  const responsive = /width\s*=\s*device-width/i.test(viewport);
+  return result(
+    'viewport',
+    responsive,
+    viewport ? `viewport "${viewport}"` : 'no viewport meta tag',
+    {
+      issue: 'No mobile viewport (not mobile friendly)',
+      opportunity: 'Mobile-friendly responsive design',
+    }
+  );
+}
+
+function checkTitle(page: PageSnapshot): QualityCheckResult {
+  const title = getTitle(page.html);
+  return result('title', !!title, title ? `title "${title}"` : 'no title', {
+    issue: 'Missing page title',
+    opportunity: 'Add a descriptive page title for search results',
+  });
+}
+
+function checkMetaDescription(page: PageSnapshot): QualityCheckResult {
+  const description = getMeta(page.html, 'description');
+  return result(
+    'metaDescription',
+    !!description,
+    description ? 'meta description present' : 'no meta description',
+    {
+      issue: 'Missing meta description',
+      opportunity: 'SEO optimization (meta description and keywords)',
+    }
+  );
+}
+
+function checkPhone(page: PageSnapshot): QualityCheckResult {
+  const telLink = getLinks(page.html).some((href) =>
+    href.toLowerCase().startsWith('tel:')
+  );
+  const visible = PHONE_PATTERN.test(getVisibleText(page.html));
+  return result(
+    'phone',
+    telLink || visible,
+    telLink
+      ? 'click-to-call link'
+      : visible
+        ? 'phone number in page text'
+        : 'no phone number found',
+    {
+      issue: 'No visible phone number',
+      opportunity: 'Add a prominent click-to-call phone number',
+    }
+  );
+}
+
+function checkPageWeight(
+  page: PageSnapshot,
+  options: QualityCheckOptions
+): QualityCheckResult {
+  const kb = Math.round(page.bytes / 1024);
+  return result(
+    'pageWeight',
+    page.bytes <= options.maxPageBytes,
+    `page weighs ${kb} KB`,
+    {
+      issue: `Heavy page (${kb} KB of HTML)`,
+      opportunity: 'Faster page loads through performance optimization',
+    }
+  );
+}
+
+function checkCopyright(
+  page: PageSnapshot,
+  options: QualityCheckOptions
+): QualityCheckResult {
+  const text = getVisibleText(page.html);
+  const years = [...text.matchAll(COPYRIGHT_PATTERN)].map((match) =>
+    Number(match[1])
+  );
+  const failure = {
+    opportunity: 'Refresh outdated site content',
+  };
+
+  if (years.length === 0) {
+    return result('copyright', false, 'no copyright year found', {
+      ...failure,
+      issue: 'No copyright year (site may be unmaintained)',
+    });
+  }
+
+  const latest = Math.max(...years);
+  const age = options.now.getFullYear() - latest;
+  return result(
+    'copyright',
+    age <= options.maxCopyrightAgeYears,
+    `copyright ${latest}`,
+    { ...failure, issue: `Outdated copyright year (${latest})` }
+  );
+}
+
+/**
+ * Run every quality check against a fetched page.
+ */
+export function runQualityChecks(
+  page: PageSnapshot,
+  options: QualityCheckOptions
+): QualityCheckResult[] {
+  return [
+    checkHttps(page),
+    checkViewport(page),
+    checkTitle(page),
+    checkMetaDescription(page),
+    checkPhone(page),
+    checkPageWeight(page, options),
+    checkCopyright(page, options),
+  ];
+}
@@ -0,0 +1,136 @@
+import type { WebsiteType } from '../../types/index.js';
+import { getMeta } from './html.js';
+
+const FACEBOOK_HOSTS = ['facebook.com', 'fb.com', 'fb.me'];
+
+const DIRECTORY_HOSTS = [
+  'yelp.com',
+  'yellowpages.com',
+  'bbb.org',
+  'angi.com',
+  'angieslist.com',
+  'homeadvisor.com',
+  'thumbtack.com',
+  'nextdoor.com',
+  'mapquest.com',
+  'manta.com',
+  'tripadvisor.com',
+  'houzz.com',
+  'porch.com',
+  'g.page',
+  'maps.google.com',
+];
+
+const TEMPLATE_HOSTS = [
+  'wixsite.com',
+  'wix.com',
+  'squarespace.com',
+  'godaddysites.com',
+  'weebly.com',
+  'wordpress.com',
+  'business.site',
+  'square.site',
+  'webflow.io',
+  'carrd.co',
+  'site123.me',
+  'jimdosite.com',
+  'strikingly.com',
+];
+
+// Page builders identified by <meta name="generator">, their hostnames or
+// the CDNs their pages load assets from
+const BUILDER_SIGNATURES: {
+  builder: string;
+  generator: RegExp;
+  markup: RegExp;
+}[] = [
+  {
+    builder: 'Wix',
+    generator: /\bwix\b/i,
+    markup: /static\.wixstatic\.com|\.wixsite\.com/i,
+  },
+  {
+    builder: 'Squarespace',
+    generator: /squarespace/i,
+    markup: /squarespace-cdn\.com|\.squarespace\.com/i,
+  },
+  {
+    builder: 'GoDaddy Website Builder',
+    generator: /go ?daddy|starfield technologies/i,
+    markup: /img\d*\.wsimg\.com|\.godaddysites\.com/i,
+  },
+  {
+    builder: 'Weebly',
+    generator: /weebly/i,
+    markup: /editmysite\.com|\.weebly\.com/i,
+  },
+  { builder: 'Site123', generator: /site123/i, markup: /site123\.me/i },
+  { builder: 'Jimdo', generator: /jimdo/i, markup: /jimdo(site|cdn)?\.com/i },
+];
+
+function hostMatches(host: string, domains: string[]): boolean {
+  return domains.some(
+    (domain) => host === domain || host.endsWith(`.${domain}`)
+  );
+}
+
+export function getHostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+export interface WebsiteClassification {
+  type: WebsiteType;
+  /** Page builder detected from the generator tag or markup, if any */
+  builder?: string;
+}
+
+/**
+ * Classify a website from its URL alone. Returns undefined when the hostname
+ * says nothing and the page itself needs to be inspected.
+ */
+export function classifyByUrl(
+  url: string | undefined
+): WebsiteClassification | undefined {
+  if (!url) return { type: 'none' };
+
+  const host = getHostname(url);
+  if (!host) return { type: 'none' };
+  if (hostMatches(host, FACEBOOK_HOSTS)) return { type: 'facebook' };
+  if (hostMatches(host, DIRECTORY_HOSTS)) return { type: 'directory' };
+  if (host === 'google.com' && new URL(url).pathname.startsWith('/maps')) {
+    return { type: 'directory' };
+  }
+  if (hostMatches(host, TEMPLATE_HOSTS)) {
+    const builder = BUILDER_SIGNATURES.find(({ markup }) =>
+      markup.test(`.${host}`)
+    )?.builder;
+    return builder ? { type: 'template', builder } : { type: 'template' };
+  }
+  return undefined;
+}
+
+/**
+ * Classify a website from its URL and, when the URL is inconclusive, the
+ * generator tag and markup of the fetched page.
+ */
+export function classifyWebsite(
+  url: string | undefined,
+  html?: string
+): WebsiteClassification {
+  const byUrl = classifyByUrl(url);
+  if (byUrl) return byUrl;
+  if (html === undefined) return { type: 'professional' };
+
+  const generator = getMeta(html, 'generator') ?? '';
+  const signature =
+    BUILDER_SIGNATURES.find((entry) => entry.generator.test(generator)) ??
+    BUILDER_SIGNATURES.find((entry) => entry.markup.test(html));
+
+  return signature
+    ? { type: 'template', builder: signature.builder }
+    : { type: 'professional' };
+}
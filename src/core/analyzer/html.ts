@@ -0,0 +1,69 @@
+/**
+ * Lightweight HTML helpers. Regex based on purpose: we only need a handful
+ * of signals from the document head and visible text, not a DOM.
+ */
+
+function fromCodePoint(code: number): string {
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+}
+
+export function decodeEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code: string) => fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) =>
+      fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&copy;/gi, '©')
+    .replace(/&commat;/gi, '@')
+    .replace(/&period;/gi, '.')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'");
+}
+
+export function getTitle(html: string): string | undefined {
+  const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const title = match?.[1] ? decodeEntities(match[1]).trim() : '';
+  return title || undefined;
+}
+
+/**
+ * Content of the first `<meta name="...">` (or `property`) tag, in either
+ * attribute order.
+ */
+export function getMeta(html: string, name: string): string | undefined {
+  const tags = html.match(/<meta\b[^>]*>/gi) ?? [];
+  for (const tag of tags) {
+    const key = /\b(?:name|property)\s*=\s*["']([^"']*)["']/i.exec(tag)?.[1];
+    if (key?.toLowerCase() !== name.toLowerCase()) continue;
+    const content = /\bcontent\s*=\s*["']([^"']*)["']/i.exec(tag)?.[1];
+    return content !== undefined ? decodeEntities(content).trim() : '';
+  }
+  return undefined;
+}
+
+/**
+ * Visible text of the document with scripts, styles and tags removed.
+ */
+export function getVisibleText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function getLinks(html: string): string[] {
+  const links: string[] = [];
+  const pattern = /<a\b[^>]*\bhref\s*=\s*["']([^"']+)["']/gi;
+  for (const match of html.matchAll(pattern)) {
+    if (match[1]) links.push(decodeEntities(match[1]).trim());
+  }
+  return links;
+}
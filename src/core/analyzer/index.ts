@@ -0,0 +1,4 @@
+export * from './analyzer.js';
+export * from './checks.js';
+export * from './classify.js';
+export * from './html.js';
@@ -0,0 +1,102 @@
+import { readFile, rm } from 'fs/promises';
+import { parseProspect } from '../normalizer/index.js';
+import type { SearchQuery } from '../prospector/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { isNotFoundError, writeFileAtomic } from '../../utils/fs.js';
+import { isRecord } from '../../utils/objects.js';
+import { queryKey } from './queries.js';
+
+export interface QueryOutcome {
+  query: SearchQuery;
+  status: 'done' | 'failed';
+  /** Valid records the search returned */
+  found: number;
+  /** Records dropped because they failed validation */
+  rejected: number;
+  error?: string;
+  prospects: BusinessProspect[];
+}
+
+const CHECKPOINT_VERSION = 1;
+
+/**
+ * Progress of a batch run, saved after every finished query so an
+ * interrupted run can pick up where it stopped. Only successful queries are
+ * skipped on resume; failed ones run again.
+ */
+export class BatchCheckpoint {
+  private readonly outcomes = new Map<string, QueryOutcome>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  /**
+   * Load the checkpoint at `path`, or start an empty one when there is none.
+   */
+  static async load(path: string): Promise<BatchCheckpoint> {
+    const checkpoint = new BatchCheckpoint(path);
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (error) {
+      if (isNotFoundError(error)) return checkpoint;
+      throw error;
+    }
+
+    const raw: unknown = JSON.parse(text);
+    if (
+      !isRecord(raw) ||
+      raw.version !== CHECKPOINT_VERSION ||
+      !Array.isArray(raw.outcomes)
+    ) {
+      throw new Error(`Unrecognized batch checkpoint ${path}`);
+    }
+    try {
+      for (const outcome of raw.outcomes as QueryOutcome[]) {
+        checkpoint.outcomes.set(queryKey(outcome.query), {
+          ...outcome,
+          prospects: outcome.prospects.map((record) => parseProspect(record)),
+        });
+      }
+    } catch (error) {
+      throw new Error(
+        `Corrupt batch checkpoint ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+    return checkpoint;
+  }
+
+  get size(): number {
+    return this.outcomes.size;
+  }
+
+  completed(query: SearchQuery): QueryOutcome | undefined {
+    const outcome = this.outcomes.get(queryKey(query));
+    return outcome?.status === 'done' ? outcome : undefined;
+  }
+
+  /**
+   * Record an outcome and persist the checkpoint. Writes are serialized so
+   * concurrent queries cannot interleave them.
+   */
+  async record(outcome: QueryOutcome): Promise<void> {
+    this.outcomes.set(queryKey(outcome.query), outcome);
+    const write = this.writes.then(() => this.save());
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  async remove(): Promise<void> {
+    await this.writes;
+    await rm(this.path, { force: true });
+  }
+
+  private async save(): Promise<void> {
+    const contents = JSON.stringify({
+      version: CHECKPOINT_VERSION,
+      outcomes: [...this.outcomes.values()],
+    });
+    await writeFileAtomic(this.path, contents);
+  }
+}
@@ -0,0 +1,3 @@
+export * from './checkpoint.js';
+export * from './queries.js';
+export * from './runner.js';
@@ -0,0 +1,110 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { BatchQueriesSchema } from '../../schemas/index.js';
+import { parseCsv } from '../exporter/index.js';
+import type { SearchQuery } from '../prospector/index.js';
+import { isRecord } from '../../utils/objects.js';
+import { safeParseAs } from '../../utils/schema.js';
+
+export class BatchFileError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'BatchFileError';
+  }
+}
+
+/**
+ * CSV rows of industry, location and an optional limit. The header row is
+ * optional; without one the columns are read in that order.
+ */
+function fromCsv(text: string): unknown[] {
+  const rows = parseCsv(text).filter((row) =>
+    row.some((cell) => cell.trim() !== '')
+  );
+  const first = rows[0]?.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = first.includes('industry') && first.includes('location');
+  const columns = hasHeader ? first : ['industry', 'location', 'limit'];
+
+  return rows.slice(hasHeader ? 1 : 0).map((row) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const cell = row[index]?.trim();
+      if (!cell) return;
+      record[column] = column === 'limit' ? Number(cell) : cell;
+    });
+    return record;
+  });
+}
+
+/**
+ * YAML holding a list of queries, either at the top level or under
+ * `queries`.
+ */
+function fromYaml(text: string): unknown {
+  const raw: unknown = parseYaml(text);
+  return isRecord(raw) && 'queries' in raw ? raw.queries : raw;
+}
+
+/**
+ * "entry 2.location" for the second query's location (1-based, as people
+ * count rows).
+ */
+function describePath(path: (string | number)[]): string {
+  const [index, ...rest] = path;
+  if (typeof index !== 'number') return path.join('.') || '(root)';
+  return [`entry ${index + 1}`, ...rest].join('.');
+}
+
+/**
+ * Parse the searches listed in a batch file's text.
+ */
+export function parseBatchQueries(
+  text: string,
+  format: 'csv' | 'yaml'
+): SearchQuery[] {
+  const parsed = safeParseAs<SearchQuery[]>(
+    BatchQueriesSchema,
+    format === 'yaml' ? fromYaml(text) : fromCsv(text)
+  );
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${describePath(issue.path)}: ${issue.message}`)
+      .join('; ');
+    throw new BatchFileError(`Invalid batch file: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load searches from a `.yaml`/`.yml` file, or CSV for any other extension
+ * (`.csv`, `.txt`).
+ */
+export function readBatchFile(path: string): SearchQuery[] {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new BatchFileError(`Could not read batch file ${path}`, {
+      cause: error,
+    });
+  }
+  const extension = extname(path).toLowerCase();
+  return parseBatchQueries(
+    text,
+    extension === '.yaml' || extension === '.yml' ? 'yaml' : 'csv'
+  );
+}
+
+/**
+ * Identity of a query for checkpointing: case and spacing do not matter.
+ */
+export function queryKey(query: SearchQuery): string {
+  const normalize = (text: string): string =>
+    text.trim().toLowerCase().replace(/\s+/g, ' ');
+  return [
+    normalize(query.industry),
+    normalize(query.location),
+    query.limit ?? '',
+  ].join('|');
+}
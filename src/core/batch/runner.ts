@@ -0,0 +1,162 @@
+import type { BusinessProspect } from '../../types/index.js';
+import {
+  DEFAULT_DEDUPE_OPTIONS,
+  findDuplicateClusters,
+  mergeProspects,
+} from '../dedupe/index.js';
+import type { DedupeOptions } from '../dedupe/index.js';
+import { searchBusinesses } from '../prospector/index.js';
+import type {
+  BusinessSourceProvider,
+  SearchQuery,
+} from '../prospector/index.js';
+import type { BatchCheckpoint, QueryOutcome } from './checkpoint.js';
+
+export interface BatchProgress {
+  /** Queries finished so far, including ones restored from the checkpoint */
+  completed: number;
+  total: number;
+  outcome: QueryOutcome;
+  /** The outcome came from the checkpoint rather than a new search */
+  resumed: boolean;
+}
+
+export interface BatchOptions {
+  /** Searches allowed in flight at once */
+  concurrency: number;
+  checkpoint?: BatchCheckpoint;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface CombinedProspects {
+  prospects: BusinessProspect[];
+  /** Records folded into another because they were the same business */
+  duplicatesMerged: number;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+async function runQuery(
+  provider: BusinessSourceProvider,
+  query: SearchQuery
+): Promise<QueryOutcome> {
+  try {
+    const result = await searchBusinesses(provider, query);
+    return {
+      query,
+      status: 'done',
+      found: result.prospects.length,
+      rejected: result.rejected.length,
+      prospects: result.prospects,
+    };
+  } catch (error) {
+    return {
+      query,
+      status: 'failed',
+      found: 0,
+      rejected: 0,
+      error: error instanceof Error ? error.message : String(error),
+      prospects: [],
+    };
+  }
+}
+
+/**
+ * Run every query through `provider` with at most `concurrency` searches in
+ * flight. A failing query is recorded as failed instead of stopping the
+ * batch. Outcomes are returned in query order.
+ */
+export async function runBatch(
+  provider: BusinessSourceProvider,
+  queries: SearchQuery[],
+  options: BatchOptions
+): Promise<QueryOutcome[]> {
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+    throw new Error(`Invalid concurrency ${options.concurrency}`);
+  }
+  const outcomes: QueryOutcome[] = new Array(queries.length);
+  const pending: number[] = [];
+  let completed = 0;
+
+  queries.forEach((query, index) => {
+    const restored = options.checkpoint?.completed(query);
+    if (!restored) {
+      pending.push(index);
+      return;
+    }
+    outcomes[index] = restored;
+    completed += 1;
+    options.onProgress?.({
+      completed,
+      total: queries.length,
+      outcome: restored,
+      resumed: true,
+    });
+  });
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < pending.length) {
+      const index = pending[next] as number;
+      next += 1;
+      const outcome = await runQuery(provider, queries[index] as SearchQuery);
+      await options.checkpoint?.record(outcome);
+      outcomes[index] = outcome;
+      completed += 1;
+      options.onProgress?.({
+        completed,
+        total: queries.length,
+        outcome,
+        resumed: false,
+      });
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.min(options.concurrency, pending.length) },
+      worker
+    )
+  );
+  return outcomes;
+}
+
+/**
+ * Combine the prospects of every outcome into one list without duplicates.
+ * Records sharing an ID (the same listing found by overlapping queries) are
+ * merged first, then records that look like the same business.
+ */
+export function combineOutcomes(
+  outcomes: QueryOutcome[],
+  dedupeOptions: DedupeOptions = DEFAULT_DEDUPE_OPTIONS
+): CombinedProspects {
+  const byId = new Map<string, BusinessProspect[]>();
+  let total = 0;
+  for (const outcome of outcomes) {
+    for (const prospect of outcome.prospects) {
+      total += 1;
+      const records = byId.get(prospect.id) ?? [];
+      records.push(prospect);
+      byId.set(prospect.id, records);
+    }
+  }
+  const unique = [...byId.values()].map((records) =>
+    records.length === 1
+      ? (records[0] as BusinessProspect)
+      : mergeProspects(records).prospect
+  );
+
+  const clusterOf = new Map<string, BusinessProspect>();
+  const clusters = findDuplicateClusters(unique, dedupeOptions);
+  for (const cluster of clusters) {
+    for (const id of cluster.ids) clusterOf.set(id, cluster.merged.prospect);
+  }
+  const emitted = new Set<BusinessProspect>();
+  const prospects = unique.flatMap((prospect) => {
+    const merged = clusterOf.get(prospect.id) ?? prospect;
+    if (emitted.has(merged)) return [];
+    emitted.add(merged);
+    return [merged];
+  });
+
+  return { prospects, duplicatesMerged: total - prospects.length };
+}
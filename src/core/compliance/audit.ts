@@ -0,0 +1,29 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+
+export interface AuditEntry {
+  /** ISO timestamp */
+  at: string;
+  url: string;
+  outcome: 'fetched' | 'skipped' | 'failed';
+  status?: number;
+  /** Why the URL was skipped or what went wrong */
+  reason?: string;
+}
+
+/**
+ * Append-only NDJSON record of every URL the prospector requested or
+ * declined to request, so collection can be accounted for afterwards.
+ */
+export class AuditLog {
+  constructor(
+    readonly path: string,
+    private readonly now: () => Date = (): Date => new Date()
+  ) {}
+
+  async record(entry: Omit<AuditEntry, 'at'>): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const line: AuditEntry = { at: this.now().toISOString(), ...entry };
+    await appendFile(this.path, `${JSON.stringify(line)}\n`, 'utf8');
+  }
+}
@@ -0,0 +1,174 @@
+import type { HttpClient, HttpResponse } from '../../utils/http.js';
+import { USER_AGENT } from '../../utils/http.js';
+import { OfflineCacheMissError, sleep } from '../http/index.js';
+import type { AuditLog } from './audit.js';
+import {
+  ALLOW_ALL,
+  DISALLOW_ALL,
+  crawlDelay,
+  isAllowedByRobots,
+  parseRobotsTxt,
+} from './robots.js';
+import type { RobotsTxt } from './robots.js';
+
+/** Product token robots.txt groups are matched against */
+export const ROBOTS_USER_AGENT = USER_AGENT.split('/')[0] as string;
+
+export interface DomainPolicy {
+  /** When non-empty, only these domains (and their subdomains) are fetched */
+  allow?: string[];
+  /** Domains never fetched, e.g. sites whose terms forbid automated access */
+  deny?: string[];
+}
+
+export interface ComplianceGuardOptions {
+  http: HttpClient;
+  domains?: DomainPolicy;
+  audit?: AuditLog;
+  userAgent?: string;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Raised instead of fetching a URL the guard does not allow.
+ */
+export class UrlSkippedError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly reason: string
+  ) {
+    super(`Skipped ${url}: ${reason}`);
+    this.name = 'UrlSkippedError';
+  }
+}
+
+function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^\*?\./, '');
+}
+
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Checks every URL against the run's domain lists and the site's
+ * robots.txt before it is fetched, spaces requests to a host by its
+ * `Crawl-delay`, and writes each request to the audit log.
+ */
+export class ComplianceGuard {
+  private readonly http: HttpClient;
+  private readonly allow: string[];
+  private readonly deny: string[];
+  private readonly audit: AuditLog | undefined;
+  private readonly userAgent: string;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly robots = new Map<string, Promise<RobotsTxt>>();
+  /** Earliest time the next request to each host may start */
+  private readonly nextRequestAt = new Map<string, number>();
+
+  constructor(options: ComplianceGuardOptions) {
+    this.http = options.http;
+    this.allow = (options.domains?.allow ?? []).map(normalizeDomain);
+    this.deny = (options.domains?.deny ?? []).map(normalizeDomain);
+    this.audit = options.audit;
+    this.userAgent = options.userAgent ?? ROBOTS_USER_AGENT;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? sleep;
+  }
+
+  /**
+   * Why `url` may not be fetched, or undefined when it may.
+   */
+  async check(url: string): Promise<string | undefined> {
+    const { hostname, origin } = new URL(url);
+    const host = hostname.toLowerCase();
+    const denied = this.deny.find((domain) => matchesDomain(host, domain));
+    if (denied) return `${denied} is on the deny list`;
+    if (
+      this.allow.length > 0 &&
+      !this.allow.some((domain) => matchesDomain(host, domain))
+    ) {
+      return `${host} is not on the allow list`;
+    }
+
+    const robots = await this.robotsFor(origin);
+    if (!isAllowedByRobots(robots, this.userAgent, url)) {
+      return 'disallowed by robots.txt';
+    }
+    return undefined;
+  }
+
+  /**
+   * An HttpClient that runs every request through the guard, throwing
+   * `UrlSkippedError` for URLs it may not fetch.
+   */
+  client(): HttpClient {
+    return { get: (url) => this.get(url) };
+  }
+
+  private async get(url: string): Promise<HttpResponse> {
+    const reason = await this.check(url);
+    if (reason) {
+      await this.audit?.record({ url, outcome: 'skipped', reason });
+      throw new UrlSkippedError(url, reason);
+    }
+
+    const { host, origin } = new URL(url);
+    const delay = crawlDelay(await this.robotsFor(origin), this.userAgent);
+    if (delay !== undefined) {
+      const now = this.now();
+      const start = Math.max(now, this.nextRequestAt.get(host) ?? 0);
+      this.nextRequestAt.set(host, start + delay * 1000);
+      if (start > now) await this.sleep(start - now);
+    }
+    return this.fetch(url);
+  }
+
+  private async fetch(url: string): Promise<HttpResponse> {
+    try {
+      const response = await this.http.get(url);
+      await this.audit?.record({
+        url,
+        outcome: 'fetched',
+        status: response.status,
+      });
+      return response;
+    } catch (error) {
+      await this.audit?.record({
+        url,
+        outcome: 'failed',
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * robots.txt for `origin`, fetched once per run. Following RFC 9309, a
+   * missing file (4xx) allows everything and an unreachable one (5xx or a
+   * network error) allows nothing.
+   */
+  private robotsFor(origin: string): Promise<RobotsTxt> {
+    let robots = this.robots.get(origin);
+    if (!robots) {
+      robots = this.fetch(`${origin}/robots.txt`).then(
+        (response) => {
+          if (response.status >= 500) return DISALLOW_ALL;
+          if (response.status >= 400) return ALLOW_ALL;
+          return parseRobotsTxt(response.body);
+        },
+        (error: unknown) => {
+          if (error instanceof OfflineCacheMissError) throw error;
+          return DISALLOW_ALL;
+        }
+      );
+      this.robots.set(origin, robots);
+    }
+    return robots;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './audit.js';
+export * from './guard.js';
+export * from './robots.js';
@@ -0,0 +1,132 @@
+/**
+ * One `User-agent` group of a robots.txt file.
+ */
+export interface RobotsGroup {
+  /** Lower-cased user-agent tokens the group applies to */
+  agents: string[];
+  rules: RobotsRule[];
+  /** Seconds to wait between requests, when the group sets `Crawl-delay` */
+  crawlDelay?: number;
+}
+
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern; `*` matches any run of characters, a final `$` anchors */
+  pattern: string;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+}
+
+/** robots.txt that allows everything, used when a site has none */
+export const ALLOW_ALL: RobotsTxt = { groups: [] };
+
+/** robots.txt that allows nothing, used when it could not be read */
+export const DISALLOW_ALL: RobotsTxt = {
+  groups: [{ agents: ['*'], rules: [{ allow: false, pattern: '/' }] }],
+};
+
+/**
+ * Parse robots.txt as described in RFC 9309, plus the widely used
+ * `Crawl-delay`. Unknown lines are ignored.
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | undefined;
+  // Consecutive User-agent lines share one group
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow allows everything and adds no rule
+      if (value) current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0)
+        current.crawlDelay = seconds;
+    }
+  }
+  return { groups };
+}
+
+/**
+ * Groups for `userAgent` (a product token such as `d13-business-prospector`),
+ * falling back to the `*` groups when none names it.
+ */
+function groupsFor(robots: RobotsTxt, userAgent: string): RobotsGroup[] {
+  const token = userAgent.toLowerCase();
+  const named = robots.groups.filter((group) => group.agents.includes(token));
+  return named.length > 0
+    ? named
+    : robots.groups.filter((group) => group.agents.includes('*'));
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Whether `userAgent` may fetch `url`. The longest matching rule wins and
+ * `Allow` wins a tie; with no matching rule the URL is allowed.
+ */
+export function isAllowedByRobots(
+  robots: RobotsTxt,
+  userAgent: string,
+  url: string
+): boolean {
+  const { pathname, search } = new URL(url);
+  if (pathname === '/robots.txt') return true;
+  const path = `${pathname}${search}`;
+
+  let best: RobotsRule | undefined;
+  for (const group of groupsFor(robots, userAgent)) {
+    for (const rule of group.rules) {
+      if (!patternMatches(rule.pattern, path)) continue;
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+  }
+  return best?.allow ?? true;
+}
+
+/**
+ * Seconds `userAgent` should wait between requests, if the site says.
+ */
+export function crawlDelay(
+  robots: RobotsTxt,
+  userAgent: string
+): number | undefined {
+  const delays = groupsFor(robots, userAgent).flatMap((group) =>
+    group.crawlDelay !== undefined ? [group.crawlDelay] : []
+  );
+  return delays.length > 0 ? Math.max(...delays) : undefined;
+}
@@ -0,0 +1,267 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, extname, join, resolve } from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { ProspectorConfigSchema } from '../../schemas/index.js';
+import type { ProspectorConfig } from '../../types/index.js';
+import { isRecord, mergeDeep } from '../../utils/objects.js';
+import { safeParseAs, schemaIssues } from '../../utils/schema.js';
+import { DEFAULT_BATCH_CONCURRENCY } from '../batch/index.js';
+import { DATA_DIR_ENV } from '../store/index.js';
+
+export const CONFIG_FILE_NAMES = [
+  'd13-prospector.config.json',
+  'd13-prospector.config.yaml',
+  'd13-prospector.config.yml',
+] as const;
+
+/** Environment variable naming the config file explicitly */
+export const CONFIG_PATH_ENV = 'D13_PROSPECTOR_CONFIG';
+
+/**
+ * Environment variables read into the config, with the setting each one
+ * fills.
+ */
+export const CONFIG_ENVIRONMENT: Record<string, readonly string[]> = {
+  GOOGLE_PLACES_API_KEY: ['providers', 'googlePlaces', 'apiKey'],
+  YELP_API_KEY: ['providers', 'yelp', 'apiKey'],
+  HUBSPOT_ACCESS_TOKEN: ['crm', 'hubspot', 'accessToken'],
+  PIPEDRIVE_API_TOKEN: ['crm', 'pipedrive', 'apiToken'],
+  CRM_WEBHOOK_SECRET: ['crm', 'webhook', 'secret'],
+  [DATA_DIR_ENV]: ['dataDir'],
+  LOG_LEVEL: ['logLevel'],
+};
+
+export class ConfigError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadConfigOptions {
+  /** Directory the config file search starts from (default: cwd) */
+  cwd?: string;
+  env?: Record<string, string | undefined>;
+  /** Config file to use instead of searching for one */
+  configPath?: string;
+  /** Settings from command-line flags, applied last */
+  overrides?: Record<string, unknown>;
+}
+
+export interface LoadedConfig {
+  config: ProspectorConfig;
+  /** Config file that was applied, if any */
+  file?: string;
+}
+
+export function defaultConfig(): ProspectorConfig {
+  return {
+    dataDir: join(homedir(), '.d13-prospector'),
+    defaultSource: 'fixture',
+    providers: { googlePlaces: {}, yelp: {} },
+    scoring: {},
+    rateLimit: {
+      requestsPerSecond: 2,
+      maxRetries: 3,
+      concurrency: DEFAULT_BATCH_CONCURRENCY,
+    },
+    cache: { enabled: true, ttlSeconds: 24 * 60 * 60 },
+    export: { format: 'json' },
+    outreach: { sender: {} },
+    crm: { hubspot: {}, pipedrive: {}, webhook: {} },
+    logLevel: 'info',
+  };
+}
+
+/**
+ * The nearest config file in `cwd` or one of its parents.
+ */
+export function findConfigFile(cwd: string): string | undefined {
+  let dir = resolve(cwd);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read a `.json`, `.yaml` or `.yml` config file. Relative paths in it are
+ * resolved against the file's own directory, so a project config works
+ * from any subdirectory.
+ */
+export function readConfigFile(path: string): Record<string, unknown> {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+    raw =
+      extension === '.yaml' || extension === '.yml'
+        ? parseYaml(text)
+        : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Could not read config file ${path}`, {
+      cause: error,
+    });
+  }
+  // An empty YAML file parses to null
+  if (raw === null || raw === undefined) return {};
+  if (!isRecord(raw)) {
+    throw new ConfigError(`Config file ${path} must contain an object`);
+  }
+
+  const base = dirname(resolve(path));
+  const config = { ...raw };
+  if (typeof config.dataDir === 'string') {
+    config.dataDir = resolve(base, config.dataDir);
+  }
+  if (isRecord(config.scoring) && typeof config.scoring.profile === 'string') {
+    config.scoring = {
+      ...config.scoring,
+      profile: resolve(base, config.scoring.profile),
+    };
+  }
+  if (
+    isRecord(config.outreach) &&
+    typeof config.outreach.templates === 'string'
+  ) {
+    config.outreach = {
+      ...config.outreach,
+      templates: resolve(base, config.outreach.templates),
+    };
+  }
+  return config;
+}
+
+/**
+ * Settings taken from `CONFIG_ENVIRONMENT` variables. Empty variables are
+ * ignored.
+ */
+export function configFromEnvironment(
+  env: Record<string, string | undefined>
+): Record<string, unknown> {
+  let config: Record<string, unknown> = {};
+  for (const [name, path] of Object.entries(CONFIG_ENVIRONMENT)) {
+    const value = env[name]?.trim();
+    if (!value) continue;
+    const nested = path.reduceRight<unknown>(
+      (inner, key) => ({ [key]: inner }),
+      name === 'LOG_LEVEL' ? value.toLowerCase() : value
+    );
+    config = mergeDeep(config, nested as Record<string, unknown>);
+  }
+  return config;
+}
+
+/**
+ * Resolve the config from, in increasing precedence: built-in defaults, the
+ * config file, environment variables and `overrides` from command-line
+ * flags. The config file is `configPath`, else the file named by
+ * `D13_PROSPECTOR_CONFIG`, else the nearest `d13-prospector.config.*`.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): LoadedConfig {
+  const env = options.env ?? process.env;
+  const explicit = options.configPath ?? env[CONFIG_PATH_ENV];
+  const file = explicit || findConfigFile(options.cwd ?? process.cwd());
+  if (explicit && !existsSync(explicit)) {
+    throw new ConfigError(`Config file ${explicit} does not exist`);
+  }
+
+  let merged = defaultConfig() as unknown as Record<string, unknown>;
+  if (file) merged = mergeDeep(merged, readConfigFile(file));
+  merged = mergeDeep(merged, configFromEnvironment(env));
+  merged = mergeDeep(merged, options.overrides ?? {});
+
+  const parsed = safeParseAs<ProspectorConfig>(ProspectorConfigSchema, merged);
+  if (!parsed.success) {
+    const issues = schemaIssues(parsed.error).join('; ');
+    throw new ConfigError(
+      `Invalid configuration${file ? ` (${file})` : ''}: ${issues}`
+    );
+  }
+  return {
+    config: parsed.data,
+    ...(file ? { file } : {}),
+  };
+}
+
+function maskSecret(value: string): string {
+  return value.length > 8 ? `****${value.slice(-4)}` : '****';
+}
+
+/**
+ * Mask the parts of a URL that carry credentials: the user info and the
+ * query string values, e.g. `?token=…` on a webhook endpoint.
+ */
+function maskUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return maskSecret(value);
+  }
+  if (url.username) url.username = '****';
+  if (url.password) url.password = '****';
+  for (const key of new Set(url.searchParams.keys())) {
+    url.searchParams.set(key, '****');
+  }
+  return url.toString();
+}
+
+/**
+ * A copy of the config safe to print, with API keys, CRM credentials and
+ * the credential parts of the webhook URL masked.
+ */
+export function maskSecrets(config: ProspectorConfig): ProspectorConfig {
+  const providers = Object.fromEntries(
+    Object.entries(config.providers).map(([name, credentials]) => [
+      name,
+      credentials.apiKey ? { apiKey: maskSecret(credentials.apiKey) } : {},
+    ])
+  ) as ProspectorConfig['providers'];
+  const { hubspot, pipedrive, webhook } = config.crm;
+  const crm: ProspectorConfig['crm'] = {
+    hubspot: {
+      ...hubspot,
+      ...(hubspot.accessToken
+        ? { accessToken: maskSecret(hubspot.accessToken) }
+        : {}),
+    },
+    pipedrive: {
+      ...pipedrive,
+      ...(pipedrive.apiToken
+        ? { apiToken: maskSecret(pipedrive.apiToken) }
+        : {}),
+    },
+    webhook: {
+      ...webhook,
+      ...(webhook.url ? { url: maskUrl(webhook.url) } : {}),
+      ...(webhook.secret ? { secret: maskSecret(webhook.secret) } : {}),
+    },
+  };
+  return { ...config, providers, crm };
+}
+
+const STARTER_HEADER = [
+  'D13 Business Prospector configuration.',
+  'Precedence: defaults < this file < environment variables < CLI flags.',
+  'Keep API keys out of version control: set GOOGLE_PLACES_API_KEY,',
+  'YELP_API_KEY and the CRM tokens (HUBSPOT_ACCESS_TOKEN,',
+  'PIPEDRIVE_API_TOKEN, CRM_WEBHOOK_SECRET) in the environment instead.',
+];
+
+/**
+ * Contents of a starter config file holding the defaults, minus the
+ * machine-specific data directory.
+ */
+export function renderStarterConfig(format: 'json' | 'yaml'): string {
+  const starter: Partial<ProspectorConfig> = { ...defaultConfig() };
+  delete starter.dataDir;
+  if (format === 'json') return `${JSON.stringify(starter, null, 2)}\n`;
+  return `${STARTER_HEADER.map((line) => `# ${line}`).join('\n')}\n${stringifyYaml(starter)}`;
+}
@@ -0,0 +1,55 @@
+import type {
+  BusinessProspect,
+  CrmMapping,
+  CrmObjectType,
+  CrmSettings,
+} from '../../types/index.js';
+import type { HttpSender } from '../../utils/http.js';
+import type { CrmRecord, CrmRequiredFields } from './mapping.js';
+import type { CrmRequestOptions } from './request.js';
+
+export const CRM_CONNECTORS = ['hubspot', 'pipedrive', 'webhook'] as const;
+export type CrmConnectorName = (typeof CRM_CONNECTORS)[number];
+
+/** The CRM's ID for each object a prospect was pushed as */
+export type CrmIds = Partial<Record<CrmObjectType, string>>;
+
+export function isCrmConnectorName(value: string): value is CrmConnectorName {
+  return (CRM_CONNECTORS as readonly string[]).includes(value);
+}
+
+export interface CrmConnector {
+  readonly name: CrmConnectorName;
+  /**
+   * Create or update the prospect's objects. `ids` holds the IDs from the
+   * last push; each object created is added to it as soon as it exists, so
+   * a push that fails halfway is picked up rather than duplicated.
+   * `pushedBefore` tells whether there was an earlier push at all.
+   */
+  upsert(
+    prospect: BusinessProspect,
+    record: CrmRecord,
+    ids: CrmIds,
+    pushedBefore: boolean
+  ): Promise<void>;
+}
+
+export interface CrmConnectorContext {
+  sender: HttpSender;
+  request?: CrmRequestOptions;
+  now?: () => number;
+}
+
+/**
+ * What `push` needs to know about a connector before talking to it: its
+ * default mapping and required properties, and how to build it from
+ * `crm.<name>` in the config. Building throws a `CrmError` when
+ * credentials are missing.
+ */
+export interface CrmConnectorDefinition {
+  name: CrmConnectorName;
+  label: string;
+  mapping: CrmMapping;
+  required: CrmRequiredFields;
+  create(settings: CrmSettings, context: CrmConnectorContext): CrmConnector;
+}
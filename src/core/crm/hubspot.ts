@@ -0,0 +1,171 @@
+import type { BusinessProspect, CrmObjectType } from '../../types/index.js';
+import type { HttpSender } from '../../utils/http.js';
+import type {
+  CrmConnector,
+  CrmConnectorDefinition,
+  CrmIds,
+} from './connector.js';
+import { CRM_OBJECT_TYPES } from './mapping.js';
+import type { CrmProperties, CrmRecord } from './mapping.js';
+import { CrmError, sendJson } from './request.js';
+import type { CrmRequestOptions } from './request.js';
+
+export const HUBSPOT_BASE_URL = 'https://api.hubapi.com';
+
+const OBJECT_PATHS: Record<CrmObjectType, string> = {
+  company: 'companies',
+  contact: 'contacts',
+  deal: 'deals',
+};
+
+// Objects each new object is associated with, by HubSpot's default
+// association type
+const ASSOCIATIONS: Record<CrmObjectType, CrmObjectType[]> = {
+  company: [],
+  contact: ['company'],
+  deal: ['company', 'contact'],
+};
+
+export interface HubSpotConnectorOptions {
+  accessToken: string;
+  baseUrl?: string;
+  sender: HttpSender;
+  request?: CrmRequestOptions;
+}
+
+/**
+ * Pushes prospects to HubSpot's CRM v3 objects API with a private app
+ * token: a company, a contact when there is an email, and a deal, with
+ * new contacts and deals associated to the company.
+ */
+export class HubSpotConnector implements CrmConnector {
+  readonly name = 'hubspot';
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: HubSpotConnectorOptions) {
+    this.baseUrl = (options.baseUrl ?? HUBSPOT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async upsert(
+    _prospect: BusinessProspect,
+    record: CrmRecord,
+    ids: CrmIds
+  ): Promise<void> {
+    for (const type of CRM_OBJECT_TYPES) {
+      const properties = record[type];
+      if (!properties) continue;
+      const known = ids[type];
+      if (known && (await this.update(type, known, properties))) continue;
+
+      const id = await this.create(type, properties);
+      ids[type] = id;
+      for (const target of ASSOCIATIONS[type]) {
+        const targetId = ids[target];
+        if (targetId) await this.associate(type, id, target, targetId);
+      }
+    }
+  }
+
+  /** False when the object no longer exists in HubSpot */
+  private async update(
+    type: CrmObjectType,
+    id: string,
+    properties: CrmProperties
+  ): Promise<boolean> {
+    const { status } = await this.send(
+      'PATCH',
+      `/crm/v3/objects/${OBJECT_PATHS[type]}/${encodeURIComponent(id)}`,
+      { properties }
+    );
+    return status !== 404;
+  }
+
+  private async create(
+    type: CrmObjectType,
+    properties: CrmProperties
+  ): Promise<string> {
+    const path = `/crm/v3/objects/${OBJECT_PATHS[type]}`;
+    const { status, data } = await this.send('POST', path, { properties });
+    const id = (data as { id?: unknown } | undefined)?.id;
+    if (status === 404 || (typeof id !== 'string' && typeof id !== 'number')) {
+      throw new CrmError(`POST ${this.baseUrl}${path} returned no object ID`);
+    }
+    return String(id);
+  }
+
+  private async associate(
+    type: CrmObjectType,
+    id: string,
+    target: CrmObjectType,
+    targetId: string
+  ): Promise<void> {
+    const path = `/crm/v4/objects/${OBJECT_PATHS[type]}/${encodeURIComponent(id)}/associations/default/${OBJECT_PATHS[target]}/${encodeURIComponent(targetId)}`;
+    const { status } = await this.send('PUT', path);
+    if (status === 404) {
+      throw new CrmError(`PUT ${this.baseUrl}${path} failed: HTTP 404`, {
+        status,
+      });
+    }
+  }
+
+  private send(
+    method: 'POST' | 'PATCH' | 'PUT',
+    path: string,
+    body?: unknown
+  ): ReturnType<typeof sendJson> {
+    return sendJson(
+      this.options.sender,
+      {
+        method,
+        url: `${this.baseUrl}${path}`,
+        headers: { authorization: `Bearer ${this.options.accessToken}` },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      },
+      this.options.request
+    );
+  }
+}
+
+export const HUBSPOT: CrmConnectorDefinition = {
+  name: 'hubspot',
+  label: 'HubSpot',
+  mapping: {
+    company: {
+      name: 'name',
+      phone: 'contact.phone',
+      website: 'contact.website',
+      address: 'location.address',
+      city: 'location.city',
+      state: 'location.state',
+      zip: 'location.zipCode',
+      country: 'location.country',
+      description: 'category',
+    },
+    contact: {
+      email: 'contact.email',
+      phone: 'contact.phone',
+      company: 'name',
+      website: 'contact.website',
+    },
+    deal: {
+      dealname: '{{name}} website',
+      pipeline: '=default',
+      dealstage: '=appointmentscheduled',
+    },
+  },
+  required: { company: ['name'], contact: ['email'], deal: ['dealname'] },
+  create(settings, context) {
+    const { accessToken, baseUrl } = settings.hubspot;
+    if (!accessToken) {
+      throw new CrmError(
+        'HubSpot needs an access token: set crm.hubspot.accessToken or HUBSPOT_ACCESS_TOKEN'
+      );
+    }
+    return new HubSpotConnector({
+      accessToken,
+      ...(baseUrl ? { baseUrl } : {}),
+      sender: context.sender,
+      ...(context.request ? { request: context.request } : {}),
+    });
+  },
+};
@@ -0,0 +1,9 @@
+export * from './connector.js';
+export * from './hubspot.js';
+export * from './links.js';
+export * from './mapping.js';
+export * from './pipedrive.js';
+export * from './push.js';
+export * from './registry.js';
+export * from './request.js';
+export * from './webhook.js';
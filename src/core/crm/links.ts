@@ -0,0 +1,96 @@
+import { join } from 'path';
+import { CrmLinksSchema } from '../../schemas/index.js';
+import { readJsonFile, writeJsonAtomic } from '../../utils/fs.js';
+import type { CrmConnectorName, CrmIds } from './connector.js';
+import type { CrmRecord } from './mapping.js';
+import { CrmError } from './request.js';
+
+/** What was last pushed for a prospect, and the IDs the CRM gave it */
+export interface CrmLink {
+  ids: CrmIds;
+  /** ISO 8601 timestamp of the last push */
+  pushedAt: string;
+  /** Properties of the last complete push; empty if none finished */
+  record: CrmRecord;
+}
+
+type CrmLinks = Record<string, Record<string, CrmLink>>;
+
+/**
+ * External IDs per connector and prospect, kept in `crm-links.json` in the
+ * data directory so pushing a prospect again updates its CRM objects
+ * instead of creating new ones.
+ */
+export class CrmLinkStore {
+  private readonly path: string;
+
+  constructor(readonly dataDir: string) {
+    this.path = join(dataDir, 'crm-links.json');
+  }
+
+  /**
+   * Links for every prospect pushed through `connector`, by prospect ID.
+   */
+  async list(connector: CrmConnectorName): Promise<Record<string, CrmLink>> {
+    return (await this.read())[connector] ?? {};
+  }
+
+  async set(
+    connector: CrmConnectorName,
+    prospectId: string,
+    link: CrmLink
+  ): Promise<void> {
+    const links = await this.read();
+    links[connector] = { ...links[connector], [prospectId]: link };
+    await this.write(links);
+  }
+
+  /**
+   * Move the links of `duplicateIds` to `prospectId`, as `dedupe` merges
+   * their records into it. Per connector, `prospectId`'s own link is kept,
+   * else the most recently pushed duplicate's.
+   */
+  async merge(prospectId: string, duplicateIds: string[]): Promise<void> {
+    const links = await this.read();
+    let changed = false;
+    for (const [connector, byProspect] of Object.entries(links)) {
+      const [latest] = duplicateIds
+        .flatMap((id) => {
+          const link = byProspect[id];
+          return link ? [link] : [];
+        })
+        .sort((a, b) => b.pushedAt.localeCompare(a.pushedAt));
+      if (!latest) continue;
+      const kept = byProspect[prospectId] ?? latest;
+      for (const id of duplicateIds) delete byProspect[id];
+      links[connector] = { ...byProspect, [prospectId]: kept };
+      changed = true;
+    }
+    if (changed) await this.write(links);
+  }
+
+  /**
+   * Remove a prospect's links through every connector. Returns false if it
+   * had none.
+   */
+  async delete(prospectId: string): Promise<boolean> {
+    const links = await this.read();
+    const linked = Object.values(links).filter(
+      (byProspect) => prospectId in byProspect
+    );
+    if (linked.length === 0) return false;
+    for (const byProspect of linked) delete byProspect[prospectId];
+    await this.write(links);
+    return true;
+  }
+
+  private async read(): Promise<CrmLinks> {
+    return (
+      (await readJsonFile<CrmLinks>(this.path, CrmLinksSchema, CrmError)) ?? {}
+    );
+  }
+
+  private async write(links: CrmLinks): Promise<void> {
+    await writeJsonAtomic(this.path, links);
+  }
+}
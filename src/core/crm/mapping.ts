@@ -0,0 +1,145 @@
+import type {
+  BusinessProspect,
+  CrmFieldMapping,
+  CrmMapping,
+  CrmObjectType,
+} from '../../types/index.js';
+import { getPath } from '../../utils/objects.js';
+import { UNKNOWN_EMAIL } from '../normalizer/index.js';
+import {
+  TemplateError,
+  compileTemplate,
+  renderTemplate,
+} from '../outreach/index.js';
+import type { CompiledTemplate } from '../outreach/index.js';
+
+export const CRM_OBJECT_TYPES: readonly CrmObjectType[] = [
+  'company',
+  'contact',
+  'deal',
+];
+
+export type CrmValue = string | number | boolean;
+export type CrmProperties = Record<string, CrmValue>;
+/** Mapped properties for each object a prospect is pushed as */
+export type CrmRecord = Partial<Record<CrmObjectType, CrmProperties>>;
+/** Properties an object is not pushed without, per object */
+export type CrmRequiredFields = Partial<Record<CrmObjectType, string[]>>;
+
+export class CrmMappingError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'CrmMappingError';
+  }
+}
+
+type Source =
+  | { kind: 'literal'; value: string }
+  | { kind: 'template'; template: CompiledTemplate }
+  | { kind: 'path'; path: string };
+
+/**
+ * A connector's default mapping with configured overrides laid over it,
+ * object by object. An override of `false` drops the object and an empty
+ * source drops a property.
+ */
+export function resolveMapping(
+  defaults: CrmMapping,
+  overrides: CrmMapping = {}
+): CrmMapping {
+  const resolved: CrmMapping = {};
+  for (const type of CRM_OBJECT_TYPES) {
+    const base = defaults[type];
+    const override = overrides[type];
+    if (override === false || (override === undefined && !base)) continue;
+    const fields: CrmFieldMapping = { ...(base || {}), ...override };
+    resolved[type] = Object.fromEntries(
+      Object.entries(fields).filter(([, source]) => source !== '')
+    );
+  }
+  return resolved;
+}
+
+function parseSource(type: string, field: string, source: string): Source {
+  if (source.startsWith('=')) {
+    return { kind: 'literal', value: source.slice(1) };
+  }
+  if (source.includes('{{')) {
+    try {
+      return { kind: 'template', template: compileTemplate(source) };
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      throw new CrmMappingError(
+        `Invalid template for ${type}.${field}: ${error.message}`,
+        { cause: error }
+      );
+    }
+  }
+  return { kind: 'path', path: source };
+}
+
+function toValue(value: unknown, path: string): CrmValue | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    // The placeholder for a missing email is not an address
+    if (text === '' || (text === UNKNOWN_EMAIL && /email$/i.test(path))) {
+      return undefined;
+    }
+    return text;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    const items = value
+      .map((item) => toValue(item, path))
+      .filter((item) => item !== undefined);
+    return items.length > 0 ? items.join('; ') : undefined;
+  }
+  return JSON.stringify(value);
+}
+
+function resolveSource(prospect: BusinessProspect, source: Source): unknown {
+  switch (source.kind) {
+    case 'literal':
+      return source.value;
+    case 'template':
+      return renderTemplate(source.template, prospect).output;
+    case 'path':
+      return getPath(prospect, source.path);
+  }
+}
+
+/**
+ * The prospect's CRM properties under `mapping`. Properties without a value
+ * are left out, and so is any object missing one of its `required`
+ * properties, e.g. a contact without an email.
+ */
+export function mapProspect(
+  prospect: BusinessProspect,
+  mapping: CrmMapping,
+  required: CrmRequiredFields = {}
+): CrmRecord {
+  const record: CrmRecord = {};
+  for (const type of CRM_OBJECT_TYPES) {
+    const fields = mapping[type];
+    if (!fields) continue;
+
+    const properties: CrmProperties = {};
+    for (const [field, source] of Object.entries(fields)) {
+      const parsed = parseSource(type, field, source);
+      const value = toValue(
+        resolveSource(prospect, parsed),
+        parsed.kind === 'path' ? parsed.path : field
+      );
+      if (value !== undefined) properties[field] = value;
+    }
+    const complete = (required[type] ?? []).every(
+      (field) => properties[field] !== undefined
+    );
+    if (complete && Object.keys(properties).length > 0) {
+      record[type] = properties;
+    }
+  }
+  return record;
+}
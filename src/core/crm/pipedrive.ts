@@ -0,0 +1,135 @@
+import type { BusinessProspect, CrmObjectType } from '../../types/index.js';
+import type { HttpSender } from '../../utils/http.js';
+import type {
+  CrmConnector,
+  CrmConnectorDefinition,
+  CrmIds,
+} from './connector.js';
+import { CRM_OBJECT_TYPES } from './mapping.js';
+import type { CrmProperties, CrmRecord } from './mapping.js';
+import { CrmError, sendJson } from './request.js';
+import type { CrmRequestOptions } from './request.js';
+
+export const PIPEDRIVE_BASE_URL = 'https://api.pipedrive.com';
+
+const OBJECT_PATHS: Record<CrmObjectType, string> = {
+  company: 'organizations',
+  contact: 'persons',
+  deal: 'deals',
+};
+
+export interface PipedriveConnectorOptions {
+  apiToken: string;
+  baseUrl?: string;
+  sender: HttpSender;
+  request?: CrmRequestOptions;
+}
+
+/**
+ * Pushes prospects to Pipedrive's v1 API as an organization, a person and
+ * a deal. People and deals are linked to the organization (and deals to
+ * the person) through `org_id` and `person_id` on every push.
+ */
+export class PipedriveConnector implements CrmConnector {
+  readonly name = 'pipedrive';
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: PipedriveConnectorOptions) {
+    this.baseUrl = (options.baseUrl ?? PIPEDRIVE_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async upsert(
+    _prospect: BusinessProspect,
+    record: CrmRecord,
+    ids: CrmIds
+  ): Promise<void> {
+    for (const type of CRM_OBJECT_TYPES) {
+      const properties = record[type];
+      if (!properties) continue;
+      const body = { ...properties, ...this.links(type, ids) };
+      const known = ids[type];
+      if (known) {
+        const { status } = await this.send(
+          'PUT',
+          `/v1/${OBJECT_PATHS[type]}/${encodeURIComponent(known)}`,
+          body
+        );
+        // Deleted in Pipedrive: create it again
+        if (status !== 404) continue;
+      }
+      ids[type] = await this.create(type, body);
+    }
+  }
+
+  private links(type: CrmObjectType, ids: CrmIds): CrmProperties {
+    const links: CrmProperties = {};
+    if (type !== 'company' && ids.company) links.org_id = Number(ids.company);
+    if (type === 'deal' && ids.contact) links.person_id = Number(ids.contact);
+    return links;
+  }
+
+  private async create(
+    type: CrmObjectType,
+    body: CrmProperties
+  ): Promise<string> {
+    const path = `/v1/${OBJECT_PATHS[type]}`;
+    const { data } = await this.send('POST', path, body);
+    const id = (data as { data?: { id?: unknown } } | undefined)?.data?.id;
+    if (typeof id !== 'string' && typeof id !== 'number') {
+      throw new CrmError(`POST ${this.baseUrl}${path} returned no object ID`);
+    }
+    return String(id);
+  }
+
+  private send(
+    method: 'POST' | 'PUT',
+    path: string,
+    body: CrmProperties
+  ): ReturnType<typeof sendJson> {
+    const token = encodeURIComponent(this.options.apiToken);
+    return sendJson(
+      this.options.sender,
+      {
+        method,
+        url: `${this.baseUrl}${path}?api_token=${token}`,
+        body: JSON.stringify(body),
+      },
+      this.options.request
+    );
+  }
+}
+
+export const PIPEDRIVE: CrmConnectorDefinition = {
+  name: 'pipedrive',
+  label: 'Pipedrive',
+  mapping: {
+    company: {
+      name: 'name',
+      address:
+        '{{location.address}}, {{location.city}}, {{location.state}} {{location.zipCode}}',
+    },
+    contact: {
+      name: 'name',
+      email: 'contact.email',
+      phone: 'contact.phone',
+    },
+    deal: {
+      title: '{{name}} website',
+    },
+  },
+  required: { company: ['name'], contact: ['name'], deal: ['title'] },
+  create(settings, context) {
+    const { apiToken, baseUrl } = settings.pipedrive;
+    if (!apiToken) {
+      throw new CrmError(
+        'Pipedrive needs an API token: set crm.pipedrive.apiToken or PIPEDRIVE_API_TOKEN'
+      );
+    }
+    return new PipedriveConnector({
+      apiToken,
+      ...(baseUrl ? { baseUrl } : {}),
+      sender: context.sender,
+      ...(context.request ? { request: context.request } : {}),
+    });
+  },
+};
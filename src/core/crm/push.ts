@@ -0,0 +1,162 @@
+import { isDeepStrictEqual } from 'util';
+import type {
+  BusinessProspect,
+  CrmMapping,
+  CrmObjectType,
+} from '../../types/index.js';
+import type {
+  CrmConnector,
+  CrmConnectorDefinition,
+  CrmIds,
+} from './connector.js';
+import type { CrmLink, CrmLinkStore } from './links.js';
+import { CRM_OBJECT_TYPES, mapProspect, resolveMapping } from './mapping.js';
+import type { CrmRecord, CrmValue } from './mapping.js';
+
+export type PushAction = 'create' | 'update' | 'unchanged';
+
+export interface CrmFieldChange {
+  object: CrmObjectType;
+  field: string;
+  /** Value last pushed; undefined for a new property */
+  before?: CrmValue;
+  /** Value to push; undefined for a property that no longer maps */
+  after?: CrmValue;
+}
+
+export interface PushPlan {
+  prospect: BusinessProspect;
+  action: PushAction;
+  record: CrmRecord;
+  changes: CrmFieldChange[];
+  link?: CrmLink;
+}
+
+export interface PushResult extends PushPlan {
+  /** The CRM's IDs after the push */
+  ids: CrmIds;
+  /** Why the push failed, if it did */
+  error?: string;
+}
+
+/**
+ * Property changes from one pushed record to the next, object by object in
+ * field order.
+ */
+export function diffRecords(
+  before: CrmRecord,
+  after: CrmRecord
+): CrmFieldChange[] {
+  const changes: CrmFieldChange[] = [];
+  for (const object of CRM_OBJECT_TYPES) {
+    const old = before[object] ?? {};
+    const next = after[object] ?? {};
+    const fields = [...new Set([...Object.keys(next), ...Object.keys(old)])];
+    for (const field of fields) {
+      if (isDeepStrictEqual(old[field], next[field])) continue;
+      changes.push({
+        object,
+        field,
+        ...(old[field] !== undefined ? { before: old[field] } : {}),
+        ...(next[field] !== undefined ? { after: next[field] } : {}),
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * What pushing `record` would do given the prospect's last push: create
+ * when there was none, update when a property changed, nothing otherwise.
+ */
+export function planPush(
+  prospect: BusinessProspect,
+  record: CrmRecord,
+  link?: CrmLink
+): PushPlan {
+  const changes = diffRecords(link?.record ?? {}, record);
+  const action: PushAction = !link
+    ? 'create'
+    : changes.length > 0
+      ? 'update'
+      : 'unchanged';
+  return { prospect, action, record, changes, ...(link ? { link } : {}) };
+}
+
+export interface PlanOptions {
+  definition: CrmConnectorDefinition;
+  /** Configured mapping laid over the connector's default */
+  mapping?: CrmMapping;
+  /** Links from earlier pushes, by prospect ID */
+  links: Record<string, CrmLink>;
+}
+
+/**
+ * Map each prospect for the connector and plan its push.
+ */
+export function planPushes(
+  prospects: BusinessProspect[],
+  options: PlanOptions
+): PushPlan[] {
+  const mapping = resolveMapping(options.definition.mapping, options.mapping);
+  return prospects.map((prospect) =>
+    planPush(
+      prospect,
+      mapProspect(prospect, mapping, options.definition.required),
+      options.links[prospect.id]
+    )
+  );
+}
+
+export interface PushOptions {
+  connector: CrmConnector;
+  links: CrmLinkStore;
+  now?: () => Date;
+}
+
+/**
+ * Carry out the plans one prospect at a time, saving each link as soon as
+ * its push is done. A failed push is reported in its result instead of
+ * stopping the rest; objects it managed to create keep their IDs so the
+ * next push updates them.
+ */
+export async function pushPlans(
+  plans: PushPlan[],
+  options: PushOptions
+): Promise<PushResult[]> {
+  const now = options.now ?? ((): Date => new Date());
+  const results: PushResult[] = [];
+
+  for (const plan of plans) {
+    const { prospect, record, link } = plan;
+    if (plan.action === 'unchanged') {
+      results.push({ ...plan, ids: { ...link?.ids } });
+      continue;
+    }
+
+    const ids: CrmIds = { ...link?.ids };
+    try {
+      await options.connector.upsert(prospect, record, ids, link !== undefined);
+      await options.links.set(options.connector.name, prospect.id, {
+        ids,
+        pushedAt: now().toISOString(),
+        record,
+      });
+      results.push({ ...plan, ids });
+    } catch (error) {
+      if (!isDeepStrictEqual(ids, { ...link?.ids })) {
+        await options.links.set(options.connector.name, prospect.id, {
+          ids,
+          pushedAt: now().toISOString(),
+          record: link?.record ?? {},
+        });
+      }
+      results.push({
+        ...plan,
+        ids,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
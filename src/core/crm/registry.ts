@@ -0,0 +1,13 @@
+import type { CrmConnectorDefinition, CrmConnectorName } from './connector.js';
+import { HUBSPOT } from './hubspot.js';
+import { PIPEDRIVE } from './pipedrive.js';
+import { WEBHOOK } from './webhook.js';
+
+export const CRM_CONNECTOR_DEFINITIONS: Record<
+  CrmConnectorName,
+  CrmConnectorDefinition
+> = {
+  hubspot: HUBSPOT,
+  pipedrive: PIPEDRIVE,
+  webhook: WEBHOOK,
+};
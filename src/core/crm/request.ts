@@ -0,0 +1,94 @@
+import type { HttpRequest, HttpSender } from '../../utils/http.js';
+import { retryAfterMs, sleep } from '../http/index.js';
+
+export class CrmError extends Error {
+  readonly status: number | undefined;
+
+  constructor(message: string, options?: { cause?: unknown; status?: number }) {
+    super(message, options);
+    this.name = 'CrmError';
+    this.status = options?.status;
+  }
+}
+
+export interface CrmRequestOptions {
+  /** Retries for 429 and 503 responses (default 3) */
+  maxRetries?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface CrmResponse {
+  status: number;
+  /** Parsed JSON body, undefined when the body is empty or not JSON */
+  data: unknown;
+}
+
+// Only statuses that mean the request was not acted on are retried, since
+// repeating a create that timed out could make a duplicate
+const RETRYABLE_STATUSES = new Set([429, 503]);
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+
+/** The URL without its query string, which may carry an API token */
+function describe(request: HttpRequest): string {
+  return `${request.method} ${request.url.split('?')[0]}`;
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return body ? JSON.parse(body) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Send a JSON request to a CRM API, waiting out rate limits. Returns the
+ * parsed response for 2xx statuses and 404s, which callers treat as an
+ * object deleted on the CRM side; anything else throws a `CrmError`.
+ */
+export async function sendJson(
+  sender: HttpSender,
+  request: HttpRequest,
+  options: CrmRequestOptions = {}
+): Promise<CrmResponse> {
+  const maxRetries = options.maxRetries ?? 3;
+  const wait = options.sleep ?? sleep;
+
+  for (let attempt = 0; ; attempt++) {
+    let response;
+    try {
+      response = await sender.send({
+        ...request,
+        headers: {
+          accept: 'application/json',
+          ...(request.body !== undefined
+            ? { 'content-type': 'application/json' }
+            : {}),
+          ...request.headers,
+        },
+      });
+    } catch (error) {
+      throw new CrmError(`${describe(request)} failed`, { cause: error });
+    }
+
+    const { status } = response;
+    if (RETRYABLE_STATUSES.has(status) && attempt < maxRetries) {
+      await wait(
+        Math.min(
+          retryAfterMs(response) ?? BASE_DELAY_MS * 2 ** attempt,
+          MAX_DELAY_MS
+        )
+      );
+      continue;
+    }
+    if ((status >= 200 && status < 300) || status === 404) {
+      return { status, data: parseJson(response.body) };
+    }
+    const detail = response.body.trim().slice(0, 200);
+    throw new CrmError(
+      `${describe(request)} failed: HTTP ${status}${detail ? ` ${detail}` : ''}`,
+      { status }
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { BusinessProspect } from '../../types/index.js';
+import type { HttpSender } from '../../utils/http.js';
+import { isRecord } from '../../utils/objects.js';
+import type {
+  CrmConnector,
+  CrmConnectorDefinition,
+  CrmIds,
+} from './connector.js';
+import { CRM_OBJECT_TYPES } from './mapping.js';
+import type { CrmRecord } from './mapping.js';
+import { CrmError, sendJson } from './request.js';
+import type { CrmRequestOptions } from './request.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-d13-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-d13-timestamp';
+
+/** Default age past which `verifyWebhookSignature` rejects a delivery */
+export const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface WebhookPayload {
+  event: 'prospect.created' | 'prospect.updated';
+  /** Our prospect ID, stable across pushes */
+  id: string;
+  /** IDs the receiver returned for earlier pushes */
+  ids: CrmIds;
+  record: CrmRecord;
+  prospect: BusinessProspect;
+}
+
+/**
+ * Signature for a delivery: hex HMAC-SHA256 of `<timestamp>.<body>` under
+ * the shared secret, sent as `sha256=<hex>`.
+ */
+export function signWebhook(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a delivery's signature and timestamp, for receivers written in
+ * TypeScript. Deliveries older than `toleranceMs` are rejected so a
+ * captured request cannot be replayed later.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  headers: Record<string, string | undefined>,
+  body: string,
+  options: { toleranceMs?: number; now?: number } = {}
+): boolean {
+  const timestamp = headers[WEBHOOK_TIMESTAMP_HEADER];
+  const signature = headers[WEBHOOK_SIGNATURE_HEADER];
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  const age = Math.abs((options.now ?? Date.now()) - Number(timestamp) * 1000);
+  if (age > (options.toleranceMs ?? WEBHOOK_TOLERANCE_MS)) return false;
+
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export interface WebhookConnectorOptions {
+  url: string;
+  secret: string;
+  sender: HttpSender;
+  request?: CrmRequestOptions;
+  now?: () => number;
+}
+
+/**
+ * Posts each prospect as JSON to a URL of your own, signed with a shared
+ * secret. The receiver may answer with `{"ids": {"company": "..."}}` to
+ * have its IDs sent back on later pushes.
+ */
+export class WebhookConnector implements CrmConnector {
+  readonly name = 'webhook';
+
+  constructor(private readonly options: WebhookConnectorOptions) {}
+
+  async upsert(
+    prospect: BusinessProspect,
+    record: CrmRecord,
+    ids: CrmIds,
+    pushedBefore: boolean
+  ): Promise<void> {
+    const payload: WebhookPayload = {
+      event: pushedBefore ? 'prospect.updated' : 'prospect.created',
+      id: prospect.id,
+      ids,
+      record,
+      prospect,
+    };
+    const body = JSON.stringify(payload);
+    const timestamp = String(
+      Math.floor((this.options.now ?? Date.now)() / 1000)
+    );
+    const { status, data } = await sendJson(
+      this.options.sender,
+      {
+        method: 'POST',
+        url: this.options.url,
+        headers: {
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhook(
+            this.options.secret,
+            timestamp,
+            body
+          ),
+        },
+        body,
+      },
+      this.options.request
+    );
+    if (status === 404) {
+      throw new CrmError(`POST ${this.options.url} failed: HTTP 404`, {
+        status,
+      });
+    }
+
+    const returned = isRecord(data) && isRecord(data.ids) ? data.ids : {};
+    for (const type of CRM_OBJECT_TYPES) {
+      const id = returned[type];
+      if (typeof id === 'string' || typeof id === 'number') {
+        ids[type] = String(id);
+      }
+    }
+  }
+}
+
+export const WEBHOOK: CrmConnectorDefinition = {
+  name: 'webhook',
+  label: 'Webhook',
+  mapping: {
+    company: {
+      name: 'name',
+      category: 'category',
+      phone: 'contact.phone',
+      email: 'contact.email',
+      website: 'contact.website',
+      address: 'location.address',
+      city: 'location.city',
+      state: 'location.state',
+      zip: 'location.zipCode',
+      rating: 'rating',
+      reviewCount: 'reviewCount',
+      opportunityScore: 'opportunityScore',
+    },
+  },
+  required: { company: ['name'] },
+  create(settings, context) {
+    const { url, secret } = settings.webhook;
+    if (!url || !secret) {
+      throw new CrmError(
+        'The webhook needs a URL and a signing secret: set crm.webhook.url and crm.webhook.secret (or CRM_WEBHOOK_SECRET)'
+      );
+    }
+    return new WebhookConnector({
+      url,
+      secret,
+      sender: context.sender,
+      ...(context.request ? { request: context.request } : {}),
+      ...(context.now ? { now: context.now } : {}),
+    });
+  },
+};
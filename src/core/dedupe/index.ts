@@ -0,0 +1,2 @@
+export * from './resolve.js';
+export * from './similarity.js';
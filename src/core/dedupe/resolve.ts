@@ -0,0 +1,232 @@
+import type { BusinessProspect } from '../../types/index.js';
+import { distanceMeters } from '../../utils/geo.js';
+import { nameSimilarity, normalizePhoneDigits } from './similarity.js';
+
+export interface DedupeOptions {
+  /** Minimum confidence (0-1) for two records to be the same business */
+  threshold: number;
+  /** Pairs with less similar names never match, whatever else agrees */
+  minNameSimilarity: number;
+  /** Distance beyond which location gives no evidence */
+  maxDistanceMeters: number;
+}
+
+export const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = {
+  threshold: 0.75,
+  minNameSimilarity: 0.4,
+  maxDistanceMeters: 500,
+};
+
+export interface MatchEvidence {
+  samePhone: boolean;
+  nameSimilarity: number;
+  distanceMeters: number;
+}
+
+export interface PairMatch {
+  ids: [string, string];
+  confidence: number;
+  evidence: MatchEvidence;
+}
+
+export interface MergedProspect {
+  prospect: BusinessProspect;
+  /** Record ID each merged field was taken from, keyed by field path */
+  provenance: Record<string, string>;
+  mergedIds: string[];
+}
+
+export interface DuplicateCluster {
+  ids: string[];
+  /** Confidence of the weakest match holding the cluster together */
+  confidence: number;
+  matches: PairMatch[];
+  merged: MergedProspect;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Estimate how likely two records describe the same business.
+ *
+ * Each signal is turned into independent evidence and combined with a
+ * noisy-OR, so two moderate signals (similar name, same block) can match
+ * without a shared phone number, while a shared phone alone cannot merge
+ * businesses whose names have nothing in common.
+ */
+export function matchProspects(
+  a: BusinessProspect,
+  b: BusinessProspect,
+  options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS
+): PairMatch {
+  const phoneA = normalizePhoneDigits(a.contact.phone);
+  const samePhone =
+    phoneA.length >= 7 && phoneA === normalizePhoneDigits(b.contact.phone);
+  const similarity = nameSimilarity(a.name, b.name);
+  const distance = distanceMeters(a.location, b.location);
+
+  const evidence = [
+    samePhone ? 0.8 : 0,
+    similarity > 0.5 ? (similarity - 0.5) * 1.5 : 0,
+    0.5 * Math.max(0, 1 - distance / options.maxDistanceMeters),
+  ];
+  const confidence =
+    similarity < options.minNameSimilarity
+      ? 0
+      : 1 - evidence.reduce((product, value) => product * (1 - value), 1);
+
+  return {
+    ids: [a.id, b.id],
+    confidence: round(confidence, 2),
+    evidence: {
+      samePhone,
+      nameSimilarity: round(similarity, 2),
+      distanceMeters: Math.round(distance),
+    },
+  };
+}
+
+type FieldPicker = (records: BusinessProspect[]) => BusinessProspect;
+
+const primary: FieldPicker = (records) => records[0] as BusinessProspect;
+
+// Review counts grow over time, so the listing with the most reviews has
+// the most trustworthy rating
+const mostReviewed: FieldPicker = (records) =>
+  records.reduce((best, record) =>
+    record.reviewCount > best.reviewCount ? record : best
+  );
+
+const withWebsite: FieldPicker = (records) =>
+  records.find((record) => record.contact.website) ?? primary(records);
+
+const MERGE_FIELDS: { path: string; pick: FieldPicker }[] = [
+  { path: 'name', pick: primary },
+  { path: 'category', pick: primary },
+  { path: 'location', pick: primary },
+  { path: 'contact.phone', pick: primary },
+  { path: 'contact.email', pick: primary },
+  { path: 'contact.website', pick: withWebsite },
+  { path: 'rating', pick: mostReviewed },
+  { path: 'reviewCount', pick: mostReviewed },
+  { path: 'webPresence', pick: withWebsite },
+  { path: 'opportunityScore', pick: withWebsite },
+  { path: 'templateConfig', pick: primary },
+];
+
+function copyField(
+  target: BusinessProspect,
+  source: BusinessProspect,
+  path: string
+): void {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  let from = source as unknown as Record<string, unknown>;
+  let to = target as unknown as Record<string, unknown>;
+  for (const key of keys) {
+    from = from[key] as Record<string, unknown>;
+    to = to[key] as Record<string, unknown>;
+  }
+  if (from[last] === undefined) delete to[last];
+  else to[last] = from[last];
+}
+
+/**
+ * Merge records of one business. The most recently extracted record is the
+ * primary and keeps its `id`; other fields come from whichever record is
+ * most reliable for them, and `provenance` says which one that was.
+ */
+export function mergeProspects(records: BusinessProspect[]): MergedProspect {
+  if (records.length === 0) {
+    throw new Error('Cannot merge an empty set of prospects');
+  }
+  const ordered = [...records].sort(
+    (a, b) =>
+      b.extractedAt.getTime() - a.extractedAt.getTime() ||
+      b.reviewCount - a.reviewCount
+  );
+  const base = primary(ordered);
+  const provenance: Record<string, string> = {
+    id: base.id,
+    extractedAt: base.id,
+  };
+  const merged: BusinessProspect = {
+    ...base,
+    contact: { ...base.contact },
+  };
+
+  for (const { path, pick } of MERGE_FIELDS) {
+    const source = pick(ordered);
+    provenance[path] = source.id;
+    copyField(merged, source, path);
+  }
+
+  return {
+    prospect: merged,
+    provenance,
+    mergedIds: ordered.map((record) => record.id),
+  };
+}
+
+/**
+ * Group records describing the same business. Matches are transitive: if A
+ * matches B and B matches C, all three form one cluster. Only clusters with
+ * two or more records are returned.
+ */
+export function findDuplicateClusters(
+  prospects: BusinessProspect[],
+  options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS
+): DuplicateCluster[] {
+  const parent = prospects.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      const next = parent[index] as number;
+      parent[index] = parent[next] as number;
+      index = next;
+    }
+    return index;
+  };
+
+  const matches: { left: number; match: PairMatch }[] = [];
+  for (let i = 0; i < prospects.length; i += 1) {
+    for (let j = i + 1; j < prospects.length; j += 1) {
+      const match = matchProspects(
+        prospects[i] as BusinessProspect,
+        prospects[j] as BusinessProspect,
+        options
+      );
+      if (match.confidence >= options.threshold) {
+        matches.push({ left: i, match });
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  prospects.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  return [...groups.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]): DuplicateCluster => {
+      const records = members.map(
+        (index) => prospects[index] as BusinessProspect
+      );
+      const clusterMatches = matches
+        .filter(({ left }) => find(left) === root)
+        .map(({ match }) => match);
+      return {
+        ids: records.map((record) => record.id),
+        confidence: Math.min(
+          ...clusterMatches.map((match) => match.confidence)
+        ),
+        matches: clusterMatches,
+        merged: mergeProspects(records),
+      };
+    });
+}
@@ -0,0 +1,75 @@
+// Words that say nothing about which business a listing is
+const NAME_NOISE = new Set([
+  'the',
+  'llc',
+  'inc',
+  'co',
+  'corp',
+  'corporation',
+  'company',
+  'ltd',
+  'pllc',
+  'pa',
+  'of',
+]);
+
+/**
+ * Lower-case, drop punctuation and legal suffixes, so "The Bay Area
+ * Plumbing Co., LLC" and "bay area plumbing" compare equal.
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !NAME_NOISE.has(word))
+    .join(' ');
+}
+
+/**
+ * Digits of a phone number without a leading US country code or an
+ * extension, so "+1-813-555-0123", "(813) 555-0123" and
+ * "+18135550123;ext=4" compare equal.
+ */
+export function normalizePhoneDigits(phone: string): string {
+  const digits = phone
+    .replace(/\s*(?:;ext=|ext\.?|x)\s*\d+$/i, '')
+    .replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1')
+    ? digits.slice(1)
+    : digits;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/\s+/g, ' ');
+  for (let index = 0; index < compact.length - 1; index += 1) {
+    const pair = compact.slice(index, index + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams of the normalized names,
+ * from 0 (nothing shared) to 1 (identical).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let overlap = 0;
+  let total = 0;
+  for (const [pair, count] of leftPairs) {
+    overlap += Math.min(count, rightPairs.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of rightPairs.values()) total += count;
+
+  return (2 * overlap) / total;
+}
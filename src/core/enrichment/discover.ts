@@ -0,0 +1,172 @@
+import type { DiscoveredEmail, SocialMediaAccount } from '../../types/index.js';
+import type { HttpClient, HttpResponse } from '../../utils/http.js';
+import { getLinks } from '../analyzer/index.js';
+import { UrlSkippedError } from '../compliance/index.js';
+import { OfflineCacheMissError } from '../http/index.js';
+import {
+  emailDomain,
+  normalizeSocialAccounts,
+  parseSocialProfile,
+} from '../normalizer/index.js';
+import { extractEmails, scoreEmails } from './emails.js';
+import type { EmailCandidate, MxResolver } from './emails.js';
+import { extractSocialProfiles } from './social.js';
+
+export interface ContactDiscoveryOptions {
+  http: HttpClient;
+  /** Checks each domain for mail servers; without one MX is not checked */
+  resolveMx?: MxResolver;
+  /** Pages fetched per site besides the home page (default 3) */
+  maxPages?: number;
+}
+
+export interface ContactDiscoveryResult {
+  /** Best first */
+  emails: DiscoveredEmail[];
+  /** Canonical social profiles, in the order they were found */
+  socialMedia: SocialMediaAccount[];
+  /** Pages that were read */
+  pages: string[];
+  /** Pages that could not be read, with the reason */
+  skipped: string[];
+}
+
+// Pages that usually carry contact details
+const CONTACT_PATH = /contact|about|team|staff|connect|reach|location|find-us/i;
+
+function resolveLink(link: string, base: string): URL | undefined {
+  try {
+    const url = new URL(link, base);
+    url.hash = '';
+    return /^https?:$/.test(url.protocol) ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds a business's email addresses and social profiles on its website's
+ * home and contact pages, then reads the profiles it links to for more
+ * addresses. A business whose "website" is a social profile or listing is
+ * read from that page alone.
+ */
+export class ContactDiscovery {
+  private readonly http: HttpClient;
+  private readonly resolveMx: MxResolver | undefined;
+  private readonly maxPages: number;
+  private readonly mxByDomain = new Map<string, Promise<boolean | undefined>>();
+
+  constructor(options: ContactDiscoveryOptions) {
+    this.http = options.http;
+    this.resolveMx = options.resolveMx;
+    this.maxPages = options.maxPages ?? 3;
+  }
+
+  async discover(website: string | undefined): Promise<ContactDiscoveryResult> {
+    const result: ContactDiscoveryResult = {
+      emails: [],
+      socialMedia: [],
+      pages: [],
+      skipped: [],
+    };
+    if (!website) return result;
+
+    const candidates: EmailCandidate[] = [];
+    const social: SocialMediaAccount[] = [];
+    const read = async (url: string, ownSite: boolean): Promise<URL[]> => {
+      const response = await this.fetch(url, result);
+      if (!response) return [];
+      result.pages.push(url);
+      candidates.push(
+        ...extractEmails(response.body, url, ownSite ? undefined : 'social')
+      );
+      // Profiles linked from someone else's page are not the business's own
+      if (ownSite) social.push(...extractSocialProfiles(response.body, url));
+      return getLinks(response.body).flatMap((link) => {
+        const resolved = resolveLink(link, response.url);
+        return resolved ? [resolved] : [];
+      });
+    };
+
+    const listing = parseSocialProfile(website);
+    if (listing) {
+      social.push(listing);
+      await read(website, false);
+    } else {
+      const host = new URL(website).hostname;
+      const links = await read(website, true);
+      const contactPages = links
+        .filter(
+          (link) =>
+            link.hostname === host &&
+            link.href !== website &&
+            CONTACT_PATH.test(link.pathname)
+        )
+        .map((link) => link.href);
+      for (const page of [...new Set(contactPages)].slice(0, this.maxPages)) {
+        await read(page, true);
+      }
+      const profiles = normalizeSocialAccounts(social).map(
+        (profile) => profile.url
+      );
+      for (const page of profiles.slice(0, this.maxPages)) {
+        await read(page, false);
+      }
+    }
+    result.socialMedia = normalizeSocialAccounts(social);
+
+    const domains = [
+      ...new Set(candidates.map((candidate) => emailDomain(candidate.address))),
+    ];
+    const mx: Record<string, boolean> = {};
+    for (const domain of domains) {
+      const hasMx = await this.checkMx(domain);
+      if (hasMx !== undefined) mx[domain] = hasMx;
+    }
+    result.emails = scoreEmails(candidates, { website, mx });
+    return result;
+  }
+
+  private async fetch(
+    url: string,
+    result: ContactDiscoveryResult
+  ): Promise<HttpResponse | undefined> {
+    let response: HttpResponse;
+    try {
+      response = await this.http.get(url);
+    } catch (error) {
+      if (error instanceof OfflineCacheMissError) throw error;
+      const reason =
+        error instanceof UrlSkippedError
+          ? error.reason
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      result.skipped.push(`${url}: ${reason}`);
+      return undefined;
+    }
+    if (response.status >= 400) {
+      result.skipped.push(`${url}: HTTP ${response.status}`);
+      return undefined;
+    }
+    return response;
+  }
+
+  /**
+   * Whether `domain` has mail servers, looked up once per domain; undefined
+   * without a resolver or when the lookup fails.
+   */
+  private checkMx(domain: string): Promise<boolean | undefined> {
+    const resolver = this.resolveMx;
+    if (!resolver) return Promise.resolve(undefined);
+    let lookup = this.mxByDomain.get(domain);
+    if (!lookup) {
+      lookup = resolver(domain).then(
+        (exchanges) => exchanges.length > 0,
+        () => undefined
+      );
+      this.mxByDomain.set(domain, lookup);
+    }
+    return lookup;
+  }
+}
@@ -0,0 +1,245 @@
+import { resolveMx } from 'dns/promises';
+import type { DiscoveredEmail, EmailSource } from '../../types/index.js';
+import { getLinks, getVisibleText } from '../analyzer/index.js';
+import {
+  emailDomain,
+  isDisposableEmail,
+  isRoleEmail,
+  isValidEmail,
+  normalizeEmail,
+} from '../normalizer/index.js';
+
+export interface EmailCandidate {
+  address: string;
+  source: EmailSource;
+  /** Page the address was found on */
+  url: string;
+}
+
+/**
+ * Mail exchangers for a domain; an empty list means the domain takes no
+ * mail. Throws when the lookup itself fails.
+ */
+export type MxResolver = (domain: string) => Promise<string[]>;
+
+/**
+ * MxResolver backed by the system DNS resolver.
+ */
+export const dnsMxResolver: MxResolver = async (domain) => {
+  try {
+    return (await resolveMx(domain)).map((record) => record.exchange);
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') return [];
+    throw error;
+  }
+};
+
+// Addresses from templates, docs and embedded services, not the business
+const IGNORED_DOMAINS = [
+  'example.com',
+  'example.org',
+  'example.net',
+  'domain.com',
+  'yourdomain.com',
+  'sentry.io',
+  'wixpress.com',
+];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)+/gi;
+
+// "name [at] example [dot] com", with brackets, parentheses or braces
+const OBFUSCATED_PATTERN =
+  /([a-z0-9._%+-]+)\s*[[({]\s*at\s*[\])}]\s*([a-z0-9-]+(?:\s*[[({]\s*dot\s*[\])}]\s*[a-z0-9-]+)+)/gi;
+
+const BASE_CONFIDENCE: Record<EmailSource, number> = {
+  mailto: 0.8,
+  text: 0.7,
+  obfuscated: 0.6,
+  social: 0.5,
+};
+
+/**
+ * Decode an address hidden by Cloudflare email protection: hex bytes XORed
+ * with the first byte.
+ */
+export function decodeCloudflareEmail(encoded: string): string | undefined {
+  if (!/^([0-9a-f]{2}){2,}$/i.test(encoded)) return undefined;
+  const bytes = encoded.match(/../g)!.map((pair) => parseInt(pair, 16));
+  const [key = 0, ...rest] = bytes;
+  return String.fromCharCode(...rest.map((byte) => byte ^ key));
+}
+
+function isIgnored(address: string): boolean {
+  const domain = emailDomain(address);
+  return IGNORED_DOMAINS.some(
+    (ignored) => domain === ignored || domain.endsWith(`.${ignored}`)
+  );
+}
+
+/**
+ * Email addresses on a page, from `mailto:` links, visible text and the
+ * usual obfuscations. Each address is listed once, under the most direct
+ * source it appeared in.
+ */
+export function extractEmails(
+  html: string,
+  url: string,
+  source?: EmailSource
+): EmailCandidate[] {
+  const found = new Map<string, EmailSource>();
+  const add = (raw: string, from: EmailSource): void => {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(raw.split('?')[0]!);
+    } catch {
+      // A malformed percent escape, so not an address anyone can write to
+      return;
+    }
+    const address = normalizeEmail(decoded);
+    if (!isValidEmail(address) || isIgnored(address)) return;
+    const current = found.get(address);
+    if (!current || BASE_CONFIDENCE[from] > BASE_CONFIDENCE[current]) {
+      found.set(address, from);
+    }
+  };
+
+  for (const link of getLinks(html)) {
+    if (/^mailto:/i.test(link)) add(link, 'mailto');
+    const protectedHash = /\/cdn-cgi\/l\/email-protection#([0-9a-f]+)/i.exec(
+      link
+    )?.[1];
+    const decoded = protectedHash && decodeCloudflareEmail(protectedHash);
+    if (decoded) add(decoded, 'obfuscated');
+  }
+  for (const match of html.matchAll(
+    /data-cfemail\s*=\s*["']([0-9a-f]+)["']/gi
+  )) {
+    const decoded = decodeCloudflareEmail(match[1]!);
+    if (decoded) add(decoded, 'obfuscated');
+  }
+
+  const text = getVisibleText(html);
+  // Entity-encoded addresses only appear once the text is decoded
+  const rawText = html.toLowerCase();
+  for (const match of text.matchAll(EMAIL_PATTERN)) {
+    add(
+      match[0],
+      rawText.includes(match[0].toLowerCase()) ? 'text' : 'obfuscated'
+    );
+  }
+  for (const match of text.matchAll(OBFUSCATED_PATTERN)) {
+    const domain = match[2]!.replace(/\s*[[({]\s*dot\s*[\])}]\s*/gi, '.');
+    add(`${match[1]}@${domain}`, 'obfuscated');
+  }
+
+  return [...found].map(([address, from]) => ({
+    address,
+    source: source ?? from,
+    url,
+  }));
+}
+
+function siteDomain(website: string | undefined): string | undefined {
+  if (!website) return undefined;
+  try {
+    return new URL(website).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Best first; personal mailboxes ahead of role ones at equal confidence */
+function compareEmails(a: DiscoveredEmail, b: DiscoveredEmail): number {
+  return (
+    b.confidence - a.confidence ||
+    Number(a.role) - Number(b.role) ||
+    a.address.localeCompare(b.address)
+  );
+}
+
+export interface ScoreEmailsOptions {
+  /** The business's website; addresses at its domain are more trustworthy */
+  website?: string;
+  /** Result of an MX lookup per domain; absent domains were not checked */
+  mx?: Record<string, boolean>;
+}
+
+/**
+ * Merge candidates found on several pages into one entry per address, with
+ * a confidence from where it was found, whether it matches the website's
+ * domain and whether its domain takes mail. Sorted best first; personal
+ * mailboxes sort ahead of role ones at equal confidence.
+ */
+export function scoreEmails(
+  candidates: EmailCandidate[],
+  options: ScoreEmailsOptions = {}
+): DiscoveredEmail[] {
+  const site = siteDomain(options.website);
+  const byAddress = new Map<string, EmailCandidate[]>();
+  for (const candidate of candidates) {
+    byAddress.set(candidate.address, [
+      ...(byAddress.get(candidate.address) ?? []),
+      candidate,
+    ]);
+  }
+
+  const emails = [...byAddress].map(([address, found]): DiscoveredEmail => {
+    const best = found.reduce((a, b) =>
+      BASE_CONFIDENCE[b.source] > BASE_CONFIDENCE[a.source] ? b : a
+    );
+    const domain = emailDomain(address);
+    const mx = options.mx?.[domain];
+    const disposable = isDisposableEmail(address);
+
+    let confidence = BASE_CONFIDENCE[best.source];
+    if (site && (domain === site || domain.endsWith(`.${site}`))) {
+      confidence += 0.15;
+    }
+    if (new Set(found.map((candidate) => candidate.url)).size > 1) {
+      confidence += 0.05;
+    }
+    if (disposable) confidence = Math.min(confidence, 0.1);
+    if (mx === false) confidence = Math.min(confidence, 0.05);
+
+    return {
+      address,
+      source: best.source,
+      url: best.url,
+      confidence: round(Math.min(1, confidence)),
+      role: isRoleEmail(address),
+      disposable,
+      ...(mx !== undefined ? { mx } : {}),
+    };
+  });
+
+  return emails.sort(compareEmails);
+}
+
+/**
+ * Addresses found earlier together with those just found, one entry per
+ * address with the latest finding winning, so a fetch that fails or finds
+ * nothing does not forget what an earlier one found. Sorted best first.
+ */
+export function mergeDiscoveredEmails(
+  previous: DiscoveredEmail[],
+  found: DiscoveredEmail[]
+): DiscoveredEmail[] {
+  const byAddress = new Map(previous.map((email) => [email.address, email]));
+  for (const email of found) byAddress.set(email.address, email);
+  return [...byAddress.values()].sort(compareEmails);
+}
+
+/**
+ * The address to use for outreach: the most confident one that is neither
+ * disposable nor at a domain without mail servers.
+ */
+export function bestEmail(
+  emails: DiscoveredEmail[]
+): DiscoveredEmail | undefined {
+  return emails.find((email) => !email.disposable && email.mx !== false);
+}
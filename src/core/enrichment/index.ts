@@ -0,0 +1,3 @@
+export * from './discover.js';
+export * from './emails.js';
+export * from './social.js';
@@ -0,0 +1,28 @@
+import type { SocialMediaAccount } from '../../types/index.js';
+import { getLinks } from '../analyzer/index.js';
+import {
+  normalizeSocialAccounts,
+  parseSocialProfile,
+} from '../normalizer/index.js';
+
+/**
+ * Social profiles a page links to, canonicalized and without duplicates.
+ * Share buttons and links to individual posts are ignored.
+ */
+export function extractSocialProfiles(
+  html: string,
+  url: string
+): SocialMediaAccount[] {
+  return normalizeSocialAccounts(
+    getLinks(html).flatMap((link) => {
+      let resolved: string;
+      try {
+        resolved = new URL(link, url).href;
+      } catch {
+        return [];
+      }
+      const profile = parseSocialProfile(resolved);
+      return profile ? [profile] : [];
+    })
+  );
+}
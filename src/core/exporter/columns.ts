@@ -0,0 +1,206 @@
+import type { BusinessProspect } from '../../types/index.js';
+import { getPath } from '../../utils/objects.js';
+
+/**
+ * How a column value is encoded in a flat cell:
+ * - `string`, `number`, `boolean`: the value itself
+ * - `date`: ISO 8601 timestamp
+ * - `list`: string array joined with {@link LIST_SEPARATOR}
+ * - `json`: JSON text, for records and arrays of objects
+ */
+export type ColumnKind =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'list'
+  | 'json';
+
+export interface ColumnSpec {
+  /** Dotted path into BusinessProspect, also used as the header */
+  key: string;
+  kind: ColumnKind;
+}
+
+export type FlatValue = string | number | boolean | null;
+export type FlatRecord = Record<string, FlatValue>;
+
+export const LIST_SEPARATOR = ' | ';
+
+function column(key: string, kind: ColumnKind = 'string'): ColumnSpec {
+  return { key, kind };
+}
+
+/**
+ * Every exportable column in a stable order. Changing a key here changes
+ * the CSV header, so treat this list as a public format.
+ */
+export const PROSPECT_COLUMNS: readonly ColumnSpec[] = [
+  column('id'),
+  column('name'),
+  column('category'),
+  column('location.address'),
+  column('location.city'),
+  column('location.state'),
+  column('location.zipCode'),
+  column('location.country'),
+  column('location.latitude', 'number'),
+  column('location.longitude', 'number'),
+  column('location.flags', 'list'),
+  column('contact.phone'),
+  column('contact.phoneType'),
+  column('contact.email'),
+  column('contact.website'),
+  column('rating', 'number'),
+  column('reviewCount', 'number'),
+  column('webPresence.hasWebsite', 'boolean'),
+  column('webPresence.websiteType'),
+  column('webPresence.websiteQuality'),
+  column('webPresence.issues', 'list'),
+  column('webPresence.opportunities', 'list'),
+  column('opportunityScore', 'number'),
+  column('extractedAt', 'date'),
+  column('templateConfig.company.name'),
+  column('templateConfig.company.legalName'),
+  column('templateConfig.company.owner'),
+  column('templateConfig.company.website'),
+  column('templateConfig.company.foundingYear', 'number'),
+  column('templateConfig.contact.phone'),
+  column('templateConfig.contact.email'),
+  column('templateConfig.contact.address.street'),
+  column('templateConfig.contact.address.city'),
+  column('templateConfig.contact.address.state'),
+  column('templateConfig.contact.address.zipCode'),
+  column('templateConfig.contact.address.country'),
+  column('templateConfig.hours', 'json'),
+  column('templateConfig.socialMedia', 'json'),
+  column('templateConfig.features', 'json'),
+  column('templateConfig.rating.average', 'number'),
+  column('templateConfig.rating.count', 'number'),
+  column('templateConfig.rating.source'),
+  column('templateConfig.seo.title'),
+  column('templateConfig.seo.description'),
+  column('templateConfig.seo.keywords', 'list'),
+  column('templateConfig.seo.localArea'),
+  column('templateConfig.schema', 'json'),
+  column('templateConfig.services.primary'),
+  column('templateConfig.services.categories', 'list'),
+  column('templateConfig.services.descriptions', 'json'),
+];
+
+/**
+ * Resolve a `--fields` selection. Each entry is either an exact column key
+ * or a prefix such as `location` that selects every `location.*` column.
+ * Columns keep their canonical order.
+ */
+export function selectColumns(fields?: string[]): ColumnSpec[] {
+  if (!fields || fields.length === 0) return [...PROSPECT_COLUMNS];
+
+  const unknown = fields.filter(
+    (field) =>
+      !PROSPECT_COLUMNS.some(
+        (spec) => spec.key === field || spec.key.startsWith(`${field}.`)
+      )
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown field(s): ${unknown.join(', ')}`);
+  }
+
+  return PROSPECT_COLUMNS.filter((spec) =>
+    fields.some(
+      (field) => spec.key === field || spec.key.startsWith(`${field}.`)
+    )
+  );
+}
+
+function setPath(
+  target: Record<string, unknown>,
+  path: string,
+  value: unknown
+): void {
+  const keys = path.split('.');
+  const last = keys.pop() as string;
+  let current = target;
+  for (const key of keys) {
+    const next = current[key];
+    if (typeof next !== 'object' || next === null) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[last] = value;
+}
+
+function encode(value: unknown, kind: ColumnKind): FlatValue {
+  if (value === undefined || value === null) return null;
+  switch (kind) {
+    case 'date':
+      return value instanceof Date ? value.toISOString() : String(value);
+    case 'list':
+      return Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value);
+    case 'json':
+      return JSON.stringify(value);
+    case 'number':
+    case 'boolean':
+      return value as number | boolean;
+    default:
+      return String(value);
+  }
+}
+
+function decode(cell: string, kind: ColumnKind): unknown {
+  switch (kind) {
+    case 'number':
+      return Number(cell);
+    case 'boolean':
+      return cell.toLowerCase() === 'true';
+    case 'date':
+      return new Date(cell);
+    case 'list':
+      return cell.split(LIST_SEPARATOR.trim()).map((item) => item.trim());
+    case 'json':
+      return JSON.parse(cell);
+    default:
+      return cell;
+  }
+}
+
+/**
+ * Flatten a prospect into one value per column. Missing optional fields
+ * become `null`.
+ */
+export function flattenProspect(
+  prospect: BusinessProspect,
+  columns: readonly ColumnSpec[] = PROSPECT_COLUMNS
+): FlatRecord {
+  const flat: FlatRecord = {};
+  for (const spec of columns) {
+    flat[spec.key] = encode(getPath(prospect, spec.key), spec.kind);
+  }
+  return flat;
+}
+
+/**
+ * Rebuild the nested shape of a prospect from header/cell pairs, such as a
+ * CSV row. Empty cells are treated as absent and unknown headers are
+ * ignored. The result still has to be validated by the caller.
+ */
+export function unflattenRecord(
+  row: Record<string, string>
+): Record<string, unknown> {
+  const nested: Record<string, unknown> = {};
+  for (const spec of PROSPECT_COLUMNS) {
+    const cell = row[spec.key];
+    if (cell === undefined || cell === '') continue;
+    setPath(nested, spec.key, decode(cell, spec.kind));
+  }
+
+  // Empty lists are written as empty cells, but the schema requires these
+  // two arrays to be present
+  const webPresence = nested.webPresence as Record<string, unknown> | undefined;
+  if (webPresence) {
+    webPresence.issues ??= [];
+    webPresence.opportunities ??= [];
+  }
+  return nested;
+}
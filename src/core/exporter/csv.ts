@@ -0,0 +1,106 @@
+import type { FlatValue } from './columns.js';
+
+const NEEDS_QUOTING = /[",\r\n]/;
+
+/**
+ * Escape one field per RFC 4180: fields containing a comma, double quote or
+ * line break are quoted, and embedded quotes are doubled.
+ */
+export function escapeCsvField(value: FlatValue): string {
+  if (value === null) return '';
+  const text = String(value);
+  return NEEDS_QUOTING.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one CSV record, terminated by CRLF as RFC 4180 specifies.
+ */
+export function formatCsvRow(values: readonly FlatValue[]): string {
+  return `${values.map(escapeCsvField).join(',')}\r\n`;
+}
+
+/**
+ * Parse RFC 4180 CSV text into rows of fields. Accepts LF as well as CRLF
+ * line endings and quoted fields spanning several lines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (index < text.length) {
+    const char = text[index] as string;
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      index += 1;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+    } else {
+      field += char;
+    }
+    index += 1;
+  }
+
+  if (quoted) {
+    throw new Error('Malformed CSV: unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Key a parsed CSV row by the header, filling missing cells with ''.
+ */
+export function csvRecord(
+  header: string[],
+  row: string[]
+): Record<string, string> {
+  const record: Record<string, string> = {};
+  header.forEach((key, column) => {
+    record[key] = row[column] ?? '';
+  });
+  return record;
+}
+
+export function isBlankCsvRow(row: string[]): boolean {
+  return row.every((cell) => cell === '');
+}
+
+/**
+ * Parse CSV text with a header row into header-keyed records.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  return rows
+    .filter((row) => !isBlankCsvRow(row))
+    .map((row) => csvRecord(header, row));
+}
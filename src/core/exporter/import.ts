@@ -0,0 +1,39 @@
+import { parseProspect } from '../normalizer/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { unflattenRecord } from './columns.js';
+import { csvRecord, isBlankCsvRow, parseCsv } from './csv.js';
+
+export interface ImportResult {
+  prospects: BusinessProspect[];
+  /**
+   * Rows that failed validation, numbered as in the file: the header is
+   * row 1 and blank rows are counted
+   */
+  errors: { row: number; message: string }[];
+}
+
+/**
+ * Read prospects back from CSV written by the exporter. Every row is
+ * rebuilt into the nested shape and validated against
+ * `BusinessProspectSchema`.
+ */
+export function importProspectsCsv(text: string): ImportResult {
+  const result: ImportResult = { prospects: [], errors: [] };
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return result;
+
+  rows.forEach((row, index) => {
+    if (isBlankCsvRow(row)) return;
+    try {
+      result.prospects.push(
+        parseProspect(unflattenRecord(csvRecord(header, row)))
+      );
+    } catch (error) {
+      result.errors.push({
+        row: index + 2,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+  return result;
+}
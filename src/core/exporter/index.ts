@@ -0,0 +1,4 @@
+export * from './columns.js';
+export * from './csv.js';
+export * from './import.js';
+export * from './writers.js';
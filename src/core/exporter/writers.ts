@@ -0,0 +1,167 @@
+import type { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import type { BusinessProspect } from '../../types/index.js';
+import { flattenProspect, selectColumns } from './columns.js';
+import type { ColumnSpec } from './columns.js';
+import { formatCsvRow } from './csv.js';
+
+export const EXPORT_FORMATS = ['json', 'csv', 'ndjson', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportOptions {
+  /** Column keys or prefixes to include; all columns when omitted */
+  fields?: string[];
+}
+
+type ProspectSource =
+  | Iterable<BusinessProspect>
+  | AsyncIterable<BusinessProspect>;
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Write a chunk, waiting for `drain` when the stream's buffer is full.
+ */
+function write(stream: Writable, chunk: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = (error: Error): void => reject(error);
+    stream.once('error', onError);
+    const flushed = stream.write(chunk, (error) => {
+      stream.off('error', onError);
+      if (error) reject(error);
+      else if (flushed) resolve();
+    });
+    if (!flushed) {
+      stream.once('drain', () => resolve());
+    }
+  });
+}
+
+/**
+ * Nested prospect when every column is wanted, flat record otherwise.
+ */
+function toOutputRecord(
+  prospect: BusinessProspect,
+  columns: ColumnSpec[] | undefined
+): unknown {
+  return columns ? flattenProspect(prospect, columns) : prospect;
+}
+
+async function writeJson(
+  prospects: ProspectSource,
+  stream: Writable,
+  columns: ColumnSpec[] | undefined
+): Promise<void> {
+  const records: unknown[] = [];
+  for await (const prospect of prospects) {
+    records.push(toOutputRecord(prospect, columns));
+  }
+  await write(stream, `${JSON.stringify(records, null, 2)}\n`);
+}
+
+async function writeNdjson(
+  prospects: ProspectSource,
+  stream: Writable,
+  columns: ColumnSpec[] | undefined
+): Promise<void> {
+  for await (const prospect of prospects) {
+    await write(
+      stream,
+      `${JSON.stringify(toOutputRecord(prospect, columns))}\n`
+    );
+  }
+}
+
+async function writeCsv(
+  prospects: ProspectSource,
+  stream: Writable,
+  columns: ColumnSpec[]
+): Promise<void> {
+  await write(stream, formatCsvRow(columns.map((spec) => spec.key)));
+  for await (const prospect of prospects) {
+    const flat = flattenProspect(prospect, columns);
+    await write(
+      stream,
+      formatCsvRow(columns.map((spec) => flat[spec.key] ?? null))
+    );
+  }
+}
+
+/**
+ * Excel sheet names are limited to 31 characters, may not contain
+ * `[]:*?/\` and must be unique within a workbook (case-insensitively).
+ */
+export function toSheetName(category: string, taken: Set<string>): string {
+  const base =
+    category
+      .replace(/[[\]:*?/\\]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 31) || 'Uncategorized';
+  let name = base;
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix += 1) {
+    const tag = ` (${suffix})`;
+    name = `${base.slice(0, 31 - tag.length)}${tag}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+async function writeXlsx(
+  prospects: ProspectSource,
+  stream: Writable,
+  columns: ColumnSpec[]
+): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  const sheets = new Map<string, ExcelJS.Worksheet>();
+  const taken = new Set<string>();
+
+  for await (const prospect of prospects) {
+    let sheet = sheets.get(prospect.category);
+    if (!sheet) {
+      sheet = workbook.addWorksheet(toSheetName(prospect.category, taken));
+      sheet.addRow(columns.map((spec) => spec.key)).font = { bold: true };
+      sheet.views = [{ state: 'frozen', ySplit: 1 }];
+      sheets.set(prospect.category, sheet);
+    }
+    const flat = flattenProspect(prospect, columns);
+    sheet.addRow(columns.map((spec) => flat[spec.key] ?? null));
+  }
+
+  if (sheets.size === 0) {
+    workbook.addWorksheet('Prospects').addRow(columns.map((spec) => spec.key));
+  }
+  await workbook.xlsx.write(stream);
+}
+
+/**
+ * Serialize prospects to a stream in the requested format.
+ *
+ * JSON and NDJSON keep the nested shape unless `fields` narrows the output,
+ * in which case they emit flat records keyed like the CSV header. NDJSON and
+ * CSV write record by record, so large exports never sit fully in memory.
+ */
+export async function writeProspects(
+  prospects: ProspectSource,
+  format: ExportFormat,
+  stream: Writable,
+  options: ExportOptions = {}
+): Promise<void> {
+  const selected = options.fields?.length
+    ? selectColumns(options.fields)
+    : undefined;
+  const columns = selected ?? selectColumns();
+
+  switch (format) {
+    case 'json':
+      return writeJson(prospects, stream, selected);
+    case 'ndjson':
+      return writeNdjson(prospects, stream, selected);
+    case 'csv':
+      return writeCsv(prospects, stream, columns);
+    case 'xlsx':
+      return writeXlsx(prospects, stream, columns);
+  }
+}
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { HttpClient, HttpResponse } from '../../utils/http.js';
+import { isNotFoundError, writeFileAtomic } from '../../utils/fs.js';
+import { hostOf } from './metrics.js';
+import type { HttpMetrics } from './metrics.js';
+
+export interface CacheOptions {
+  dir: string;
+  ttlMs: number;
+  /** Serve only from the cache, stale entries included, and never fetch */
+  offline?: boolean;
+  metrics?: HttpMetrics;
+  now?: () => number;
+}
+
+interface CacheEntry {
+  url: string;
+  storedAt: number;
+  response: HttpResponse;
+}
+
+/**
+ * Raised in offline mode for a request the cache cannot answer.
+ */
+export class OfflineCacheMissError extends Error {
+  constructor(public readonly url: string) {
+    super(`Offline: no cached response for ${url}`);
+    this.name = 'OfflineCacheMissError';
+  }
+}
+
+/**
+ * Successes, redirects and definite "not found" answers; anything else may
+ * be different next time.
+ */
+function isCacheable(response: HttpResponse): boolean {
+  return (
+    response.status < 400 || response.status === 404 || response.status === 410
+  );
+}
+
+export function cacheKey(method: string, url: string): string {
+  return createHash('sha256').update(`${method} ${url}`).digest('hex');
+}
+
+/**
+ * Disk cache with one JSON file per request, keyed by method and URL.
+ * Entries older than `ttlMs` are fetched again unless offline.
+ */
+export function withCache(
+  transport: HttpClient,
+  options: CacheOptions
+): HttpClient {
+  const now = options.now ?? Date.now;
+
+  const read = async (path: string): Promise<CacheEntry | undefined> => {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as CacheEntry;
+    } catch (error) {
+      // A missing or half-written entry is just a miss
+      if (isNotFoundError(error) || error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  const write = async (path: string, entry: CacheEntry): Promise<void> => {
+    await writeFileAtomic(path, JSON.stringify(entry));
+  };
+
+  return {
+    async get(url: string): Promise<HttpResponse> {
+      const path = join(options.dir, `${cacheKey('GET', url)}.json`);
+      const cached = await read(path);
+
+      if (
+        cached &&
+        (options.offline || now() - cached.storedAt <= options.ttlMs)
+      ) {
+        options.metrics?.add(hostOf(url), 'cacheHits');
+        return cached.response;
+      }
+      if (options.offline) throw new OfflineCacheMissError(url);
+
+      const response = await transport.get(url);
+      if (isCacheable(response)) {
+        await write(path, { url, storedAt: now(), response });
+      }
+      return response;
+    },
+  };
+}
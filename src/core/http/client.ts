@@ -0,0 +1,78 @@
+import { createFetchHttpClient } from '../../utils/http.js';
+import type { HttpClient, HttpResponse } from '../../utils/http.js';
+import { withCache } from './cache.js';
+import { HttpMetrics, hostOf } from './metrics.js';
+import { withRateLimit } from './rate-limit.js';
+import { withRetry } from './retry.js';
+
+export interface HttpLayerOptions {
+  /** Client that performs the actual requests (default: `fetch`) */
+  transport?: HttpClient;
+  requestsPerSecond: number;
+  burst?: number;
+  maxRetries?: number;
+  /** Disk cache; requests are not cached when omitted */
+  cache?: { dir: string; ttlMs: number };
+  /** Serve only from the cache */
+  offline?: boolean;
+  metrics?: HttpMetrics;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export interface HttpLayer {
+  client: HttpClient;
+  metrics: HttpMetrics;
+}
+
+/**
+ * The shared outbound HTTP stack: cache, then retry with backoff, then the
+ * per-host rate limiter in front of the transport. The limiter sits inside
+ * the retry loop so retries spend tokens too, and cache hits never touch
+ * either.
+ */
+export function createHttpLayer(options: HttpLayerOptions): HttpLayer {
+  if (options.offline && !options.cache) {
+    throw new Error('Offline mode needs the response cache');
+  }
+  const metrics = options.metrics ?? new HttpMetrics();
+  const timing = {
+    ...(options.now ? { now: options.now } : {}),
+    ...(options.sleep ? { sleep: options.sleep } : {}),
+  };
+
+  let client = withRateLimit(options.transport ?? createFetchHttpClient(), {
+    requestsPerSecond: options.requestsPerSecond,
+    ...(options.burst !== undefined ? { burst: options.burst } : {}),
+    metrics,
+    ...timing,
+  });
+  client = withRetry(client, {
+    ...(options.maxRetries !== undefined
+      ? { maxRetries: options.maxRetries }
+      : {}),
+    metrics,
+    ...timing,
+    ...(options.random ? { random: options.random } : {}),
+  });
+  if (options.cache) {
+    client = withCache(client, {
+      ...options.cache,
+      offline: options.offline ?? false,
+      metrics,
+      ...(options.now ? { now: options.now } : {}),
+    });
+  }
+
+  const layered = client;
+  return {
+    metrics,
+    client: {
+      get(url: string): Promise<HttpResponse> {
+        metrics.add(hostOf(url), 'requests');
+        return layered.get(url);
+      },
+    },
+  };
+}
@@ -0,0 +1,5 @@
+export * from './cache.js';
+export * from './client.js';
+export * from './metrics.js';
+export * from './rate-limit.js';
+export * from './retry.js';
@@ -0,0 +1,78 @@
+export interface HostMetrics {
+  /** Requests made by callers, including ones answered from the cache */
+  requests: number;
+  /** Requests that reached the network, counting every retry */
+  networkRequests: number;
+  cacheHits: number;
+  retries: number;
+  /** Responses with status 429 */
+  rateLimited: number;
+  /** Requests still failing (network error or retryable status) after all retries */
+  failures: number;
+  /** Time spent waiting for the rate limiter or a retry delay */
+  waitedMs: number;
+}
+
+function emptyMetrics(): HostMetrics {
+  return {
+    requests: 0,
+    networkRequests: 0,
+    cacheHits: 0,
+    retries: 0,
+    rateLimited: 0,
+    failures: 0,
+    waitedMs: 0,
+  };
+}
+
+/**
+ * Request and quota counters per host, shared by the layers of one HTTP
+ * client so a command can report them when it finishes.
+ */
+export class HttpMetrics {
+  private readonly hosts = new Map<string, HostMetrics>();
+
+  add(host: string, counter: keyof HostMetrics, amount = 1): void {
+    const metrics = this.hosts.get(host) ?? emptyMetrics();
+    metrics[counter] += amount;
+    this.hosts.set(host, metrics);
+  }
+
+  byHost(): Record<string, HostMetrics> {
+    return Object.fromEntries(
+      [...this.hosts].map(([host, metrics]) => [host, { ...metrics }])
+    );
+  }
+
+  total(): HostMetrics {
+    const total = emptyMetrics();
+    for (const metrics of this.hosts.values()) {
+      for (const key of Object.keys(total) as (keyof HostMetrics)[]) {
+        total[key] += metrics[key];
+      }
+    }
+    return total;
+  }
+
+  /**
+   * One line per host, e.g. "example.com: 3 request(s), 1 from cache,
+   * 1 retry, 1 rate-limited, 0 failed, waited 1.5s".
+   */
+  format(): string[] {
+    return [...this.hosts].map(
+      ([host, metrics]) =>
+        `${host}: ${metrics.requests} request(s), ${metrics.cacheHits} from cache, ${metrics.retries} retr${metrics.retries === 1 ? 'y' : 'ies'}, ${metrics.rateLimited} rate-limited, ${metrics.failures} failed, waited ${(metrics.waitedMs / 1000).toFixed(1)}s`
+    );
+  }
+}
+
+/**
+ * Host name a request is counted and rate limited under.
+ */
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+}
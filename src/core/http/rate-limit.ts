@@ -0,0 +1,92 @@
+import type { HttpClient, HttpResponse } from '../../utils/http.js';
+import { hostOf } from './metrics.js';
+import type { HttpMetrics } from './metrics.js';
+
+export interface RateLimitOptions {
+  requestsPerSecond: number;
+  /** Requests a host may receive back to back (default: requestsPerSecond, at least 1) */
+  burst?: number;
+  metrics?: HttpMetrics;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket per host. Each request takes a token as soon as it is
+ * made, letting the balance go negative, and waits until the refill covers
+ * it; concurrent callers therefore queue up in order without a lock.
+ */
+export class HostRateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly rate: number;
+  private readonly burst: number;
+  private readonly now: () => number;
+
+  constructor(
+    requestsPerSecond: number,
+    burst = Math.max(1, requestsPerSecond),
+    now: () => number = Date.now
+  ) {
+    if (!(requestsPerSecond > 0) || !(burst >= 1)) {
+      throw new Error(
+        `Invalid rate limit ${requestsPerSecond}/s with burst ${burst}`
+      );
+    }
+    this.rate = requestsPerSecond / 1000;
+    this.burst = burst;
+    this.now = now;
+  }
+
+  /**
+   * Take a token for `host` and return how long to wait before using it.
+   */
+  reserve(host: string): number {
+    const now = this.now();
+    const bucket = this.buckets.get(host) ?? {
+      tokens: this.burst,
+      updatedAt: now,
+    };
+    bucket.tokens = Math.min(
+      this.burst,
+      bucket.tokens + (now - bucket.updatedAt) * this.rate
+    );
+    bucket.updatedAt = now;
+    bucket.tokens -= 1;
+    this.buckets.set(host, bucket);
+    return bucket.tokens >= 0 ? 0 : -bucket.tokens / this.rate;
+  }
+}
+
+export function withRateLimit(
+  transport: HttpClient,
+  options: RateLimitOptions
+): HttpClient {
+  const limiter = new HostRateLimiter(
+    options.requestsPerSecond,
+    options.burst,
+    options.now
+  );
+  const wait = options.sleep ?? sleep;
+
+  return {
+    async get(url: string): Promise<HttpResponse> {
+      const host = hostOf(url);
+      const delay = limiter.reserve(host);
+      if (delay > 0) {
+        options.metrics?.add(host, 'waitedMs', delay);
+        await wait(delay);
+      }
+      options.metrics?.add(host, 'networkRequests');
+      return transport.get(url);
+    },
+  };
+}
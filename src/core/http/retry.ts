@@ -0,0 +1,89 @@
+import type { HttpClient, HttpResponse } from '../../utils/http.js';
+import { hostOf } from './metrics.js';
+import type { HttpMetrics } from './metrics.js';
+import { sleep } from './rate-limit.js';
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on each one (default 500 ms) */
+  baseDelayMs?: number;
+  /** Longest delay, including one asked for by Retry-After (default 60 s) */
+  maxDelayMs?: number;
+  metrics?: HttpMetrics;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  /** Source of jitter in [0, 1) */
+  random?: () => number;
+}
+
+// Statuses worth another try: timeouts, throttling and transient server
+// errors
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Delay asked for by a Retry-After header, given in seconds or as an HTTP
+ * date, or undefined when there is none.
+ */
+export function retryAfterMs(
+  response: HttpResponse,
+  now: number = Date.now()
+): number | undefined {
+  const value = response.headers['retry-after']?.trim();
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Retry network errors and retryable statuses with exponential backoff and
+ * full jitter, waiting as long as Retry-After asks when a server says so.
+ * Once retries run out the last response is returned, or the last error
+ * thrown.
+ */
+export function withRetry(
+  transport: HttpClient,
+  options: RetryOptions = {}
+): HttpClient {
+  const maxRetries = options.maxRetries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 60_000;
+  const now = options.now ?? Date.now;
+  const wait = options.sleep ?? sleep;
+  const random = options.random ?? Math.random;
+
+  return {
+    async get(url: string): Promise<HttpResponse> {
+      const host = hostOf(url);
+      for (let attempt = 0; ; attempt++) {
+        let response: HttpResponse | undefined;
+        let failure: unknown;
+        try {
+          response = await transport.get(url);
+        } catch (error) {
+          failure = error;
+        }
+        if (response?.status === 429) options.metrics?.add(host, 'rateLimited');
+
+        const retryable =
+          response === undefined || RETRYABLE_STATUSES.has(response.status);
+        if (!retryable) return response as HttpResponse;
+        if (attempt >= maxRetries) {
+          options.metrics?.add(host, 'failures');
+          if (response) return response;
+          throw failure;
+        }
+
+        const backoff = baseDelayMs * 2 ** attempt * random();
+        const delay = Math.min(
+          maxDelayMs,
+          (response && retryAfterMs(response, now())) ?? backoff
+        );
+        options.metrics?.add(host, 'retries');
+        options.metrics?.add(host, 'waitedMs', delay);
+        await wait(delay);
+      }
+    },
+  };
+}
@@ -0,0 +1,279 @@
+import { join } from 'path';
+import { LeadsSchema } from '../../schemas/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { readJsonFile, writeJsonAtomic } from '../../utils/fs.js';
+
+export const LEAD_STATUSES = [
+  'new',
+  'contacted',
+  'demo-sent',
+  'won',
+  'lost',
+  'do-not-contact',
+] as const;
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+/** Statuses that end the pipeline, so no follow-up is due */
+export const CLOSED_LEAD_STATUSES: readonly LeadStatus[] = [
+  'won',
+  'lost',
+  'do-not-contact',
+];
+
+/**
+ * Statuses from most to least restrictive: do-not-contact, then the other
+ * closed ones, then the open ones latest stage first.
+ */
+const STATUS_PRECEDENCE: readonly LeadStatus[] = [
+  'do-not-contact',
+  'won',
+  'lost',
+  'demo-sent',
+  'contacted',
+  'new',
+];
+
+export interface LeadNote {
+  /** ISO 8601 timestamp */
+  at: string;
+  text: string;
+  author?: string;
+}
+
+export interface Lead {
+  status: LeadStatus;
+  /** Rep the lead is assigned to */
+  owner?: string;
+  /** Next follow-up date, YYYY-MM-DD */
+  followUp?: string;
+  /** Oldest first */
+  notes: LeadNote[];
+  /** ISO 8601 timestamp of the last change */
+  updatedAt: string;
+}
+
+/**
+ * A change to a lead. `null` clears the owner or follow-up date.
+ */
+export interface LeadUpdate {
+  status?: LeadStatus;
+  owner?: string | null;
+  followUp?: string | null;
+  note?: { text: string; author?: string };
+}
+
+export class LeadError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'LeadError';
+  }
+}
+
+export function isLeadStatus(value: string): value is LeadStatus {
+  return (LEAD_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * A date as YYYY-MM-DD in local time.
+ */
+export function formatLocalDate(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse a follow-up date: `YYYY-MM-DD`, `today`, `tomorrow`, or an offset
+ * from today such as `+3d` or `+2w`. `none` clears the date.
+ */
+export function parseFollowUp(value: string, now = new Date()): string | null {
+  const text = value.trim().toLowerCase();
+  if (text === 'none') return null;
+
+  const offset = /^\+(\d+)([dw])$/.exec(text);
+  const days =
+    text === 'today'
+      ? 0
+      : text === 'tomorrow'
+        ? 1
+        : offset
+          ? Number(offset[1]) * (offset[2] === 'w' ? 7 : 1)
+          : undefined;
+  if (days !== undefined) {
+    const date = new Date(now);
+    date.setDate(date.getDate() + days);
+    return formatLocalDate(date);
+  }
+
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const date = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : undefined;
+  if (!date || formatLocalDate(date) !== text) {
+    throw new LeadError(
+      `Invalid follow-up date "${value}" (use YYYY-MM-DD, today, tomorrow, +3d or +2w)`
+    );
+  }
+  return text;
+}
+
+/**
+ * Open leads with a follow-up on or before `date` (YYYY-MM-DD), earliest
+ * first.
+ */
+export function dueLeads(
+  leads: Record<string, Lead>,
+  date: string
+): [string, Lead][] {
+  return Object.entries(leads)
+    .filter(
+      ([, lead]) =>
+        lead.followUp !== undefined &&
+        lead.followUp <= date &&
+        !CLOSED_LEAD_STATUSES.includes(lead.status)
+    )
+    .sort(
+      ([idA, a], [idB, b]) =>
+        (a.followUp as string).localeCompare(b.followUp as string) ||
+        idA.localeCompare(idB)
+    );
+}
+
+/**
+ * The prospects not marked do-not-contact, which are the only ones that
+ * may be exported or contacted.
+ */
+export function withoutDoNotContact(
+  prospects: BusinessProspect[],
+  leads: Record<string, Lead>
+): BusinessProspect[] {
+  return prospects.filter(
+    (prospect) => leads[prospect.id]?.status !== 'do-not-contact'
+  );
+}
+
+/**
+ * One lead for prospects merged by `dedupe`: the most restrictive status,
+ * every note in time order and the owner and follow-up of the first lead
+ * that has them.
+ */
+export function mergeLeads(leads: Lead[]): Lead {
+  const status =
+    STATUS_PRECEDENCE.find((candidate) =>
+      leads.some((lead) => lead.status === candidate)
+    ) ?? 'new';
+  const owner = leads.find((lead) => lead.owner)?.owner;
+  const followUp = leads.find((lead) => lead.followUp)?.followUp;
+  return {
+    status,
+    ...(owner ? { owner } : {}),
+    ...(followUp ? { followUp } : {}),
+    notes: leads
+      .flatMap((lead) => lead.notes)
+      .sort((a, b) => a.at.localeCompare(b.at)),
+    updatedAt: leads
+      .map((lead) => lead.updatedAt)
+      .reduce((latest, at) => (at > latest ? at : latest), ''),
+  };
+}
+
+/**
+ * Lead tracking kept in `leads.json` in the data directory, next to the
+ * prospects themselves: a prospect without an entry is a `new` lead.
+ */
+export class LeadStore {
+  private readonly path: string;
+
+  constructor(readonly dataDir: string) {
+    this.path = join(dataDir, 'leads.json');
+  }
+
+  async list(): Promise<Record<string, Lead>> {
+    return (
+      (await readJsonFile<Record<string, Lead>>(
+        this.path,
+        LeadsSchema,
+        LeadError
+      )) ?? {}
+    );
+  }
+
+  async get(prospectId: string): Promise<Lead | undefined> {
+    return (await this.list())[prospectId];
+  }
+
+  /**
+   * Apply a change to a prospect's lead, starting a `new` one if it has
+   * none, and return the result.
+   */
+  async update(
+    prospectId: string,
+    update: LeadUpdate,
+    now = new Date()
+  ): Promise<Lead> {
+    const leads = await this.list();
+    const { owner, followUp, ...current } = leads[prospectId] ?? {
+      status: 'new',
+      notes: [],
+    };
+    const nextOwner = update.owner === undefined ? owner : update.owner;
+    const nextFollowUp =
+      update.followUp === undefined ? followUp : update.followUp;
+    const note = update.note?.text.trim();
+
+    const lead: Lead = {
+      status: update.status ?? current.status,
+      ...(nextOwner ? { owner: nextOwner } : {}),
+      ...(nextFollowUp ? { followUp: nextFollowUp } : {}),
+      notes: note
+        ? [
+            ...current.notes,
+            {
+              at: now.toISOString(),
+              text: note,
+              ...(update.note?.author ? { author: update.note.author } : {}),
+            },
+          ]
+        : current.notes,
+      updatedAt: now.toISOString(),
+    };
+    await this.write({ ...leads, [prospectId]: lead });
+    return lead;
+  }
+
+  /**
+   * Fold the leads of `duplicateIds` into `prospectId`'s, as `dedupe` merges
+   * their records into it, and return the result. Returns undefined when
+   * none of them had a lead.
+   */
+  async merge(
+    prospectId: string,
+    duplicateIds: string[]
+  ): Promise<Lead | undefined> {
+    const leads = await this.list();
+    const merging = [prospectId, ...duplicateIds].flatMap((id) => {
+      const lead = leads[id];
+      return lead ? [lead] : [];
+    });
+    if (merging.length === 0) return undefined;
+    const lead = mergeLeads(merging);
+    for (const id of duplicateIds) delete leads[id];
+    await this.write({ ...leads, [prospectId]: lead });
+    return lead;
+  }
+
+  /**
+   * Remove a prospect's lead. Returns false if it had none.
+   */
+  async delete(prospectId: string): Promise<boolean> {
+    const leads = await this.list();
+    if (!(prospectId in leads)) return false;
+    delete leads[prospectId];
+    await this.write(leads);
+    return true;
+  }
+
+  private async write(leads: Record<string, Lead>): Promise<void> {
+    await writeJsonAtomic(this.path, leads);
+  }
+}
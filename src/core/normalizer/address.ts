@@ -0,0 +1,220 @@
+import { isUnitedStates } from './country.js';
+
+export interface PostalAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+/** USPS Publication 28 street suffix abbreviations, keyed by every spelling */
+const STREET_SUFFIXES: Record<string, string> = {};
+for (const [abbreviation, ...spellings] of [
+  ['Aly', 'ALLEY', 'ALLY'],
+  ['Ave', 'AVENUE', 'AV', 'AVEN', 'AVENU', 'AVN', 'AVNUE'],
+  ['Blvd', 'BOULEVARD', 'BOUL', 'BOULV'],
+  ['Cir', 'CIRCLE', 'CIRC', 'CIRCL', 'CRCL'],
+  ['Ct', 'COURT', 'CRT'],
+  ['Cv', 'COVE'],
+  ['Dr', 'DRIVE', 'DRIV', 'DRV'],
+  ['Expy', 'EXPRESSWAY', 'EXPR', 'EXPRESS', 'EXPW'],
+  ['Fwy', 'FREEWAY', 'FRWY'],
+  ['Hwy', 'HIGHWAY', 'HIGHWY', 'HIWAY', 'HIWY', 'HWAY'],
+  ['Ln', 'LANE'],
+  ['Loop', 'LOOPS'],
+  ['Pkwy', 'PARKWAY', 'PARKWY', 'PKWAY', 'PKY'],
+  ['Pl', 'PLACE'],
+  ['Plz', 'PLAZA', 'PLZA'],
+  ['Rd', 'ROAD'],
+  ['Sq', 'SQUARE', 'SQR', 'SQRE', 'SQU'],
+  ['St', 'STREET', 'STR', 'STRT'],
+  ['Ter', 'TERRACE'],
+  ['Trl', 'TRAIL', 'TRAILS', 'TRLS'],
+  ['Way', 'WY'],
+  ['Xing', 'CROSSING', 'CRSSNG'],
+] as const) {
+  STREET_SUFFIXES[abbreviation.toUpperCase()] = abbreviation;
+  for (const spelling of spellings) STREET_SUFFIXES[spelling] = abbreviation;
+}
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+  NORTHEAST: 'NE',
+  NORTHWEST: 'NW',
+  SOUTHEAST: 'SE',
+  SOUTHWEST: 'SW',
+  N: 'N',
+  S: 'S',
+  E: 'E',
+  W: 'W',
+  NE: 'NE',
+  NW: 'NW',
+  SE: 'SE',
+  SW: 'SW',
+};
+
+const UNIT_DESIGNATORS: Record<string, string> = {
+  APARTMENT: 'Apt',
+  APT: 'Apt',
+  BUILDING: 'Bldg',
+  BLDG: 'Bldg',
+  FLOOR: 'Fl',
+  FL: 'Fl',
+  ROOM: 'Rm',
+  RM: 'Rm',
+  SUITE: 'Ste',
+  STE: 'Ste',
+  UNIT: 'Unit',
+};
+
+const STATE_CODES: Record<string, string> = {
+  ALABAMA: 'AL',
+  ALASKA: 'AK',
+  ARIZONA: 'AZ',
+  ARKANSAS: 'AR',
+  CALIFORNIA: 'CA',
+  COLORADO: 'CO',
+  CONNECTICUT: 'CT',
+  DELAWARE: 'DE',
+  'DISTRICT OF COLUMBIA': 'DC',
+  FLORIDA: 'FL',
+  GEORGIA: 'GA',
+  HAWAII: 'HI',
+  IDAHO: 'ID',
+  ILLINOIS: 'IL',
+  INDIANA: 'IN',
+  IOWA: 'IA',
+  KANSAS: 'KS',
+  KENTUCKY: 'KY',
+  LOUISIANA: 'LA',
+  MAINE: 'ME',
+  MARYLAND: 'MD',
+  MASSACHUSETTS: 'MA',
+  MICHIGAN: 'MI',
+  MINNESOTA: 'MN',
+  MISSISSIPPI: 'MS',
+  MISSOURI: 'MO',
+  MONTANA: 'MT',
+  NEBRASKA: 'NE',
+  NEVADA: 'NV',
+  'NEW HAMPSHIRE': 'NH',
+  'NEW JERSEY': 'NJ',
+  'NEW MEXICO': 'NM',
+  'NEW YORK': 'NY',
+  'NORTH CAROLINA': 'NC',
+  'NORTH DAKOTA': 'ND',
+  OHIO: 'OH',
+  OKLAHOMA: 'OK',
+  OREGON: 'OR',
+  PENNSYLVANIA: 'PA',
+  'PUERTO RICO': 'PR',
+  'RHODE ISLAND': 'RI',
+  'SOUTH CAROLINA': 'SC',
+  'SOUTH DAKOTA': 'SD',
+  TENNESSEE: 'TN',
+  TEXAS: 'TX',
+  UTAH: 'UT',
+  VERMONT: 'VT',
+  VIRGINIA: 'VA',
+  WASHINGTON: 'WA',
+  'WEST VIRGINIA': 'WV',
+  WISCONSIN: 'WI',
+  WYOMING: 'WY',
+};
+
+const STATE_ABBREVIATIONS = new Set(Object.values(STATE_CODES));
+
+function wordKey(token: string): string {
+  return token.replace(/[.,]/g, '').toUpperCase();
+}
+
+/**
+ * Standardize a US street line the way USPS Publication 28 writes it:
+ * "123 north main street, suite 200" → "123 N Main St Ste 200". Suffixes
+ * and directionals are only abbreviated where they act as such, so
+ * "45 Court Street" keeps "Court" and "12 North Street" keeps "North".
+ */
+export function normalizeStreet(street: string): string {
+  const tokens = street
+    .trim()
+    .split(/[\s,]+/)
+    .filter(Boolean);
+  const unitIndex = tokens.findIndex(
+    (token, index) =>
+      index > 0 &&
+      (token.startsWith('#') || UNIT_DESIGNATORS[wordKey(token)] !== undefined)
+  );
+  const main = unitIndex === -1 ? tokens : tokens.slice(0, unitIndex);
+  const unit = unitIndex === -1 ? [] : tokens.slice(unitIndex);
+
+  const words = main.map((token) => token.replace(/[.,]$/, ''));
+  let last = words.length - 1;
+  const postDirectional = DIRECTIONALS[wordKey(words[last] ?? '')];
+  if (postDirectional && last >= 2) {
+    words[last] = postDirectional;
+    last -= 1;
+  }
+  const suffix = STREET_SUFFIXES[wordKey(words[last] ?? '')];
+  if (suffix && last >= 1 && /\d/.test(words[0] ?? '')) {
+    words[last] = suffix;
+    last -= 1;
+  }
+  const preDirectional = DIRECTIONALS[wordKey(words[1] ?? '')];
+  if (preDirectional && last >= 2 && /\d/.test(words[0] ?? '')) {
+    words[1] = preDirectional;
+  }
+
+  const unitWords = unit.map((token, index) => {
+    const designator = UNIT_DESIGNATORS[wordKey(token)];
+    return index === 0 && designator ? designator : token.replace(/[.,]$/, '');
+  });
+  return [...words, ...unitWords].join(' ');
+}
+
+/**
+ * Two-letter USPS code for a US state name or code; anything else is
+ * returned trimmed.
+ */
+export function normalizeState(state: string): string {
+  const key = wordKey(state.trim()).replace(/\s+/g, ' ');
+  if (STATE_ABBREVIATIONS.has(key)) return key;
+  return STATE_CODES[key] ?? state.trim();
+}
+
+/**
+ * "33601", "33601-1234" or "336011234" → "33601" / "33601-1234". Values
+ * that are not US ZIP codes are returned trimmed.
+ */
+export function normalizeZipCode(zipCode: string): string {
+  const digits = zipCode.replace(/[\s-]/g, '');
+  if (/^\d{5}$/.test(digits)) return digits;
+  if (/^\d{9}$/.test(digits)) return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+  return zipCode.trim();
+}
+
+/**
+ * Standardize a US address; addresses in other countries are returned
+ * trimmed but otherwise as written.
+ */
+export function normalizeAddress<T extends PostalAddress>(address: T): T {
+  if (!isUnitedStates(address.country)) {
+    return {
+      ...address,
+      street: address.street.trim(),
+      city: address.city.trim(),
+      state: address.state.trim(),
+      zipCode: address.zipCode.trim(),
+    };
+  }
+  return {
+    ...address,
+    street: normalizeStreet(address.street),
+    city: address.city.trim().replace(/\s+/g, ' '),
+    state: normalizeState(address.state),
+    zipCode: normalizeZipCode(address.zipCode),
+  };
+}
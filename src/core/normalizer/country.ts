@@ -0,0 +1,64 @@
+import { isSupportedCountry } from 'libphonenumber-js/max';
+import type { CountryCode } from 'libphonenumber-js/max';
+
+/**
+ * Country names and ISO alpha-3 codes seen in directory data. Two-letter
+ * codes are recognized directly.
+ */
+const COUNTRY_ALIASES: Record<string, CountryCode> = {
+  usa: 'US',
+  'united states': 'US',
+  'united states of america': 'US',
+  america: 'US',
+  can: 'CA',
+  canada: 'CA',
+  mex: 'MX',
+  mexico: 'MX',
+  gbr: 'GB',
+  uk: 'GB',
+  'united kingdom': 'GB',
+  'great britain': 'GB',
+  england: 'GB',
+  irl: 'IE',
+  ireland: 'IE',
+  aus: 'AU',
+  australia: 'AU',
+  nzl: 'NZ',
+  'new zealand': 'NZ',
+  deu: 'DE',
+  germany: 'DE',
+  fra: 'FR',
+  france: 'FR',
+  esp: 'ES',
+  spain: 'ES',
+  ita: 'IT',
+  italy: 'IT',
+  prt: 'PT',
+  portugal: 'PT',
+  nld: 'NL',
+  netherlands: 'NL',
+  pri: 'PR',
+  'puerto rico': 'PR',
+};
+
+/**
+ * ISO 3166-1 alpha-2 region for a `location.country` value such as "USA",
+ * "US" or "United Kingdom".
+ */
+export function regionForCountry(
+  country: string | undefined
+): CountryCode | undefined {
+  const key = country?.trim().toLowerCase();
+  if (!key) return undefined;
+  const alias = COUNTRY_ALIASES[key];
+  if (alias) return alias;
+  const code = key.toUpperCase();
+  return isSupportedCountry(code) ? code : undefined;
+}
+
+/**
+ * Whether a `country` value refers to the United States.
+ */
+export function isUnitedStates(country: string | undefined): boolean {
+  return regionForCountry(country) === 'US';
+}
@@ -0,0 +1,132 @@
+/**
+ * Offline centroid dataset used to fill in missing coordinates and to
+ * sanity-check provided ones. It covers the largest US cities plus every
+ * ZIP code in the markets the project currently prospects (Tampa Bay and
+ * Austin); add rows here when a new market is opened up.
+ */
+
+/** [city, state, latitude, longitude] */
+export const CITY_CENTROIDS: ReadonlyArray<
+  readonly [string, string, number, number]
+> = [
+  ['Albuquerque', 'NM', 35.0844, -106.6504],
+  ['Anchorage', 'AK', 61.2181, -149.9003],
+  ['Atlanta', 'GA', 33.749, -84.388],
+  ['Austin', 'TX', 30.2672, -97.7431],
+  ['Baltimore', 'MD', 39.2904, -76.6122],
+  ['Birmingham', 'AL', 33.5186, -86.8104],
+  ['Boise', 'ID', 43.615, -116.2023],
+  ['Boston', 'MA', 42.3601, -71.0589],
+  ['Brandon', 'FL', 27.9378, -82.2859],
+  ['Cedar Park', 'TX', 30.5052, -97.8203],
+  ['Charleston', 'SC', 32.7765, -79.9311],
+  ['Charlotte', 'NC', 35.2271, -80.8431],
+  ['Chicago', 'IL', 41.8781, -87.6298],
+  ['Cincinnati', 'OH', 39.1031, -84.512],
+  ['Clearwater', 'FL', 27.9659, -82.8001],
+  ['Cleveland', 'OH', 41.4993, -81.6944],
+  ['Columbus', 'OH', 39.9612, -82.9988],
+  ['Dallas', 'TX', 32.7767, -96.797],
+  ['Denver', 'CO', 39.7392, -104.9903],
+  ['Detroit', 'MI', 42.3314, -83.0458],
+  ['El Paso', 'TX', 31.7619, -106.485],
+  ['Fort Lauderdale', 'FL', 26.1224, -80.1373],
+  ['Fort Worth', 'TX', 32.7555, -97.3308],
+  ['Fresno', 'CA', 36.7378, -119.7871],
+  ['Georgetown', 'TX', 30.6333, -97.677],
+  ['Honolulu', 'HI', 21.3069, -157.8583],
+  ['Houston', 'TX', 29.7604, -95.3698],
+  ['Indianapolis', 'IN', 39.7684, -86.1581],
+  ['Jacksonville', 'FL', 30.3322, -81.6557],
+  ['Kansas City', 'MO', 39.0997, -94.5786],
+  ['Las Vegas', 'NV', 36.1699, -115.1398],
+  ['Los Angeles', 'CA', 34.0522, -118.2437],
+  ['Louisville', 'KY', 38.2527, -85.7585],
+  ['Memphis', 'TN', 35.1495, -90.049],
+  ['Miami', 'FL', 25.7617, -80.1918],
+  ['Milwaukee', 'WI', 43.0389, -87.9065],
+  ['Minneapolis', 'MN', 44.9778, -93.265],
+  ['Nashville', 'TN', 36.1627, -86.7816],
+  ['New Orleans', 'LA', 29.9511, -90.0715],
+  ['New York', 'NY', 40.7128, -74.006],
+  ['Oklahoma City', 'OK', 35.4676, -97.5164],
+  ['Omaha', 'NE', 41.2565, -95.9345],
+  ['Orlando', 'FL', 28.5383, -81.3792],
+  ['Pflugerville', 'TX', 30.4394, -97.62],
+  ['Philadelphia', 'PA', 39.9526, -75.1652],
+  ['Phoenix', 'AZ', 33.4484, -112.074],
+  ['Pittsburgh', 'PA', 40.4406, -79.9959],
+  ['Portland', 'OR', 45.5152, -122.6784],
+  ['Raleigh', 'NC', 35.7796, -78.6382],
+  ['Richmond', 'VA', 37.5407, -77.436],
+  ['Round Rock', 'TX', 30.5083, -97.6789],
+  ['Sacramento', 'CA', 38.5816, -121.4944],
+  ['Saint Louis', 'MO', 38.627, -90.1994],
+  ['Saint Petersburg', 'FL', 27.7676, -82.6403],
+  ['Salt Lake City', 'UT', 40.7608, -111.891],
+  ['San Antonio', 'TX', 29.4241, -98.4936],
+  ['San Diego', 'CA', 32.7157, -117.1611],
+  ['San Francisco', 'CA', 37.7749, -122.4194],
+  ['San Jose', 'CA', 37.3382, -121.8863],
+  ['Sarasota', 'FL', 27.3364, -82.5307],
+  ['Seattle', 'WA', 47.6062, -122.3321],
+  ['Tallahassee', 'FL', 30.4383, -84.2807],
+  ['Tampa', 'FL', 27.9506, -82.4572],
+  ['Tucson', 'AZ', 32.2226, -110.9747],
+  ['Tulsa', 'OK', 36.154, -95.9928],
+  ['Virginia Beach', 'VA', 36.8529, -75.978],
+  ['Washington', 'DC', 38.9072, -77.0369],
+];
+
+/** [zip, city, state, latitude, longitude] */
+export const ZIP_CENTROIDS: ReadonlyArray<
+  readonly [string, string, string, number, number]
+> = [
+  ['33601', 'Tampa', 'FL', 27.9506, -82.4572],
+  ['33602', 'Tampa', 'FL', 27.951, -82.459],
+  ['33603', 'Tampa', 'FL', 27.985, -82.464],
+  ['33604', 'Tampa', 'FL', 28.017, -82.458],
+  ['33605', 'Tampa', 'FL', 27.95, -82.431],
+  ['33606', 'Tampa', 'FL', 27.933, -82.465],
+  ['33607', 'Tampa', 'FL', 27.966, -82.51],
+  ['33609', 'Tampa', 'FL', 27.943, -82.506],
+  ['33610', 'Tampa', 'FL', 27.996, -82.38],
+  ['33611', 'Tampa', 'FL', 27.891, -82.506],
+  ['33612', 'Tampa', 'FL', 28.05, -82.45],
+  ['33613', 'Tampa', 'FL', 28.088, -82.448],
+  ['33614', 'Tampa', 'FL', 28.01, -82.503],
+  ['33615', 'Tampa', 'FL', 28.007, -82.58],
+  ['33616', 'Tampa', 'FL', 27.865, -82.528],
+  ['33617', 'Tampa', 'FL', 28.039, -82.394],
+  ['33618', 'Tampa', 'FL', 28.074, -82.5],
+  ['33619', 'Tampa', 'FL', 27.937, -82.378],
+  ['33629', 'Tampa', 'FL', 27.921, -82.51],
+  ['33634', 'Tampa', 'FL', 28.006, -82.551],
+  ['33635', 'Tampa', 'FL', 28.03, -82.605],
+  ['33637', 'Tampa', 'FL', 28.044, -82.36],
+  ['33647', 'Tampa', 'FL', 28.13, -82.355],
+  ['78701', 'Austin', 'TX', 30.271, -97.742],
+  ['78702', 'Austin', 'TX', 30.263, -97.715],
+  ['78703', 'Austin', 'TX', 30.293, -97.765],
+  ['78704', 'Austin', 'TX', 30.243, -97.765],
+  ['78705', 'Austin', 'TX', 30.293, -97.739],
+  ['78721', 'Austin', 'TX', 30.27, -97.683],
+  ['78722', 'Austin', 'TX', 30.289, -97.715],
+  ['78723', 'Austin', 'TX', 30.305, -97.686],
+  ['78724', 'Austin', 'TX', 30.295, -97.615],
+  ['78727', 'Austin', 'TX', 30.425, -97.719],
+  ['78731', 'Austin', 'TX', 30.347, -97.768],
+  ['78741', 'Austin', 'TX', 30.232, -97.722],
+  ['78744', 'Austin', 'TX', 30.177, -97.739],
+  ['78745', 'Austin', 'TX', 30.207, -97.796],
+  ['78748', 'Austin', 'TX', 30.16, -97.823],
+  ['78749', 'Austin', 'TX', 30.217, -97.855],
+  ['78750', 'Austin', 'TX', 30.447, -97.795],
+  ['78751', 'Austin', 'TX', 30.31, -97.723],
+  ['78752', 'Austin', 'TX', 30.332, -97.7],
+  ['78753', 'Austin', 'TX', 30.382, -97.674],
+  ['78756', 'Austin', 'TX', 30.322, -97.74],
+  ['78757', 'Austin', 'TX', 30.352, -97.733],
+  ['78758', 'Austin', 'TX', 30.388, -97.706],
+  ['78759', 'Austin', 'TX', 30.403, -97.753],
+];
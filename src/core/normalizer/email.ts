@@ -0,0 +1,94 @@
+export { UNKNOWN_EMAIL } from '../../schemas/index.js';
+
+// Mailboxes that reach whoever is on duty rather than a person
+const ROLE_LOCAL_PARTS = new Set([
+  'admin',
+  'appointments',
+  'billing',
+  'booking',
+  'bookings',
+  'contact',
+  'contactus',
+  'enquiries',
+  'estimates',
+  'hello',
+  'help',
+  'hi',
+  'info',
+  'inquiries',
+  'jobs',
+  'mail',
+  'marketing',
+  'office',
+  'orders',
+  'reception',
+  'sales',
+  'service',
+  'support',
+  'team',
+  'webmaster',
+]);
+
+// Throwaway inbox providers; not exhaustive, but covers the common ones
+const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com',
+  'dispostable.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'mailinator.com',
+  'maildrop.cc',
+  'sharklasers.com',
+  'temp-mail.org',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+]);
+
+// Asset names such as logo@2x.png look like addresses
+const FILE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|avif|ico|css|js|pdf)$/i;
+
+/**
+ * Trim an address and lower-case it. Mailbox names are case-sensitive in
+ * theory, but no mail host treats them that way.
+ */
+export function normalizeEmail(value: string): string {
+  return value
+    .trim()
+    .replace(/^mailto:/i, '')
+    .toLowerCase();
+}
+
+/**
+ * Practical syntax check: a dot-atom local part, a domain of dot-separated
+ * labels ending in an alphabetic TLD, and the RFC 5321 length limits.
+ */
+export function isValidEmail(value: string): boolean {
+  if (value.length > 254 || FILE_EXTENSIONS.test(value)) return false;
+  const at = value.lastIndexOf('@');
+  const local = value.slice(0, at);
+  const domain = value.slice(at + 1);
+  return (
+    at > 0 &&
+    local.length <= 64 &&
+    /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i.test(
+      local
+    ) &&
+    /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i.test(domain)
+  );
+}
+
+export function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+/**
+ * True for generic mailboxes such as info@ or sales@.
+ */
+export function isRoleEmail(email: string): boolean {
+  const local = email.slice(0, email.lastIndexOf('@')).toLowerCase();
+  return ROLE_LOCAL_PARTS.has(local.replace(/[._-]/g, ''));
+}
+
+export function isDisposableEmail(email: string): boolean {
+  return DISPOSABLE_DOMAINS.has(emailDomain(email));
+}
@@ -0,0 +1,69 @@
+import { distanceMeters } from '../../utils/geo.js';
+import type { Coordinates } from '../../utils/geo.js';
+import { CITY_CENTROIDS, ZIP_CENTROIDS } from './data/us-places.js';
+
+export interface GeocodeQuery {
+  city: string;
+  state: string;
+  zipCode?: string;
+}
+
+export interface GeocodeResult extends Coordinates {
+  /** Whether the ZIP code or only the city was found in the dataset */
+  precision: 'zip' | 'city';
+}
+
+/**
+ * Beyond this distance from the centroid of their ZIP code or city,
+ * coordinates most likely belong to a different place.
+ */
+export const MAX_CENTROID_DISTANCE_METERS = 50_000;
+
+function cityKey(city: string, state: string): string {
+  const name = city
+    .trim()
+    .toLowerCase()
+    .replace(/^(st|ste)\.?\s+/, 'saint ')
+    .replace(/^ft\.?\s+/, 'fort ')
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ');
+  return `${name}|${state.trim().toUpperCase()}`;
+}
+
+const CITIES = new Map<string, Coordinates>(
+  CITY_CENTROIDS.map(([city, state, latitude, longitude]) => [
+    cityKey(city, state),
+    { latitude, longitude },
+  ])
+);
+
+const ZIPS = new Map<string, Coordinates>(
+  ZIP_CENTROIDS.map(([zip, , , latitude, longitude]) => [
+    zip,
+    { latitude, longitude },
+  ])
+);
+
+/**
+ * Look up approximate coordinates in the bundled dataset: the ZIP code
+ * centroid when it is known, the city centroid otherwise. Works offline;
+ * returns undefined for places outside the dataset.
+ */
+export function geocodeOffline(query: GeocodeQuery): GeocodeResult | undefined {
+  const zip = ZIPS.get(query.zipCode?.slice(0, 5) ?? '');
+  if (zip) return { ...zip, precision: 'zip' };
+  const city = CITIES.get(cityKey(query.city, query.state));
+  return city && { ...city, precision: 'city' };
+}
+
+/**
+ * Distance in meters from the coordinates to the centroid of the stated
+ * ZIP code or city, or undefined when the place is not in the dataset.
+ */
+export function distanceFromStatedPlace(
+  query: GeocodeQuery,
+  coordinates: Coordinates
+): number | undefined {
+  const centroid = geocodeOffline(query);
+  return centroid && distanceMeters(centroid, coordinates);
+}
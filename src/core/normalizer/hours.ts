@@ -0,0 +1,247 @@
+import type { BusinessHours } from '../../types/index.js';
+
+export const WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Opening interval in minutes since midnight. `closes` is at most 1440
+ * (midnight at the end of the day); an interval that closes at or before it
+ * opens runs past midnight into the next day.
+ */
+export interface TimeInterval {
+  opens: number;
+  closes: number;
+}
+
+export type DayHours =
+  | { kind: 'open'; intervals: TimeInterval[] }
+  | { kind: 'closed' }
+  | { kind: 'allDay' }
+  | { kind: 'byAppointment' };
+
+export interface HoursIssue {
+  /** BusinessHours key, e.g. `monday` or a special key such as `holidays` */
+  key: string;
+  value: string;
+  message: string;
+}
+
+export interface ParsedBusinessHours {
+  days: Record<string, DayHours>;
+  issues: HoursIssue[];
+}
+
+export interface NormalizedBusinessHours {
+  hours: BusinessHours;
+  issues: HoursIssue[];
+}
+
+interface ParsedTime {
+  hours: number;
+  minutes: number;
+  meridiem?: 'am' | 'pm';
+  /** Written with a leading zero or past 12, so the clock is 24-hour */
+  explicit24: boolean;
+}
+
+const CLOSED = /^(closed|closed today|day off)$/;
+const ALL_DAY = /^(open )?(24 ?hours|24 ?hrs|24\/7|all day)$/;
+const BY_APPOINTMENT = /^(open )?(by appointment|appointment)( only)?$/;
+
+function parseTime(text: string): ParsedTime | undefined {
+  if (text === 'noon') return { hours: 12, minutes: 0, explicit24: true };
+  if (text === 'midnight') return { hours: 0, minutes: 0, explicit24: true };
+
+  const match = text.match(
+    /^(\d{1,2})(?:[:.]?(\d{2}))?\s*(?:([ap])\.?m?\.?)?$/
+  );
+  if (!match) return undefined;
+  const hourText = match[1] as string;
+  const hours = Number(hourText);
+  const minutes = Number(match[2] ?? '0');
+  const meridiem =
+    match[3] === 'a' ? 'am' : match[3] === 'p' ? 'pm' : undefined;
+
+  if (minutes > 59) return undefined;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return undefined;
+    return { hours, minutes, meridiem, explicit24: false };
+  }
+  if (hours > 24 || (hours === 24 && minutes > 0)) return undefined;
+  return {
+    hours,
+    minutes,
+    explicit24: hours > 12 || hours === 0 || hourText.startsWith('0'),
+  };
+}
+
+function toMinutes(time: ParsedTime, meridiem?: 'am' | 'pm'): number {
+  const resolved = time.meridiem ?? meridiem;
+  if (!resolved) return time.hours * 60 + time.minutes;
+  return ((time.hours % 12) + (resolved === 'pm' ? 12 : 0)) * 60 + time.minutes;
+}
+
+/**
+ * Resolve a range where AM/PM is missing on one or both ends. "9-5" reads
+ * as 9 AM to 5 PM, "9-5pm" borrows PM only when that keeps 9 before 5, and
+ * "6pm-2" closes at 2 AM.
+ */
+function resolveRange(start: ParsedTime, end: ParsedTime): TimeInterval {
+  let opens: number;
+  if (start.meridiem || start.explicit24 || end.explicit24) {
+    opens = toMinutes(start);
+  } else if (end.meridiem) {
+    const sameHalf = toMinutes(start, end.meridiem);
+    opens =
+      sameHalf < toMinutes(end)
+        ? sameHalf
+        : toMinutes(start, end.meridiem === 'am' ? 'pm' : 'am');
+  } else {
+    // A bare hour before 7 is far more likely an evening opening
+    opens = toMinutes(
+      start,
+      start.hours < 7 || start.hours === 12 ? 'pm' : 'am'
+    );
+  }
+
+  let closes: number;
+  if (end.meridiem || end.explicit24) {
+    closes = toMinutes(end);
+  } else {
+    const morning = toMinutes(end, 'am');
+    const evening = toMinutes(end, 'pm');
+    closes = morning > opens ? morning : evening > opens ? evening : morning;
+  }
+
+  // Midnight as a closing time ends the day rather than starting it
+  if (closes === 0) closes = MINUTES_PER_DAY;
+  return { opens, closes };
+}
+
+function parseShift(text: string): TimeInterval | undefined {
+  const parts = text.split(/\s*-\s*/);
+  if (parts.length !== 2) return undefined;
+  const start = parseTime(parts[0] as string);
+  const end = parseTime(parts[1] as string);
+  if (!start || !end) return undefined;
+  const interval = resolveRange(start, end);
+  return interval.opens >= MINUTES_PER_DAY || interval.opens === interval.closes
+    ? undefined
+    : interval;
+}
+
+/**
+ * Parse one day's hours text such as "9-5", "9:00 AM – 5:00 PM",
+ * "8am-12pm, 1pm-5pm", "6pm-2am", "Closed", "Open 24 hours" or
+ * "By appointment". Returns undefined when the text cannot be read.
+ */
+export function parseDayHours(text: string): DayHours | undefined {
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/[‐-―−]/g, '-')
+    .replace(/\s+(to|until|till)\s+/g, ' - ')
+    .replace(/\s+/g, ' ');
+
+  if (CLOSED.test(normalized)) return { kind: 'closed' };
+  if (ALL_DAY.test(normalized)) return { kind: 'allDay' };
+  if (BY_APPOINTMENT.test(normalized)) return { kind: 'byAppointment' };
+
+  const intervals: TimeInterval[] = [];
+  for (const shift of normalized.split(/\s*(?:[,;&/]|\band\b)\s*/)) {
+    const interval = parseShift(shift);
+    if (!interval) return undefined;
+    intervals.push(interval);
+  }
+  intervals.sort((a, b) => a.opens - b.opens);
+  return { kind: 'open', intervals };
+}
+
+/**
+ * Parse every value in `BusinessHours`, weekdays and special keys alike.
+ * Values that cannot be read are reported instead of parsed.
+ */
+export function parseBusinessHours(hours: BusinessHours): ParsedBusinessHours {
+  const days: Record<string, DayHours> = {};
+  const issues: HoursIssue[] = [];
+  for (const [key, value] of Object.entries(hours)) {
+    if (value === undefined) continue;
+    const parsed = parseDayHours(value);
+    if (parsed) {
+      days[key] = parsed;
+    } else {
+      issues.push({ key, value, message: `Unrecognized hours "${value}"` });
+    }
+  }
+  return { days, issues };
+}
+
+/**
+ * Minutes since midnight as "9:00 AM"; 1440 formats as midnight.
+ */
+export function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  const meridiem = hours < 12 ? 'AM' : 'PM';
+  const clock = hours % 12 === 0 ? 12 : hours % 12;
+  return `${clock}:${String(minutes % 60).padStart(2, '0')} ${meridiem}`;
+}
+
+/**
+ * Minutes since midnight as 24-hour "HH:MM"; 1440 formats as "23:59", the
+ * closing time schema.org uses for the end of the day.
+ */
+export function formatTime24(minutes: number): string {
+  if (minutes >= MINUTES_PER_DAY) return '23:59';
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  return `${hours}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The canonical display form: "9:00 AM - 5:00 PM", shifts joined with ", ",
+ * or "Closed" / "Open 24 hours" / "By appointment".
+ */
+export function formatDayHours(day: DayHours): string {
+  switch (day.kind) {
+    case 'closed':
+      return 'Closed';
+    case 'allDay':
+      return 'Open 24 hours';
+    case 'byAppointment':
+      return 'By appointment';
+    case 'open':
+      return day.intervals
+        .map(
+          (interval) =>
+            `${formatTime(interval.opens)} - ${formatTime(interval.closes)}`
+        )
+        .join(', ');
+  }
+}
+
+/**
+ * Rewrite every readable value in its canonical form. Unreadable values,
+ * including free-text special keys, are kept as written and reported.
+ */
+export function normalizeBusinessHours(
+  hours: BusinessHours
+): NormalizedBusinessHours {
+  const { days, issues } = parseBusinessHours(hours);
+  const normalized: BusinessHours = {};
+  for (const [key, value] of Object.entries(hours)) {
+    if (value === undefined) continue;
+    const day = days[key];
+    normalized[key] = day ? formatDayHours(day) : value;
+  }
+  return { hours: normalized, issues };
+}
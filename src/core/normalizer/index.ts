@@ -0,0 +1,8 @@
+export * from './address.js';
+export * from './country.js';
+export * from './email.js';
+export * from './geocode.js';
+export * from './hours.js';
+export * from './phone.js';
+export * from './prospect.js';
+export * from './social.js';
@@ -0,0 +1,84 @@
+import { parsePhoneNumberFromString } from 'libphonenumber-js/max';
+import type { CountryCode, PhoneNumber } from 'libphonenumber-js/max';
+import type { PhoneLineType } from '../../types/index.js';
+
+/** Region national-format numbers are read in when the country is unknown */
+export const DEFAULT_PHONE_REGION: CountryCode = 'US';
+
+export interface NormalizedPhone {
+  /** Stored form: E.164, with `;ext=` and the extension when there is one */
+  value: string;
+  e164: string;
+  extension?: string;
+  /** ISO 3166-1 alpha-2 region the number belongs to, when known */
+  region?: string;
+  lineType?: PhoneLineType;
+}
+
+const LINE_TYPES: Record<string, PhoneLineType> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'landline',
+  FIXED_LINE_OR_MOBILE: 'landlineOrMobile',
+  TOLL_FREE: 'tollFree',
+  VOIP: 'voip',
+};
+
+function toNormalized(phone: PhoneNumber): NormalizedPhone {
+  const type = phone.getType();
+  return {
+    value: phone.ext ? `${phone.number};ext=${phone.ext}` : phone.number,
+    e164: phone.number,
+    ...(phone.ext ? { extension: phone.ext } : {}),
+    ...(phone.country ? { region: phone.country } : {}),
+    ...(type ? { lineType: LINE_TYPES[type] ?? 'other' } : {}),
+  };
+}
+
+function parseValid(
+  raw: string,
+  region: CountryCode | undefined
+): PhoneNumber | undefined {
+  const phone = parsePhoneNumberFromString(raw, region);
+  return phone?.isValid() ? phone : undefined;
+}
+
+/**
+ * Parse a phone number as written in a directory listing: "(813) 555-0123",
+ * "813.555.0123 ext 4", "+44 20 7946 0958". National formats are read in
+ * `region`. Returns undefined for numbers that are not valid.
+ */
+export function parsePhone(
+  raw: string,
+  region: CountryCode = DEFAULT_PHONE_REGION
+): NormalizedPhone | undefined {
+  const phone = parseValid(raw, region);
+  return phone && toNormalized(phone);
+}
+
+/**
+ * The stored form of a phone number, or undefined when it is not valid.
+ */
+export function normalizePhone(
+  raw: string,
+  region?: CountryCode
+): string | undefined {
+  return parsePhone(raw, region)?.value;
+}
+
+/**
+ * Human-readable form, national for the number's own region, e.g.
+ * "(813) 555-0123 ext. 4". Unparseable input is returned unchanged.
+ */
+export function formatPhone(value: string): string {
+  return parseValid(value, DEFAULT_PHONE_REGION)?.formatNational() ?? value;
+}
+
+/**
+ * RFC 3966 `tel:` URI for click-to-call links.
+ */
+export function phoneTelUri(value: string): string {
+  return (
+    parseValid(value, DEFAULT_PHONE_REGION)?.getURI() ??
+    `tel:${value.replace(/[^\d+]/g, '')}`
+  );
+}
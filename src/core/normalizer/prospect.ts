@@ -0,0 +1,261 @@
+import { readFileSync } from 'fs';
+import { BusinessProspectSchema } from '../../schemas/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { isRecord } from '../../utils/objects.js';
+import { reviveProspect } from '../../utils/prospects.js';
+import { safeParseAs } from '../../utils/schema.js';
+import { normalizeAddress } from './address.js';
+import type { PostalAddress } from './address.js';
+import { isUnitedStates, regionForCountry } from './country.js';
+import {
+  MAX_CENTROID_DISTANCE_METERS,
+  distanceFromStatedPlace,
+  geocodeOffline,
+} from './geocode.js';
+import { normalizePhone, parsePhone } from './phone.js';
+
+export type ProspectParseResult =
+  | { success: true; prospect: BusinessProspect }
+  | { success: false; issues: string[] };
+
+/** Problems found while normalizing, keyed by dotted path */
+type NormalizeIssues = Map<string, string>;
+
+function isPostalAddress(value: unknown): value is PostalAddress {
+  return (
+    isRecord(value) &&
+    ['street', 'city', 'state', 'zipCode', 'country'].every(
+      (key) => typeof value[key] === 'string'
+    )
+  );
+}
+
+/**
+ * The stored E.164 form of a phone as written in a listing, reading national
+ * formats in `country` and as US numbers otherwise.
+ */
+function localizePhone(
+  phone: unknown,
+  country: unknown,
+  path: string,
+  issues: NormalizeIssues
+): unknown {
+  if (typeof phone !== 'string') return phone;
+  const region =
+    typeof country === 'string' ? regionForCountry(country) : undefined;
+  const normalized =
+    (region && normalizePhone(phone, region)) ?? normalizePhone(phone);
+  if (!normalized) issues.set(path, `Invalid phone number "${phone}"`);
+  return normalized ?? phone;
+}
+
+/**
+ * Normalize the contact's phone and derive the phone type from it.
+ */
+function normalizeContact(
+  contact: unknown,
+  country: unknown,
+  issues: NormalizeIssues
+): unknown {
+  if (!isRecord(contact)) return contact;
+  const phone = localizePhone(contact.phone, country, 'contact.phone', issues);
+  return {
+    ...contact,
+    phone,
+    phoneType:
+      typeof phone === 'string' ? parsePhone(phone)?.lineType : undefined,
+  };
+}
+
+/**
+ * Standardize a US location's address, fill in missing coordinates from the
+ * offline ZIP/city dataset and flag coordinates far from the stated place.
+ */
+function normalizeLocation(
+  location: unknown,
+  issues: NormalizeIssues
+): unknown {
+  if (!isRecord(location)) return location;
+  const postal = {
+    street: location.address,
+    city: location.city,
+    state: location.state,
+    zipCode: location.zipCode,
+    country: location.country,
+  };
+  if (!isPostalAddress(postal)) return location;
+
+  const { street, city, state, zipCode, country } = normalizeAddress(postal);
+  const place = { city, state, zipCode };
+  const us = isUnitedStates(country);
+  let { latitude, longitude } = location;
+  let geocoded =
+    Array.isArray(location.flags) && location.flags.includes('geocoded');
+
+  if (latitude === undefined || longitude === undefined) {
+    const found = us ? geocodeOffline(place) : undefined;
+    if (found) {
+      ({ latitude, longitude } = found);
+      geocoded = true;
+    } else {
+      issues.set(
+        'location.latitude',
+        `Coordinates are required: ${city}, ${state} ${zipCode} is not in the offline geocoding dataset`
+      );
+    }
+  }
+
+  const distance =
+    us && typeof latitude === 'number' && typeof longitude === 'number'
+      ? distanceFromStatedPlace(place, { latitude, longitude })
+      : undefined;
+  const flags = [
+    ...(geocoded ? ['geocoded'] : []),
+    ...(distance !== undefined && distance > MAX_CENTROID_DISTANCE_METERS
+      ? ['farFromCity']
+      : []),
+  ];
+  return {
+    address: street,
+    city,
+    state,
+    zipCode,
+    country,
+    latitude,
+    longitude,
+    ...(flags.length > 0 ? { flags } : {}),
+  };
+}
+
+/**
+ * Normalize the template config's phone in the country of its address and
+ * standardize the address.
+ */
+function normalizeBusinessConfig(
+  config: unknown,
+  issues: NormalizeIssues
+): unknown {
+  if (!isRecord(config) || !isRecord(config.contact)) return config;
+  const { address } = config.contact;
+  return {
+    ...config,
+    contact: {
+      ...config.contact,
+      phone: localizePhone(
+        config.contact.phone,
+        isRecord(address) ? address.country : undefined,
+        'templateConfig.contact.phone',
+        issues
+      ),
+      address: isPostalAddress(address) ? normalizeAddress(address) : address,
+    },
+  };
+}
+
+function samePostalAddress(a: PostalAddress, b: PostalAddress): boolean {
+  return (
+    a.street === b.street &&
+    a.city === b.city &&
+    a.state === b.state &&
+    a.zipCode === b.zipCode &&
+    a.country === b.country
+  );
+}
+
+/**
+ * Fill the template address from the (normalized) location when it is
+ * missing or still mirrors the location. Both have been standardized by
+ * now, so a template address copied from the location compares equal, and
+ * one set on purpose, such as a mailing address, is kept.
+ */
+function withLocationAddress(config: unknown, location: unknown): unknown {
+  if (!isRecord(config) || !isRecord(config.contact) || !isRecord(location)) {
+    return config;
+  }
+  const { address: street, city, state, zipCode, country } = location;
+  const address = { street, city, state, zipCode, country };
+  const current = config.contact.address;
+  if (
+    !isPostalAddress(address) ||
+    (current !== undefined &&
+      !(isPostalAddress(current) && samePostalAddress(current, address)))
+  ) {
+    return config;
+  }
+  return { ...config, contact: { ...config.contact, address } };
+}
+
+/**
+ * Bring a prospect record from a source, a file or the database into its
+ * stored form: phones in E.164, US addresses standardized and coordinates
+ * filled in where the offline dataset knows the place. Anything else
+ * unexpected is passed through for `BusinessProspectSchema` to report.
+ */
+function normalizeProspectRecord(
+  record: unknown,
+  issues: NormalizeIssues
+): unknown {
+  if (!isRecord(record)) return record;
+  const location = normalizeLocation(record.location, issues);
+  return {
+    ...record,
+    location,
+    contact: normalizeContact(
+      record.contact,
+      isRecord(location) ? location.country : undefined,
+      issues
+    ),
+    templateConfig: withLocationAddress(
+      normalizeBusinessConfig(record.templateConfig, issues),
+      location
+    ),
+  };
+}
+
+/**
+ * Revive, normalize and validate a prospect record, collecting every issue
+ * rather than throwing.
+ */
+export function safeParseProspect(record: unknown): ProspectParseResult {
+  const normalizeIssues: NormalizeIssues = new Map();
+  const parsed = safeParseAs<BusinessProspect>(
+    BusinessProspectSchema,
+    normalizeProspectRecord(reviveProspect(record), normalizeIssues)
+  );
+  if (!parsed.success || normalizeIssues.size > 0) {
+    const issues = [...normalizeIssues].map(
+      ([path, message]) => `${path}: ${message}`
+    );
+    // A value normalization gave up on fails the schema too; keep the more
+    // specific message
+    for (const issue of parsed.success ? [] : parsed.error.issues) {
+      const path = issue.path.join('.') || '(root)';
+      if (!normalizeIssues.has(path)) issues.push(`${path}: ${issue.message}`);
+    }
+    return { success: false, issues };
+  }
+  return { success: true, prospect: parsed.data };
+}
+
+/**
+ * Parse a prospect record, throwing a readable error listing every issue.
+ */
+export function parseProspect(record: unknown): BusinessProspect {
+  const parsed = safeParseProspect(record);
+  if (!parsed.success) {
+    const label =
+      isRecord(record) && typeof record.id === 'string' ? record.id : 'record';
+    throw new Error(`Invalid prospect ${label}: ${parsed.issues.join('; ')}`);
+  }
+  return parsed.prospect;
+}
+
+/**
+ * Read prospects from a JSON file holding either one prospect or an array,
+ * such as the output of `search`.
+ */
+export function readProspectsFile(path: string): BusinessProspect[] {
+  const raw: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  const records = Array.isArray(raw) ? raw : [raw];
+  return records.map((record) => parseProspect(record));
+}
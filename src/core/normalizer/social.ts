@@ -0,0 +1,280 @@
+import type { SocialMediaAccount } from '../../types/index.js';
+
+export const SOCIAL_PLATFORMS = [
+  'facebook',
+  'instagram',
+  'linkedin',
+  'x',
+  'tiktok',
+  'youtube',
+  'nextdoor',
+  'yelp',
+] as const;
+
+export type SocialPlatform = (typeof SOCIAL_PLATFORMS)[number];
+
+// Other names a platform is stored under
+const PLATFORM_ALIASES: Record<string, SocialPlatform> = {
+  fb: 'facebook',
+  ig: 'instagram',
+  twitter: 'x',
+  'x (twitter)': 'x',
+  yt: 'youtube',
+};
+
+/**
+ * Registrable domain of each platform; any subdomain (`m.`, `www.`,
+ * `business.`, country codes) is the same site.
+ */
+const PLATFORM_DOMAINS: Record<string, SocialPlatform> = {
+  'facebook.com': 'facebook',
+  'fb.com': 'facebook',
+  'instagram.com': 'instagram',
+  'linkedin.com': 'linkedin',
+  'twitter.com': 'x',
+  'x.com': 'x',
+  'tiktok.com': 'tiktok',
+  'youtube.com': 'youtube',
+  'nextdoor.com': 'nextdoor',
+  'yelp.com': 'yelp',
+  'yelp.ca': 'yelp',
+};
+
+// First path segments that are features of the site, not profiles
+const RESERVED_PATHS: Partial<Record<SocialPlatform, Set<string>>> = {
+  facebook: new Set([
+    'business',
+    'dialog',
+    'events',
+    'groups',
+    'hashtag',
+    'help',
+    'login',
+    'marketplace',
+    'permalink.php',
+    'photo',
+    'photo.php',
+    'photos',
+    'plugins',
+    'policies',
+    'reel',
+    'reels',
+    'search',
+    'share',
+    'share.php',
+    'sharer',
+    'sharer.php',
+    'story.php',
+    'tr',
+    'video.php',
+    'watch',
+  ]),
+  instagram: new Set(['accounts', 'explore', 'p', 'reel', 'reels', 'stories']),
+  x: new Set([
+    'hashtag',
+    'home',
+    'i',
+    'intent',
+    'login',
+    'search',
+    'share',
+    'status',
+  ]),
+};
+
+export function normalizePlatform(platform: string): string {
+  const lower = platform.trim().toLowerCase();
+  return PLATFORM_ALIASES[lower] ?? lower;
+}
+
+function platformFor(hostname: string): SocialPlatform | undefined {
+  const host = hostname.toLowerCase();
+  for (const [domain, platform] of Object.entries(PLATFORM_DOMAINS)) {
+    if (host === domain || host.endsWith(`.${domain}`)) return platform;
+  }
+  return undefined;
+}
+
+function account(
+  platform: SocialPlatform,
+  url: string,
+  handle: string
+): SocialMediaAccount {
+  return { platform, url, handle };
+}
+
+/**
+ * A Facebook profile known only by its numeric ID, in the form
+ * `profile.php` links use so every spelling of it compares equal.
+ */
+function facebookIdProfile(
+  id: string | undefined
+): SocialMediaAccount | undefined {
+  return id && /^\d+$/.test(id)
+    ? account('facebook', `https://www.facebook.com/profile.php?id=${id}`, id)
+    : undefined;
+}
+
+/**
+ * Canonical profile for `handle`, or undefined when it is not a usable name.
+ */
+function profileFor(
+  platform: SocialPlatform,
+  segments: string[],
+  query: URLSearchParams
+): SocialMediaAccount | undefined {
+  const [first = '', second = '', third = ''] = segments;
+  const lower = first.toLowerCase();
+  if (RESERVED_PATHS[platform]?.has(lower)) return undefined;
+
+  switch (platform) {
+    case 'facebook': {
+      if (lower === 'profile.php') {
+        return facebookIdProfile(query.get('id') ?? undefined);
+      }
+      // Personal profiles: /people/Name/100064012345678 and the newer
+      // /p/Name-100064012345678
+      if (lower === 'people') return facebookIdProfile(third);
+      if (lower === 'p') return facebookIdProfile(/-(\d+)$/.exec(second)?.[1]);
+      // Old-style page URLs: /pages/Name/123456
+      if (lower === 'pages') {
+        const id = [third, second].find((part) => /^\d+$/.test(part));
+        const name = second && !/^\d+$/.test(second) ? second : undefined;
+        return id
+          ? account(
+              platform,
+              `https://www.facebook.com/${id}`,
+              name?.toLowerCase() ?? id
+            )
+          : undefined;
+      }
+      return /^[a-z0-9.-]{2,}$/i.test(first)
+        ? account(platform, `https://www.facebook.com/${lower}`, lower)
+        : undefined;
+    }
+    case 'instagram':
+      return /^[a-z0-9._]{1,30}$/i.test(first)
+        ? account(platform, `https://www.instagram.com/${lower}`, lower)
+        : undefined;
+    case 'linkedin': {
+      const kind = lower === 'in' ? 'in' : lower === 'company' ? 'company' : '';
+      return kind && /^[a-z0-9_%-]+$/i.test(second)
+        ? account(
+            platform,
+            `https://www.linkedin.com/${kind}/${second.toLowerCase()}`,
+            second.toLowerCase()
+          )
+        : undefined;
+    }
+    case 'x': {
+      const handle = lower.replace(/^@/, '');
+      return /^[a-z0-9_]{1,15}$/.test(handle)
+        ? account(platform, `https://x.com/${handle}`, handle)
+        : undefined;
+    }
+    case 'tiktok':
+      return /^@[a-z0-9._]{2,24}$/i.test(first)
+        ? account(platform, `https://www.tiktok.com/${lower}`, lower.slice(1))
+        : undefined;
+    case 'youtube': {
+      if (/^@[a-z0-9._-]{3,30}$/i.test(first)) {
+        return account(
+          platform,
+          `https://www.youtube.com/${lower}`,
+          lower.slice(1)
+        );
+      }
+      // Channel IDs are case-sensitive; legacy names are not
+      if (lower === 'channel' && /^UC[\w-]{22}$/.test(second)) {
+        return account(
+          platform,
+          `https://www.youtube.com/channel/${second}`,
+          second
+        );
+      }
+      if ((lower === 'c' || lower === 'user') && /^[\w.-]+$/.test(second)) {
+        const name = second.toLowerCase();
+        return account(
+          platform,
+          `https://www.youtube.com/${lower}/${name}`,
+          name
+        );
+      }
+      return undefined;
+    }
+    case 'nextdoor':
+      return lower === 'pages' && /^[a-z0-9-]+$/i.test(second)
+        ? account(
+            platform,
+            `https://nextdoor.com/pages/${second.toLowerCase()}`,
+            second.toLowerCase()
+          )
+        : undefined;
+    case 'yelp':
+      return lower === 'biz' && /^[a-z0-9%-]+$/i.test(second)
+        ? account(
+            platform,
+            `https://www.yelp.com/biz/${second.toLowerCase()}`,
+            second.toLowerCase()
+          )
+        : undefined;
+  }
+}
+
+/**
+ * The canonical profile a URL points to: platform, handle and a URL
+ * without mobile hosts, tracking parameters or trailing paths such as
+ * `/about` or `/posts/...`. Undefined for anything that is not a profile
+ * on a supported platform (share buttons, posts, searches).
+ */
+export function parseSocialProfile(
+  value: string
+): SocialMediaAccount | undefined {
+  let url: URL;
+  try {
+    url = new URL(
+      /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`
+    );
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return undefined;
+  const platform = platformFor(url.hostname);
+  if (!platform) return undefined;
+
+  const segments = url.pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+  return profileFor(platform, segments, url.searchParams);
+}
+
+/**
+ * Canonicalize accounts and drop duplicates, keeping the first of each.
+ * Accounts whose URL is not a recognizable profile are kept as they are,
+ * with the platform name normalized.
+ */
+export function normalizeSocialAccounts(
+  accounts: SocialMediaAccount[]
+): SocialMediaAccount[] {
+  const seen = new Set<string>();
+  const result: SocialMediaAccount[] = [];
+  for (const original of accounts) {
+    const parsed = parseSocialProfile(original.url);
+    const normalized: SocialMediaAccount = parsed ?? {
+      ...original,
+      platform: normalizePlatform(original.platform),
+    };
+    const key = normalized.url.toLowerCase().replace(/\/+$/, '');
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push(normalized);
+  }
+  return result;
+}
@@ -0,0 +1,3 @@
+export * from './render.js';
+export * from './template.js';
+export * from './templates.js';
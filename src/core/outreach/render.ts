@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import type { BusinessProspect, OutreachSender } from '../../types/index.js';
+import { escapeHtml } from '../../utils/html.js';
+import { TemplateError, compileTemplate, renderTemplate } from './template.js';
+import type { RenderResult } from './template.js';
+import { DEFAULT_OUTREACH_TEMPLATES, OutreachError } from './templates.js';
+import type { OutreachStep, OutreachTemplates } from './templates.js';
+
+export interface OutreachOptions {
+  sender?: OutreachSender;
+  templates?: OutreachTemplates;
+  /** Variant to use instead of the one the prospect is assigned */
+  variant?: string;
+}
+
+export interface RenderedEmail {
+  step: OutreachStep;
+  variant: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Fields the templates used that the prospect has no value for */
+  missing: string[];
+}
+
+export interface RenderedCallScript {
+  text: string;
+  missing: string[];
+}
+
+/**
+ * Fields templates can use: the prospect itself plus a few shortcuts and
+ * the sender.
+ */
+export function outreachContext(
+  prospect: BusinessProspect,
+  sender: OutreachSender = {}
+): Record<string, unknown> {
+  return {
+    ...prospect,
+    owner: prospect.templateConfig.company.owner,
+    topIssue: prospect.webPresence.issues[0],
+    topOpportunity: prospect.webPresence.opportunities[0],
+    sender,
+  };
+}
+
+/**
+ * Stable A/B assignment: the same prospect always gets the same variant,
+ * and prospects spread evenly across variants.
+ */
+export function chooseVariant(prospectId: string, variants: string[]): string {
+  const names = [...variants].sort();
+  if (names.length === 0) throw new OutreachError('No variants to choose from');
+  const hash = createHash('sha256').update(prospectId).digest();
+  return names[hash.readUInt32BE(0) % names.length] as string;
+}
+
+/**
+ * Turn plain text into simple HTML: blank-line separated paragraphs, line
+ * breaks kept, and paragraphs of `- ` lines as lists.
+ */
+export function textToHtml(text: string): string {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) => {
+      const lines = paragraph.split('\n').map((line) => line.trimEnd());
+      if (lines.every((line) => /^\s*- /.test(line))) {
+        const items = lines.map(
+          (line) => `  <li>${escapeHtml(line.replace(/^\s*- /, ''))}</li>`
+        );
+        return `<ul>\n${items.join('\n')}\n</ul>`;
+      }
+      return `<p>${lines.map(escapeHtml).join('<br />\n')}</p>`;
+    })
+    .join('\n');
+}
+
+function render(
+  name: string,
+  source: string,
+  context: unknown,
+  escape?: (value: string) => string
+): RenderResult {
+  try {
+    return renderTemplate(
+      compileTemplate(source),
+      context,
+      escape ? { escape } : {}
+    );
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw new OutreachError(`Template ${name}: ${error.message}`, {
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+// Runs of blank lines left behind by empty sections
+function tidy(text: string): string {
+  return `${text.replace(/\n{3,}/g, '\n\n').trim()}\n`;
+}
+
+export function renderOutreachEmail(
+  prospect: BusinessProspect,
+  step: OutreachStep,
+  options: OutreachOptions = {}
+): RenderedEmail {
+  const variants = (options.templates ?? DEFAULT_OUTREACH_TEMPLATES).steps[
+    step
+  ];
+  const names = Object.keys(variants);
+  let variant: string;
+  if (options.variant && options.variant in variants) {
+    variant = options.variant;
+  } else if (options.variant && names.length > 1) {
+    throw new OutreachError(
+      `No variant "${options.variant}" for ${step}. Use one of: ${names.join(', ')}`
+    );
+  } else {
+    variant = chooseVariant(prospect.id, names);
+  }
+  const template = variants[variant]!;
+  const context = outreachContext(prospect, options.sender);
+  const name = `${step}/${variant}`;
+
+  const subject = render(`${name} subject`, template.subject, context);
+  const text = render(`${name} text`, template.text, context);
+  const html = template.html
+    ? render(`${name} html`, template.html, context, escapeHtml)
+    : undefined;
+
+  return {
+    step,
+    variant,
+    subject: subject.output.replace(/\s+/g, ' ').trim(),
+    text: tidy(text.output),
+    html: html ? html.output.trim() : textToHtml(tidy(text.output)),
+    missing: [
+      ...new Set([
+        ...subject.missing,
+        ...text.missing,
+        ...(html?.missing ?? []),
+      ]),
+    ],
+  };
+}
+
+export function renderCallScript(
+  prospect: BusinessProspect,
+  options: OutreachOptions = {}
+): RenderedCallScript {
+  const { callScript } = options.templates ?? DEFAULT_OUTREACH_TEMPLATES;
+  const result = render(
+    'call script',
+    callScript,
+    outreachContext(prospect, options.sender)
+  );
+  return { text: tidy(result.output), missing: result.missing };
+}
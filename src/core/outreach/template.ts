@@ -0,0 +1,233 @@
+/**
+ * A small Handlebars-style template language for outreach copy:
+ *
+ * - `{{path.to.field}}` inserts a value (HTML-escaped in HTML output),
+ *   `{{{path}}}` inserts it unescaped
+ * - `{{#if path}}...{{else}}...{{/if}}` and `{{#unless path}}...{{/unless}}`
+ * - `{{#each path}}...{{this}}...{{/each}}` with `@index`, `@number`
+ *   (1-based), `@first` and `@last`; `{{else}}` renders for an empty list
+ * - `{{! comment }}`
+ *
+ * Inside `#each`, names are looked up on the current item first, then on
+ * the root context.
+ */
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string; raw: boolean }
+  | {
+      kind: 'if' | 'unless' | 'each';
+      path: string;
+      body: Node[];
+      otherwise: Node[];
+    };
+
+export interface CompiledTemplate {
+  source: string;
+  nodes: Node[];
+}
+
+export interface RenderOptions {
+  /** Applied to inserted values, e.g. HTML escaping */
+  escape?: (value: string) => string;
+}
+
+export interface RenderResult {
+  output: string;
+  /** Fields the template printed or looped over that had no value */
+  missing: string[];
+}
+
+const TAG = /\{\{(\{)?\s*([^}]*?)\s*\}?\}\}/g;
+const PATH =
+  /^(this|@index|@number|@first|@last|[A-Za-z_][\w]*)(\.[A-Za-z_][\w]*)*$/;
+
+type Block = Extract<Node, { kind: 'if' | 'unless' | 'each' }>;
+
+function checkPath(path: string, position: number): string {
+  if (!PATH.test(path)) {
+    throw new TemplateError(`Invalid field "${path}" at position ${position}`);
+  }
+  return path;
+}
+
+export function compileTemplate(source: string): CompiledTemplate {
+  const root: Node[] = [];
+  // Open blocks, innermost last, with the list new nodes are added to
+  const stack: { block: Block; target: Node[]; position: number }[] = [];
+  const current = (): Node[] => stack.at(-1)?.target ?? root;
+
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    const position = match.index ?? 0;
+    if (position > last) {
+      current().push({ kind: 'text', text: source.slice(last, position) });
+    }
+    last = position + match[0].length;
+
+    const raw = match[1] === '{';
+    const content = match[2] ?? '';
+    if (content.startsWith('!')) continue;
+
+    const open = /^#(if|unless|each)\s+(\S+)$/.exec(content);
+    if (open) {
+      const block: Block = {
+        kind: open[1] as Block['kind'],
+        path: checkPath(open[2]!, position),
+        body: [],
+        otherwise: [],
+      };
+      current().push(block);
+      stack.push({ block, target: block.body, position });
+      continue;
+    }
+    if (content === 'else') {
+      const top = stack.at(-1);
+      if (!top || top.target === top.block.otherwise) {
+        throw new TemplateError(`Unexpected {{else}} at position ${position}`);
+      }
+      top.target = top.block.otherwise;
+      continue;
+    }
+    const close = /^\/(if|unless|each)$/.exec(content);
+    if (close) {
+      const top = stack.pop();
+      if (!top || top.block.kind !== close[1]) {
+        throw new TemplateError(
+          `Unexpected {{/${close[1]}}} at position ${position}`
+        );
+      }
+      continue;
+    }
+    current().push({
+      kind: 'value',
+      path: checkPath(content, position),
+      raw,
+    });
+  }
+  if (last < source.length) {
+    current().push({ kind: 'text', text: source.slice(last) });
+  }
+  const unclosed = stack.at(-1);
+  if (unclosed) {
+    throw new TemplateError(
+      `Unclosed {{#${unclosed.block.kind}}} at position ${unclosed.position}`
+    );
+  }
+  return { source, nodes: root };
+}
+
+interface Scope {
+  item?: unknown;
+  index?: number;
+  count?: number;
+}
+
+function lookup(value: unknown, keys: string[]): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function resolve(path: string, root: unknown, scope: Scope): unknown {
+  switch (path) {
+    case '@index':
+      return scope.index;
+    case '@number':
+      return scope.index !== undefined ? scope.index + 1 : undefined;
+    case '@first':
+      return scope.index === 0;
+    case '@last':
+      return (
+        scope.index !== undefined && scope.index === (scope.count ?? 0) - 1
+      );
+  }
+  const [head = '', ...rest] = path.split('.');
+  if (head === 'this') return lookup(scope.item, rest);
+  if (scope.item !== undefined) {
+    const fromItem = lookup(scope.item, [head, ...rest]);
+    if (fromItem !== undefined) return fromItem;
+  }
+  return lookup(root, [head, ...rest]);
+}
+
+/**
+ * Values a prospect "lacks": nothing, empty text or lists, and the
+ * `unknown` placeholder email.
+ */
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    value === 'unknown' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function format(value: unknown): string {
+  if (Array.isArray(value)) return value.map(format).join(', ');
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+export function renderTemplate(
+  template: CompiledTemplate,
+  context: unknown,
+  options: RenderOptions = {}
+): RenderResult {
+  const missing = new Set<string>();
+  const escape = options.escape ?? ((value: string): string => value);
+
+  const render = (nodes: Node[], scope: Scope): string =>
+    nodes
+      .map((node): string => {
+        switch (node.kind) {
+          case 'text':
+            return node.text;
+          case 'value': {
+            const value = resolve(node.path, context, scope);
+            if (isEmpty(value)) {
+              if (!node.path.startsWith('@')) missing.add(node.path);
+              return '';
+            }
+            return node.raw ? format(value) : escape(format(value));
+          }
+          case 'if':
+          case 'unless': {
+            const value = resolve(node.path, context, scope);
+            const truthy = !isEmpty(value) && value !== false;
+            return render(
+              truthy === (node.kind === 'if') ? node.body : node.otherwise,
+              scope
+            );
+          }
+          case 'each': {
+            const value = resolve(node.path, context, scope);
+            if (!Array.isArray(value) || value.length === 0) {
+              // An {{else}} branch means the template expects this can happen
+              if (node.otherwise.length === 0) missing.add(node.path);
+              return render(node.otherwise, scope);
+            }
+            return value
+              .map((item, index) =>
+                render(node.body, { item, index, count: value.length })
+              )
+              .join('');
+          }
+        }
+      })
+      .join('');
+
+  return { output: render(template.nodes, {}), missing: [...missing] };
+}
@@ -0,0 +1,150 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { OutreachTemplatesSchema } from '../../schemas/index.js';
+import { safeParseAs, schemaIssues } from '../../utils/schema.js';
+
+export const OUTREACH_STEPS = ['intro', 'follow-up-1', 'follow-up-2'] as const;
+
+export type OutreachStep = (typeof OUTREACH_STEPS)[number];
+
+export interface EmailTemplate {
+  subject: string;
+  /** Plain-text body */
+  text: string;
+  /** HTML body; derived from `text` when omitted */
+  html?: string;
+}
+
+export interface OutreachTemplates {
+  /** Email variants for each step of the sequence, keyed by variant name */
+  steps: Record<OutreachStep, Record<string, EmailTemplate>>;
+  /** Plain-text phone script */
+  callScript: string;
+}
+
+export class OutreachError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'OutreachError';
+  }
+}
+
+const SIGNATURE = `{{sender.name}}{{#if sender.company}}
+{{sender.company}}{{/if}}{{#if sender.phone}}
+{{sender.phone}}{{/if}}`;
+
+const ISSUE_LIST = `{{#each webPresence.issues}}- {{this}}
+{{/each}}`;
+
+/**
+ * Built-in sequence: an intro in two variants, then two follow-ups.
+ */
+export const DEFAULT_OUTREACH_TEMPLATES: OutreachTemplates = {
+  steps: {
+    intro: {
+      a: {
+        subject: 'A quick idea for {{name}}',
+        text: `Hi{{#if owner}} {{owner}}{{/if}},
+
+I came across {{name}} while looking at {{category}} businesses in {{location.city}}.{{#if reviewCount}} {{rating}} stars from {{reviewCount}} reviews says your customers are happy.{{/if}}
+
+{{#if webPresence.issues}}When I looked at how {{name}} shows up online, a few things stood out:
+
+${ISSUE_LIST}
+{{/if}}{{#if webPresence.opportunities}}I help local businesses with exactly this, starting with {{topOpportunity}}. {{/if}}Would a 15-minute call next week be worth it to see what that could look like for you?
+
+Thanks,
+${SIGNATURE}`,
+      },
+      b: {
+        subject: 'More {{location.city}} customers for {{name}}?',
+        text: `Hi{{#if owner}} {{owner}}{{/if}},
+
+People searching for {{category}} in {{location.city}} are deciding in seconds whether to call. {{#if topIssue}}Right now the first thing they notice about {{name}} online is: {{topIssue}}.{{else}}I had a few ideas for helping {{name}} stand out to them.{{/if}}
+
+{{#if reviewCount}}With {{reviewCount}} reviews at {{rating}} stars, you have earned better. {{/if}}I put together a short plan for {{name}}; can I send it over?
+
+${SIGNATURE}`,
+      },
+    },
+    'follow-up-1': {
+      a: {
+        subject: 'Re: A quick idea for {{name}}',
+        text: `Hi{{#if owner}} {{owner}}{{/if}},
+
+Following up on my note about {{name}}'s online presence. {{#if webPresence.opportunities}}The quickest wins I see:
+
+{{#each webPresence.opportunities}}- {{this}}
+{{/each}}
+{{/if}}Happy to walk you through them, no strings attached. Does Tuesday or Thursday work?
+
+${SIGNATURE}`,
+      },
+    },
+    'follow-up-2': {
+      a: {
+        subject: 'Should I close the file on {{name}}?',
+        text: `Hi{{#if owner}} {{owner}}{{/if}},
+
+I have not heard back, so I will assume the timing is not right. If getting more {{location.city}} customers from search becomes a priority, just reply to this email and I will pick it up from there.
+
+All the best to you and the team at {{name}},
+${SIGNATURE}`,
+      },
+    },
+  },
+  callScript: `CALL SCRIPT: {{name}} ({{contact.phone}})
+
+Opening
+  "Hi, is this {{#if owner}}{{owner}}{{else}}the owner of {{name}}{{/if}}? This is {{sender.name}}{{#if sender.company}} with {{sender.company}}{{/if}}. I work with {{category}} businesses around {{location.city}}. Do you have two minutes?"
+
+Hook
+{{#if reviewCount}}  "You have {{reviewCount}} reviews at {{rating}} stars; customers clearly like you."
+{{/if}}{{#if topIssue}}  "When I looked you up online, I noticed: {{topIssue}}."
+{{/if}}
+Talking points
+{{#each webPresence.opportunities}}  - {{this}}
+{{else}}  - How new customers find {{name}} today
+{{/each}}
+Questions
+  - How do most new customers find you now?
+  - Who handles your website and online listings?
+
+Close
+  "Could I show you a quick mockup of what this could look like? Does later this week work?"`,
+};
+
+/**
+ * Read an outreach template file (`.json`, `.yaml` or `.yml`). Steps and
+ * the call script it does not define come from the built-in templates.
+ */
+export function readOutreachTemplates(path: string): OutreachTemplates {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+    raw =
+      extension === '.yaml' || extension === '.yml'
+        ? parseYaml(text)
+        : JSON.parse(text);
+  } catch (error) {
+    throw new OutreachError(`Could not read outreach templates ${path}`, {
+      cause: error,
+    });
+  }
+
+  const parsed = safeParseAs<
+    Partial<{ steps: Partial<OutreachTemplates['steps']>; callScript: string }>
+  >(OutreachTemplatesSchema, raw ?? {});
+  if (!parsed.success) {
+    throw new OutreachError(
+      `Invalid outreach templates in ${path}: ${schemaIssues(parsed.error).join('; ')}`
+    );
+  }
+  const file = parsed.data;
+  return {
+    steps: { ...DEFAULT_OUTREACH_TEMPLATES.steps, ...file.steps },
+    callScript: file.callScript ?? DEFAULT_OUTREACH_TEMPLATES.callScript,
+  };
+}
@@ -0,0 +1,331 @@
+import { readFileSync } from 'fs';
+import { distanceMeters } from '../../utils/geo.js';
+import type { Coordinates } from '../../utils/geo.js';
+import { isRecord } from '../../utils/objects.js';
+import { SearchAreaError } from './errors.js';
+import type { SearchCell } from './types.js';
+
+/** Points of a closed ring; the first point need not be repeated */
+export type Ring = Coordinates[];
+
+/** Outer boundary followed by any holes, as in GeoJSON */
+export type Polygon = Ring[];
+
+export type SearchArea =
+  | { kind: 'circle'; center: Coordinates; radiusMeters: number }
+  | { kind: 'polygon'; polygons: Polygon[] };
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Keeps a grid search to at most 400 provider queries
+export const MAX_GRID_SIZE = 20;
+
+const METERS_PER_DEGREE = 111_320;
+
+const DISTANCE_UNITS: Record<string, number> = {
+  m: 1,
+  km: 1000,
+  mi: 1609.344,
+};
+
+/**
+ * Parse a distance such as "10mi", "15 km" or "800m" into meters. A bare
+ * number is read as miles.
+ */
+export function parseDistance(text: string): number {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(m|km|mi)?$/i);
+  const meters =
+    match &&
+    Number(match[1]) *
+      (DISTANCE_UNITS[(match[2] ?? 'mi').toLowerCase()] as number);
+  if (!meters) {
+    throw new SearchAreaError(
+      `Invalid distance "${text}" (expected e.g. 10mi, 15km or 800m)`
+    );
+  }
+  return meters;
+}
+
+function checkCoordinates(point: Coordinates, label: string): Coordinates {
+  const { latitude, longitude } = point;
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    throw new SearchAreaError(`Invalid coordinates in ${label}`);
+  }
+  return point;
+}
+
+/**
+ * Parse "lat,lng", e.g. "27.9506,-82.4572".
+ */
+export function parseCoordinates(text: string): Coordinates {
+  const parts = text.split(',').map((part) => part.trim());
+  if (parts.length !== 2 || parts.some((part) => part === '')) {
+    throw new SearchAreaError(
+      `Invalid coordinates "${text}" (expected latitude,longitude)`
+    );
+  }
+  return checkCoordinates(
+    { latitude: Number(parts[0]), longitude: Number(parts[1]) },
+    `"${text}"`
+  );
+}
+
+export function circleArea(
+  center: Coordinates,
+  radiusMeters: number
+): SearchArea {
+  return { kind: 'circle', center, radiusMeters };
+}
+
+function toRing(value: unknown, label: string): Ring {
+  if (!Array.isArray(value) || value.length < 3) {
+    throw new SearchAreaError(`${label} must be a ring of at least 3 points`);
+  }
+  return value.map((position) => {
+    if (
+      !Array.isArray(position) ||
+      typeof position[0] !== 'number' ||
+      typeof position[1] !== 'number'
+    ) {
+      throw new SearchAreaError(`${label} has a malformed position`);
+    }
+    // GeoJSON positions are [longitude, latitude]
+    return checkCoordinates(
+      { latitude: position[1], longitude: position[0] },
+      label
+    );
+  });
+}
+
+function toPolygon(value: unknown, label: string): Polygon {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new SearchAreaError(`${label} has no rings`);
+  }
+  return value.map((ring, index) => toRing(ring, `${label} ring ${index + 1}`));
+}
+
+function collectPolygons(value: unknown, label: string): Polygon[] {
+  if (!isRecord(value)) {
+    throw new SearchAreaError(`${label} is not a GeoJSON object`);
+  }
+  switch (value.type) {
+    case 'Polygon':
+      return [toPolygon(value.coordinates, label)];
+    case 'MultiPolygon':
+      if (!Array.isArray(value.coordinates)) {
+        throw new SearchAreaError(`${label} has no polygons`);
+      }
+      return value.coordinates.map((polygon, index) =>
+        toPolygon(polygon, `${label} polygon ${index + 1}`)
+      );
+    case 'Feature':
+      return collectPolygons(value.geometry, `${label} geometry`);
+    case 'FeatureCollection':
+      if (!Array.isArray(value.features)) {
+        throw new SearchAreaError(`${label} has no features`);
+      }
+      return value.features.flatMap((feature, index) =>
+        collectPolygons(feature, `feature ${index + 1}`)
+      );
+    default:
+      throw new SearchAreaError(
+        `${label} has unsupported type ${JSON.stringify(value.type)} (expected Polygon or MultiPolygon)`
+      );
+  }
+}
+
+/**
+ * Read a territory from GeoJSON: a Polygon or MultiPolygon geometry, a
+ * Feature holding one, or a FeatureCollection of them.
+ */
+export function parseGeoJsonArea(value: unknown): SearchArea {
+  const polygons = collectPolygons(value, 'GeoJSON');
+  if (polygons.length === 0) {
+    throw new SearchAreaError('GeoJSON contains no polygons');
+  }
+  return { kind: 'polygon', polygons };
+}
+
+export function readAreaFile(path: string): SearchArea {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new SearchAreaError(`Could not read area file ${path}`, {
+      cause: error,
+    });
+  }
+  return parseGeoJsonArea(parsed);
+}
+
+export function boundingBox(area: SearchArea): BoundingBox {
+  if (area.kind === 'circle') {
+    const { latitude, longitude } = area.center;
+    const dLat = area.radiusMeters / METERS_PER_DEGREE;
+    const dLon =
+      area.radiusMeters /
+      (METERS_PER_DEGREE * Math.cos((latitude * Math.PI) / 180));
+    return {
+      south: latitude - dLat,
+      west: longitude - dLon,
+      north: latitude + dLat,
+      east: longitude + dLon,
+    };
+  }
+
+  const points = area.polygons.flatMap((polygon) => polygon[0] ?? []);
+  const latitudes = points.map((point) => point.latitude);
+  const longitudes = points.map((point) => point.longitude);
+  return {
+    south: Math.min(...latitudes),
+    west: Math.min(...longitudes),
+    north: Math.max(...latitudes),
+    east: Math.max(...longitudes),
+  };
+}
+
+/**
+ * Even-odd ray casting on raw latitude/longitude, which is accurate enough
+ * for city-sized territories away from the antimeridian.
+ */
+function ringContains(ring: Ring, point: Coordinates): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i] as Coordinates;
+    const b = ring[j] as Coordinates;
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function areaContains(area: SearchArea, point: Coordinates): boolean {
+  if (area.kind === 'circle') {
+    return distanceMeters(area.center, point) <= area.radiusMeters;
+  }
+  return area.polygons.some(
+    ([outer, ...holes]) =>
+      outer !== undefined &&
+      ringContains(outer, point) &&
+      !holes.some((hole) => ringContains(hole, point))
+  );
+}
+
+/**
+ * Distance in meters from `point` to segment a-b, on a flat projection
+ * centered on `point`.
+ */
+function segmentDistance(
+  point: Coordinates,
+  a: Coordinates,
+  b: Coordinates
+): number {
+  const scale = Math.cos((point.latitude * Math.PI) / 180);
+  const ax = (a.longitude - point.longitude) * scale;
+  const ay = a.latitude - point.latitude;
+  const bx = (b.longitude - point.longitude) * scale;
+  const by = b.latitude - point.latitude;
+  const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, -(ax * (bx - ax) + ay * (by - ay)) / lengthSquared)
+        );
+  return Math.hypot(ax + t * (bx - ax), ay + t * (by - ay)) * METERS_PER_DEGREE;
+}
+
+function cellTouchesArea(area: SearchArea, cell: SearchCell): boolean {
+  if (area.kind === 'circle') {
+    return (
+      distanceMeters(area.center, cell.center) <=
+      area.radiusMeters + cell.radiusMeters
+    );
+  }
+  if (areaContains(area, cell.center)) return true;
+  return area.polygons.some((polygon) =>
+    polygon.some((ring) =>
+      ring.some(
+        (point, index) =>
+          segmentDistance(
+            cell.center,
+            point,
+            ring[(index + 1) % ring.length] as Coordinates
+          ) <= cell.radiusMeters
+      )
+    )
+  );
+}
+
+/**
+ * Split the area's bounding box into `size` × `size` cells and return the
+ * circle around each cell that touches the area. Each circle reaches the
+ * corners of its cell, so neighbouring circles overlap and nothing between
+ * grid points is missed.
+ */
+export function gridCells(area: SearchArea, size = 1): SearchCell[] {
+  if (!Number.isInteger(size) || size < 1 || size > MAX_GRID_SIZE) {
+    throw new SearchAreaError(
+      `Invalid grid size ${size} (expected 1 to ${MAX_GRID_SIZE})`
+    );
+  }
+  // A single cell over a circle is the circle itself
+  if (size === 1 && area.kind === 'circle') {
+    return [{ center: area.center, radiusMeters: area.radiusMeters }];
+  }
+
+  const box = boundingBox(area);
+  const latStep = (box.north - box.south) / size;
+  const lonStep = (box.east - box.west) / size;
+  const cells: SearchCell[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      const south = box.south + row * latStep;
+      const west = box.west + column * lonStep;
+      const center = {
+        latitude: south + latStep / 2,
+        longitude: west + lonStep / 2,
+      };
+      const cell = {
+        center,
+        radiusMeters: distanceMeters(center, {
+          latitude: south,
+          longitude: west,
+        }),
+      };
+      if (cellTouchesArea(area, cell)) cells.push(cell);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Keep the items whose coordinates lie within `maxMeters` of `center`.
+ */
+export function withinDistance<T extends { location: Coordinates }>(
+  items: T[],
+  center: Coordinates,
+  maxMeters: number
+): T[] {
+  return items.filter(
+    (item) => distanceMeters(center, item.location) <= maxMeters
+  );
+}
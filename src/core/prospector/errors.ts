@@ -0,0 +1,39 @@
+/**
+ * Raised when a provider name is not present in the registry.
+ */
+export class ProviderNotFoundError extends Error {
+  constructor(
+    public readonly providerName: string,
+    public readonly available: string[]
+  ) {
+    super(
+      `Unknown source "${providerName}". Available sources: ${available.join(', ') || 'none'}`
+    );
+    this.name = 'ProviderNotFoundError';
+  }
+}
+
+/**
+ * Raised when a provider cannot complete a search (bad credentials, missing
+ * fixture file, upstream outage, ...).
+ */
+export class ProviderError extends Error {
+  constructor(
+    public readonly providerName: string,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`[${providerName}] ${message}`, options);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Raised when a search area (radius, grid or GeoJSON territory) is invalid.
+ */
+export class SearchAreaError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SearchAreaError';
+  }
+}
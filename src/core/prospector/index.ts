@@ -0,0 +1,6 @@
+export * from './types.js';
+export * from './errors.js';
+export * from './area.js';
+export * from './registry.js';
+export * from './search.js';
+export * from './providers/fixture.js';
@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { distanceMeters } from '../../../utils/geo.js';
+import { isRecord } from '../../../utils/objects.js';
+import { reviveProspect } from '../../../utils/prospects.js';
+import { ProviderError } from '../errors.js';
+import type {
+  BusinessSourceProvider,
+  SearchCell,
+  SearchQuery,
+} from '../types.js';
+import { SAMPLE_BUSINESSES } from './sample-data.js';
+
+const PROVIDER_NAME = 'fixture';
+
+// Suffixes stripped so "plumbers" matches "Plumbing" and "accountants"
+// matches "Accounting"
+const STEM_SUFFIX = /(ings?|ers?|ants?|ists?|ies|es|s)$/;
+
+function stem(word: string): string {
+  const stripped = word.replace(STEM_SUFFIX, '');
+  return stripped.length >= 3 ? stripped : word;
+}
+
+function words(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function field(record: Record<string, unknown>, path: string[]): string {
+  let current: unknown = record;
+  for (const key of path) {
+    current = isRecord(current) ? current[key] : undefined;
+  }
+  return typeof current === 'string' ? current : '';
+}
+
+/**
+ * True when every word of the industry term matches (by stem prefix) a word
+ * of the record's category.
+ */
+export function matchesIndustry(category: string, industry: string): boolean {
+  const categoryWords = words(category).map(stem);
+  const industryWords = words(industry).map(stem);
+  if (industryWords.length === 0) return true;
+
+  return industryWords.every((term) =>
+    categoryWords.some((word) => word.startsWith(term) || term.startsWith(word))
+  );
+}
+
+/**
+ * True when a "City, ST" (or "City") location refers to the record's city
+ * and, if given, state.
+ */
+export function matchesLocation(
+  record: { city: string; state: string },
+  location: string
+): boolean {
+  const [city = '', state = ''] = location
+    .split(',')
+    .map((part) => part.trim().toLowerCase());
+  if (!city) return true;
+  if (record.city.toLowerCase() !== city) return false;
+  return !state || record.state.toLowerCase() === state;
+}
+
+/**
+ * True when the record's coordinates lie within the cell. Records without
+ * coordinates never match.
+ */
+function inCell(record: Record<string, unknown>, cell: SearchCell): boolean {
+  const location = record.location;
+  if (!isRecord(location)) return false;
+  const { latitude, longitude } = location;
+  return (
+    typeof latitude === 'number' &&
+    typeof longitude === 'number' &&
+    distanceMeters(cell.center, { latitude, longitude }) <= cell.radiusMeters
+  );
+}
+
+/**
+ * Offline provider serving records from a JSON array, either a file on disk
+ * or the bundled sample data. Used for development, demos and tests.
+ */
+export class FixtureProvider implements BusinessSourceProvider {
+  readonly name = PROVIDER_NAME;
+  readonly description: string;
+
+  constructor(
+    private readonly records: readonly unknown[],
+    description = 'Local fixture data (offline)'
+  ) {
+    this.description = description;
+  }
+
+  static withSampleData(): FixtureProvider {
+    return new FixtureProvider(
+      SAMPLE_BUSINESSES,
+      'Bundled sample businesses (offline)'
+    );
+  }
+
+  static fromFile(path: string): FixtureProvider {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new ProviderError(
+        PROVIDER_NAME,
+        `Could not read fixture file ${path}`,
+        { cause: error }
+      );
+    }
+    if (!Array.isArray(parsed)) {
+      throw new ProviderError(
+        PROVIDER_NAME,
+        `Fixture file ${path} must contain a JSON array`
+      );
+    }
+    return new FixtureProvider(parsed, `Fixture file ${path}`);
+  }
+
+  async search(query: SearchQuery): Promise<unknown[]> {
+    const now = new Date();
+
+    return this.records
+      .filter(
+        (record) =>
+          isRecord(record) &&
+          matchesIndustry(field(record, ['category']), query.industry) &&
+          (query.cell
+            ? inCell(record, query.cell)
+            : matchesLocation(
+                {
+                  city: field(record, ['location', 'city']),
+                  state: field(record, ['location', 'state']),
+                },
+                query.location
+              ))
+      )
+      .map((record) => reviveProspect(record, now));
+  }
+}
@@ -0,0 +1,257 @@
+import type {
+  BusinessProspect,
+  WebPresenceAnalysis,
+} from '../../../types/index.js';
+
+interface SampleInput {
+  id: string;
+  name: string;
+  category: string;
+  service: string;
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  latitude: number;
+  longitude: number;
+  phone: string;
+  email: string;
+  website?: string;
+  rating: number;
+  reviewCount: number;
+  webPresence: WebPresenceAnalysis;
+}
+
+function sample(input: SampleInput): BusinessProspect {
+  const website = input.website ? { website: input.website } : {};
+
+  return {
+    id: input.id,
+    name: input.name,
+    category: input.category,
+    location: {
+      address: input.street,
+      city: input.city,
+      state: input.state,
+      zipCode: input.zipCode,
+      country: 'USA',
+      latitude: input.latitude,
+      longitude: input.longitude,
+    },
+    contact: { phone: input.phone, email: input.email, ...website },
+    rating: input.rating,
+    reviewCount: input.reviewCount,
+    webPresence: input.webPresence,
+    opportunityScore: 0,
+    extractedAt: new Date('2024-09-18T22:30:00Z'),
+    templateConfig: {
+      company: { name: input.name, ...website },
+      contact: {
+        phone: input.phone,
+        email: input.email,
+        address: {
+          street: input.street,
+          city: input.city,
+          state: input.state,
+          zipCode: input.zipCode,
+          country: 'USA',
+        },
+      },
+      rating: { average: input.rating, count: input.reviewCount },
+      services: { primary: input.service, categories: [input.service] },
+    },
+  };
+}
+
+const NO_WEBSITE: WebPresenceAnalysis = {
+  hasWebsite: false,
+  websiteType: 'none',
+  websiteQuality: 'none',
+  issues: ['no website'],
+  opportunities: ['professional website', 'online presence'],
+};
+
+/**
+ * Small, realistic dataset served by `FixtureProvider.withSampleData()` so
+ * `search` works end to end without API keys or network access.
+ */
+export const SAMPLE_BUSINESSES: readonly BusinessProspect[] = [
+  sample({
+    id: 'fixture-tampa-sparkle-cleaning',
+    name: 'Sparkle Home Cleaning',
+    category: 'Cleaning Services',
+    service: 'Residential Cleaning',
+    street: '4102 W Kennedy Blvd',
+    city: 'Tampa',
+    state: 'FL',
+    zipCode: '33609',
+    latitude: 27.9447,
+    longitude: -82.5165,
+    phone: '+1-813-555-0142',
+    email: 'hello@sparklehomecleaning.com',
+    rating: 4.7,
+    reviewCount: 86,
+    webPresence: NO_WEBSITE,
+  }),
+  sample({
+    id: 'fixture-tampa-bay-plumbing',
+    name: 'Bay Area Plumbing Co',
+    category: 'Plumbing',
+    service: 'Emergency Plumbing',
+    street: '2210 E 7th Ave',
+    city: 'Tampa',
+    state: 'FL',
+    zipCode: '33605',
+    latitude: 27.9604,
+    longitude: -82.4359,
+    phone: '+1-813-555-0177',
+    email: 'office@bayareaplumbing.com',
+    website: 'https://www.facebook.com/bayareaplumbingco',
+    rating: 4.4,
+    reviewCount: 52,
+    webPresence: {
+      hasWebsite: true,
+      websiteType: 'facebook',
+      websiteQuality: 'poor',
+      issues: ['facebook page only'],
+      opportunities: ['professional website', 'local SEO'],
+    },
+  }),
+  sample({
+    id: 'fixture-tampa-summit-roofing',
+    name: 'Summit Roofing & Repair',
+    category: 'Roofing Contractor',
+    service: 'Roof Repair',
+    street: '9015 N Florida Ave',
+    city: 'Tampa',
+    state: 'FL',
+    zipCode: '33604',
+    latitude: 28.0366,
+    longitude: -82.4593,
+    phone: '+1-813-555-0108',
+    email: 'estimates@summitroofingtampa.com',
+    website: 'https://summitroofingtampa.wixsite.com/home',
+    rating: 4.8,
+    reviewCount: 141,
+    webPresence: {
+      hasWebsite: true,
+      websiteType: 'template',
+      websiteQuality: 'poor',
+      issues: ['template website', 'no mobile optimization'],
+      opportunities: ['modern redesign', 'SEO optimization'],
+    },
+  }),
+  sample({
+    id: 'fixture-tampa-harbor-accounting',
+    name: 'Harbor Accounting Group',
+    category: 'Accounting',
+    service: 'Tax Preparation',
+    street: '100 S Ashley Dr',
+    city: 'Tampa',
+    state: 'FL',
+    zipCode: '33602',
+    latitude: 27.9425,
+    longitude: -82.4604,
+    phone: '+1-813-555-0190',
+    email: 'info@harboraccounting.com',
+    website: 'https://www.harboraccounting.com',
+    rating: 4.9,
+    reviewCount: 64,
+    webPresence: {
+      hasWebsite: true,
+      websiteType: 'professional',
+      websiteQuality: 'excellent',
+      issues: [],
+      opportunities: [],
+    },
+  }),
+  sample({
+    id: 'fixture-tampa-casa-lupita',
+    name: 'Casa Lupita Taqueria',
+    category: 'Mexican Restaurant',
+    service: 'Dine-In',
+    street: '1802 N Howard Ave',
+    city: 'Tampa',
+    state: 'FL',
+    zipCode: '33607',
+    latitude: 27.9598,
+    longitude: -82.4831,
+    phone: '+1-813-555-0155',
+    email: 'casalupita@gmail.com',
+    website: 'https://www.yelp.com/biz/casa-lupita-taqueria-tampa',
+    rating: 4.3,
+    reviewCount: 233,
+    webPresence: {
+      hasWebsite: true,
+      websiteType: 'directory',
+      websiteQuality: 'poor',
+      issues: ['directory listing only'],
+      opportunities: ['professional website', 'online ordering'],
+    },
+  }),
+  sample({
+    id: 'fixture-austin-hill-country-bbq',
+    name: 'Hill Country BBQ Shack',
+    category: 'Barbecue Restaurant',
+    service: 'Catering',
+    street: '5401 Burnet Rd',
+    city: 'Austin',
+    state: 'TX',
+    zipCode: '78756',
+    latitude: 30.3256,
+    longitude: -97.7396,
+    phone: '+1-512-555-0121',
+    email: 'smoke@hillcountrybbqshack.com',
+    rating: 4.6,
+    reviewCount: 310,
+    webPresence: NO_WEBSITE,
+  }),
+  sample({
+    id: 'fixture-austin-fresh-start-cleaning',
+    name: 'Fresh Start Cleaning Services',
+    category: 'Cleaning Services',
+    service: 'Move-Out Cleaning',
+    street: '2900 S Lamar Blvd',
+    city: 'Austin',
+    state: 'TX',
+    zipCode: '78704',
+    latitude: 30.2452,
+    longitude: -97.7821,
+    phone: '+1-512-555-0164',
+    email: 'book@freshstartatx.com',
+    website: 'https://freshstartatx.godaddysites.com',
+    rating: 4.1,
+    reviewCount: 37,
+    webPresence: {
+      hasWebsite: true,
+      websiteType: 'template',
+      websiteQuality: 'good',
+      issues: ['template website'],
+      opportunities: ['custom design'],
+    },
+  }),
+  sample({
+    id: 'fixture-austin-greenleaf-landscaping',
+    name: 'Greenleaf Landscaping',
+    category: 'Landscaping',
+    service: 'Lawn Care',
+    street: '1120 E Braker Ln',
+    city: 'Austin',
+    state: 'TX',
+    zipCode: '78753',
+    latitude: 30.3881,
+    longitude: -97.6678,
+    phone: '+1-512-555-0133',
+    email: 'greenleaf.atx@gmail.com',
+    website: 'https://www.facebook.com/greenleaflandscapingatx',
+    rating: 4.5,
+    reviewCount: 19,
+    webPresence: {
+      hasWebsite: true,
+      websiteType: 'facebook',
+      websiteQuality: 'poor',
+      issues: ['facebook page only'],
+      opportunities: ['professional website'],
+    },
+  }),
+];
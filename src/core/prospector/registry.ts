@@ -0,0 +1,56 @@
+import { ProviderNotFoundError } from './errors.js';
+import { FixtureProvider } from './providers/fixture.js';
+import type { BusinessSourceProvider } from './types.js';
+
+/**
+ * Keeps track of the business source providers available to the CLI.
+ */
+export class ProviderRegistry {
+  private readonly providers = new Map<string, BusinessSourceProvider>();
+
+  register(provider: BusinessSourceProvider): this {
+    if (this.providers.has(provider.name)) {
+      throw new Error(`Provider "${provider.name}" is already registered`);
+    }
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  get(name: string): BusinessSourceProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new ProviderNotFoundError(name, this.names());
+    }
+    return provider;
+  }
+
+  names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  list(): BusinessSourceProvider[] {
+    return [...this.providers.values()];
+  }
+}
+
+export interface DefaultRegistryOptions {
+  /** JSON file backing the fixture provider; bundled sample data if omitted */
+  fixturePath?: string;
+}
+
+/**
+ * Build the registry used by the CLI.
+ */
+export function createDefaultRegistry(
+  options: DefaultRegistryOptions = {}
+): ProviderRegistry {
+  const fixture = options.fixturePath
+    ? FixtureProvider.fromFile(options.fixturePath)
+    : FixtureProvider.withSampleData();
+
+  return new ProviderRegistry().register(fixture);
+}
@@ -0,0 +1,121 @@
+import { safeParseProspect } from '../normalizer/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { isRecord } from '../../utils/objects.js';
+import { areaContains, gridCells } from './area.js';
+import type { SearchArea } from './area.js';
+import type {
+  BusinessSourceProvider,
+  RejectedRecord,
+  SearchCell,
+  SearchQuery,
+  SearchResult,
+} from './types.js';
+
+export interface AreaSearchOptions {
+  /** Split the area into a grid of this many cells per side */
+  gridSize?: number;
+  onCell?: (index: number, total: number, result: SearchResult) => void;
+}
+
+export interface AreaSearchResult extends SearchResult {
+  cells: SearchCell[];
+  /** Listings found by more than one cell and merged by id */
+  duplicates: number;
+  /** Listings a cell returned that lie outside the area itself */
+  outsideArea: number;
+}
+
+/**
+ * Run a search through a provider and validate every record it returns.
+ * Records that fail normalization or `BusinessProspectSchema` are reported
+ * in `rejected` rather than thrown, so one malformed listing does not sink a
+ * whole search.
+ */
+export async function searchBusinesses(
+  provider: BusinessSourceProvider,
+  query: SearchQuery
+): Promise<SearchResult> {
+  const records = await provider.search(query);
+  const prospects: BusinessProspect[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  for (const record of records) {
+    const parsed = safeParseProspect(record);
+    if (parsed.success) {
+      prospects.push(parsed.prospect);
+    } else {
+      rejected.push({ record, issues: parsed.issues });
+    }
+  }
+
+  const limited =
+    query.limit !== undefined ? prospects.slice(0, query.limit) : prospects;
+
+  return { source: provider.name, query, prospects: limited, rejected };
+}
+
+/**
+ * Identify a rejected record across cells: by its `id` when it has one, by
+ * its whole content otherwise.
+ */
+function rejectedKey(record: unknown): string {
+  return isRecord(record) && typeof record.id === 'string'
+    ? `id:${record.id}`
+    : `json:${JSON.stringify(record)}`;
+}
+
+/**
+ * Search every grid cell of `area` in turn and merge the listings by id.
+ * Directory APIs cap results per query, so a metro searched as one location
+ * comes back truncated; smaller overlapping cells each stay under the cap.
+ * Cells reach past the area's edges, so listings outside it are dropped.
+ * A malformed listing several cells return is reported as rejected once.
+ * `query.limit` applies to the merged result rather than to each cell.
+ */
+export async function searchArea(
+  provider: BusinessSourceProvider,
+  query: SearchQuery,
+  area: SearchArea,
+  options: AreaSearchOptions = {}
+): Promise<AreaSearchResult> {
+  const cells = gridCells(area, options.gridSize);
+  const byId = new Map<string, BusinessProspect>();
+  const rejected = new Map<string, RejectedRecord>();
+  let duplicates = 0;
+
+  for (const [index, cell] of cells.entries()) {
+    const result = await searchBusinesses(provider, {
+      industry: query.industry,
+      location: query.location,
+      cell,
+    });
+    options.onCell?.(index, cells.length, result);
+    for (const record of result.rejected) {
+      const key = rejectedKey(record.record);
+      if (!rejected.has(key)) rejected.set(key, record);
+    }
+    for (const prospect of result.prospects) {
+      if (byId.has(prospect.id)) {
+        duplicates += 1;
+      } else {
+        byId.set(prospect.id, prospect);
+      }
+    }
+  }
+
+  const inside = [...byId.values()].filter((prospect) =>
+    areaContains(area, prospect.location)
+  );
+  const prospects =
+    query.limit !== undefined ? inside.slice(0, query.limit) : inside;
+
+  return {
+    source: provider.name,
+    query,
+    prospects,
+    rejected: [...rejected.values()],
+    cells,
+    duplicates,
+    outsideArea: byId.size - inside.length,
+  };
+}
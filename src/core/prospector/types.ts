@@ -0,0 +1,54 @@
+import type { BusinessProspect } from '../../types/index.js';
+import type { Coordinates } from '../../utils/geo.js';
+
+/**
+ * A circular patch of a larger search area. Providers that support it look
+ * for businesses within `radiusMeters` of `center` instead of matching the
+ * free-text location.
+ */
+export interface SearchCell {
+  center: Coordinates;
+  radiusMeters: number;
+}
+
+/**
+ * Parameters passed to a business source provider for a single search.
+ */
+export interface SearchQuery {
+  industry: string;
+  location: string;
+  limit?: number;
+  cell?: SearchCell;
+}
+
+/**
+ * A data source capable of finding businesses (Google Places, Yelp Fusion,
+ * OpenStreetMap Overpass, a local fixture file, ...).
+ *
+ * Providers return raw candidate records; they are validated against
+ * `BusinessProspectSchema` by `searchBusinesses` before anything else sees
+ * them, so a provider never has to trust its upstream data.
+ */
+export interface BusinessSourceProvider {
+  readonly name: string;
+  readonly description: string;
+  search(query: SearchQuery): Promise<unknown[]>;
+}
+
+/**
+ * A provider record that failed schema validation.
+ */
+export interface RejectedRecord {
+  record: unknown;
+  issues: string[];
+}
+
+/**
+ * Outcome of running a search through a provider.
+ */
+export interface SearchResult {
+  source: string;
+  query: SearchQuery;
+  prospects: BusinessProspect[];
+  rejected: RejectedRecord[];
+}
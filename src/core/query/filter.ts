@@ -0,0 +1,385 @@
+import type { BusinessProspect } from '../../types/index.js';
+
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterError';
+  }
+}
+
+interface FieldDefinition {
+  type: 'string' | 'number';
+  get: (prospect: BusinessProspect) => string | number;
+}
+
+/**
+ * Prospect fields a filter or sort can refer to, by their dotted path.
+ */
+export const QUERY_FIELDS = {
+  name: { type: 'string', get: (p) => p.name },
+  category: { type: 'string', get: (p) => p.category },
+  rating: { type: 'number', get: (p) => p.rating },
+  reviewCount: { type: 'number', get: (p) => p.reviewCount },
+  opportunityScore: { type: 'number', get: (p) => p.opportunityScore },
+  'webPresence.websiteType': {
+    type: 'string',
+    get: (p) => p.webPresence.websiteType,
+  },
+  'webPresence.websiteQuality': {
+    type: 'string',
+    get: (p) => p.webPresence.websiteQuality,
+  },
+  'location.city': { type: 'string', get: (p) => p.location.city },
+  'location.state': { type: 'string', get: (p) => p.location.state },
+  'location.zipCode': { type: 'string', get: (p) => p.location.zipCode },
+} satisfies Record<string, FieldDefinition>;
+
+export type QueryField = keyof typeof QUERY_FIELDS;
+
+// Short names reps type more often than the full paths
+const FIELD_ALIASES: Record<string, QueryField> = {
+  reviews: 'reviewCount',
+  score: 'opportunityScore',
+  website: 'webPresence.websiteType',
+  websiteType: 'webPresence.websiteType',
+  quality: 'webPresence.websiteQuality',
+  city: 'location.city',
+  state: 'location.state',
+  zip: 'location.zipCode',
+  zipCode: 'location.zipCode',
+};
+
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~';
+
+export type FilterValue = string | number;
+
+export type FilterExpression =
+  | { kind: 'and' | 'or'; operands: FilterExpression[] }
+  | { kind: 'not'; operand: FilterExpression }
+  | {
+      kind: 'compare';
+      field: QueryField;
+      operator: ComparisonOperator;
+      value: FilterValue;
+    }
+  | { kind: 'in'; field: QueryField; values: FilterValue[] };
+
+/**
+ * Resolve a field name or alias, case-insensitively.
+ */
+export function resolveField(name: string): QueryField {
+  const lower = name.toLowerCase();
+  const match =
+    Object.keys(QUERY_FIELDS).find((field) => field.toLowerCase() === lower) ??
+    Object.entries(FIELD_ALIASES).find(
+      ([alias]) => alias.toLowerCase() === lower
+    )?.[1];
+  if (!match) {
+    throw new FilterError(
+      `Unknown field "${name}". Use one of: ${Object.keys(QUERY_FIELDS).join(', ')}`
+    );
+  }
+  return match as QueryField;
+}
+
+type Token =
+  | { type: 'word'; text: string; position: number }
+  | { type: 'string'; text: string; position: number }
+  | { type: 'operator'; text: ComparisonOperator; position: number }
+  | { type: 'punctuation'; text: '(' | ')' | ','; position: number };
+
+const OPERATOR_PATTERN = /^(>=|<=|!=|==|≥|≤|=|>|<|~)/;
+
+const OPERATOR_SPELLINGS: Record<string, ComparisonOperator> = {
+  '==': '=',
+  '≥': '>=',
+  '≤': '<=',
+};
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const char = rest[0] as string;
+    if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: 'punctuation', text: char, position });
+      position += 1;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = text.indexOf(char, position + 1);
+      if (end === -1) {
+        throw new FilterError(`Unterminated string at position ${position}`);
+      }
+      tokens.push({
+        type: 'string',
+        text: text.slice(position + 1, end),
+        position,
+      });
+      position = end + 1;
+      continue;
+    }
+    if (char === '&' || char === '|') {
+      const doubled = rest.slice(0, 2);
+      if (doubled !== '&&' && doubled !== '||') {
+        throw new FilterError(`Unexpected "${char}" at position ${position}`);
+      }
+      tokens.push({
+        type: 'word',
+        text: doubled === '&&' ? 'and' : 'or',
+        position,
+      });
+      position += 2;
+      continue;
+    }
+    if (char === '!' && rest[1] !== '=') {
+      tokens.push({ type: 'word', text: 'not', position });
+      position += 1;
+      continue;
+    }
+    const operator = rest.match(OPERATOR_PATTERN);
+    if (operator) {
+      const spelled = operator[0];
+      tokens.push({
+        type: 'operator',
+        text: OPERATOR_SPELLINGS[spelled] ?? (spelled as ComparisonOperator),
+        position,
+      });
+      position += spelled.length;
+      continue;
+    }
+    const word = rest.match(/^[^\s()",'=!<>~≥≤&|]+/);
+    if (!word) {
+      throw new FilterError(`Unexpected "${char}" at position ${position}`);
+    }
+    tokens.push({ type: 'word', text: word[0], position });
+    position += word[0].length;
+  }
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.type === 'word' && token.text.toLowerCase() === keyword;
+}
+
+/**
+ * Recursive-descent parser. Precedence from loosest to tightest: `or`,
+ * `and`, `not`, then comparisons and parentheses.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string
+  ) {}
+
+  parse(): FilterExpression {
+    const expression = this.parseOr();
+    const extra = this.peek();
+    if (extra) this.fail(`Unexpected "${extra.text}"`, extra);
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index];
+    if (!token) this.fail(`Expected ${expected}`);
+    this.index += 1;
+    return token;
+  }
+
+  private fail(message: string, token?: Token): never {
+    const at = token?.position ?? this.source.length;
+    throw new FilterError(`${message} at position ${at}`);
+  }
+
+  private parseOr(): FilterExpression {
+    const operands = [this.parseAnd()];
+    while (isKeyword(this.peek(), 'or')) {
+      this.index += 1;
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1
+      ? (operands[0] as FilterExpression)
+      : { kind: 'or', operands };
+  }
+
+  private parseAnd(): FilterExpression {
+    const operands = [this.parseUnary()];
+    while (isKeyword(this.peek(), 'and')) {
+      this.index += 1;
+      operands.push(this.parseUnary());
+    }
+    return operands.length === 1
+      ? (operands[0] as FilterExpression)
+      : { kind: 'and', operands };
+  }
+
+  private parseUnary(): FilterExpression {
+    const token = this.peek();
+    if (isKeyword(token, 'not')) {
+      this.index += 1;
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    if (token?.type === 'punctuation' && token.text === '(') {
+      this.index += 1;
+      const expression = this.parseOr();
+      this.expectPunctuation(')');
+      return expression;
+    }
+    return this.parseComparison();
+  }
+
+  private expectPunctuation(text: '(' | ')' | ','): void {
+    const token = this.next(`"${text}"`);
+    if (token.type !== 'punctuation' || token.text !== text) {
+      this.fail(`Expected "${text}"`, token);
+    }
+  }
+
+  private parseComparison(): FilterExpression {
+    const fieldToken = this.next('a field name');
+    if (fieldToken.type !== 'word') {
+      this.fail(`Expected a field name, got "${fieldToken.text}"`, fieldToken);
+    }
+    const field = resolveField(fieldToken.text);
+
+    const operatorToken = this.next(`an operator after ${fieldToken.text}`);
+    if (isKeyword(operatorToken, 'in')) {
+      this.expectPunctuation('(');
+      const values = [this.parseValue(field)];
+      while (this.peek()?.text === ',') {
+        this.index += 1;
+        values.push(this.parseValue(field));
+      }
+      this.expectPunctuation(')');
+      return { kind: 'in', field, values };
+    }
+    if (operatorToken.type !== 'operator') {
+      this.fail(
+        `Expected an operator after ${fieldToken.text}, got "${operatorToken.text}"`,
+        operatorToken
+      );
+    }
+
+    const operator = operatorToken.text;
+    const type = QUERY_FIELDS[field].type;
+    if (type === 'string' && /^[<>]/.test(operator)) {
+      this.fail(`${field} is text and cannot use ${operator}`, operatorToken);
+    }
+    if (type === 'number' && operator === '~') {
+      this.fail(`${field} is a number and cannot use ~`, operatorToken);
+    }
+    return { kind: 'compare', field, operator, value: this.parseValue(field) };
+  }
+
+  private parseValue(field: QueryField): FilterValue {
+    const token = this.next(`a value for ${field}`);
+    if (token.type !== 'word' && token.type !== 'string') {
+      this.fail(`Expected a value for ${field}, got "${token.text}"`, token);
+    }
+    if (QUERY_FIELDS[field].type === 'string') return token.text;
+
+    const value = Number(token.text);
+    if (token.type !== 'word' || !Number.isFinite(value)) {
+      this.fail(`${field} needs a number, got "${token.text}"`, token);
+    }
+    return value;
+  }
+}
+
+/**
+ * Parse a filter expression such as
+ * `category ~ roof and rating >= 4.3 and website in (none, facebook)`.
+ *
+ * Comparisons are `=`, `!=`, `>`, `>=`, `<`, `<=` (also `≥`, `≤`), `~`
+ * (contains) and `in (...)`; combine them with `and`/`&&`, `or`/`||`,
+ * `not`/`!` and parentheses. Text matches ignore case, and `*` in an `=`
+ * value is a wildcard (`zip = 336*`). Quote values containing spaces.
+ */
+export function parseFilter(text: string): FilterExpression {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) throw new FilterError('Filter is empty');
+  return new Parser(tokens, text).parse();
+}
+
+function wildcard(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function equals(actual: FilterValue, expected: FilterValue): boolean {
+  if (typeof actual === 'number' || typeof expected === 'number') {
+    return actual === expected;
+  }
+  return expected.includes('*')
+    ? wildcard(expected).test(actual)
+    : actual.toLowerCase() === expected.toLowerCase();
+}
+
+function compare(
+  actual: FilterValue,
+  operator: ComparisonOperator,
+  expected: FilterValue
+): boolean {
+  switch (operator) {
+    case '=':
+      return equals(actual, expected);
+    case '!=':
+      return !equals(actual, expected);
+    case '~':
+      return String(actual)
+        .toLowerCase()
+        .includes(String(expected).toLowerCase());
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+  }
+}
+
+export function matchesFilter(
+  prospect: BusinessProspect,
+  expression: FilterExpression
+): boolean {
+  switch (expression.kind) {
+    case 'and':
+      return expression.operands.every((operand) =>
+        matchesFilter(prospect, operand)
+      );
+    case 'or':
+      return expression.operands.some((operand) =>
+        matchesFilter(prospect, operand)
+      );
+    case 'not':
+      return !matchesFilter(prospect, expression.operand);
+    case 'compare':
+      return compare(
+        QUERY_FIELDS[expression.field].get(prospect),
+        expression.operator,
+        expression.value
+      );
+    case 'in': {
+      const actual = QUERY_FIELDS[expression.field].get(prospect);
+      return expression.values.some((value) => equals(actual, value));
+    }
+  }
+}
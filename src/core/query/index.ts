@@ -0,0 +1,4 @@
+export * from './filter.js';
+export * from './query.js';
+export * from './saved.js';
+export * from './sort.js';
@@ -0,0 +1,36 @@
+import type { BusinessProspect } from '../../types/index.js';
+import { matchesFilter, parseFilter } from './filter.js';
+import { parseSort, sortProspects } from './sort.js';
+
+export interface ProspectQuery {
+  /** Filter expression, see `parseFilter` */
+  where?: string;
+  /** Sort spec, see `parseSort` */
+  sort?: string;
+  limit?: number;
+}
+
+/**
+ * Filter, then sort, then limit. Throws `FilterError` for an invalid filter
+ * or sort spec.
+ */
+export function applyQuery(
+  prospects: BusinessProspect[],
+  query: ProspectQuery
+): BusinessProspect[] {
+  let result = prospects;
+  if (query.where) {
+    const filter = parseFilter(query.where);
+    result = result.filter((prospect) => matchesFilter(prospect, filter));
+  }
+  if (query.sort) result = sortProspects(result, parseSort(query.sort));
+  return query.limit !== undefined ? result.slice(0, query.limit) : result;
+}
+
+/**
+ * Check that the filter and sort spec parse, throwing `FilterError` if not.
+ */
+export function validateQuery(query: ProspectQuery): void {
+  if (query.where) parseFilter(query.where);
+  if (query.sort) parseSort(query.sort);
+}
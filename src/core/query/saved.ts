@@ -0,0 +1,78 @@
+import { join } from 'path';
+import { SavedQueriesSchema } from '../../schemas/index.js';
+import { readJsonFile, writeJsonAtomic } from '../../utils/fs.js';
+import { validateQuery } from './query.js';
+import type { ProspectQuery } from './query.js';
+
+const QUERY_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export class SavedQueryError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SavedQueryError';
+  }
+}
+
+/**
+ * Named prospect queries kept in `queries.json` in the data directory, so a
+ * rep can rerun "roofers I should call" without retyping the filter.
+ */
+export class SavedQueryStore {
+  private readonly path: string;
+
+  constructor(readonly dataDir: string) {
+    this.path = join(dataDir, 'queries.json');
+  }
+
+  async list(): Promise<Record<string, ProspectQuery>> {
+    return (
+      (await readJsonFile<Record<string, ProspectQuery>>(
+        this.path,
+        SavedQueriesSchema,
+        SavedQueryError
+      )) ?? {}
+    );
+  }
+
+  /**
+   * The saved query called `name`, throwing when there is none.
+   */
+  async get(name: string): Promise<ProspectQuery> {
+    const query = (await this.list())[name];
+    if (!query) throw new SavedQueryError(`No saved query named "${name}"`);
+    return query;
+  }
+
+  /**
+   * Save or replace a query after checking that it parses.
+   */
+  async save(name: string, query: ProspectQuery): Promise<void> {
+    if (!QUERY_NAME.test(name)) {
+      throw new SavedQueryError(
+        `Invalid query name "${name}" (use letters, digits, - and _)`
+      );
+    }
+    if (!query.where && !query.sort && query.limit === undefined) {
+      throw new SavedQueryError(
+        'Nothing to save: give --where, --sort or --limit'
+      );
+    }
+    validateQuery(query);
+    await this.write({ ...(await this.list()), [name]: query });
+  }
+
+  /**
+   * Remove a saved query. Returns false if there was none by that name.
+   */
+  async delete(name: string): Promise<boolean> {
+    const queries = await this.list();
+    if (!(name in queries)) return false;
+    delete queries[name];
+    await this.write(queries);
+    return true;
+  }
+
+  private async write(queries: Record<string, ProspectQuery>): Promise<void> {
+    await writeJsonAtomic(this.path, queries);
+  }
+}
@@ -0,0 +1,60 @@
+import type { BusinessProspect } from '../../types/index.js';
+import { FilterError, QUERY_FIELDS, resolveField } from './filter.js';
+import type { QueryField } from './filter.js';
+
+export interface SortKey {
+  field: QueryField;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Parse a sort spec: comma-separated fields, each optionally followed by
+ * `:asc` or `:desc` (or prefixed with `-` for descending), e.g.
+ * `score:desc,reviews:desc,name`.
+ */
+export function parseSort(spec: string): SortKey[] {
+  const keys = spec
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part): SortKey => {
+      const descending = part.startsWith('-');
+      const [name = '', direction] = part.replace(/^-/, '').split(':');
+      if (direction !== undefined && !/^(asc|desc)$/i.test(direction)) {
+        throw new FilterError(
+          `Invalid sort direction "${direction}" (expected asc or desc)`
+        );
+      }
+      return {
+        field: resolveField(name),
+        direction:
+          descending || direction?.toLowerCase() === 'desc' ? 'desc' : 'asc',
+      };
+    });
+  if (keys.length === 0) throw new FilterError('Sort spec is empty');
+  return keys;
+}
+
+/**
+ * Sort a copy of `prospects` by each key in turn. Text sorts ignore case.
+ */
+export function sortProspects(
+  prospects: BusinessProspect[],
+  keys: SortKey[]
+): BusinessProspect[] {
+  return [...prospects].sort((a, b) => {
+    for (const { field, direction } of keys) {
+      const { get } = QUERY_FIELDS[field];
+      const left = get(a);
+      const right = get(b);
+      const order =
+        typeof left === 'number' && typeof right === 'number'
+          ? left - right
+          : String(left).localeCompare(String(right), undefined, {
+              sensitivity: 'base',
+            });
+      if (order !== 0) return direction === 'desc' ? -order : order;
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,86 @@
+import type { BusinessProspect } from '../../types/index.js';
+import { QUERY_FIELDS, matchesFilter } from '../query/index.js';
+import type { FilterExpression } from '../query/index.js';
+
+/**
+ * Fields compared between snapshots: the ones that change who gets called.
+ */
+export const TRACKED_FIELDS = [
+  'rating',
+  'reviewCount',
+  'webPresence.websiteType',
+  'opportunityScore',
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+/** Filter a prospect has to match to be worth calling, see `parseFilter` */
+export const DEFAULT_QUALIFY_FILTER = 'score >= 70';
+
+export interface FieldChange {
+  field: TrackedField;
+  before: string | number;
+  after: string | number;
+  /** `after - before` for numeric fields */
+  delta?: number;
+}
+
+export interface ProspectChange {
+  before: BusinessProspect;
+  after: BusinessProspect;
+  changes: FieldChange[];
+  /** Whether the qualifying filter matched before and after */
+  qualified: { before: boolean; after: boolean };
+}
+
+/**
+ * Tracked fields whose value differs between two snapshots of a prospect.
+ */
+export function diffSnapshots(
+  before: BusinessProspect,
+  after: BusinessProspect
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of TRACKED_FIELDS) {
+    const { get } = QUERY_FIELDS[field];
+    const old = get(before);
+    const next = get(after);
+    if (old === next) continue;
+    changes.push({
+      field,
+      before: old,
+      after: next,
+      ...(typeof old === 'number' && typeof next === 'number'
+        ? { delta: Math.round((next - old) * 100) / 100 }
+        : {}),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Compare two snapshots of a prospect against the qualifying filter.
+ */
+export function compareSnapshots(
+  before: BusinessProspect,
+  after: BusinessProspect,
+  qualify: FilterExpression
+): ProspectChange {
+  return {
+    before,
+    after,
+    changes: diffSnapshots(before, after),
+    qualified: {
+      before: matchesFilter(before, qualify),
+      after: matchesFilter(after, qualify),
+    },
+  };
+}
+
+/**
+ * True when the prospect qualifies now but did not in the previous
+ * snapshot, e.g. a business that lost its website or gained reviews.
+ */
+export function isNewlyQualified(change: ProspectChange): boolean {
+  return change.qualified.after && !change.qualified.before;
+}
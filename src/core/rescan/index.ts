@@ -0,0 +1,3 @@
+export * from './changes.js';
+export * from './report.js';
+export * from './rescan.js';
@@ -0,0 +1,92 @@
+import { join } from 'path';
+import { writeJsonAtomic } from '../../utils/fs.js';
+import { isNewlyQualified } from './changes.js';
+import type { FieldChange } from './changes.js';
+import type { RescanResult } from './rescan.js';
+
+export interface ReportedProspect {
+  id: string;
+  name: string;
+  changes: FieldChange[];
+  qualified: { before: boolean; after: boolean };
+  newlyQualified: boolean;
+}
+
+/**
+ * What changed in a rescan, for the weekly pipeline review. Prospects
+ * appear only when a tracked field or their qualification changed.
+ */
+export interface ChangeReport {
+  scannedAt: string;
+  source: string;
+  /** Filter that decided qualification */
+  qualify: string;
+  summary: {
+    scanned: number;
+    changed: number;
+    newlyQualified: number;
+    noLongerQualified: number;
+    missing: number;
+  };
+  prospects: ReportedProspect[];
+  /** Prospects their search no longer returns, e.g. closed businesses */
+  missing: { id: string; name: string }[];
+}
+
+export interface ReportOptions {
+  source: string;
+  qualify: string;
+  scannedAt?: Date;
+}
+
+export function buildChangeReport(
+  result: RescanResult,
+  options: ReportOptions
+): ChangeReport {
+  const prospects: ReportedProspect[] = result.prospects
+    .filter(
+      (change) =>
+        change.changes.length > 0 ||
+        change.qualified.before !== change.qualified.after
+    )
+    .map((change) => ({
+      id: change.after.id,
+      name: change.after.name,
+      changes: change.changes,
+      qualified: change.qualified,
+      newlyQualified: isNewlyQualified(change),
+    }));
+
+  return {
+    scannedAt: (options.scannedAt ?? new Date()).toISOString(),
+    source: options.source,
+    qualify: options.qualify,
+    summary: {
+      scanned: result.prospects.length + result.missing.length,
+      changed: prospects.filter((prospect) => prospect.changes.length > 0)
+        .length,
+      newlyQualified: prospects.filter((prospect) => prospect.newlyQualified)
+        .length,
+      noLongerQualified: prospects.filter(
+        ({ qualified }) => qualified.before && !qualified.after
+      ).length,
+      missing: result.missing.length,
+    },
+    prospects,
+    missing: result.missing.map(({ id, name }) => ({ id, name })),
+  };
+}
+
+/**
+ * Keep the report as `rescans/rescan-<timestamp>.json` in the data
+ * directory and return its path.
+ */
+export async function saveChangeReport(
+  dataDir: string,
+  report: ChangeReport
+): Promise<string> {
+  const stamp = report.scannedAt.replace(/\.\d+Z$/, 'Z').replace(/:/g, '-');
+  const path = join(dataDir, 'rescans', `rescan-${stamp}.json`);
+  await writeJsonAtomic(path, report);
+  return path;
+}
@@ -0,0 +1,120 @@
+import type { BusinessProspect } from '../../types/index.js';
+import { UNKNOWN_EMAIL, normalizeSocialAccounts } from '../normalizer/index.js';
+import { searchBusinesses } from '../prospector/index.js';
+import type {
+  BusinessSourceProvider,
+  RejectedRecord,
+  SearchQuery,
+} from '../prospector/index.js';
+import { parseFilter } from '../query/index.js';
+import { compareSnapshots } from './changes.js';
+import type { ProspectChange } from './changes.js';
+
+export interface RescanOptions {
+  provider: BusinessSourceProvider;
+  /** Filter a prospect must match to qualify */
+  qualify: string;
+  /** Scores a re-fetched listing, e.g. `applyScore` with a profile */
+  score: (prospect: BusinessProspect) => BusinessProspect;
+  onSearch?: (query: SearchQuery, found: number) => void;
+}
+
+export interface RescanResult {
+  /** One entry per prospect found again, changed or not */
+  prospects: ProspectChange[];
+  /** Stored prospects their search no longer returns */
+  missing: BusinessProspect[];
+  rejected: RejectedRecord[];
+}
+
+/**
+ * The search a prospect was most likely found by: its category in its city.
+ */
+export function rescanQuery(prospect: BusinessProspect): SearchQuery {
+  return {
+    industry: prospect.category,
+    location: `${prospect.location.city}, ${prospect.location.state}`,
+  };
+}
+
+/**
+ * The re-fetched listing, keeping what later commands added to the stored
+ * copy: an email found by `enrich` when the listing has none, in the
+ * prospect and its site config, the social profiles it found and the
+ * `analyze` results while the website is the same one.
+ */
+export function mergeRescanned(
+  previous: BusinessProspect,
+  fresh: BusinessProspect
+): BusinessProspect {
+  const keepEmail =
+    fresh.contact.email === UNKNOWN_EMAIL &&
+    previous.contact.email !== UNKNOWN_EMAIL;
+  const keepConfigEmail =
+    fresh.templateConfig.contact.email === UNKNOWN_EMAIL &&
+    previous.templateConfig.contact.email !== UNKNOWN_EMAIL;
+  const socialMedia = normalizeSocialAccounts([
+    ...(previous.templateConfig.socialMedia ?? []),
+    ...(fresh.templateConfig.socialMedia ?? []),
+  ]);
+  const sameWebsite = fresh.contact.website === previous.contact.website;
+  return {
+    ...fresh,
+    contact: {
+      ...fresh.contact,
+      ...(keepEmail ? { email: previous.contact.email } : {}),
+      ...(previous.contact.emails && !fresh.contact.emails
+        ? { emails: previous.contact.emails }
+        : {}),
+    },
+    webPresence: sameWebsite ? previous.webPresence : fresh.webPresence,
+    templateConfig: {
+      ...fresh.templateConfig,
+      contact: {
+        ...fresh.templateConfig.contact,
+        ...(keepConfigEmail
+          ? { email: previous.templateConfig.contact.email }
+          : {}),
+      },
+      ...(socialMedia.length > 0 ? { socialMedia } : {}),
+    },
+  };
+}
+
+/**
+ * Re-fetch stored prospects from the provider and compare each with its
+ * stored snapshot. Prospects sharing a category and city are re-fetched
+ * with one search; listings are matched to prospects by `id`.
+ */
+export async function rescanProspects(
+  stored: BusinessProspect[],
+  options: RescanOptions
+): Promise<RescanResult> {
+  const qualify = parseFilter(options.qualify);
+  const groups = new Map<string, BusinessProspect[]>();
+  for (const prospect of stored) {
+    const query = rescanQuery(prospect);
+    const key = `${query.industry}\n${query.location}`.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), prospect]);
+  }
+
+  const result: RescanResult = { prospects: [], missing: [], rejected: [] };
+  for (const group of groups.values()) {
+    const query = rescanQuery(group[0]!);
+    const search = await searchBusinesses(options.provider, query);
+    options.onSearch?.(query, search.prospects.length);
+    result.rejected.push(...search.rejected);
+
+    const found = new Map(search.prospects.map((p) => [p.id, p]));
+    for (const previous of group) {
+      const fresh = found.get(previous.id);
+      if (!fresh) {
+        result.missing.push(previous);
+        continue;
+      }
+      const next = options.score(mergeRescanned(previous, fresh));
+      result.prospects.push(compareSnapshots(previous, next, qualify));
+    }
+  }
+  return result;
+}
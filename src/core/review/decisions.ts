@@ -0,0 +1,147 @@
+import { join } from 'path';
+import { ReviewEntriesSchema } from '../../schemas/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { readJsonFile, writeJsonAtomic } from '../../utils/fs.js';
+
+export const REVIEW_DECISIONS = ['marked', 'rejected'] as const;
+
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number];
+
+/**
+ * How a prospect was triaged. Prospects without an entry are unreviewed.
+ */
+export interface ReviewEntry {
+  decision?: ReviewDecision;
+  tags: string[];
+}
+
+export type ReviewEntries = Record<string, ReviewEntry>;
+
+export class ReviewError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * The entry with its decision set, or cleared for `null`.
+ */
+export function withDecision(
+  entry: ReviewEntry | undefined,
+  decision: ReviewDecision | null
+): ReviewEntry {
+  return {
+    ...(decision ? { decision } : {}),
+    tags: entry?.tags ?? [],
+  };
+}
+
+/**
+ * The entry with `tag` added, or removed when `remove` is set. Tags are
+ * kept sorted and unique.
+ */
+export function withTag(
+  entry: ReviewEntry | undefined,
+  tag: string,
+  remove = false
+): ReviewEntry {
+  const name = tag.trim();
+  const tags = new Set(entry?.tags ?? []);
+  if (remove) tags.delete(name);
+  else if (name) tags.add(name);
+  return {
+    ...(entry?.decision ? { decision: entry.decision } : {}),
+    tags: [...tags].sort(),
+  };
+}
+
+/**
+ * One entry for prospects merged by `dedupe`: rejected if any of them was,
+ * else marked if any was, with every tag.
+ */
+export function mergeReviewEntries(entries: ReviewEntry[]): ReviewEntry {
+  const decided = (decision: ReviewDecision): boolean =>
+    entries.some((entry) => entry.decision === decision);
+  const decision: ReviewDecision | undefined = decided('rejected')
+    ? 'rejected'
+    : decided('marked')
+      ? 'marked'
+      : undefined;
+  return {
+    ...(decision ? { decision } : {}),
+    tags: [...new Set(entries.flatMap((entry) => entry.tags))].sort(),
+  };
+}
+
+/**
+ * The marked prospects, in the order given.
+ */
+export function markedProspects(
+  prospects: BusinessProspect[],
+  entries: ReviewEntries
+): BusinessProspect[] {
+  return prospects.filter(
+    (prospect) => entries[prospect.id]?.decision === 'marked'
+  );
+}
+
+/**
+ * Review decisions and tags kept in `review.json` in the data directory, so
+ * a triage can be picked up where it was left.
+ */
+export class ReviewStore {
+  private readonly path: string;
+
+  constructor(readonly dataDir: string) {
+    this.path = join(dataDir, 'review.json');
+  }
+
+  async list(): Promise<ReviewEntries> {
+    return (
+      (await readJsonFile<ReviewEntries>(
+        this.path,
+        ReviewEntriesSchema,
+        ReviewError
+      )) ?? {}
+    );
+  }
+
+  /**
+   * Fold the entries of `duplicateIds` into `prospectId`'s, as `dedupe`
+   * merges their records into it.
+   */
+  async merge(prospectId: string, duplicateIds: string[]): Promise<void> {
+    const entries = await this.list();
+    const merging = [prospectId, ...duplicateIds].flatMap((id) => {
+      const entry = entries[id];
+      return entry ? [entry] : [];
+    });
+    if (merging.length === 0) return;
+    for (const id of duplicateIds) delete entries[id];
+    await this.save({ ...entries, [prospectId]: mergeReviewEntries(merging) });
+  }
+
+  /**
+   * Remove a prospect's entry. Returns false if it had none.
+   */
+  async delete(prospectId: string): Promise<boolean> {
+    const entries = await this.list();
+    if (!(prospectId in entries)) return false;
+    delete entries[prospectId];
+    await this.save(entries);
+    return true;
+  }
+
+  /**
+   * Replace the saved entries, dropping empty ones.
+   */
+  async save(entries: ReviewEntries): Promise<void> {
+    const kept = Object.fromEntries(
+      Object.entries(entries).filter(
+        ([, entry]) => entry.decision !== undefined || entry.tags.length > 0
+      )
+    );
+    await writeJsonAtomic(this.path, kept);
+  }
+}
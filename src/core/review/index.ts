@@ -0,0 +1,4 @@
+export * from './decisions.js';
+export * from './render.js';
+export * from './script.js';
+export * from './session.js';
@@ -0,0 +1,188 @@
+import type { BusinessProspect } from '../../types/index.js';
+import type { QueryField } from '../query/index.js';
+import type { ReviewEntry } from './decisions.js';
+import type { ReviewSession } from './session.js';
+
+export interface ReviewColumn {
+  header: string;
+  field: QueryField;
+  /** Characters wide, with room for the sort arrow; 0 takes the rest */
+  width: number;
+  align?: 'left' | 'right';
+  value: (prospect: BusinessProspect) => string;
+}
+
+export const REVIEW_COLUMNS: readonly ReviewColumn[] = [
+  { header: 'NAME', field: 'name', width: 0, value: (p) => p.name },
+  {
+    header: 'CATEGORY',
+    field: 'category',
+    width: 18,
+    value: (p) => p.category,
+  },
+  {
+    header: 'RATING',
+    field: 'rating',
+    width: 7,
+    align: 'right',
+    value: (p) => p.rating.toFixed(1),
+  },
+  {
+    header: 'REVIEWS',
+    field: 'reviewCount',
+    width: 8,
+    align: 'right',
+    value: (p) => String(p.reviewCount),
+  },
+  {
+    header: 'WEBSITE',
+    field: 'webPresence.websiteType',
+    width: 12,
+    value: (p) => p.webPresence.websiteType,
+  },
+  {
+    header: 'SCORE',
+    field: 'opportunityScore',
+    width: 6,
+    align: 'right',
+    value: (p) => String(p.opportunityScore),
+  },
+];
+
+export const REVIEW_KEY_HELP =
+  '↑/↓ move  s sort  r reverse  v view  m mark  x reject  t tag  e export  q quit';
+
+/** Lines kept for the detail pane under the table */
+const DETAIL_HEIGHT = 10;
+
+const INVERSE = '\u001b[7m';
+const BOLD = '\u001b[1m';
+const RESET = '\u001b[0m';
+
+const DECISION_MARKERS = { marked: '*', rejected: 'x' } as const;
+
+/**
+ * Cut or pad `text` to exactly `width` characters.
+ */
+function fit(
+  text: string,
+  width: number,
+  align: 'left' | 'right' = 'left'
+): string {
+  if (width <= 0) return '';
+  const cut = text.length > width ? `${text.slice(0, width - 1)}…` : text;
+  return align === 'right' ? cut.padStart(width) : cut.padEnd(width);
+}
+
+function columnWidths(width: number): number[] {
+  // Two characters for the decision marker, two between columns
+  const fixed = REVIEW_COLUMNS.reduce(
+    (total, column) => total + column.width + 2,
+    2
+  );
+  return REVIEW_COLUMNS.map((column) =>
+    column.width > 0 ? column.width : Math.max(10, width - fixed)
+  );
+}
+
+function formatList(label: string, items: string[]): string[] {
+  return items.length > 0
+    ? [`${label}:`, ...items.map((item) => `  - ${item}`)]
+    : [`${label}: none`];
+}
+
+/**
+ * What the detail pane and the scripted `show` print about a prospect.
+ */
+export function formatReviewDetail(
+  prospect: BusinessProspect,
+  entry: ReviewEntry | undefined
+): string[] {
+  const { contact, location, webPresence } = prospect;
+  return [
+    `${prospect.name} (${prospect.id})`,
+    [
+      prospect.category,
+      `${location.city}, ${location.state}`,
+      contact.phone,
+      contact.email,
+    ].join(' · '),
+    `Website: ${webPresence.websiteType} (${webPresence.websiteQuality})${contact.website ? ` ${contact.website}` : ''}`,
+    `Review: ${entry?.decision ?? 'unreviewed'}${entry?.tags.length ? ` · tags: ${entry.tags.join(', ')}` : ''}`,
+    ...formatList('Issues', webPresence.issues),
+    ...formatList('Opportunities', webPresence.opportunities),
+  ];
+}
+
+export interface ReviewScreenOptions {
+  width: number;
+  height: number;
+  /** Replaces the key help on the bottom line, e.g. a prompt or a result */
+  status?: string;
+}
+
+/**
+ * Draw the review screen as exactly `height` lines of at most `width`
+ * characters: a summary line, the prospect table scrolled to keep the
+ * cursor in view, the selected prospect's details and the key help.
+ */
+export function renderReviewScreen(
+  session: ReviewSession,
+  options: ReviewScreenOptions
+): string[] {
+  const { width } = options;
+  const height = Math.max(options.height, DETAIL_HEIGHT + 7);
+  const { rows, cursor } = session;
+  const counts = session.counts();
+  const [primary] = session.sort;
+  const widths = columnWidths(width);
+
+  const summary = `${rows.length} of ${session.prospects.length} prospects · ${counts.marked} marked · ${counts.rejected} rejected · view: ${session.view}`;
+  const header = `  ${REVIEW_COLUMNS.map((column, index) => {
+    const arrow =
+      column.field === primary?.field
+        ? primary.direction === 'desc'
+          ? '▼'
+          : '▲'
+        : '';
+    return fit(`${column.header}${arrow}`, widths[index]!, column.align);
+  }).join('  ')}`;
+
+  const tableHeight = height - DETAIL_HEIGHT - 4;
+  const offset = Math.max(
+    0,
+    Math.min(cursor - Math.floor(tableHeight / 2), rows.length - tableHeight)
+  );
+  const table = rows.slice(offset, offset + tableHeight).map((prospect, i) => {
+    const decision = session.entry(prospect.id)?.decision;
+    const line = fit(
+      `${decision ? DECISION_MARKERS[decision] : ' '} ${REVIEW_COLUMNS.map(
+        (column, index) =>
+          fit(column.value(prospect), widths[index]!, column.align)
+      ).join('  ')}`,
+      width
+    );
+    return offset + i === cursor ? `${INVERSE}${line}${RESET}` : line;
+  });
+  if (rows.length === 0)
+    table.push(`  No prospects in the ${session.view} view`);
+
+  const current = session.current;
+  const detail = current
+    ? formatReviewDetail(current, session.entry(current.id))
+    : [];
+  if (detail.length > DETAIL_HEIGHT) {
+    detail.splice(DETAIL_HEIGHT - 1, Infinity, '…');
+  }
+
+  return [
+    `${BOLD}${fit(summary, width)}${RESET}`,
+    fit(header, width),
+    ...table,
+    ...Array<string>(tableHeight - table.length).fill(''),
+    '─'.repeat(width),
+    ...detail.map((line) => fit(line, width).trimEnd()),
+    ...Array<string>(DETAIL_HEIGHT - detail.length).fill(''),
+    fit(options.status ?? REVIEW_KEY_HELP, width).trimEnd(),
+  ];
+}
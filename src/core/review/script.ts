@@ -0,0 +1,122 @@
+import { parseSort } from '../query/index.js';
+import type { SortKey } from '../query/index.js';
+import { ReviewError } from './decisions.js';
+import type { ReviewDecision } from './decisions.js';
+import { REVIEW_VIEWS, isReviewView } from './session.js';
+import type { ReviewSession, ReviewView } from './session.js';
+
+/**
+ * One line of a review script, the non-interactive stand-in for the
+ * terminal UI's keys.
+ */
+export type ReviewCommand =
+  | { type: 'decide'; ids: string[]; decision: ReviewDecision | null }
+  | { type: 'tag'; id: string; tags: string[]; remove: boolean }
+  | { type: 'sort'; keys: SortKey[] }
+  | { type: 'view'; view: ReviewView }
+  | { type: 'list' }
+  | { type: 'show'; id: string }
+  | { type: 'export' };
+
+export const REVIEW_SCRIPT_HELP = [
+  'mark <id...>         mark prospects for export',
+  'reject <id...>       reject prospects',
+  'clear <id...>        clear the mark or rejection',
+  'tag <id> <tag...>    add tags',
+  'untag <id> <tag...>  remove tags',
+  'sort <spec>          e.g. score:desc,reviews:desc',
+  `view <view>          ${REVIEW_VIEWS.join(', ')}`,
+  'list                 print the table',
+  'show <id>            print a prospect',
+  'export               write the marked prospects',
+].join('\n');
+
+const DECISION_COMMANDS: Record<string, ReviewDecision | null> = {
+  mark: 'marked',
+  reject: 'rejected',
+  clear: null,
+};
+
+/**
+ * Parse a script line. Returns undefined for blank lines and `#` comments.
+ */
+export function parseReviewCommand(line: string): ReviewCommand | undefined {
+  const [name = '', ...args] = line.trim().split(/\s+/);
+  if (name === '' || name.startsWith('#')) return undefined;
+
+  const need = (count: number, usage: string): void => {
+    if (args.length < count) {
+      throw new ReviewError(`Usage: ${usage}`);
+    }
+  };
+  switch (name.toLowerCase()) {
+    case 'mark':
+    case 'reject':
+    case 'clear':
+      need(1, `${name} <id...>`);
+      return {
+        type: 'decide',
+        ids: args,
+        decision: DECISION_COMMANDS[name.toLowerCase()]!,
+      };
+    case 'tag':
+    case 'untag':
+      need(2, `${name} <id> <tag...>`);
+      return {
+        type: 'tag',
+        id: args[0]!,
+        tags: args.slice(1),
+        remove: name.toLowerCase() === 'untag',
+      };
+    case 'sort':
+      need(1, 'sort <spec>');
+      return { type: 'sort', keys: parseSort(args.join('')) };
+    case 'view':
+      need(1, 'view <view>');
+      if (!isReviewView(args[0]!)) {
+        throw new ReviewError(
+          `Unknown view "${args[0]}". Use one of: ${REVIEW_VIEWS.join(', ')}`
+        );
+      }
+      return { type: 'view', view: args[0] };
+    case 'list':
+      return { type: 'list' };
+    case 'show':
+      need(1, 'show <id>');
+      return { type: 'show', id: args[0]! };
+    case 'export':
+      return { type: 'export' };
+    default:
+      throw new ReviewError(
+        `Unknown review command "${name}". Commands:\n${REVIEW_SCRIPT_HELP}`
+      );
+  }
+}
+
+/**
+ * Apply a command that changes the session. Returns false for the ones
+ * that print or export, which are left to the caller.
+ */
+export function applyReviewCommand(
+  session: ReviewSession,
+  command: ReviewCommand
+): boolean {
+  switch (command.type) {
+    case 'decide':
+      for (const id of command.ids) session.decide(id, command.decision);
+      return true;
+    case 'tag':
+      for (const tag of command.tags) {
+        session.tag(command.id, tag, command.remove);
+      }
+      return true;
+    case 'sort':
+      session.setSort(command.keys);
+      return true;
+    case 'view':
+      session.setView(command.view);
+      return true;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,229 @@
+import type { BusinessProspect } from '../../types/index.js';
+import { QUERY_FIELDS, parseSort, sortProspects } from '../query/index.js';
+import type { QueryField, SortKey } from '../query/index.js';
+import {
+  ReviewError,
+  markedProspects,
+  withDecision,
+  withTag,
+} from './decisions.js';
+import type {
+  ReviewDecision,
+  ReviewEntries,
+  ReviewEntry,
+} from './decisions.js';
+
+export const REVIEW_VIEWS = [
+  'all',
+  'unreviewed',
+  'marked',
+  'rejected',
+] as const;
+
+export type ReviewView = (typeof REVIEW_VIEWS)[number];
+
+/** Fields the review table shows and can sort by, left to right */
+export const REVIEW_SORT_FIELDS: readonly QueryField[] = [
+  'name',
+  'category',
+  'rating',
+  'reviewCount',
+  'webPresence.websiteType',
+  'opportunityScore',
+];
+
+export const DEFAULT_REVIEW_SORT = 'score:desc';
+
+export function isReviewView(value: string): value is ReviewView {
+  return (REVIEW_VIEWS as readonly string[]).includes(value);
+}
+
+/**
+ * A triage of prospects: the sorted, filtered rows, the cursor and each
+ * prospect's decision and tags. The terminal UI and the scripted fallback
+ * both drive one of these.
+ */
+export class ReviewSession {
+  /** Index of the selected row */
+  cursor = 0;
+  private sortKeys: SortKey[];
+  private currentView: ReviewView = 'all';
+  private cachedRows: BusinessProspect[] | undefined;
+
+  constructor(
+    readonly prospects: BusinessProspect[],
+    /** Every saved entry, including ones for prospects not under review */
+    readonly entries: ReviewEntries = {},
+    sort: SortKey[] = parseSort(DEFAULT_REVIEW_SORT)
+  ) {
+    this.sortKeys = sort;
+  }
+
+  get sort(): readonly SortKey[] {
+    return this.sortKeys;
+  }
+
+  get view(): ReviewView {
+    return this.currentView;
+  }
+
+  /** Prospects in the current view, in the current sort order */
+  get rows(): BusinessProspect[] {
+    this.cachedRows ??= sortProspects(
+      this.prospects.filter((prospect) => this.inView(prospect)),
+      this.sortKeys
+    );
+    return this.cachedRows;
+  }
+
+  get current(): BusinessProspect | undefined {
+    return this.rows[this.cursor];
+  }
+
+  entry(prospectId: string): ReviewEntry | undefined {
+    return this.entries[prospectId];
+  }
+
+  counts(): Record<ReviewDecision, number> {
+    const decisions = this.prospects.map(
+      (prospect) => this.entries[prospect.id]?.decision
+    );
+    return {
+      marked: decisions.filter((decision) => decision === 'marked').length,
+      rejected: decisions.filter((decision) => decision === 'rejected').length,
+    };
+  }
+
+  /** Marked prospects in the current sort order, whatever the view */
+  marked(): BusinessProspect[] {
+    return markedProspects(
+      sortProspects(this.prospects, this.sortKeys),
+      this.entries
+    );
+  }
+
+  find(prospectId: string): BusinessProspect {
+    const prospect = this.prospects.find(
+      (candidate) => candidate.id === prospectId
+    );
+    if (!prospect) {
+      throw new ReviewError(`Business ${prospectId} is not under review`);
+    }
+    return prospect;
+  }
+
+  move(delta: number): void {
+    this.moveTo(this.cursor + delta);
+  }
+
+  moveTo(index: number): void {
+    this.cursor = Math.max(0, Math.min(index, this.rows.length - 1));
+  }
+
+  setSort(keys: SortKey[]): void {
+    this.update(() => {
+      this.sortKeys = keys;
+    });
+  }
+
+  /**
+   * Sort by `field`, reversing the order when it already is the primary
+   * sort. Numbers start highest first, text A to Z.
+   */
+  sortBy(field: QueryField): void {
+    const [primary] = this.sortKeys;
+    if (primary?.field === field) {
+      this.reverseSort();
+      return;
+    }
+    this.setSort([
+      {
+        field,
+        direction: QUERY_FIELDS[field].type === 'number' ? 'desc' : 'asc',
+      },
+    ]);
+  }
+
+  /** Sort by the next column of the table */
+  nextSort(): void {
+    const index = REVIEW_SORT_FIELDS.indexOf(this.sortKeys[0]!.field);
+    this.sortBy(REVIEW_SORT_FIELDS[(index + 1) % REVIEW_SORT_FIELDS.length]!);
+  }
+
+  reverseSort(): void {
+    this.setSort(
+      this.sortKeys.map(({ field, direction }) => ({
+        field,
+        direction: direction === 'asc' ? 'desc' : 'asc',
+      }))
+    );
+  }
+
+  setView(view: ReviewView): void {
+    this.update(() => {
+      this.currentView = view;
+    });
+  }
+
+  nextView(): void {
+    const index = REVIEW_VIEWS.indexOf(this.currentView);
+    this.setView(REVIEW_VIEWS[(index + 1) % REVIEW_VIEWS.length]!);
+  }
+
+  decide(prospectId: string, decision: ReviewDecision | null): void {
+    this.find(prospectId);
+    this.update(() => {
+      this.entries[prospectId] = withDecision(
+        this.entries[prospectId],
+        decision
+      );
+    });
+  }
+
+  /** Set `decision` on the selected prospect, or clear it if already set */
+  toggleDecision(decision: ReviewDecision): void {
+    const prospect = this.current;
+    if (!prospect) return;
+    const current = this.entries[prospect.id]?.decision;
+    this.decide(prospect.id, current === decision ? null : decision);
+  }
+
+  tag(prospectId: string, tag: string, remove = false): void {
+    this.find(prospectId);
+    this.update(() => {
+      this.entries[prospectId] = withTag(this.entries[prospectId], tag, remove);
+    });
+  }
+
+  /** Tag the selected prospect, or untag it if it already has the tag */
+  toggleTag(tag: string): void {
+    const prospect = this.current;
+    if (!prospect) return;
+    const has = this.entries[prospect.id]?.tags.includes(tag.trim()) ?? false;
+    this.tag(prospect.id, tag, has);
+  }
+
+  private inView(prospect: BusinessProspect): boolean {
+    const decision = this.entries[prospect.id]?.decision;
+    switch (this.currentView) {
+      case 'all':
+        return true;
+      case 'unreviewed':
+        return decision === undefined;
+      default:
+        return decision === this.currentView;
+    }
+  }
+
+  /**
+   * Apply a change that may reorder or filter the rows, keeping the cursor
+   * on the same prospect while it is still shown.
+   */
+  private update(change: () => void): void {
+    const selected = this.current?.id;
+    change();
+    this.cachedRows = undefined;
+    const index = this.rows.findIndex((prospect) => prospect.id === selected);
+    this.moveTo(index >= 0 ? index : this.cursor);
+  }
+}
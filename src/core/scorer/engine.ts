@@ -0,0 +1,162 @@
+import type {
+  BusinessProspect,
+  FactorScore,
+  ScoreBreakdown,
+  ScoringFactor,
+  ScoringProfile,
+} from '../../types/index.js';
+import { DEFAULT_SCORING_PROFILE } from './profile.js';
+
+type Signal = Pick<FactorScore, 'signal' | 'reason'>;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number, places = 1): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function ratingSignal(
+  prospect: BusinessProspect,
+  profile: ScoringProfile
+): Signal {
+  const span = 5 - profile.minRating;
+  const signal =
+    span > 0 ? clamp((prospect.rating - profile.minRating) / span) : 1;
+  return {
+    signal,
+    reason: `rated ${prospect.rating} (signal starts above ${profile.minRating})`,
+  };
+}
+
+function reviewCountSignal(
+  prospect: BusinessProspect,
+  profile: ScoringProfile
+): Signal {
+  // Log scale: the jump from 5 to 50 reviews matters more than 500 to 545
+  const signal = clamp(
+    Math.log1p(prospect.reviewCount) / Math.log1p(profile.reviewTarget)
+  );
+  return {
+    signal,
+    reason: `${prospect.reviewCount} reviews (saturates at ${profile.reviewTarget})`,
+  };
+}
+
+function websiteTypeSignal(
+  prospect: BusinessProspect,
+  profile: ScoringProfile
+): Signal {
+  const type = prospect.webPresence.websiteType;
+  return {
+    signal: profile.websiteTypeSignals[type],
+    reason: `website type "${type}"`,
+  };
+}
+
+function websiteQualitySignal(
+  prospect: BusinessProspect,
+  profile: ScoringProfile
+): Signal {
+  const quality = prospect.webPresence.websiteQuality;
+  return {
+    signal: profile.websiteQualitySignals[quality],
+    reason: `website quality "${quality}"`,
+  };
+}
+
+function issuesSignal(
+  prospect: BusinessProspect,
+  profile: ScoringProfile
+): Signal {
+  const count = prospect.webPresence.issues.length;
+  return {
+    signal: clamp(count / profile.issueTarget),
+    reason: `${count} web presence issue(s)`,
+  };
+}
+
+function categorySignal(
+  prospect: BusinessProspect,
+  profile: ScoringProfile
+): Signal {
+  const category = prospect.category.toLowerCase();
+  const match = Object.entries(profile.categorySignals).find(([keyword]) =>
+    category.includes(keyword.toLowerCase())
+  );
+  if (match) {
+    return {
+      signal: match[1],
+      reason: `category "${prospect.category}" matches "${match[0]}"`,
+    };
+  }
+  return {
+    signal: profile.defaultCategorySignal,
+    reason: `category "${prospect.category}" uses the default signal`,
+  };
+}
+
+const FACTORS: Record<
+  ScoringFactor,
+  (prospect: BusinessProspect, profile: ScoringProfile) => Signal
+> = {
+  rating: ratingSignal,
+  reviewCount: reviewCountSignal,
+  websiteType: websiteTypeSignal,
+  websiteQuality: websiteQualitySignal,
+  issues: issuesSignal,
+  category: categorySignal,
+};
+
+/**
+ * Score a prospect from 0 to 100. Each factor yields a 0-1 signal; the score
+ * is the weighted average of the signals, and the breakdown shows how many
+ * points each factor contributed.
+ */
+export function scoreProspect(
+  prospect: BusinessProspect,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreBreakdown {
+  const totalWeight = Object.values(profile.weights).reduce(
+    (sum, weight) => sum + weight,
+    0
+  );
+
+  const factors = (Object.keys(FACTORS) as ScoringFactor[]).map(
+    (factor): FactorScore => {
+      const weight = profile.weights[factor];
+      const { signal, reason } = FACTORS[factor](prospect, profile);
+      const points =
+        totalWeight > 0 ? (100 * weight * signal) / totalWeight : 0;
+      return {
+        factor,
+        weight,
+        signal: round(signal, 2),
+        points: round(points),
+        reason,
+      };
+    }
+  );
+
+  const raw = factors.reduce((sum, factor) => sum + factor.points, 0);
+  return {
+    score: Math.min(100, Math.max(0, Math.round(raw))),
+    profile: profile.name,
+    factors,
+  };
+}
+
+/**
+ * Return a copy of the prospect with `opportunityScore` filled in.
+ */
+export function applyScore(
+  prospect: BusinessProspect,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): BusinessProspect {
+  return {
+    ...prospect,
+    opportunityScore: scoreProspect(prospect, profile).score,
+  };
+}
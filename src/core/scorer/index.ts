@@ -0,0 +1,2 @@
+export * from './profile.js';
+export * from './engine.js';
@@ -0,0 +1,101 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ScoringProfileSchema } from '../../schemas/index.js';
+import type { ScoringProfile } from '../../types/index.js';
+import { isRecord, mergeDeep } from '../../utils/objects.js';
+import { schemaIssues } from '../../utils/schema.js';
+
+/**
+ * Baseline profile. Businesses that are established (good rating, plenty of
+ * reviews) but have weak or no web presence score highest.
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  weights: {
+    rating: 15,
+    reviewCount: 15,
+    websiteType: 35,
+    websiteQuality: 15,
+    issues: 10,
+    category: 10,
+  },
+  minRating: 3,
+  reviewTarget: 100,
+  issueTarget: 5,
+  websiteTypeSignals: {
+    none: 1,
+    facebook: 0.9,
+    directory: 0.85,
+    template: 0.6,
+    professional: 0.1,
+    // A site that would not load is as likely broken as merely slow
+    unknown: 0.6,
+  },
+  websiteQualitySignals: {
+    none: 1,
+    poor: 0.8,
+    good: 0.3,
+    excellent: 0,
+  },
+  categorySignals: {
+    roof: 0.9,
+    plumb: 0.9,
+    hvac: 0.9,
+    electric: 0.85,
+    landscap: 0.8,
+    clean: 0.75,
+    account: 0.7,
+    restaurant: 0.5,
+  },
+  defaultCategorySignal: 0.6,
+};
+
+export class ScoringProfileError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ScoringProfileError';
+  }
+}
+
+/**
+ * Validate a (possibly partial) profile object, filling anything it omits
+ * from the default profile.
+ */
+export function resolveScoringProfile(
+  partial: unknown,
+  base: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoringProfile {
+  if (!isRecord(partial)) {
+    throw new ScoringProfileError('Scoring profile must be an object');
+  }
+
+  const parsed = ScoringProfileSchema.safeParse(
+    mergeDeep({ ...base, name: 'custom' }, partial)
+  );
+  if (!parsed.success) {
+    const issues = schemaIssues(parsed.error).join('; ');
+    throw new ScoringProfileError(`Invalid scoring profile: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load a scoring profile from a `.json`, `.yaml` or `.yml` file.
+ */
+export function loadScoringProfile(path: string): ScoringProfile {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+    raw =
+      extension === '.yaml' || extension === '.yml'
+        ? parseYaml(text)
+        : JSON.parse(text);
+  } catch (error) {
+    throw new ScoringProfileError(`Could not read scoring profile ${path}`, {
+      cause: error,
+    });
+  }
+  return resolveScoringProfile(raw);
+}
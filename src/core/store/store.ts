@@ -0,0 +1,142 @@
+import { appendFile, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parseProspect } from '../normalizer/index.js';
+import type { BusinessProspect } from '../../types/index.js';
+import { isNotFoundError, writeFileAtomic } from '../../utils/fs.js';
+
+export const DATA_DIR_ENV = 'D13_PROSPECTOR_DATA_DIR';
+
+/**
+ * Data directory from the environment, falling back to ~/.d13-prospector.
+ */
+export function defaultDataDir(): string {
+  return process.env[DATA_DIR_ENV] || join(homedir(), '.d13-prospector');
+}
+
+export class StoreError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'StoreError';
+  }
+}
+
+export interface UpsertSummary {
+  inserted: number;
+  updated: number;
+}
+
+/**
+ * Local prospect database kept as JSON lines in a data directory:
+ *
+ * - `prospects.jsonl` holds the latest record per `id` and is rewritten
+ *   atomically on every change
+ * - `history.jsonl` is append-only and keeps every snapshot, so earlier
+ *   `extractedAt` versions of a business stay available
+ */
+export class ProspectStore {
+  readonly dataDir: string;
+  private readonly currentPath: string;
+  private readonly historyPath: string;
+
+  constructor(dataDir: string = defaultDataDir()) {
+    this.dataDir = dataDir;
+    this.currentPath = join(dataDir, 'prospects.jsonl');
+    this.historyPath = join(dataDir, 'history.jsonl');
+  }
+
+  async list(): Promise<BusinessProspect[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async get(id: string): Promise<BusinessProspect | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  /**
+   * Insert or replace prospects by `id`, recording each as a snapshot.
+   */
+  async upsert(prospects: BusinessProspect[]): Promise<UpsertSummary> {
+    const current = await this.load();
+    const summary: UpsertSummary = { inserted: 0, updated: 0 };
+
+    for (const prospect of prospects) {
+      if (current.has(prospect.id)) summary.updated += 1;
+      else summary.inserted += 1;
+      current.set(prospect.id, prospect);
+    }
+
+    if (prospects.length > 0) {
+      await this.save(current);
+      await appendFile(this.historyPath, toLines(prospects), 'utf8');
+    }
+    return summary;
+  }
+
+  /**
+   * Every stored snapshot of a prospect, oldest `extractedAt` first. A
+   * snapshot re-saved with the same `extractedAt` (e.g. after `analyze`)
+   * replaces the earlier copy.
+   */
+  async history(id: string): Promise<BusinessProspect[]> {
+    const snapshots = new Map<number, BusinessProspect>();
+    for (const prospect of await this.readLines(this.historyPath)) {
+      if (prospect.id === id) {
+        snapshots.set(prospect.extractedAt.getTime(), prospect);
+      }
+    }
+    return [...snapshots.values()].sort(
+      (a, b) => a.extractedAt.getTime() - b.extractedAt.getTime()
+    );
+  }
+
+  /**
+   * Remove a prospect and its history. Returns false if it was not stored.
+   */
+  async delete(id: string): Promise<boolean> {
+    const current = await this.load();
+    if (!current.delete(id)) return false;
+
+    await this.save(current);
+    const history = (await this.readLines(this.historyPath)).filter(
+      (prospect) => prospect.id !== id
+    );
+    await writeFileAtomic(this.historyPath, toLines(history));
+    return true;
+  }
+
+  private async load(): Promise<Map<string, BusinessProspect>> {
+    const prospects = await this.readLines(this.currentPath);
+    return new Map(prospects.map((prospect) => [prospect.id, prospect]));
+  }
+
+  private async save(prospects: Map<string, BusinessProspect>): Promise<void> {
+    await writeFileAtomic(this.currentPath, toLines([...prospects.values()]));
+  }
+
+  private async readLines(path: string): Promise<BusinessProspect[]> {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (error) {
+      if (isNotFoundError(error)) return [];
+      throw new StoreError(`Could not read ${path}`, { cause: error });
+    }
+
+    return text.split('\n').flatMap((line, index) => {
+      if (!line.trim()) return [];
+      try {
+        return [parseProspect(JSON.parse(line))];
+      } catch (error) {
+        throw new StoreError(
+          `Corrupt record at ${path}:${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error }
+        );
+      }
+    });
+  }
+}
+
+function toLines(prospects: BusinessProspect[]): string {
+  return prospects.map((prospect) => `${JSON.stringify(prospect)}\n`).join('');
+}
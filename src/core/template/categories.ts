@@ -0,0 +1,181 @@
+/**
+ * What we know about an industry when building a site config: the
+ * schema.org LocalBusiness subtype and the services such a business
+ * usually offers.
+ */
+export interface IndustryProfile {
+  /** schema.org type, e.g. "Plumber" */
+  businessType: string;
+  primary: string;
+  services: string[];
+}
+
+interface IndustryRule extends IndustryProfile {
+  pattern: RegExp;
+}
+
+// First match wins, so more specific patterns come first
+const INDUSTRY_RULES: IndustryRule[] = [
+  {
+    pattern: /plumb|drain/,
+    businessType: 'Plumber',
+    primary: 'Plumbing Services',
+    services: [
+      'Drain Cleaning',
+      'Leak Repair',
+      'Water Heaters',
+      'Emergency Plumbing',
+    ],
+  },
+  {
+    pattern: /roof/,
+    businessType: 'RoofingContractor',
+    primary: 'Roofing Services',
+    services: [
+      'Roof Repair',
+      'Roof Replacement',
+      'Roof Inspections',
+      'Storm Damage',
+    ],
+  },
+  {
+    pattern: /electric/,
+    businessType: 'Electrician',
+    primary: 'Electrical Services',
+    services: [
+      'Wiring & Rewiring',
+      'Panel Upgrades',
+      'Lighting',
+      'Emergency Repairs',
+    ],
+  },
+  {
+    pattern: /hvac|heating|air condition|\bac\b/,
+    businessType: 'HVACBusiness',
+    primary: 'Heating & Air Conditioning',
+    services: [
+      'AC Repair',
+      'Heating Repair',
+      'System Installation',
+      'Maintenance Plans',
+    ],
+  },
+  {
+    pattern: /paint/,
+    businessType: 'HousePainter',
+    primary: 'Painting Services',
+    services: ['Interior Painting', 'Exterior Painting', 'Cabinet Refinishing'],
+  },
+  {
+    pattern: /locksmith/,
+    businessType: 'Locksmith',
+    primary: 'Locksmith Services',
+    services: ['Lockouts', 'Rekeying', 'Lock Installation'],
+  },
+  {
+    pattern: /moving|movers/,
+    businessType: 'MovingCompany',
+    primary: 'Moving Services',
+    services: ['Local Moves', 'Long-Distance Moves', 'Packing'],
+  },
+  {
+    pattern: /clean|maid|janitor/,
+    businessType: 'HomeAndConstructionBusiness',
+    primary: 'Cleaning Services',
+    services: [
+      'Residential Cleaning',
+      'Deep Cleaning',
+      'Move-Out Cleaning',
+      'Commercial Cleaning',
+    ],
+  },
+  {
+    pattern: /landscap|lawn|tree service/,
+    businessType: 'HomeAndConstructionBusiness',
+    primary: 'Landscaping Services',
+    services: ['Lawn Care', 'Landscape Design', 'Irrigation', 'Tree Trimming'],
+  },
+  {
+    pattern: /contractor|remodel|construction|handyman/,
+    businessType: 'GeneralContractor',
+    primary: 'Contracting Services',
+    services: ['Remodeling', 'Repairs', 'Additions'],
+  },
+  {
+    pattern: /account|cpa|bookkeep|tax/,
+    businessType: 'AccountingService',
+    primary: 'Accounting Services',
+    services: [
+      'Tax Preparation',
+      'Bookkeeping',
+      'Payroll',
+      'Business Advisory',
+    ],
+  },
+  {
+    pattern: /attorney|lawyer|law firm|legal/,
+    businessType: 'LegalService',
+    primary: 'Legal Services',
+    services: ['Consultations', 'Representation', 'Document Preparation'],
+  },
+  {
+    pattern: /dentist|dental/,
+    businessType: 'Dentist',
+    primary: 'Dental Care',
+    services: ['Cleanings & Exams', 'Fillings', 'Cosmetic Dentistry'],
+  },
+  {
+    pattern: /auto|mechanic|car repair|tire/,
+    businessType: 'AutoRepair',
+    primary: 'Auto Repair',
+    services: ['Diagnostics', 'Brake Service', 'Oil Changes', 'Engine Repair'],
+  },
+  {
+    pattern: /barber/,
+    businessType: 'HairSalon',
+    primary: 'Barber Services',
+    services: ['Haircuts', 'Beard Trims', 'Hot Towel Shaves'],
+  },
+  {
+    pattern: /salon|hair|nail|spa\b|beauty/,
+    businessType: 'BeautySalon',
+    primary: 'Salon Services',
+    services: ['Haircuts & Styling', 'Color', 'Nail Care'],
+  },
+  {
+    pattern: /bakery/,
+    businessType: 'Bakery',
+    primary: 'Bakery',
+    services: ['Fresh Bread', 'Pastries', 'Custom Cakes'],
+  },
+  {
+    pattern: /cafe|coffee/,
+    businessType: 'CafeOrCoffeeShop',
+    primary: 'Coffee & Cafe',
+    services: ['Coffee', 'Breakfast', 'Pastries'],
+  },
+  {
+    pattern: /restaurant|taqueria|bbq|barbecue|grill|diner|pizz|kitchen|eatery/,
+    businessType: 'Restaurant',
+    primary: 'Restaurant',
+    services: ['Dine-In', 'Takeout', 'Catering'],
+  },
+];
+
+/**
+ * Look up the industry profile for a free-text category. Unknown categories
+ * fall back to a generic LocalBusiness offering the category itself.
+ */
+export function resolveIndustry(category: string): IndustryProfile {
+  const normalized = category.toLowerCase();
+  const rule = INDUSTRY_RULES.find(({ pattern }) => pattern.test(normalized));
+  if (rule) {
+    const { businessType, primary, services } = rule;
+    return { businessType, primary, services: [...services] };
+  }
+  return {
+    businessType: 'LocalBusiness',
+    primary: category,
+    services: [category],
+  };
+}
@@ -0,0 +1,182 @@
+import { BusinessConfigSchema } from '../../schemas/index.js';
+import type {
+  BusinessConfig,
+  BusinessProspect,
+  SocialMediaAccount,
+} from '../../types/index.js';
+import { schemaIssues } from '../../utils/schema.js';
+import {
+  formatPhone,
+  normalizeBusinessHours,
+  normalizeSocialAccounts,
+  parseSocialProfile,
+} from '../normalizer/index.js';
+import { resolveIndustry } from './categories.js';
+
+// Lengths search engines display before truncating
+const MAX_TITLE_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 160;
+
+export class ConfigBuildError extends Error {
+  constructor(
+    public readonly prospectId: string,
+    public readonly issues: string[]
+  ) {
+    super(
+      `Generated config for ${prospectId} is invalid: ${issues.join('; ')}`
+    );
+    this.name = 'ConfigBuildError';
+  }
+}
+
+/**
+ * First candidate that fits, falling back to the shortest.
+ */
+function firstThatFits(candidates: string[], max: number): string {
+  return (
+    candidates.find((candidate) => candidate.length <= max) ??
+    (candidates.at(-1) as string).slice(0, max).trimEnd()
+  );
+}
+
+/**
+ * Add sentences while the text stays within `max` characters.
+ */
+function joinSentences(sentences: string[], max: number): string {
+  let text = '';
+  for (const sentence of sentences) {
+    const next = text ? `${text} ${sentence}` : sentence;
+    if (next.length > max) break;
+    text = next;
+  }
+  return text || (sentences[0] as string).slice(0, max).trimEnd();
+}
+
+function listPhrase(items: string[]): string {
+  const lower = items.map((item) => item.toLowerCase());
+  if (lower.length <= 1) return lower.join('');
+  return `${lower.slice(0, -1).join(', ')} and ${lower.at(-1)}`;
+}
+
+function ownWebsite(prospect: BusinessProspect): string | undefined {
+  const { websiteType } = prospect.webPresence;
+  return websiteType === 'professional' ||
+    websiteType === 'template' ||
+    websiteType === 'unknown'
+    ? prospect.contact.website
+    : undefined;
+}
+
+function socialAccounts(
+  prospect: BusinessProspect
+): SocialMediaAccount[] | undefined {
+  const existing = prospect.templateConfig.socialMedia;
+  if (existing?.length) return normalizeSocialAccounts(existing);
+  // A Facebook page or directory listing standing in for a website
+  const listing = ownWebsite(prospect)
+    ? undefined
+    : parseSocialProfile(prospect.contact.website ?? '');
+  return listing ? [listing] : undefined;
+}
+
+/**
+ * Derive a complete `BusinessConfig` for the demo site template from a raw
+ * prospect. Details someone filled in by hand on the existing
+ * `templateConfig` (hours, social accounts, features, legal name, owner,
+ * founding year) are kept, with hours rewritten in their canonical form.
+ */
+export function buildBusinessConfig(
+  prospect: BusinessProspect
+): BusinessConfig {
+  const { location, contact } = prospect;
+  const existing = prospect.templateConfig;
+  const industry = resolveIndustry(prospect.category);
+  const localArea = `${location.city}, ${location.state}`;
+  const website = ownWebsite(prospect);
+  const social = socialAccounts(prospect);
+
+  const descriptions: Record<string, string> = {};
+  for (const service of industry.services) {
+    descriptions[service] =
+      `${service} for homes and businesses in ${localArea} from the team at ${prospect.name}.`;
+  }
+
+  const sentences = [
+    `${prospect.name} provides ${listPhrase(industry.services)} in ${localArea}.`,
+  ];
+  if (prospect.reviewCount > 0) {
+    sentences.push(
+      `Rated ${prospect.rating.toFixed(1)}/5 from ${prospect.reviewCount} reviews.`
+    );
+  }
+  sentences.push(`Call ${formatPhone(contact.phone)}.`);
+
+  const keywords = [
+    ...new Set(
+      [
+        `${industry.primary} ${location.city}`,
+        `${prospect.category} near me`,
+        ...industry.services.map((service) => `${service} ${location.city}`),
+      ].map((keyword) => keyword.toLowerCase())
+    ),
+  ];
+
+  const config: BusinessConfig = {
+    company: {
+      ...existing.company,
+      name: prospect.name,
+      ...(website ? { website } : {}),
+    },
+    contact: {
+      phone: contact.phone,
+      email: contact.email,
+      address: {
+        street: location.address,
+        city: location.city,
+        state: location.state,
+        zipCode: location.zipCode,
+        country: location.country,
+      },
+    },
+    ...(existing.hours
+      ? { hours: normalizeBusinessHours(existing.hours).hours }
+      : {}),
+    ...(social ? { socialMedia: social } : {}),
+    ...(existing.features ? { features: existing.features } : {}),
+    rating: {
+      average: prospect.rating,
+      count: prospect.reviewCount,
+      ...(existing.rating?.source ? { source: existing.rating.source } : {}),
+    },
+    seo: {
+      title: firstThatFits(
+        [
+          `${prospect.name} | ${industry.primary} in ${localArea}`,
+          `${prospect.name} | ${industry.primary} in ${location.city}`,
+          `${prospect.name} | ${location.city}`,
+          prospect.name,
+        ],
+        MAX_TITLE_LENGTH
+      ),
+      description: joinSentences(sentences, MAX_DESCRIPTION_LENGTH),
+      keywords,
+      localArea,
+    },
+    schema: {
+      ...existing.schema,
+      businessType: industry.businessType,
+      areaServed: localArea,
+    },
+    services: {
+      primary: industry.primary,
+      categories: industry.services,
+      descriptions,
+    },
+  };
+
+  const parsed = BusinessConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new ConfigBuildError(prospect.id, schemaIssues(parsed.error));
+  }
+  return config;
+}
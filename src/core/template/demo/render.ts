@@ -0,0 +1,279 @@
+import type {
+  BusinessConfig,
+  BusinessHours,
+  RatingInfo,
+  SocialMediaAccount,
+} from '../../../types/index.js';
+import type { Coordinates } from '../../../utils/geo.js';
+import { escapeHtml, jsonForScript } from '../../../utils/html.js';
+import {
+  UNKNOWN_EMAIL,
+  WEEKDAYS,
+  formatPhone,
+  normalizeBusinessHours,
+  phoneTelUri,
+} from '../../normalizer/index.js';
+import { buildJsonLd } from '../jsonld.js';
+import { resolveTheme } from './themes.js';
+import type { DemoTheme } from './themes.js';
+
+export interface DemoSiteOptions {
+  /** Theme name; chosen from the schema.org business type when omitted */
+  theme?: string;
+  /** Coordinates added to the embedded JSON-LD */
+  geo?: Coordinates;
+}
+
+export interface DemoSite {
+  theme: string;
+  /** File contents keyed by path relative to the output directory */
+  files: Record<string, string>;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function fillTagline(theme: DemoTheme, config: BusinessConfig): string {
+  const { address } = config.contact;
+  return theme.tagline
+    .replace('{primary}', config.services.primary.toLowerCase())
+    .replace(
+      '{area}',
+      config.seo?.localArea ?? `${address.city}, ${address.state}`
+    );
+}
+
+function renderServices(config: BusinessConfig): string {
+  const cards = config.services.categories.map((service) => {
+    const description = config.services.descriptions?.[service];
+    return `        <article class="card">
+          <h3>${escapeHtml(service)}</h3>${description ? `\n          <p>${escapeHtml(description)}</p>` : ''}
+        </article>`;
+  });
+  return `    <section id="services" class="section">
+      <h2>Our Services</h2>
+      <div class="grid">
+${cards.join('\n')}
+      </div>
+    </section>`;
+}
+
+function renderHours(config: BusinessHours | undefined): string {
+  if (!config) return '';
+  // Unreadable values are shown as written
+  const { hours } = normalizeBusinessHours(config);
+  const special = Object.keys(hours).filter(
+    (key) => !(WEEKDAYS as readonly string[]).includes(key)
+  );
+  const rows = [...WEEKDAYS, ...special]
+    .filter((day) => hours[day])
+    .map(
+      (day) =>
+        `          <tr><th scope="row">${escapeHtml(capitalize(day))}</th><td>${escapeHtml(hours[day] as string)}</td></tr>`
+    );
+  if (rows.length === 0) return '';
+  return `    <section id="hours" class="section">
+      <h2>Hours</h2>
+      <table class="hours">
+        <tbody>
+${rows.join('\n')}
+        </tbody>
+      </table>
+    </section>`;
+}
+
+function renderRating(rating: RatingInfo | undefined): string {
+  if (!rating || rating.count === 0) return '';
+  const source = rating.source
+    ? ` on ${escapeHtml(capitalize(rating.source))}`
+    : '';
+  const percent = Math.round((rating.average / 5) * 100);
+  return `        <p class="rating" aria-label="Rated ${rating.average} out of 5">
+          <span class="stars" style="--fill: ${percent}%">★★★★★</span>
+          <strong>${rating.average.toFixed(1)}</strong> from ${rating.count} reviews${source}
+        </p>`;
+}
+
+function renderSocial(accounts: SocialMediaAccount[] | undefined): string {
+  if (!accounts?.length) return '';
+  const links = accounts.map(
+    (account) =>
+      `<a href="${escapeHtml(account.url)}" rel="noopener">${escapeHtml(capitalize(account.platform))}</a>`
+  );
+  return `      <nav class="social" aria-label="Social media">${links.join(' ')}</nav>`;
+}
+
+function renderHtml(
+  config: BusinessConfig,
+  theme: DemoTheme,
+  options: DemoSiteOptions
+): string {
+  const { company, contact } = config;
+  const { address } = contact;
+  const title = config.seo?.title ?? company.name;
+  const description = config.seo?.description;
+  const phone = escapeHtml(formatPhone(contact.phone));
+  const email =
+    contact.email !== UNKNOWN_EMAIL
+      ? `<br />
+          <a href="mailto:${escapeHtml(contact.email)}">${escapeHtml(contact.email)}</a>`
+      : '';
+  const sections = [renderServices(config), renderHours(config.hours)].filter(
+    Boolean
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>${description ? `\n    <meta name="description" content="${escapeHtml(description)}" />` : ''}${config.seo?.keywords?.length ? `\n    <meta name="keywords" content="${escapeHtml(config.seo.keywords.join(', '))}" />` : ''}
+    <link rel="stylesheet" href="styles.css" />
+    <script type="application/ld+json">
+${jsonForScript(buildJsonLd(config, options.geo ? { geo: options.geo } : {}))}
+    </script>
+  </head>
+  <body class="theme-${theme.name}">
+    <header class="hero">
+      <div class="container">
+        <p class="eyebrow">${escapeHtml(config.services.primary)}</p>
+        <h1>${escapeHtml(company.name)}</h1>
+        <p class="tagline">${escapeHtml(fillTagline(theme, config))}</p>
+${renderRating(config.rating)}
+        <a class="button" href="${phoneTelUri(contact.phone)}">${escapeHtml(theme.callToAction)}: ${phone}</a>
+      </div>
+    </header>
+    <main class="container">
+${sections.join('\n')}
+      <section id="contact" class="section">
+        <h2>Contact</h2>
+        <address>
+          ${escapeHtml(address.street)}<br />
+          ${escapeHtml(address.city)}, ${escapeHtml(address.state)} ${escapeHtml(address.zipCode)}<br />
+          <a href="${phoneTelUri(contact.phone)}">${phone}</a>${email}
+        </address>
+      </section>
+    </main>
+    <footer class="footer">
+      <div class="container">
+${renderSocial(config.socialMedia)}
+        <p>&copy; ${new Date().getFullYear()} ${escapeHtml(company.legalName ?? company.name)}</p>
+      </div>
+    </footer>
+    <a class="call-bar" href="${phoneTelUri(contact.phone)}">Call ${phone}</a>
+  </body>
+</html>
+`;
+}
+
+function renderCss(theme: DemoTheme): string {
+  const { colors, fonts } = theme;
+  return `:root {
+  --primary: ${colors.primary};
+  --accent: ${colors.accent};
+  --background: ${colors.background};
+  --surface: ${colors.surface};
+  --text: ${colors.text};
+  --muted: ${colors.muted};
+  --font-heading: ${fonts.heading};
+  --font-body: ${fonts.body};
+}
+
+* { box-sizing: border-box; }
+
+body {
+  margin: 0;
+  font-family: var(--font-body);
+  line-height: 1.6;
+  color: var(--text);
+  background: var(--background);
+}
+
+h1, h2, h3 { font-family: var(--font-heading); line-height: 1.2; }
+
+a { color: var(--primary); }
+
+.container { max-width: 960px; margin: 0 auto; padding: 0 1.25rem; }
+
+.hero {
+  padding: 4rem 0 3rem;
+  color: #fff;
+  background: linear-gradient(135deg, var(--primary), var(--text));
+}
+.hero h1 { font-size: clamp(2rem, 6vw, 3.25rem); margin: 0.25rem 0; }
+.hero .eyebrow { margin: 0; text-transform: uppercase; letter-spacing: 0.1em; color: var(--accent); }
+.hero .tagline { font-size: 1.2rem; max-width: 40rem; }
+
+.rating { display: flex; gap: 0.5rem; align-items: center; flex-wrap: wrap; }
+.stars {
+  font-size: 1.3rem;
+  letter-spacing: 0.1em;
+  color: transparent;
+  background: linear-gradient(90deg, var(--accent) var(--fill), rgba(255, 255, 255, 0.35) var(--fill));
+  -webkit-background-clip: text;
+  background-clip: text;
+}
+
+.button {
+  display: inline-block;
+  margin-top: 1rem;
+  padding: 0.85rem 1.5rem;
+  border-radius: 999px;
+  font-weight: 700;
+  text-decoration: none;
+  color: var(--text);
+  background: var(--accent);
+}
+
+.section { padding: 2.5rem 0; }
+.grid { display: grid; gap: 1rem; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); }
+.card { padding: 1.25rem; border-radius: 12px; background: var(--surface); box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08); }
+.card h3 { margin-top: 0; color: var(--primary); }
+.card p { margin-bottom: 0; color: var(--muted); }
+
+.hours { border-collapse: collapse; min-width: 280px; }
+.hours th, .hours td { padding: 0.4rem 1rem 0.4rem 0; text-align: left; border-bottom: 1px solid rgba(0, 0, 0, 0.08); }
+
+address { font-style: normal; }
+
+.footer { padding: 2rem 0 5rem; color: var(--muted); }
+.social a { margin-right: 1rem; }
+
+.call-bar {
+  position: fixed;
+  right: 0;
+  bottom: 0;
+  left: 0;
+  padding: 0.9rem;
+  text-align: center;
+  font-weight: 700;
+  text-decoration: none;
+  color: #fff;
+  background: var(--primary);
+}
+
+@media (min-width: 768px) {
+  .call-bar { display: none; }
+  .footer { padding-bottom: 2rem; }
+}
+`;
+}
+
+/**
+ * Render a self-contained one-page demo site from a `BusinessConfig`. The
+ * output is plain HTML and CSS with no external assets, scripts or fonts.
+ */
+export function renderDemoSite(
+  config: BusinessConfig,
+  options: DemoSiteOptions = {}
+): DemoSite {
+  const theme = resolveTheme(config.schema?.businessType, options.theme);
+  return {
+    theme: theme.name,
+    files: {
+      'index.html': renderHtml(config, theme, options),
+      'styles.css': renderCss(theme),
+    },
+  };
+}
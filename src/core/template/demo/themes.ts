@@ -0,0 +1,136 @@
+export interface DemoTheme {
+  name: string;
+  /** Color palette injected as CSS custom properties */
+  colors: {
+    primary: string;
+    accent: string;
+    background: string;
+    surface: string;
+    text: string;
+    muted: string;
+  };
+  /** System font stacks only: the demo must not load external assets */
+  fonts: { heading: string; body: string };
+  /** Hero subheading; `{area}` and `{primary}` are filled in */
+  tagline: string;
+  callToAction: string;
+}
+
+const SANS =
+  "system-ui, -apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+const SERIF = "Georgia, 'Times New Roman', Times, serif";
+
+export const DEMO_THEMES: Record<string, DemoTheme> = {
+  trades: {
+    name: 'trades',
+    colors: {
+      primary: '#0b3d91',
+      accent: '#f59e0b',
+      background: '#f5f7fa',
+      surface: '#ffffff',
+      text: '#1f2933',
+      muted: '#52606d',
+    },
+    fonts: { heading: SANS, body: SANS },
+    tagline: 'Trusted {primary} across {area}. Fast response, honest pricing.',
+    callToAction: 'Call for a free estimate',
+  },
+  home: {
+    name: 'home',
+    colors: {
+      primary: '#0f766e',
+      accent: '#84cc16',
+      background: '#f0fdfa',
+      surface: '#ffffff',
+      text: '#134e4a',
+      muted: '#4b635f',
+    },
+    fonts: { heading: SANS, body: SANS },
+    tagline: '{primary} you can count on in {area}.',
+    callToAction: 'Book your service today',
+  },
+  professional: {
+    name: 'professional',
+    colors: {
+      primary: '#1e293b',
+      accent: '#b08d57',
+      background: '#f8fafc',
+      surface: '#ffffff',
+      text: '#0f172a',
+      muted: '#475569',
+    },
+    fonts: { heading: SERIF, body: SANS },
+    tagline: 'Experienced {primary} for individuals and businesses in {area}.',
+    callToAction: 'Schedule a consultation',
+  },
+  food: {
+    name: 'food',
+    colors: {
+      primary: '#9a3412',
+      accent: '#facc15',
+      background: '#fffbeb',
+      surface: '#ffffff',
+      text: '#292524',
+      muted: '#57534e',
+    },
+    fonts: { heading: SERIF, body: SANS },
+    tagline: 'A local favorite in {area}.',
+    callToAction: 'Call to order',
+  },
+  default: {
+    name: 'default',
+    colors: {
+      primary: '#3730a3',
+      accent: '#06b6d4',
+      background: '#f8fafc',
+      surface: '#ffffff',
+      text: '#111827',
+      muted: '#4b5563',
+    },
+    fonts: { heading: SANS, body: SANS },
+    tagline: '{primary} in {area}.',
+    callToAction: 'Get in touch',
+  },
+};
+
+const THEME_BY_BUSINESS_TYPE: Record<string, string> = {
+  Plumber: 'trades',
+  RoofingContractor: 'trades',
+  Electrician: 'trades',
+  HVACBusiness: 'trades',
+  GeneralContractor: 'trades',
+  Locksmith: 'trades',
+  AutoRepair: 'trades',
+  HousePainter: 'home',
+  MovingCompany: 'home',
+  HomeAndConstructionBusiness: 'home',
+  AccountingService: 'professional',
+  LegalService: 'professional',
+  Dentist: 'professional',
+  BeautySalon: 'home',
+  HairSalon: 'home',
+  Restaurant: 'food',
+  CafeOrCoffeeShop: 'food',
+  Bakery: 'food',
+};
+
+/**
+ * Pick a theme by name, or by the schema.org business type when no name is
+ * given.
+ */
+export function resolveTheme(
+  businessType: string | undefined,
+  name?: string
+): DemoTheme {
+  if (name) {
+    const theme = DEMO_THEMES[name];
+    if (!theme) {
+      throw new Error(
+        `Unknown theme "${name}". Available themes: ${Object.keys(DEMO_THEMES).join(', ')}`
+      );
+    }
+    return theme;
+  }
+  const key = businessType ? THEME_BY_BUSINESS_TYPE[businessType] : undefined;
+  return DEMO_THEMES[key ?? 'default'] as DemoTheme;
+}
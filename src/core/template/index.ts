@@ -0,0 +1,4 @@
+export * from './categories.js';
+export * from './config-builder.js';
+export * from './demo/index.js';
+export * from './jsonld.js';
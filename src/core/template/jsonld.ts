@@ -0,0 +1,375 @@
+import type {
+  BusinessConfig,
+  BusinessHours,
+  RatingInfo,
+} from '../../types/index.js';
+import type { Coordinates } from '../../utils/geo.js';
+import {
+  UNKNOWN_EMAIL,
+  WEEKDAYS,
+  formatTime24,
+  parseBusinessHours,
+  parsePhone,
+} from '../normalizer/index.js';
+import type { TimeInterval } from '../normalizer/index.js';
+
+export type JsonLdDocument = Record<string, unknown>;
+
+export interface JsonLdOptions {
+  /** Coordinates of the business, usually the prospect's location */
+  geo?: Coordinates;
+}
+
+export interface JsonLdIssue {
+  severity: 'error' | 'warning';
+  /** Dotted path to the offending property, e.g. `address.postalCode` */
+  path: string;
+  message: string;
+}
+
+/**
+ * LocalBusiness subtypes this project generates, mapped to their schema.org
+ * parent type.
+ */
+const PARENT_TYPES: Record<string, string> = {
+  AutomotiveBusiness: 'LocalBusiness',
+  FinancialService: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness',
+  HealthAndBeautyBusiness: 'LocalBusiness',
+  HomeAndConstructionBusiness: 'LocalBusiness',
+  LegalService: 'LocalBusiness',
+  MedicalBusiness: 'LocalBusiness',
+  ProfessionalService: 'LocalBusiness',
+  Store: 'LocalBusiness',
+  AutoRepair: 'AutomotiveBusiness',
+  AccountingService: 'FinancialService',
+  Bakery: 'FoodEstablishment',
+  CafeOrCoffeeShop: 'FoodEstablishment',
+  Restaurant: 'FoodEstablishment',
+  BeautySalon: 'HealthAndBeautyBusiness',
+  DaySpa: 'HealthAndBeautyBusiness',
+  HairSalon: 'HealthAndBeautyBusiness',
+  NailSalon: 'HealthAndBeautyBusiness',
+  Electrician: 'HomeAndConstructionBusiness',
+  GeneralContractor: 'HomeAndConstructionBusiness',
+  HVACBusiness: 'HomeAndConstructionBusiness',
+  HousePainter: 'HomeAndConstructionBusiness',
+  Locksmith: 'HomeAndConstructionBusiness',
+  MovingCompany: 'HomeAndConstructionBusiness',
+  Plumber: 'HomeAndConstructionBusiness',
+  RoofingContractor: 'HomeAndConstructionBusiness',
+  Dentist: 'MedicalBusiness',
+};
+
+interface PropertyRules {
+  required: string[];
+  recommended: string[];
+}
+
+/**
+ * Properties search engines need (required) or use for rich results
+ * (recommended), inherited down the type hierarchy.
+ */
+const TYPE_RULES: Record<string, PropertyRules> = {
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: [
+      'telephone',
+      'geo',
+      'openingHoursSpecification',
+      'aggregateRating',
+    ],
+  },
+  FoodEstablishment: {
+    required: [],
+    recommended: ['servesCuisine', 'menu'],
+  },
+  HomeAndConstructionBusiness: { required: [], recommended: ['areaServed'] },
+};
+
+const NESTED_RULES: Record<string, PropertyRules> = {
+  PostalAddress: {
+    required: ['streetAddress', 'addressLocality', 'addressRegion'],
+    recommended: ['postalCode', 'addressCountry'],
+  },
+  GeoCoordinates: { required: ['latitude', 'longitude'], recommended: [] },
+  AggregateRating: {
+    required: ['ratingValue', 'ratingCount'],
+    recommended: [],
+  },
+  OpeningHoursSpecification: {
+    required: ['dayOfWeek', 'opens', 'closes'],
+    recommended: [],
+  },
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Group weekdays that share the same hours into OpeningHoursSpecification
+ * entries. Closed and by-appointment days, special keys such as holidays
+ * and unreadable text are left out; ranges past midnight close on the next
+ * day as schema.org expects.
+ */
+function buildOpeningHours(hours: BusinessHours): JsonLdDocument[] {
+  const { days } = parseBusinessHours(hours);
+  const groups = new Map<string, { interval: TimeInterval; days: string[] }>();
+  for (const weekday of WEEKDAYS) {
+    const day = days[weekday];
+    const intervals =
+      day?.kind === 'open'
+        ? day.intervals
+        : day?.kind === 'allDay'
+          ? [{ opens: 0, closes: 24 * 60 }]
+          : [];
+    for (const interval of intervals) {
+      const key = `${interval.opens}-${interval.closes}`;
+      const group = groups.get(key) ?? { interval, days: [] };
+      group.days.push(weekday.charAt(0).toUpperCase() + weekday.slice(1));
+      groups.set(key, group);
+    }
+  }
+  return [...groups.values()].map(({ interval, days: dayOfWeek }) => ({
+    '@type': 'OpeningHoursSpecification',
+    dayOfWeek,
+    opens: formatTime24(interval.opens),
+    closes: formatTime24(interval.closes),
+  }));
+}
+
+function buildAggregateRating(rating: RatingInfo): JsonLdDocument {
+  return {
+    '@type': 'AggregateRating',
+    ratingValue: rating.average,
+    ratingCount: rating.count,
+    bestRating: 5,
+    worstRating: 1,
+  };
+}
+
+/**
+ * Convert a `BusinessConfig` into schema.org JSON-LD for its LocalBusiness
+ * subtype. Keys from `SchemaConfig` are kept; generated properties take
+ * precedence over them.
+ */
+export function buildJsonLd(
+  config: BusinessConfig,
+  options: JsonLdOptions = {}
+): JsonLdDocument {
+  const { businessType, ...extra } = config.schema ?? {
+    businessType: 'LocalBusiness',
+  };
+  const { company, contact } = config;
+  const { address } = contact;
+  const openingHours = config.hours ? buildOpeningHours(config.hours) : [];
+  const sameAs = [
+    ...new Set((config.socialMedia ?? []).map((account) => account.url)),
+  ];
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': businessType,
+    ...extra,
+    name: company.name,
+    ...(company.legalName ? { legalName: company.legalName } : {}),
+    ...(config.seo?.description ? { description: config.seo.description } : {}),
+    ...(company.website ? { url: company.website } : {}),
+    // schema.org has no extension syntax, so the `;ext=` suffix is dropped
+    telephone: parsePhone(contact.phone)?.e164 ?? contact.phone,
+    ...(contact.email !== UNKNOWN_EMAIL ? { email: contact.email } : {}),
+    address: {
+      '@type': 'PostalAddress',
+      streetAddress: address.street,
+      addressLocality: address.city,
+      addressRegion: address.state,
+      postalCode: address.zipCode,
+      addressCountry: address.country,
+    },
+    ...(options.geo
+      ? {
+          geo: {
+            '@type': 'GeoCoordinates',
+            latitude: options.geo.latitude,
+            longitude: options.geo.longitude,
+          },
+        }
+      : {}),
+    ...(openingHours.length > 0
+      ? { openingHoursSpecification: openingHours }
+      : {}),
+    // Listings show 0 for a business without a star rating yet, which is
+    // not a rating on the 1 to 5 scale
+    ...(config.rating && config.rating.count > 0 && config.rating.average >= 1
+      ? { aggregateRating: buildAggregateRating(config.rating) }
+      : {}),
+    ...(sameAs.length > 0 ? { sameAs } : {}),
+  };
+}
+
+/**
+ * The type followed by its ancestors up to LocalBusiness, or undefined for
+ * types outside the LocalBusiness hierarchy known here.
+ */
+function typeLineage(type: string): string[] | undefined {
+  const lineage = [type];
+  let current = type;
+  while (current !== 'LocalBusiness') {
+    const parent = PARENT_TYPES[current];
+    if (!parent) return undefined;
+    lineage.push(parent);
+    current = parent;
+  }
+  return lineage;
+}
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function isObject(value: unknown): value is JsonLdDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkProperties(
+  node: JsonLdDocument,
+  rules: PropertyRules,
+  prefix: string,
+  issues: JsonLdIssue[]
+): void {
+  const path = (key: string): string => (prefix ? `${prefix}.${key}` : key);
+  for (const key of rules.required) {
+    if (!isPresent(node[key])) {
+      issues.push({
+        severity: 'error',
+        path: path(key),
+        message: 'required property is missing',
+      });
+    }
+  }
+  for (const key of rules.recommended) {
+    if (!isPresent(node[key])) {
+      issues.push({
+        severity: 'warning',
+        path: path(key),
+        message: 'recommended property is missing',
+      });
+    }
+  }
+}
+
+function checkNested(
+  value: unknown,
+  type: string,
+  path: string,
+  issues: JsonLdIssue[]
+): void {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    issues.push({ severity: 'error', path, message: `must be a ${type}` });
+    return;
+  }
+  checkProperties(value, NESTED_RULES[type] as PropertyRules, path, issues);
+}
+
+/**
+ * Check a JSON-LD document against the required and recommended properties
+ * of its type and the shape of the nested values this converter emits.
+ */
+export function validateJsonLd(document: JsonLdDocument): JsonLdIssue[] {
+  const issues: JsonLdIssue[] = [];
+  const type = document['@type'];
+
+  if (document['@context'] !== 'https://schema.org') {
+    issues.push({
+      severity: 'error',
+      path: '@context',
+      message: 'must be https://schema.org',
+    });
+  }
+  if (typeof type !== 'string' || !type) {
+    issues.push({ severity: 'error', path: '@type', message: 'is missing' });
+    return issues;
+  }
+
+  const lineage = typeLineage(type);
+  if (!lineage) {
+    issues.push({
+      severity: 'warning',
+      path: '@type',
+      message: `${type} is not a known LocalBusiness subtype`,
+    });
+  }
+  for (const ancestor of lineage ?? ['LocalBusiness']) {
+    const rules = TYPE_RULES[ancestor];
+    if (rules) checkProperties(document, rules, '', issues);
+  }
+
+  checkNested(document.address, 'PostalAddress', 'address', issues);
+  checkNested(document.geo, 'GeoCoordinates', 'geo', issues);
+  if (isObject(document.geo)) {
+    const { latitude, longitude } = document.geo;
+    if (typeof latitude !== 'number' || Math.abs(latitude) > 90) {
+      issues.push({
+        severity: 'error',
+        path: 'geo.latitude',
+        message: 'must be a number between -90 and 90',
+      });
+    }
+    if (typeof longitude !== 'number' || Math.abs(longitude) > 180) {
+      issues.push({
+        severity: 'error',
+        path: 'geo.longitude',
+        message: 'must be a number between -180 and 180',
+      });
+    }
+  }
+
+  checkNested(
+    document.aggregateRating,
+    'AggregateRating',
+    'aggregateRating',
+    issues
+  );
+  if (isObject(document.aggregateRating)) {
+    const {
+      ratingValue,
+      bestRating = 5,
+      worstRating = 1,
+    } = document.aggregateRating;
+    if (
+      typeof ratingValue === 'number' &&
+      (ratingValue > Number(bestRating) || ratingValue < Number(worstRating))
+    ) {
+      issues.push({
+        severity: 'error',
+        path: 'aggregateRating.ratingValue',
+        message: `must be between ${worstRating} and ${bestRating}`,
+      });
+    }
+  }
+
+  const hours = document.openingHoursSpecification;
+  if (hours !== undefined) {
+    const entries = Array.isArray(hours) ? hours : [hours];
+    entries.forEach((entry: unknown, index) => {
+      const path = `openingHoursSpecification.${index}`;
+      checkNested(entry, 'OpeningHoursSpecification', path, issues);
+      if (!isObject(entry)) return;
+      for (const key of ['opens', 'closes']) {
+        const value = entry[key];
+        if (typeof value === 'string' && !TIME_PATTERN.test(value)) {
+          issues.push({
+            severity: 'error',
+            path: `${path}.${key}`,
+            message: 'must be a time in HH:MM format',
+          });
+        }
+      }
+    });
+  }
+
+  return issues;
+}
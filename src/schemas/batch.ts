@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// One industry + location search in a batch file
+export const BatchQuerySchema = z.object({
+  industry: z.string().trim().min(1, 'Industry is required'),
+  location: z.string().trim().min(1, 'Location is required'),
+  limit: z.number().int().min(1, 'Limit must be at least 1').optional(),
+});
+
+// Batch file schema, as loaded from CSV or YAML
+export const BatchQueriesSchema = z
+  .array(BatchQuerySchema)
+  .min(1, 'Batch file lists no searches');
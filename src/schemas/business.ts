@@ -1,10 +1,33 @@
 import { z } from 'zod';
 
-// Validation helpers
+/** Stored in `contact.email` when no address has been found */
+export const UNKNOWN_EMAIL = 'unknown';
+
+// Validation helpers; numbers are stored in E.164, with `;ext=` and the
+// extension when there is one
 const phoneRegex =
-  /^\+[1-9]\d{1,14}$|^\+[1-9]-\d{3}-\d{3}-\d{4}$|^\+[1-9]\d{10}$/;
+  /^(\+[1-9]\d{1,14}|\+[1-9]-\d{3}-\d{3}-\d{4})(;ext=\d{1,10})?$/;
 const urlRegex = /^https?:\/\/.+/;
 
+// An address, or "unknown" rather than a made-up one when none is known
+const EmailSchema = z
+  .union([z.literal(UNKNOWN_EMAIL), z.string().email('Invalid email format')])
+  .default(UNKNOWN_EMAIL);
+
+const PhoneSchema = z
+  .string()
+  .regex(phoneRegex, 'Phone must be in E.164 format (e.g., +1-813-555-0123)');
+
+export const DiscoveredEmailSchema = z.object({
+  address: z.string().email('Invalid email format'),
+  source: z.enum(['mailto', 'text', 'obfuscated', 'social']),
+  url: z.string().regex(urlRegex, 'Source must be a valid URL'),
+  confidence: z.number().min(0).max(1),
+  role: z.boolean(),
+  disposable: z.boolean(),
+  mx: z.boolean().optional(),
+});
+
 // Location schema with geographic coordinate validation
 export const BusinessLocationSchema = z.object({
   address: z.string().min(1, 'Address is required'),
@@ -17,14 +40,24 @@ export const BusinessLocationSchema = z.object({
     .number()
     .min(-180)
     .max(180, 'Longitude must be between -180 and 180'),
+  flags: z.array(z.enum(['geocoded', 'farFromCity'])).optional(),
 });
 
 // Contact info schema with E.164 phone validation
 export const ContactInfoSchema = z.object({
-  phone: z
-    .string()
-    .regex(phoneRegex, 'Phone must be in E.164 format (e.g., +1-813-555-0123)'),
-  email: z.string().email('Invalid email format'),
+  phone: PhoneSchema,
+  phoneType: z
+    .enum([
+      'mobile',
+      'landline',
+      'landlineOrMobile',
+      'tollFree',
+      'voip',
+      'other',
+    ])
+    .optional(),
+  email: EmailSchema,
+  emails: z.array(DiscoveredEmailSchema).optional(),
   website: z.string().regex(urlRegex, 'Website must be a valid URL').optional(),
 });
 
@@ -37,6 +70,7 @@ export const WebPresenceAnalysisSchema = z.object({
     'template',
     'facebook',
     'directory',
+    'unknown',
   ]),
   websiteQuality: z.enum(['excellent', 'good', 'poor', 'none']),
   issues: z.array(z.string()),
@@ -126,8 +160,8 @@ export const ServiceConfigSchema = z.object({
 export const BusinessConfigSchema = z.object({
   company: CompanyInfoSchema,
   contact: z.object({
-    phone: z.string().regex(phoneRegex, 'Phone must be in E.164 format'),
-    email: z.string().email('Invalid email format'),
+    phone: PhoneSchema,
+    email: EmailSchema,
     address: AddressInfoSchema,
   }),
   hours: BusinessHoursSchema.optional(),
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { ScoringWeightsSchema } from './scoring.js';
+
+const credentials = z
+  .object({ apiKey: z.string().trim().min(1).optional() })
+  .strict();
+
+const crmFieldMapping = z.record(z.string().trim());
+
+const crmMapping = z
+  .object({
+    company: z.union([z.literal(false), crmFieldMapping]).optional(),
+    contact: z.union([z.literal(false), crmFieldMapping]).optional(),
+    deal: z.union([z.literal(false), crmFieldMapping]).optional(),
+  })
+  .strict();
+
+const secret = z.string().trim().min(1).optional();
+
+// Resolved CLI configuration; every section is strict so a misspelled key
+// in the config file is reported instead of silently ignored
+export const ProspectorConfigSchema = z
+  .object({
+    dataDir: z.string().trim().min(1, 'Data directory is required'),
+    defaultSource: z.string().trim().min(1, 'Default source is required'),
+    providers: z
+      .object({ googlePlaces: credentials, yelp: credentials })
+      .strict(),
+    scoring: z
+      .object({
+        profile: z.string().trim().min(1).optional(),
+        weights: ScoringWeightsSchema.partial().strict().optional(),
+      })
+      .strict(),
+    rateLimit: z
+      .object({
+        requestsPerSecond: z
+          .number()
+          .positive('Requests per second must be positive'),
+        burst: z.number().min(1, 'Burst must be at least 1').optional(),
+        maxRetries: z.number().int().min(0, 'Retries cannot be negative'),
+        concurrency: z.number().int().min(1, 'Concurrency must be at least 1'),
+      })
+      .strict(),
+    cache: z
+      .object({
+        enabled: z.boolean(),
+        ttlSeconds: z.number().int().min(0, 'TTL cannot be negative'),
+      })
+      .strict(),
+    export: z
+      .object({
+        format: z.enum(['json', 'csv', 'ndjson', 'xlsx']),
+        fields: z.array(z.string().trim().min(1)).min(1).optional(),
+      })
+      .strict(),
+    outreach: z
+      .object({
+        sender: z
+          .object({
+            name: z.string().trim().min(1).optional(),
+            company: z.string().trim().min(1).optional(),
+            email: z.string().trim().email().optional(),
+            phone: z.string().trim().min(1).optional(),
+            website: z.string().trim().url().optional(),
+          })
+          .strict(),
+        templates: z.string().trim().min(1).optional(),
+      })
+      .strict(),
+    crm: z
+      .object({
+        hubspot: z
+          .object({
+            accessToken: secret,
+            baseUrl: z.string().trim().url().optional(),
+            mapping: crmMapping.optional(),
+          })
+          .strict(),
+        pipedrive: z
+          .object({
+            apiToken: secret,
+            baseUrl: z.string().trim().url().optional(),
+            mapping: crmMapping.optional(),
+          })
+          .strict(),
+        webhook: z
+          .object({
+            url: z.string().trim().url().optional(),
+            secret,
+            mapping: crmMapping.optional(),
+          })
+          .strict(),
+      })
+      .strict(),
+    logLevel: z.enum(['error', 'warn', 'info', 'debug']),
+  })
+  .strict();
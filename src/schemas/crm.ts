@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+const crmIds = z
+  .object({
+    company: z.string().min(1).optional(),
+    contact: z.string().min(1).optional(),
+    deal: z.string().min(1).optional(),
+  })
+  .strict();
+
+const crmProperties = z.record(z.union([z.string(), z.number(), z.boolean()]));
+
+// What was last pushed for one prospect: the CRM's IDs for its objects and
+// the mapped properties, kept to skip unchanged prospects and to diff
+export const CrmLinkSchema = z
+  .object({
+    ids: crmIds,
+    pushedAt: z.string().datetime(),
+    record: z
+      .object({
+        company: crmProperties.optional(),
+        contact: crmProperties.optional(),
+        deal: crmProperties.optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+// CRM links file schema, keyed by connector and then prospect ID
+export const CrmLinksSchema = z.record(z.record(CrmLinkSchema));
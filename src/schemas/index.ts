@@ -1 +1,9 @@
 export * from './business.js';
+export * from './scoring.js';
+export * from './batch.js';
+export * from './query.js';
+export * from './outreach.js';
+export * from './config.js';
+export * from './crm.js';
+export * from './lead.js';
+export * from './review.js';
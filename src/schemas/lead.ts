@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+const LeadNoteSchema = z
+  .object({
+    at: z.string().datetime(),
+    text: z.string().trim().min(1, 'Note text is required'),
+    author: z.string().trim().min(1).optional(),
+  })
+  .strict();
+
+// Our relationship with a prospect: where it is in the pipeline, who owns
+// it, what was said and when to follow up
+export const LeadSchema = z
+  .object({
+    status: z.enum([
+      'new',
+      'contacted',
+      'demo-sent',
+      'won',
+      'lost',
+      'do-not-contact',
+    ]),
+    owner: z.string().trim().min(1).optional(),
+    followUp: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Follow-up must be a YYYY-MM-DD date')
+      .optional(),
+    notes: z.array(LeadNoteSchema),
+    updatedAt: z.string().datetime(),
+  })
+  .strict();
+
+// Leads file schema, keyed by prospect ID
+export const LeadsSchema = z.record(LeadSchema);
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+const template = z.string().trim().min(1, 'Template is empty');
+
+// One email: a subject and plain-text body, plus an optional HTML body
+// (derived from the text when omitted)
+export const EmailTemplateSchema = z
+  .object({ subject: template, text: template, html: template.optional() })
+  .strict();
+
+// Variants of one step, keyed by variant name (e.g. a, b)
+const variants = z
+  .record(
+    z.string().regex(/^[a-z0-9_-]+$/i, 'Invalid variant name'),
+    EmailTemplateSchema
+  )
+  .refine(
+    (value) => Object.keys(value).length > 0,
+    'At least one variant is required'
+  );
+
+// Outreach template file; steps and the call script left out fall back to
+// the built-in ones
+export const OutreachTemplatesSchema = z
+  .object({
+    steps: z
+      .object({
+        intro: variants.optional(),
+        'follow-up-1': variants.optional(),
+        'follow-up-2': variants.optional(),
+      })
+      .strict()
+      .optional(),
+    callScript: template.optional(),
+  })
+  .strict();
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// A saved prospect query: filter expression, sort spec and result limit
+export const SavedQuerySchema = z
+  .object({
+    where: z.string().trim().min(1).optional(),
+    sort: z.string().trim().min(1).optional(),
+    limit: z.number().int().min(1, 'Limit must be at least 1').optional(),
+  })
+  .strict();
+
+// Saved queries file schema, keyed by query name
+export const SavedQueriesSchema = z.record(SavedQuerySchema);
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+const ReviewEntrySchema = z
+  .object({
+    decision: z.enum(['marked', 'rejected']).optional(),
+    tags: z.array(z.string().trim().min(1)),
+  })
+  .strict();
+
+// Review file schema: triage decisions and tags keyed by prospect ID
+export const ReviewEntriesSchema = z.record(ReviewEntrySchema);
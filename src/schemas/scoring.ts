@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+const signal = z.number().min(0).max(1, 'Signals must be between 0 and 1');
+const weight = z.number().min(0, 'Weights must be non-negative');
+
+// Factor weights; relative, so they do not need to sum to any total
+export const ScoringWeightsSchema = z.object({
+  rating: weight,
+  reviewCount: weight,
+  websiteType: weight,
+  websiteQuality: weight,
+  issues: weight,
+  category: weight,
+});
+
+// Scoring profile schema, as loaded from a JSON or YAML file
+export const ScoringProfileSchema = z
+  .object({
+    name: z.string().min(1, 'Profile name is required'),
+    weights: ScoringWeightsSchema,
+    minRating: z.number().min(0).max(5),
+    reviewTarget: z.number().int().min(1),
+    issueTarget: z.number().int().min(1),
+    websiteTypeSignals: z.object({
+      none: signal,
+      professional: signal,
+      template: signal,
+      facebook: signal,
+      directory: signal,
+      unknown: signal,
+    }),
+    websiteQualitySignals: z.object({
+      excellent: signal,
+      good: signal,
+      poor: signal,
+      none: signal,
+    }),
+    categorySignals: z.record(signal),
+    defaultCategorySignal: signal,
+  })
+  .refine(
+    (profile) => Object.values(profile.weights).some((value) => value > 0),
+    { message: 'At least one weight must be positive', path: ['weights'] }
+  );
+
+export type ScoringWeights = z.infer<typeof ScoringWeightsSchema>;
+export type ScoringProfile = z.infer<typeof ScoringProfileSchema>;
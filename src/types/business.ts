@@ -1,3 +1,9 @@
+/**
+ * `geocoded`: coordinates came from the offline ZIP/city dataset.
+ * `farFromCity`: coordinates are far from the stated ZIP code or city.
+ */
+export type LocationFlag = 'geocoded' | 'farFromCity';
+
 export interface BusinessLocation {
   address: string;
   city: string;
@@ -6,20 +12,62 @@ export interface BusinessLocation {
   country: string;
   latitude: number;
   longitude: number;
+  /** Derived during validation; absent when nothing is worth noting */
+  flags?: LocationFlag[];
+}
+
+export type PhoneLineType =
+  | 'mobile'
+  | 'landline'
+  | 'landlineOrMobile'
+  | 'tollFree'
+  | 'voip'
+  | 'other';
+
+/**
+ * Where a discovered email address was found: a `mailto:` link, plain page
+ * text, an obfuscated form ("name [at] example [dot] com", encoded
+ * entities or Cloudflare email protection), or a linked social profile.
+ */
+export type EmailSource = 'mailto' | 'text' | 'obfuscated' | 'social';
+
+export interface DiscoveredEmail {
+  address: string;
+  source: EmailSource;
+  /** Page the address was found on */
+  url: string;
+  /** Likelihood (0-1) that the address reaches the business */
+  confidence: number;
+  /** Generic mailbox such as info@ or sales@ */
+  role: boolean;
+  disposable: boolean;
+  /** Whether the domain has MX records; absent when the lookup failed */
+  mx?: boolean;
 }
 
 export interface ContactInfo {
+  /** E.164, with `;ext=` and the extension when there is one */
   phone: string;
+  /** Derived from `phone` during validation when the number's type is known */
+  phoneType?: PhoneLineType;
+  /** Best known address, or `'unknown'` when none has been found */
   email: string;
+  /** Every address email discovery found, best first */
+  emails?: DiscoveredEmail[];
   website?: string;
 }
 
+/**
+ * `unknown`: the business has its own site but it could not be loaded or
+ * was not analyzed, so nothing is known about it yet.
+ */
 export type WebsiteType =
   | 'none'
   | 'professional'
   | 'template'
   | 'facebook'
-  | 'directory';
+  | 'directory'
+  | 'unknown';
 export type WebsiteQuality = 'excellent' | 'good' | 'poor' | 'none';
 
 export interface WebPresenceAnalysis {
@@ -95,6 +143,7 @@ export interface BusinessConfig {
   company: CompanyInfo;
   contact: {
     phone: string;
+    /** An address, or `'unknown'` */
     email: string;
     address: AddressInfo;
   };
@@ -0,0 +1,103 @@
+import type { ScoringWeights } from './scoring.js';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export interface ProviderCredentials {
+  apiKey?: string;
+}
+
+/** Who outreach messages are from, for templates' `sender.*` fields */
+export interface OutreachSender {
+  name?: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+}
+
+/** CRM object a prospect is pushed as */
+export type CrmObjectType = 'company' | 'contact' | 'deal';
+
+/**
+ * CRM property name to the source of its value: a prospect field path such
+ * as `contact.phone`, a template such as `{{name}} website`, or a literal
+ * after `=`, e.g. `=appointmentscheduled`. An empty source drops a default
+ * property.
+ */
+export type CrmFieldMapping = Record<string, string>;
+
+/** Field mappings per object; `false` stops an object being pushed */
+export type CrmMapping = Partial<
+  Record<CrmObjectType, CrmFieldMapping | false>
+>;
+
+export interface CrmSettings {
+  hubspot: {
+    /** Private app access token */
+    accessToken?: string;
+    baseUrl?: string;
+    mapping?: CrmMapping;
+  };
+  pipedrive: {
+    apiToken?: string;
+    baseUrl?: string;
+    mapping?: CrmMapping;
+  };
+  webhook: {
+    url?: string;
+    /** Shared secret the payload signature is made with */
+    secret?: string;
+    mapping?: CrmMapping;
+  };
+}
+
+/**
+ * Resolved CLI configuration: built-in defaults overlaid by the project
+ * config file, then environment variables, then command-line flags.
+ */
+export interface ProspectorConfig {
+  /** Local database directory */
+  dataDir: string;
+  /** Business source used when `--source` is not given */
+  defaultSource: string;
+  providers: {
+    googlePlaces: ProviderCredentials;
+    yelp: ProviderCredentials;
+  };
+  scoring: {
+    /** Scoring profile file used when `--profile` is not given */
+    profile?: string;
+    /** Weights laid over the profile's own */
+    weights?: Partial<ScoringWeights>;
+  };
+  rateLimit: {
+    /** Requests per second allowed to each upstream host */
+    requestsPerSecond: number;
+    /** Requests a host may receive back to back (default: one second's worth) */
+    burst?: number;
+    /** Retries for network errors, 429s and transient 5xx responses */
+    maxRetries: number;
+    /** Searches a batch runs at once when `--concurrency` is not given */
+    concurrency: number;
+  };
+  cache: {
+    /** Keep HTTP responses in `<dataDir>/http-cache` */
+    enabled: boolean;
+    /** Age after which a cached response is fetched again */
+    ttlSeconds: number;
+  };
+  export: {
+    /** Format used when `--format` is not given */
+    format: 'json' | 'csv' | 'ndjson' | 'xlsx';
+    /** Columns used when `--fields` is not given; every column if omitted */
+    fields?: string[];
+  };
+  outreach: {
+    sender: OutreachSender;
+    /** Outreach template file used when `--templates` is not given */
+    templates?: string;
+  };
+  /** Connector settings for `push`, each mapping laid over its defaults */
+  crm: CrmSettings;
+  logLevel: LogLevel;
+}
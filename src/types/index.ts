@@ -1 +1,3 @@
 export * from './business.js';
+export * from './scoring.js';
+export * from './config.js';
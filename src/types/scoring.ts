@@ -0,0 +1,46 @@
+import type { WebsiteQuality, WebsiteType } from './business.js';
+
+export type ScoringFactor =
+  | 'rating'
+  | 'reviewCount'
+  | 'websiteType'
+  | 'websiteQuality'
+  | 'issues'
+  | 'category';
+
+export type ScoringWeights = Record<ScoringFactor, number>;
+
+export interface ScoringProfile {
+  name: string;
+  weights: ScoringWeights;
+  /** Ratings at or below this count as no signal */
+  minRating: number;
+  /** Review count at which the review signal saturates */
+  reviewTarget: number;
+  /** Issue count at which the issues signal saturates */
+  issueTarget: number;
+  /** Opportunity signal (0-1) for each website type */
+  websiteTypeSignals: Record<WebsiteType, number>;
+  /** Opportunity signal (0-1) for each website quality */
+  websiteQualitySignals: Record<WebsiteQuality, number>;
+  /** Opportunity signal (0-1) keyed by category keyword */
+  categorySignals: Record<string, number>;
+  /** Signal used when no category keyword matches */
+  defaultCategorySignal: number;
+}
+
+export interface FactorScore {
+  factor: ScoringFactor;
+  weight: number;
+  /** Normalized opportunity signal between 0 and 1 */
+  signal: number;
+  /** Contribution to the final 0-100 score */
+  points: number;
+  reason: string;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  profile: string;
+  factors: FactorScore[];
+}
@@ -0,0 +1,78 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { ZodTypeAny } from 'zod';
+import { safeParseAs, schemaIssues } from './schema.js';
+
+/** An error class taking a message and an optional cause, like `Error` */
+export type ErrorClass = new (
+  message: string,
+  options?: { cause?: unknown }
+) => Error;
+
+/**
+ * True for the error `fs` raises when a file or directory does not exist.
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { code?: unknown }).code === 'ENOENT'
+  );
+}
+
+/**
+ * Read a JSON file and validate it against `schema`, or return undefined
+ * when it does not exist. Anything else that goes wrong is thrown as an
+ * `ErrorClass` naming the file.
+ */
+export async function readJsonFile<T>(
+  path: string,
+  schema: ZodTypeAny,
+  ErrorClass: ErrorClass
+): Promise<T | undefined> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if (isNotFoundError(error)) return undefined;
+    throw new ErrorClass(`Could not read ${path}`, { cause: error });
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ErrorClass(`${path} is not valid JSON`, { cause: error });
+  }
+  const parsed = safeParseAs<T>(schema, raw);
+  if (!parsed.success) {
+    throw new ErrorClass(
+      `Invalid ${path}: ${schemaIssues(parsed.error).join('; ')}`
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Write `contents` through a temporary file, so a crash part way leaves the
+ * previous contents rather than a truncated file.
+ */
+export async function writeFileAtomic(
+  path: string,
+  contents: string
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temporary = `${path}.${process.pid}.tmp`;
+  await writeFile(temporary, contents, 'utf8');
+  await rename(temporary, path);
+}
+
+/**
+ * Write `value` as indented JSON with `writeFileAtomic`.
+ */
+export async function writeJsonAtomic(
+  path: string,
+  value: unknown
+): Promise<void> {
+  await writeFileAtomic(path, `${JSON.stringify(value, null, 2)}\n`);
+}
@@ -0,0 +1,22 @@
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for use in HTML element content and quoted attributes.
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => ESCAPES[char] as string);
+}
+
+/**
+ * Serialize JSON for an inline `<script>` block. `<` is escaped so content
+ * such as `</script>` inside a string cannot end the block early.
+ */
+export function jsonForScript(value: unknown): string {
+  return JSON.stringify(value, null, 2).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,100 @@
+/**
+ * Minimal HTTP response shape used across the code base. Header names are
+ * lower-cased.
+ */
+export interface HttpResponse {
+  /** Final URL after redirects */
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Injectable HTTP client so modules that reach the network can be tested
+ * against fixtures.
+ */
+export interface HttpClient {
+  get(url: string): Promise<HttpResponse>;
+}
+
+export interface HttpRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Injectable client for requests that write, such as CRM API calls. These
+ * bypass the caching HTTP layer, which only makes sense for reads.
+ */
+export interface HttpSender {
+  send(request: HttpRequest): Promise<HttpResponse>;
+}
+
+export const USER_AGENT = 'd13-business-prospector/0.1 (+public data only)';
+
+export interface FetchHttpClientOptions {
+  timeoutMs?: number;
+  userAgent?: string;
+}
+
+/**
+ * HttpClient backed by the global `fetch` of Node 20+.
+ */
+export function createFetchHttpClient(
+  options: FetchHttpClientOptions = {}
+): HttpClient {
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const userAgent = options.userAgent ?? USER_AGENT;
+
+  return {
+    async get(url: string): Promise<HttpResponse> {
+      const response = await fetch(url, {
+        redirect: 'follow',
+        headers: { 'user-agent': userAgent },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      return readResponse(response, url);
+    },
+  };
+}
+
+/**
+ * HttpSender backed by the global `fetch` of Node 20+.
+ */
+export function createFetchHttpSender(
+  options: FetchHttpClientOptions = {}
+): HttpSender {
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const userAgent = options.userAgent ?? USER_AGENT;
+
+  return {
+    async send(request: HttpRequest): Promise<HttpResponse> {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: { 'user-agent': userAgent, ...request.headers },
+        ...(request.body !== undefined ? { body: request.body } : {}),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      return readResponse(response, request.url);
+    },
+  };
+}
+
+async function readResponse(
+  response: Response,
+  url: string
+): Promise<HttpResponse> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key.toLowerCase()] = value;
+  });
+  return {
+    url: response.url || url,
+    status: response.status,
+    headers,
+    body: await response.text(),
+  };
+}
@@ -0,0 +1,33 @@
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge `override` into a copy of `base`, recursing into nested objects.
+ * Arrays and other values in `override` replace those in `base`.
+ */
+export function mergeDeep(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] =
+      isRecord(current) && isRecord(value) ? mergeDeep(current, value) : value;
+  }
+  return merged;
+}
+
+/**
+ * The value at a dotted path such as `location.city`, or undefined when any
+ * step along it is missing.
+ */
+export function getPath(source: unknown, path: string): unknown {
+  let current = source;
+  for (const key of path.split('.')) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
@@ -0,0 +1,18 @@
+import { isRecord } from './objects.js';
+
+/**
+ * JSON has no date type, so `extractedAt` comes back as a string. Revive it
+ * into a Date so the record can pass `BusinessProspectSchema`.
+ */
+export function reviveProspect(record: unknown, fallbackDate?: Date): unknown {
+  if (!isRecord(record)) return record;
+
+  const { extractedAt } = record;
+  if (typeof extractedAt === 'string') {
+    return { ...record, extractedAt: new Date(extractedAt) };
+  }
+  if (extractedAt === undefined && fallbackDate) {
+    return { ...record, extractedAt: fallbackDate };
+  }
+  return record;
+}
@@ -0,0 +1,30 @@
+import type { ZodError, ZodTypeAny } from 'zod';
+
+export type SchemaParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: ZodError };
+
+/**
+ * Validate `value` against `schema`, typing the data as the domain type `T`
+ * it describes. Zod widens optional fields to `T | undefined`, which
+ * `exactOptionalPropertyTypes` tells apart from a missing field; the shapes
+ * are otherwise identical, so this is the one place that cast is made.
+ */
+export function safeParseAs<T>(
+  schema: ZodTypeAny,
+  value: unknown
+): SchemaParseResult<T> {
+  const parsed = schema.safeParse(value);
+  return parsed.success
+    ? { success: true, data: parsed.data as T }
+    : { success: false, error: parsed.error };
+}
+
+/**
+ * Each issue of a failed parse as `path: message`.
+ */
+export function schemaIssues(error: ZodError): string[] {
+  return error.issues.map(
+    (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+  );
+}
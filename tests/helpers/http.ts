@@ -0,0 +1,54 @@
+import type { HttpClient, HttpResponse } from '../../src/utils/http.js';
+
+export type FakeResponse = Partial<HttpResponse> | Error;
+
+/**
+ * Fake transport answering each URL from a queue of responses; the last
+ * response for a URL repeats once its queue runs out. Errors are thrown.
+ */
+export function createFakeTransport(
+  routes: Record<string, FakeResponse | FakeResponse[]>
+): HttpClient & { requested: string[] } {
+  const queues = new Map(
+    Object.entries(routes).map(([url, responses]) => [
+      url,
+      Array.isArray(responses) ? [...responses] : [responses],
+    ])
+  );
+  const requested: string[] = [];
+  return {
+    requested,
+    async get(url: string): Promise<HttpResponse> {
+      requested.push(url);
+      const queue = queues.get(url);
+      const next = queue && queue.length > 1 ? queue.shift() : queue?.[0];
+      if (!next) throw new Error('getaddrinfo ENOTFOUND');
+      if (next instanceof Error) throw next;
+      return { url, status: 200, headers: {}, body: '', ...next };
+    },
+  };
+}
+
+/**
+ * Manual clock whose `sleep` advances time instantly and records each wait.
+ */
+export function createFakeClock(start = 0): {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+  advance: (ms: number) => void;
+  sleeps: number[];
+} {
+  let time = start;
+  const sleeps: number[] = [];
+  return {
+    now: () => time,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+      time += ms;
+    },
+    advance: (ms: number) => {
+      time += ms;
+    },
+    sleeps,
+  };
+}
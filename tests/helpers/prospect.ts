@@ -0,0 +1,58 @@
+import type { BusinessProspect } from '../../src/types/index.js';
+
+/**
+ * Build a valid BusinessProspect for tests, applying shallow overrides.
+ */
+export function createProspect(
+  overrides: Partial<BusinessProspect> = {}
+): BusinessProspect {
+  return {
+    id: 'prospect-123',
+    name: 'Tampa Cleaning Services',
+    category: 'Cleaning Services',
+    location: {
+      address: '123 Main St',
+      city: 'Tampa',
+      state: 'FL',
+      zipCode: '33601',
+      country: 'USA',
+      latitude: 27.9506,
+      longitude: -82.4572,
+    },
+    contact: {
+      phone: '+18135550123',
+      phoneType: 'landlineOrMobile',
+      email: 'info@tampacleaning.com',
+    },
+    rating: 4.5,
+    reviewCount: 127,
+    webPresence: {
+      hasWebsite: false,
+      websiteType: 'none',
+      websiteQuality: 'none',
+      issues: [],
+      opportunities: [],
+    },
+    opportunityScore: 0,
+    extractedAt: new Date('2024-09-18T22:30:00Z'),
+    templateConfig: {
+      company: { name: 'Tampa Cleaning Services' },
+      contact: {
+        phone: '+18135550123',
+        email: 'info@tampacleaning.com',
+        address: {
+          street: '123 Main St',
+          city: 'Tampa',
+          state: 'FL',
+          zipCode: '33601',
+          country: 'USA',
+        },
+      },
+      services: {
+        primary: 'Residential Cleaning',
+        categories: ['residential', 'commercial'],
+      },
+    },
+    ...overrides,
+  };
+}
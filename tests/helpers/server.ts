@@ -0,0 +1,86 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockRequest {
+  method: string;
+  /** Path and query string */
+  url: string;
+  headers: Record<string, string | undefined>;
+  body: string;
+  /** Parsed JSON body, undefined when the body is not JSON */
+  json: unknown;
+}
+
+export interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockServer {
+  /** Base URL, e.g. http://127.0.0.1:53124 */
+  url: string;
+  requests: MockRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Local HTTP server on an ephemeral port that answers each request with
+ * `handler`, recording every request. Object bodies are sent as JSON.
+ */
+export async function startMockServer(
+  handler: (request: MockRequest) => MockReply | undefined
+): Promise<MockServer> {
+  const requests: MockRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      let json: unknown;
+      try {
+        json = body ? JSON.parse(body) : undefined;
+      } catch {
+        json = undefined;
+      }
+      const request: MockRequest = {
+        method: req.method ?? 'GET',
+        url: req.url ?? '/',
+        headers: req.headers as Record<string, string | undefined>,
+        body,
+        json,
+      };
+      requests.push(request);
+
+      const reply = handler(request) ?? {};
+      const text =
+        reply.body === undefined
+          ? ''
+          : typeof reply.body === 'string'
+            ? reply.body
+            : JSON.stringify(reply.body);
+      res.writeHead(reply.status ?? 200, {
+        ...(typeof reply.body === 'object'
+          ? { 'content-type': 'application/json' }
+          : {}),
+        ...reply.headers,
+      });
+      res.end(text);
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        // fetch keeps connections alive, which would hold close() open
+        server.closeAllConnections();
+      }),
+  };
+}
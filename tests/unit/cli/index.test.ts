@@ -1,14 +1,34 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
 import { execSync } from 'child_process';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('CLI Command Line Interface', () => {
   const CLI_PATH = 'tsx src/cli/index.ts';
+  // Tests that chain several CLI invocations need more than the default 5s
+  const MULTI_STEP_TIMEOUT = 20_000;
+
+  // Child processes inherit the environment, so every command below uses a
+  // throwaway database instead of ~/.d13-prospector
+  const dataDir = mkdtempSync(join(tmpdir(), 'd13-cli-'));
+  process.env.D13_PROSPECTOR_DATA_DIR = dataDir;
 
   beforeEach(() => {
     // Clear any mocks before each test
     vi.clearAllMocks();
   });
 
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
   describe('Basic CLI functionality', () => {
     it('should show help when no command is given', () => {
       try {
@@ -54,15 +74,94 @@ describe('CLI Command Line Interface', () => {
         });
       }).toThrow();
     });
+
+    it('should print validated prospects from the fixture source as JSON', () => {
+      const output = execSync(
+        `${CLI_PATH} search "cleaning services" "Tampa, FL" --fixture tests/fixtures/businesses.json`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      const prospects = JSON.parse(output);
+      expect(prospects).toHaveLength(1);
+      expect(prospects[0].id).toBe('fixture-tampa-clean');
+    });
+
+    it('should reject an unknown source', () => {
+      expect(() => {
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL" --source nope`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+      }).toThrow();
+    });
+
+    it('should search a radius cell by cell', () => {
+      const output = execSync(
+        `${CLI_PATH} search "" "Tampa, FL" --radius 8km --grid 2 --no-save`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      const ids = JSON.parse(output).map(
+        (prospect: { id: string }) => prospect.id
+      );
+      expect(ids).toContain('fixture-tampa-sparkle-cleaning');
+      expect(ids).not.toContain('fixture-tampa-summit-roofing');
+    });
+  });
+
+  describe('Score command', () => {
+    it('should print scores with a per-factor breakdown as JSON', () => {
+      const output = execSync(
+        `${CLI_PATH} score tests/fixtures/prospects.json --json`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      const scores = JSON.parse(output);
+      expect(scores).toHaveLength(3);
+      expect(scores[0].score).toBeGreaterThanOrEqual(scores[1].score);
+      expect(scores[0].factors).toHaveLength(6);
+    });
+
+    it('should reject an invalid scoring profile', () => {
+      expect(() => {
+        execSync(
+          `${CLI_PATH} score tests/fixtures/prospects.json --profile missing.yaml`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+      }).toThrow();
+    });
   });
 
   describe('Analyze command', () => {
     it('should accept analyze command with business ID argument', () => {
       expect(() => {
-        execSync(`${CLI_PATH} analyze "business-123"`, { encoding: 'utf8' });
+        execSync(
+          `${CLI_PATH} analyze "fixture-tampa-sparkle-cleaning" --input tests/fixtures/prospects.json`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
       }).not.toThrow();
     });
 
+    it('should print the web presence analysis as JSON', () => {
+      const output = execSync(
+        `${CLI_PATH} analyze "fixture-tampa-bay-plumbing" --input tests/fixtures/prospects.json`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      const report = JSON.parse(output);
+      expect(report.analysis.websiteType).toBe('facebook');
+      expect(report.opportunityScore).toBeGreaterThan(0);
+    });
+
+    it('should reject an unknown business ID', () => {
+      expect(() => {
+        execSync(
+          `${CLI_PATH} analyze "business-123" --input tests/fixtures/prospects.json`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+      }).toThrow();
+    });
+
     it('should reject analyze command with missing arguments', () => {
       expect(() => {
         execSync(`${CLI_PATH} analyze`, { encoding: 'utf8', stdio: 'pipe' });
@@ -71,9 +170,14 @@ describe('CLI Command Line Interface', () => {
   });
 
   describe('Extract command', () => {
+    const INPUT = '--input tests/fixtures/prospects.json';
+
     it('should accept extract command with business ID argument', () => {
       expect(() => {
-        execSync(`${CLI_PATH} extract "business-123"`, { encoding: 'utf8' });
+        execSync(
+          `${CLI_PATH} extract "fixture-tampa-sparkle-cleaning" ${INPUT}`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
       }).not.toThrow();
     });
 
@@ -85,10 +189,808 @@ describe('CLI Command Line Interface', () => {
 
     it('should accept extract command with format option', () => {
       expect(() => {
-        execSync(`${CLI_PATH} extract "business-123" --format json`, {
+        execSync(
+          `${CLI_PATH} extract "fixture-tampa-sparkle-cleaning" ${INPUT} --format json`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+      }).not.toThrow();
+    });
+
+    it('should write selected CSV columns', () => {
+      const output = execSync(
+        `${CLI_PATH} extract all ${INPUT} --format csv --fields id,location.city`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      expect(output.split('\r\n')[0]).toBe('id,location.city');
+      expect(output).toContain('fixture-tampa-bay-plumbing,Tampa');
+    });
+
+    it('should filter, sort and limit the selected prospects', () => {
+      const output = execSync(
+        `${CLI_PATH} extract all ${INPUT} --format csv --fields id --where "rating >= 4.5" --sort reviews:desc --limit 2`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      expect(output).toBe(
+        'id\r\nfixture-tampa-summit-roofing\r\nfixture-tampa-sparkle-cleaning\r\n'
+      );
+    });
+
+    it('should reject an unsupported format', () => {
+      expect(() => {
+        execSync(`${CLI_PATH} extract all ${INPUT} --format pdf`, {
           encoding: 'utf8',
+          stdio: 'pipe',
         });
-      }).not.toThrow();
+      }).toThrow();
+    });
+
+    it('should not leave an output file behind when the export fails', () => {
+      const output = join(dataDir, 'failed-export.csv');
+
+      expect(() => {
+        execSync(
+          `${CLI_PATH} extract all ${INPUT} --format csv --fields nope --output ${output}`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+      }).toThrow();
+      expect(existsSync(output)).toBe(false);
+    });
+
+    it('should report an output file that cannot be opened', () => {
+      const output = join(dataDir, 'missing-dir', 'export.json');
+      let failure: { status?: number; stderr?: string } = {};
+
+      try {
+        execSync(`${CLI_PATH} extract all ${INPUT} --output ${output}`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+      } catch (error: any) {
+        failure = error;
+      }
+      expect(failure.status).toBe(1);
+      expect(failure.stderr).toContain(
+        `ENOENT: no such file or directory, open '${output}'`
+      );
+      expect(failure.stderr).not.toContain("Unhandled 'error' event");
+    });
+  });
+
+  describe('Local database commands', () => {
+    it(
+      'should save search results so later commands can resolve IDs',
+      () => {
+        execSync(`${CLI_PATH} search "roofers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+
+        const list = execSync(`${CLI_PATH} list`, { encoding: 'utf8' });
+        expect(list).toContain('fixture-tampa-summit-roofing');
+
+        const shown = JSON.parse(
+          execSync(`${CLI_PATH} show fixture-tampa-summit-roofing`, {
+            encoding: 'utf8',
+          })
+        );
+        expect(shown.name).toBe('Summit Roofing & Repair');
+        expect(shown.opportunityScore).toBeGreaterThan(0);
+
+        const csv = execSync(
+          `${CLI_PATH} extract fixture-tampa-summit-roofing --format csv --fields id`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+        expect(csv).toBe('id\r\nfixture-tampa-summit-roofing\r\n');
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it(
+      'should delete saved prospects and reject unknown IDs',
+      () => {
+        const id = 'fixture-tampa-bay-plumbing';
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        execSync(`${CLI_PATH} review ${id}`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+          input: `mark ${id}\n`,
+        });
+        const linksPath = join(dataDir, 'crm-links.json');
+        const link = {
+          ids: { company: '101' },
+          pushedAt: '2026-10-01T12:00:00.000Z',
+          record: {},
+        };
+        writeFileSync(linksPath, JSON.stringify({ hubspot: { [id]: link } }));
+
+        expect(
+          execSync(`${CLI_PATH} delete ${id}`, {
+            encoding: 'utf8',
+          })
+        ).toContain(`Deleted ${id}`);
+        expect(() => {
+          execSync(`${CLI_PATH} show ${id}`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+          });
+        }).toThrow();
+        // Nothing is left to attach to a prospect saved later under the ID
+        expect(
+          JSON.parse(readFileSync(join(dataDir, 'review.json'), 'utf8'))
+        ).not.toHaveProperty(id);
+        expect(JSON.parse(readFileSync(linksPath, 'utf8'))).toEqual({
+          hubspot: {},
+        });
+      },
+      MULTI_STEP_TIMEOUT
+    );
+  });
+
+  describe('Dedupe command', () => {
+    it('should report no clusters for distinct businesses', () => {
+      const output = execSync(
+        `${CLI_PATH} dedupe --input tests/fixtures/prospects.json --json`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      expect(JSON.parse(output)).toEqual([]);
+    });
+
+    it(
+      'should keep a merged do-not-contact duplicate out of exports',
+      () => {
+        const dir = mkdtempSync(join(tmpdir(), 'd13-dedupe-'));
+        const cli = `D13_PROSPECTOR_DATA_DIR=${dir} ${CLI_PATH}`;
+        const [original] = JSON.parse(
+          readFileSync('tests/fixtures/prospects.json', 'utf8')
+        );
+        const duplicate = {
+          ...original,
+          id: `${original.id}-listing`,
+          extractedAt: '2020-01-01T00:00:00.000Z',
+        };
+        writeFileSync(
+          join(dir, 'prospects.jsonl'),
+          `${JSON.stringify(original)}\n${JSON.stringify(duplicate)}\n`
+        );
+
+        try {
+          execSync(
+            `${cli} lead set-status ${duplicate.id} do-not-contact --note "Asked not to call"`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          );
+          execSync(`${cli} dedupe`, { encoding: 'utf8', stdio: 'pipe' });
+
+          const kept = JSON.parse(
+            execSync(`${cli} lead show ${original.id}`, { encoding: 'utf8' })
+          );
+          expect(kept.status).toBe('do-not-contact');
+          expect(kept.notes[0].text).toBe('Asked not to call');
+          expect(
+            JSON.parse(
+              execSync(`${cli} extract all --format json`, {
+                encoding: 'utf8',
+                stdio: 'pipe',
+              })
+            )
+          ).toEqual([]);
+        } finally {
+          rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      MULTI_STEP_TIMEOUT
+    );
+  });
+
+  describe('Build config command', () => {
+    it('should write a template config file for a business', () => {
+      const output = join(dataDir, 'sparkle.config.json');
+      execSync(
+        `${CLI_PATH} build-config fixture-tampa-sparkle-cleaning --input tests/fixtures/prospects.json --output ${output}`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      const config = JSON.parse(readFileSync(output, 'utf8'));
+      expect(config.company.name).toBe('Sparkle Home Cleaning');
+      expect(config.services.primary).toBe('Cleaning Services');
+    });
+  });
+
+  describe('Demo command', () => {
+    it('should write a static demo site for a business', () => {
+      const output = join(dataDir, 'demo-sparkle');
+      execSync(
+        `${CLI_PATH} demo fixture-tampa-sparkle-cleaning --input tests/fixtures/prospects.json --output ${output}`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      const html = readFileSync(join(output, 'index.html'), 'utf8');
+      expect(html).toContain('Sparkle Home Cleaning');
+      expect(readFileSync(join(output, 'styles.css'), 'utf8')).toContain(
+        '--primary'
+      );
+    });
+  });
+
+  describe('JSON-LD command', () => {
+    it('should print structured data for a business', () => {
+      const output = execSync(
+        `${CLI_PATH} jsonld fixture-tampa-bay-plumbing --input tests/fixtures/prospects.json --rebuild`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      const document = JSON.parse(output);
+      expect(document['@type']).toBe('Plumber');
+      expect(document.geo['@type']).toBe('GeoCoordinates');
+    });
+  });
+
+  describe('Batch command', () => {
+    it('should run every search in a CSV file and summarize', () => {
+      const queries = join(dataDir, 'queries.csv');
+      const summary = join(dataDir, 'summary.json');
+      writeFileSync(
+        queries,
+        'industry,location\ncleaning services,"Tampa, FL"\nplumbers,"Tampa, FL"\n'
+      );
+
+      const output = execSync(
+        `${CLI_PATH} batch ${queries} --fixture tests/fixtures/businesses.json --no-save --summary ${summary}`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      expect(JSON.parse(output).length).toBeGreaterThan(0);
+      expect(JSON.parse(readFileSync(summary, 'utf8'))).toHaveLength(2);
+      expect(existsSync(`${queries}.checkpoint.json`)).toBe(false);
+    });
+  });
+
+  describe('Query command', () => {
+    it(
+      'should save a query and reuse it with list',
+      () => {
+        execSync(`${CLI_PATH} search "roofers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        execSync(
+          `${CLI_PATH} query save roofers --where "category ~ roof and score >= 50"`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+
+        const listed = JSON.parse(
+          execSync(`${CLI_PATH} list --query roofers --json`, {
+            encoding: 'utf8',
+          })
+        );
+        expect(listed.map((p: { id: string }) => p.id)).toEqual([
+          'fixture-tampa-summit-roofing',
+        ]);
+        expect(
+          execSync(`${CLI_PATH} query list`, { encoding: 'utf8' })
+        ).toContain('category ~ roof and score >= 50');
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it('should reject an invalid filter', () => {
+      expect(() => {
+        execSync(`${CLI_PATH} list --where "rating >= high"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+      }).toThrow(/rating needs a number/);
     });
   });
+
+  describe('Config command', () => {
+    it(
+      'should write a starter file and show it resolved with keys masked',
+      () => {
+        const file = join(dataDir, 'd13-prospector.config.yaml');
+        execSync(`${CLI_PATH} config init ${file}`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+
+        const shown = JSON.parse(
+          execSync(`${CLI_PATH} --config ${file} config show --json`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+            env: { ...process.env, GOOGLE_PLACES_API_KEY: 'AIzaSyExample1234' },
+          })
+        );
+        expect(shown.dataDir).toBe(dataDir);
+        expect(shown.providers.googlePlaces.apiKey).toBe('****1234');
+        expect(() =>
+          execSync(`${CLI_PATH} config init ${file}`, { stdio: 'pipe' })
+        ).toThrow(/already exists/);
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it('should leave out status lines below the configured log level', () => {
+      const output = execSync(
+        `${CLI_PATH} extract all --input tests/fixtures/prospects.json --format csv --fields id --limit 1 2>&1`,
+        {
+          encoding: 'utf8',
+          stdio: 'pipe',
+          env: { ...process.env, LOG_LEVEL: 'warn' },
+        }
+      );
+
+      expect(output).toBe('id\r\nfixture-tampa-sparkle-cleaning\r\n');
+    });
+  });
+
+  describe('Offline mode', () => {
+    it('should fail instead of fetching a page that is not cached', () => {
+      expect(() => {
+        execSync(
+          `${CLI_PATH} --offline analyze lead --url https://uncached.example/`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+      }).toThrow(/Offline: no cached response/);
+    });
+  });
+
+  describe('Compliance', () => {
+    it('should skip denied domains and log them to the audit log', () => {
+      const output = execSync(
+        `${CLI_PATH} --deny-domains example.com analyze lead --url https://www.example.com/`,
+        { encoding: 'utf8', stdio: 'pipe' }
+      );
+
+      expect(JSON.parse(output).skipped).toBe(
+        'example.com is on the deny list'
+      );
+      const audit = readFileSync(join(dataDir, 'audit.ndjson'), 'utf8')
+        .trim()
+        .split('\n');
+      expect(JSON.parse(audit.at(-1) ?? '')).toMatchObject({
+        url: 'https://www.example.com/',
+        outcome: 'skipped',
+      });
+    });
+  });
+
+  describe('Enrich command', () => {
+    it(
+      'should enrich saved prospects without leaving the allowed domains',
+      () => {
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+
+        // No site is on the allow list, so nothing is fetched
+        const output = execSync(
+          `${CLI_PATH} --allow-domains allowed.invalid enrich all --json --no-mx`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+        const enriched = JSON.parse(output);
+        expect(enriched.length).toBeGreaterThan(0);
+        expect(enriched[0].emails).toEqual([]);
+        // A Facebook page standing in for a website is a profile itself
+        expect(
+          enriched.flatMap(
+            (entry: { socialMedia: unknown[] }) => entry.socialMedia
+          )
+        ).toContainEqual({
+          platform: 'facebook',
+          url: 'https://www.facebook.com/bayareaplumbingco',
+          handle: 'bayareaplumbingco',
+        });
+
+        const shown = JSON.parse(
+          execSync(`${CLI_PATH} show ${enriched[0].id}`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+          })
+        );
+        expect(shown.contact.emails).toEqual([]);
+        expect(shown.contact.email).toBe(enriched[0].email);
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it(
+      'should keep earlier emails when a site cannot be fetched again',
+      () => {
+        const dir = mkdtempSync(join(tmpdir(), 'd13-enrich-'));
+        const cli = `D13_PROSPECTOR_DATA_DIR=${dir} ${CLI_PATH}`;
+        const [original] = JSON.parse(
+          readFileSync('tests/fixtures/prospects.json', 'utf8')
+        );
+        const emails = [
+          {
+            address: 'owner@sparklehomecleaning.com',
+            source: 'mailto',
+            url: 'https://sparklehomecleaning.com/contact',
+            confidence: 0.95,
+            role: false,
+            disposable: false,
+          },
+        ];
+        const prospect = {
+          ...original,
+          contact: {
+            ...original.contact,
+            website: 'https://sparklehomecleaning.com/',
+            emails,
+          },
+        };
+        writeFileSync(
+          join(dir, 'prospects.jsonl'),
+          `${JSON.stringify(prospect)}\n`
+        );
+
+        try {
+          // The site is not on the allow list, so nothing is found this time
+          execSync(
+            `${cli} --allow-domains allowed.invalid enrich all --json --no-mx`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          );
+          const shown = JSON.parse(
+            execSync(`${cli} show ${prospect.id}`, { encoding: 'utf8' })
+          );
+          expect(shown.contact.emails).toEqual(emails);
+        } finally {
+          rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it(
+      'should save the other prospects when one cannot be enriched',
+      () => {
+        const dir = mkdtempSync(join(tmpdir(), 'd13-enrich-'));
+        const cli = `D13_PROSPECTOR_DATA_DIR=${dir} ${CLI_PATH}`;
+        const [first, second] = JSON.parse(
+          readFileSync('tests/fixtures/prospects.json', 'utf8')
+        );
+        const uncached = {
+          ...first,
+          contact: { ...first.contact, website: 'https://uncached.example/' },
+        };
+        // Without a website there is nothing to fetch
+        const offline = { ...second, contact: { ...second.contact } };
+        delete offline.contact.website;
+        writeFileSync(
+          join(dir, 'prospects.jsonl'),
+          `${JSON.stringify(uncached)}\n${JSON.stringify(offline)}\n`
+        );
+
+        try {
+          let failure: { status?: number; stderr?: string } = {};
+          try {
+            execSync(`${cli} --offline enrich all --no-mx`, {
+              encoding: 'utf8',
+              stdio: 'pipe',
+            });
+          } catch (error: any) {
+            failure = error;
+          }
+          expect(failure.status).toBe(1);
+          expect(failure.stderr).toContain(
+            `${uncached.id}: Offline: no cached response`
+          );
+
+          const shown = JSON.parse(
+            execSync(`${cli} show ${offline.id}`, { encoding: 'utf8' })
+          );
+          expect(shown.contact.emails).toEqual([]);
+        } finally {
+          rmSync(dir, { recursive: true, force: true });
+        }
+      },
+      MULTI_STEP_TIMEOUT
+    );
+  });
+
+  describe('Outreach command', () => {
+    it(
+      'should write the email sequence and call script for a prospect',
+      () => {
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        const [prospect] = JSON.parse(
+          execSync(`${CLI_PATH} list --json --limit 1`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+          })
+        );
+
+        const emails = JSON.parse(
+          execSync(`${CLI_PATH} outreach ${prospect.id} --format json`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+          })
+        );
+        expect(emails.map((email: { step: string }) => email.step)).toEqual([
+          'intro',
+          'follow-up-1',
+          'follow-up-2',
+        ]);
+        expect(emails[0].text).toContain(prospect.name);
+
+        const output = join(dataDir, 'outreach');
+        execSync(
+          `${CLI_PATH} outreach ${prospect.id} --call-script --output ${output}`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+        expect(
+          readFileSync(join(output, `${prospect.id}-call-script.txt`), 'utf8')
+        ).toContain(`CALL SCRIPT: ${prospect.name}`);
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it('should reject an unknown step', () => {
+      expect(() => {
+        execSync(`${CLI_PATH} outreach anything --step follow-up-9`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+      }).toThrow(/Unknown step "follow-up-9"/);
+    });
+  });
+
+  describe('Push command', () => {
+    it(
+      'should preview a push as a diff without credentials',
+      () => {
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        const [prospect] = JSON.parse(
+          execSync(
+            `${CLI_PATH} list --json --where "category ~ plumb" --limit 1`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          )
+        );
+
+        const plans = JSON.parse(
+          execSync(
+            `${CLI_PATH} push ${prospect.id} --to hubspot --dry-run --json`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          )
+        );
+        expect(plans).toHaveLength(1);
+        expect(plans[0]).toMatchObject({ id: prospect.id, action: 'create' });
+        expect(plans[0].changes).toContainEqual({
+          object: 'company',
+          field: 'name',
+          after: prospect.name,
+        });
+
+        const preview = execSync(
+          `${CLI_PATH} push --where "category ~ plumb" --to pipedrive --dry-run`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+        expect(preview).toContain(`create ${prospect.id} (${prospect.name})`);
+        expect(preview).toContain(
+          `  + company.name: ${JSON.stringify(prospect.name)}`
+        );
+
+        expect(() => {
+          execSync(`${CLI_PATH} push ${prospect.id} --to hubspot`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+            env: { ...process.env, HUBSPOT_ACCESS_TOKEN: '' },
+          });
+        }).toThrow(/HubSpot needs an access token/);
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it('should reject an unknown connector', () => {
+      expect(() => {
+        execSync(`${CLI_PATH} push all --to salesforce --dry-run`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+      }).toThrow(/Unknown connector "salesforce"/);
+    });
+  });
+
+  describe('Rescan command', () => {
+    it(
+      'should report changes since the stored snapshot',
+      () => {
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        const [prospect] = JSON.parse(
+          execSync(
+            `${CLI_PATH} list --json --where "category ~ plumb" --limit 1`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          )
+        );
+        const fixture = join(dataDir, 'rescan-fixture.json');
+        writeFileSync(
+          fixture,
+          JSON.stringify([{ ...prospect, reviewCount: 150 }])
+        );
+
+        const report = JSON.parse(
+          execSync(
+            `${CLI_PATH} rescan ${prospect.id} --fixture ${fixture} --qualify "reviews >= 100" --newly-qualified --json`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          )
+        );
+        expect(report.summary).toMatchObject({
+          scanned: 1,
+          changed: 1,
+          newlyQualified: 1,
+        });
+        expect(report.prospects[0]).toMatchObject({
+          id: prospect.id,
+          newlyQualified: true,
+        });
+        expect(report.prospects[0].changes).toContainEqual({
+          field: 'reviewCount',
+          before: prospect.reviewCount,
+          after: 150,
+          delta: 150 - prospect.reviewCount,
+        });
+
+        // The new snapshot was saved, so a second rescan finds no change
+        const again = execSync(
+          `${CLI_PATH} rescan ${prospect.id} --fixture ${fixture} --newly-qualified`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+        expect(again.trim()).toBe('');
+      },
+      MULTI_STEP_TIMEOUT
+    );
+  });
+
+  describe('Lead commands', () => {
+    it(
+      'should track status, owner, notes and follow-ups',
+      () => {
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        const [prospect] = JSON.parse(
+          execSync(
+            `${CLI_PATH} list --json --where "category ~ plumb" --limit 1`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          )
+        );
+
+        expect(
+          execSync(
+            `${CLI_PATH} lead set-status ${prospect.id} contacted --note "Left a voicemail" --follow-up 2020-01-02`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          ).trim()
+        ).toBe(`${prospect.id}: contacted, follow up 2020-01-02`);
+        execSync(`${CLI_PATH} lead assign ${prospect.id} dana`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        execSync(
+          `${CLI_PATH} lead note ${prospect.id} "Wants pricing" --author dana`,
+          { encoding: 'utf8', stdio: 'pipe' }
+        );
+
+        const due = JSON.parse(
+          execSync(`${CLI_PATH} lead due --owner dana --json`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+          })
+        );
+        expect(due).toHaveLength(1);
+        expect(due[0]).toMatchObject({
+          id: prospect.id,
+          name: prospect.name,
+          status: 'contacted',
+          owner: 'dana',
+          followUp: '2020-01-02',
+        });
+        expect(due[0].notes.map((note: { text: string }) => note.text)).toEqual(
+          ['Left a voicemail', 'Wants pricing']
+        );
+        expect(() => {
+          execSync(`${CLI_PATH} lead set-status ${prospect.id} maybe`, {
+            stdio: 'pipe',
+          });
+        }).toThrow();
+      },
+      MULTI_STEP_TIMEOUT
+    );
+
+    it(
+      'should keep do-not-contact prospects out of exports and outreach',
+      () => {
+        const [prospect] = JSON.parse(
+          execSync(
+            `${CLI_PATH} list --json --where "category ~ plumb" --limit 1`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          )
+        );
+        execSync(`${CLI_PATH} lead set-status ${prospect.id} do-not-contact`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+
+        const exported = JSON.parse(
+          execSync(`${CLI_PATH} extract all --format json`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+          })
+        );
+        expect(exported.length).toBeGreaterThan(0);
+        expect(exported.map((p: { id: string }) => p.id)).not.toContain(
+          prospect.id
+        );
+        expect(() => {
+          execSync(`${CLI_PATH} outreach ${prospect.id}`, { stdio: 'pipe' });
+        }).toThrow(/do-not-contact/);
+
+        execSync(`${CLI_PATH} lead set-status ${prospect.id} contacted`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+      },
+      MULTI_STEP_TIMEOUT
+    );
+  });
+
+  describe('Review command', () => {
+    it(
+      'should run review commands from stdin when not on a terminal',
+      () => {
+        execSync(`${CLI_PATH} search "plumbers" "Tampa, FL"`, {
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        const [prospect] = JSON.parse(
+          execSync(
+            `${CLI_PATH} list --json --where "category ~ plumb" --limit 1`,
+            { encoding: 'utf8', stdio: 'pipe' }
+          )
+        );
+
+        const exported = JSON.parse(
+          execSync(`${CLI_PATH} review --format json`, {
+            encoding: 'utf8',
+            stdio: 'pipe',
+            input: `mark ${prospect.id}\ntag ${prospect.id} hot\nexport\n`,
+          })
+        );
+        expect(exported).toHaveLength(1);
+        expect(exported[0].id).toBe(prospect.id);
+
+        // Decisions are saved, and with no commands the table is printed
+        const table = execSync(
+          `${CLI_PATH} review --where "category ~ plumb"`,
+          {
+            encoding: 'utf8',
+            stdio: 'pipe',
+            input: '',
+          }
+        );
+        expect(table).toMatch(/^ID\s+REVIEW\s+NAME/);
+        expect(table).toMatch(new RegExp(`${prospect.id}\\s+marked.*hot`));
+
+        expect(() => {
+          execSync(`${CLI_PATH} review`, { stdio: 'pipe', input: 'star x\n' });
+        }).toThrow(/Line 1: Unknown review command "star"/);
+      },
+      MULTI_STEP_TIMEOUT
+    );
+  });
 });
@@ -0,0 +1,256 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  WebPresenceAnalyzer,
+  classifyWebsite,
+  gradeQuality,
+} from '../../../../src/core/analyzer/index.js';
+import { UrlSkippedError } from '../../../../src/core/compliance/index.js';
+import { OfflineCacheMissError } from '../../../../src/core/http/index.js';
+import { scoreProspect } from '../../../../src/core/scorer/index.js';
+import type { HttpClient, HttpResponse } from '../../../../src/utils/http.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+function site(name: string): string {
+  return readFileSync(`tests/fixtures/sites/${name}.html`, 'utf8');
+}
+
+/**
+ * Fake HttpClient serving fixture pages by URL.
+ */
+function fakeHttp(pages: Record<string, Partial<HttpResponse>>): HttpClient & {
+  requested: string[];
+} {
+  const requested: string[] = [];
+  return {
+    requested,
+    async get(url: string): Promise<HttpResponse> {
+      requested.push(url);
+      const page = pages[url];
+      if (!page) throw new Error('getaddrinfo ENOTFOUND');
+      return { url, status: 200, headers: {}, body: '', ...page };
+    },
+  };
+}
+
+function analyzer(http: HttpClient): WebPresenceAnalyzer {
+  return new WebPresenceAnalyzer({
+    httpClient: http,
+    now: () => new Date('2024-10-01T00:00:00Z'),
+  });
+}
+
+describe('WebPresenceAnalyzer', () => {
+  describe('classifyWebsite', () => {
+    it('should classify by hostname without fetching', () => {
+      expect(classifyWebsite(undefined).type).toBe('none');
+      expect(classifyWebsite('https://m.facebook.com/joesauto').type).toBe(
+        'facebook'
+      );
+      expect(classifyWebsite('https://www.yelp.com/biz/joes').type).toBe(
+        'directory'
+      );
+      expect(classifyWebsite('https://joes.wixsite.com/home')).toEqual({
+        type: 'template',
+        builder: 'Wix',
+      });
+    });
+
+    it('should detect page builders from the generator tag', () => {
+      expect(classifyWebsite('https://example.com', site('wix'))).toEqual({
+        type: 'template',
+        builder: 'Wix',
+      });
+      expect(
+        classifyWebsite('https://example.com', site('godaddy')).builder
+      ).toBe('GoDaddy Website Builder');
+    });
+
+    it('should classify custom sites as professional', () => {
+      expect(
+        classifyWebsite('https://harbor.example', site('professional')).type
+      ).toBe('professional');
+    });
+  });
+
+  describe('analyze', () => {
+    it('should grade a well-built site as excellent with no issues', async () => {
+      const http = fakeHttp({
+        'https://harbor.example/': { body: site('professional') },
+      });
+
+      const report = await analyzer(http).analyze('https://harbor.example/');
+
+      expect(report.analysis).toEqual({
+        hasWebsite: true,
+        websiteType: 'professional',
+        websiteQuality: 'excellent',
+        issues: [],
+        opportunities: [],
+      });
+      expect(report.checks.every((check) => check.passed)).toBe(true);
+    });
+
+    it('should turn failed checks into issues and opportunities', async () => {
+      const http = fakeHttp({
+        'http://joesauto.example/': { body: site('bare') },
+      });
+
+      const report = await analyzer(http).analyze('http://joesauto.example/');
+      const failed = report.checks
+        .filter((check) => !check.passed)
+        .map((check) => check.id);
+
+      expect(failed).toEqual([
+        'https',
+        'viewport',
+        'title',
+        'metaDescription',
+        'phone',
+        'copyright',
+      ]);
+      expect(report.analysis.websiteQuality).toBe('poor');
+      expect(report.analysis.issues).toContain(
+        'Outdated copyright year (2016)'
+      );
+      expect(report.analysis.opportunities).toContain(
+        'Mobile-friendly responsive design'
+      );
+    });
+
+    it('should flag template builders and cap their quality', async () => {
+      const http = fakeHttp({
+        'https://freshstart.example/': { body: site('godaddy') },
+      });
+
+      const report = await analyzer(http).analyze(
+        'https://freshstart.example/'
+      );
+
+      expect(report.builder).toBe('GoDaddy Website Builder');
+      expect(report.analysis.websiteType).toBe('template');
+      expect(report.analysis.websiteQuality).toBe('good');
+      expect(report.analysis.issues[0]).toBe(
+        'Template website built with GoDaddy Website Builder'
+      );
+    });
+
+    it('should fail the page weight check for heavy pages', async () => {
+      const heavy = site('professional').replace(
+        '</main>',
+        `<p>${'x'.repeat(1_100_000)}</p></main>`
+      );
+      const http = fakeHttp({ 'https://heavy.example/': { body: heavy } });
+
+      const report = await analyzer(http).analyze('https://heavy.example/');
+
+      expect(report.analysis.issues).toEqual([
+        expect.stringMatching(/^Heavy page \(\d+ KB of HTML\)$/),
+      ]);
+    });
+
+    it('should not fetch Facebook or directory pages', async () => {
+      const http = fakeHttp({});
+
+      const report = await analyzer(http).analyze(
+        'https://www.facebook.com/bayareaplumbingco'
+      );
+
+      expect(http.requested).toEqual([]);
+      expect(report.analysis.websiteType).toBe('facebook');
+      expect(report.analysis.websiteQuality).toBe('poor');
+    });
+
+    it('should report businesses without a website', async () => {
+      const report = await analyzer(fakeHttp({})).analyze(undefined);
+
+      expect(report.analysis.hasWebsite).toBe(false);
+      expect(report.analysis.websiteType).toBe('none');
+      expect(report.analysis.websiteQuality).toBe('none');
+    });
+
+    it('should follow redirects onto Facebook', async () => {
+      const http = fakeHttp({
+        'https://joes.example/': {
+          url: 'https://www.facebook.com/joes',
+          body: '<html></html>',
+        },
+      });
+
+      const report = await analyzer(http).analyze('https://joes.example/');
+
+      expect(report.analysis.websiteType).toBe('facebook');
+    });
+
+    it('should report unreachable sites as poor', async () => {
+      const report = await analyzer(fakeHttp({})).analyze(
+        'https://gone.example/'
+      );
+
+      expect(report.analysis.websiteQuality).toBe('poor');
+      expect(report.analysis.issues[0]).toMatch(
+        /^Website could not be loaded \(getaddrinfo ENOTFOUND\)$/
+      );
+    });
+
+    it('should not score an unreachable site as professional', async () => {
+      const report = await analyzer(fakeHttp({})).analyze(
+        'https://gone.example/'
+      );
+      const score = (websiteType: 'professional' | 'unknown'): number =>
+        scoreProspect(
+          createProspect({
+            webPresence: { ...report.analysis, websiteType },
+          })
+        ).score;
+
+      expect(report.analysis.websiteType).toBe('unknown');
+      expect(score('unknown')).toBeGreaterThan(score('professional'));
+    });
+
+    it('should report HTTP errors as unreachable', async () => {
+      const http = fakeHttp({ 'https://down.example/': { status: 503 } });
+
+      const report = await analyzer(http).analyze('https://down.example/');
+
+      expect(report.analysis.issues[0]).toBe(
+        'Website could not be loaded (HTTP 503)'
+      );
+    });
+
+    it('should record why a site was skipped', async () => {
+      const http: HttpClient = {
+        async get(url: string): Promise<HttpResponse> {
+          throw new UrlSkippedError(url, 'disallowed by robots.txt');
+        },
+      };
+
+      const report = await analyzer(http).analyze('https://private.example/');
+
+      expect(report.skipped).toBe('disallowed by robots.txt');
+      expect(report.analysis.websiteType).toBe('unknown');
+      expect(report.analysis.issues).toEqual([
+        'Website not analyzed (disallowed by robots.txt)',
+      ]);
+      expect(report.checks).toEqual([]);
+    });
+
+    it('should not grade an uncached site offline', async () => {
+      const http: HttpClient = {
+        async get(url: string): Promise<HttpResponse> {
+          throw new OfflineCacheMissError(url);
+        },
+      };
+
+      await expect(
+        analyzer(http).analyze('https://uncached.example/')
+      ).rejects.toThrow(OfflineCacheMissError);
+    });
+  });
+
+  describe('gradeQuality', () => {
+    it('should treat an unchecked site as poor', () => {
+      expect(gradeQuality([], 'professional')).toBe('poor');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BatchFileError,
+  parseBatchQueries,
+  queryKey,
+} from '../../../../src/core/batch/index.js';
+
+describe('Batch queries', () => {
+  it('should read CSV with a header row', () => {
+    expect(
+      parseBatchQueries(
+        'location,industry,limit\n"Tampa, FL",plumbers,5\n"Austin, TX",roofers,\n',
+        'csv'
+      )
+    ).toEqual([
+      { industry: 'plumbers', location: 'Tampa, FL', limit: 5 },
+      { industry: 'roofers', location: 'Austin, TX' },
+    ]);
+  });
+
+  it('should read CSV without a header row in column order', () => {
+    expect(parseBatchQueries('plumbers,"Tampa, FL"\n\n', 'csv')).toEqual([
+      { industry: 'plumbers', location: 'Tampa, FL' },
+    ]);
+  });
+
+  it('should read YAML lists at the top level or under queries', () => {
+    const list = '- industry: plumbers\n  location: Tampa, FL\n  limit: 3\n';
+
+    expect(parseBatchQueries(list, 'yaml')).toEqual([
+      { industry: 'plumbers', location: 'Tampa, FL', limit: 3 },
+    ]);
+    expect(
+      parseBatchQueries(
+        `queries:\n${list.replace(/^/gm, '  ').trimEnd()}\n`,
+        'yaml'
+      )
+    ).toHaveLength(1);
+  });
+
+  it('should report which entry is invalid', () => {
+    expect(() =>
+      parseBatchQueries(
+        'industry,location\nplumbers,"Tampa, FL"\nroofers,\n',
+        'csv'
+      )
+    ).toThrow(
+      new BatchFileError('Invalid batch file: entry 2.location: Required')
+    );
+    expect(() => parseBatchQueries('industry,location\n', 'csv')).toThrow(
+      /lists no searches/
+    );
+  });
+
+  it('should key queries regardless of case and spacing', () => {
+    expect(queryKey({ industry: ' Plumbers', location: 'Tampa,  FL' })).toBe(
+      queryKey({ industry: 'plumbers', location: 'tampa, fl' })
+    );
+  });
+});
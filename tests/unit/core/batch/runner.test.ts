@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BatchCheckpoint,
+  combineOutcomes,
+  runBatch,
+} from '../../../../src/core/batch/index.js';
+import type { BatchProgress } from '../../../../src/core/batch/index.js';
+import type {
+  BusinessSourceProvider,
+  SearchQuery,
+} from '../../../../src/core/prospector/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const QUERIES: SearchQuery[] = [
+  { industry: 'plumbers', location: 'Tampa, FL' },
+  { industry: 'roofers', location: 'Tampa, FL' },
+  { industry: 'painters', location: 'Tampa, FL' },
+];
+
+/**
+ * Provider returning one listing per industry. Plumbers and roofers share
+ * a listing, as overlapping searches do; painters fail.
+ */
+function createProvider(): BusinessSourceProvider & {
+  calls: string[];
+  maxInFlight: number;
+} {
+  let inFlight = 0;
+  const provider = {
+    name: 'fake',
+    description: 'Test provider',
+    calls: [] as string[],
+    maxInFlight: 0,
+    async search(query: SearchQuery): Promise<unknown[]> {
+      provider.calls.push(query.industry);
+      inFlight += 1;
+      provider.maxInFlight = Math.max(provider.maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      if (query.industry === 'painters') throw new Error('rate limited');
+      return [
+        createProspect({
+          id: `${query.industry}-1`,
+          name: `${query.industry} co`,
+        }),
+        createProspect({ id: 'shared', name: 'Handy Services' }),
+      ];
+    },
+  };
+  return provider;
+}
+
+describe('Batch runner', () => {
+  const dirs: string[] = [];
+  const tempPath = (name: string): string => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-batch-'));
+    dirs.push(dir);
+    return join(dir, name);
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0))
+      rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run queries with bounded concurrency and record failures', async () => {
+    const provider = createProvider();
+    const progress: BatchProgress[] = [];
+
+    const outcomes = await runBatch(provider, QUERIES, {
+      concurrency: 2,
+      onProgress: (event) => progress.push(event),
+    });
+
+    expect(provider.maxInFlight).toBe(2);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual([
+      'done',
+      'done',
+      'failed',
+    ]);
+    expect(outcomes[2]?.error).toBe('rate limited');
+    expect(progress.map((event) => event.completed)).toEqual([1, 2, 3]);
+  });
+
+  it('should resume from a checkpoint and retry failed queries', async () => {
+    const path = tempPath('batch.checkpoint.json');
+    await runBatch(createProvider(), QUERIES, {
+      concurrency: 1,
+      checkpoint: await BatchCheckpoint.load(path),
+    });
+
+    const provider = createProvider();
+    const progress: BatchProgress[] = [];
+    const outcomes = await runBatch(provider, QUERIES, {
+      concurrency: 1,
+      checkpoint: await BatchCheckpoint.load(path),
+      onProgress: (event) => progress.push(event),
+    });
+
+    expect(provider.calls).toEqual(['painters']);
+    expect(progress.filter((event) => event.resumed)).toHaveLength(2);
+    // Restored prospects are revived into real dates
+    expect(outcomes[0]?.prospects[0]?.extractedAt).toBeInstanceOf(Date);
+  });
+
+  it('should combine outcomes without duplicates', async () => {
+    const outcomes = await runBatch(createProvider(), QUERIES, {
+      concurrency: 3,
+    });
+
+    const combined = combineOutcomes(outcomes);
+
+    expect(combined.prospects.map((prospect) => prospect.id)).toEqual([
+      'plumbers-1',
+      'shared',
+      'roofers-1',
+    ]);
+    expect(combined.duplicatesMerged).toBe(1);
+  });
+
+  it('should merge different listings of the same business', () => {
+    const listing = createProspect({ id: 'a', name: 'Bay Plumbing' });
+    const relisted = createProspect({ id: 'b', name: 'Bay Plumbing LLC' });
+    const query = QUERIES[0] as SearchQuery;
+
+    const combined = combineOutcomes([
+      { query, status: 'done', found: 1, rejected: 0, prospects: [listing] },
+      { query, status: 'done', found: 1, rejected: 0, prospects: [relisted] },
+    ]);
+
+    expect(combined.prospects).toHaveLength(1);
+    expect(combined.duplicatesMerged).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AuditLog,
+  ComplianceGuard,
+  UrlSkippedError,
+} from '../../../../src/core/compliance/index.js';
+import type { DomainPolicy } from '../../../../src/core/compliance/index.js';
+import { createFakeClock, createFakeTransport } from '../../../helpers/http.js';
+import type { FakeResponse } from '../../../helpers/http.js';
+
+describe('ComplianceGuard', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  const setup = (
+    routes: Record<string, FakeResponse | FakeResponse[]>,
+    domains?: DomainPolicy
+  ) => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-compliance-'));
+    dirs.push(dir);
+    const clock = createFakeClock();
+    const transport = createFakeTransport(routes);
+    const audit = new AuditLog(
+      join(dir, 'audit.ndjson'),
+      () => new Date('2024-10-01T00:00:00Z')
+    );
+    const guard = new ComplianceGuard({
+      http: transport,
+      audit,
+      now: clock.now,
+      sleep: clock.sleep,
+      ...(domains ? { domains } : {}),
+    });
+    const auditLog = () =>
+      readFileSync(audit.path, 'utf8')
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+    return { guard, clock, transport, auditLog };
+  };
+
+  it('should fetch allowed pages and skip disallowed ones', async () => {
+    const { guard, transport, auditLog } = setup({
+      'https://shop.example/robots.txt': {
+        body: 'User-agent: *\nDisallow: /members',
+      },
+      'https://shop.example/': { body: '<html></html>' },
+    });
+    const client = guard.client();
+
+    expect((await client.get('https://shop.example/')).status).toBe(200);
+    await expect(client.get('https://shop.example/members')).rejects.toThrow(
+      UrlSkippedError
+    );
+    // robots.txt is fetched once per site
+    expect(transport.requested).toEqual([
+      'https://shop.example/robots.txt',
+      'https://shop.example/',
+    ]);
+    expect(auditLog()).toEqual([
+      {
+        at: '2024-10-01T00:00:00.000Z',
+        url: 'https://shop.example/robots.txt',
+        outcome: 'fetched',
+        status: 200,
+      },
+      {
+        at: '2024-10-01T00:00:00.000Z',
+        url: 'https://shop.example/',
+        outcome: 'fetched',
+        status: 200,
+      },
+      {
+        at: '2024-10-01T00:00:00.000Z',
+        url: 'https://shop.example/members',
+        outcome: 'skipped',
+        reason: 'disallowed by robots.txt',
+      },
+    ]);
+  });
+
+  it('should allow everything without robots.txt and nothing when it fails', async () => {
+    const { guard } = setup({
+      'https://plain.example/robots.txt': { status: 404 },
+      'https://broken.example/robots.txt': { status: 503 },
+    });
+
+    expect(await guard.check('https://plain.example/about')).toBeUndefined();
+    expect(await guard.check('https://broken.example/')).toBe(
+      'disallowed by robots.txt'
+    );
+    expect(await guard.check('https://offline.example/')).toBe(
+      'disallowed by robots.txt'
+    );
+  });
+
+  it('should space requests by the crawl delay', async () => {
+    const { guard, clock } = setup({
+      'https://slow.example/robots.txt': {
+        body: 'User-agent: *\nCrawl-delay: 3',
+      },
+      'https://slow.example/a': { body: 'a' },
+      'https://slow.example/b': { body: 'b' },
+    });
+    const client = guard.client();
+
+    await client.get('https://slow.example/a');
+    clock.advance(1000);
+    await client.get('https://slow.example/b');
+
+    expect(clock.sleeps).toEqual([2000]);
+  });
+
+  it('should apply the domain lists before contacting the site', async () => {
+    const { guard, transport } = setup(
+      {},
+      { allow: ['example.com'], deny: ['*.blocked.example.com'] }
+    );
+
+    expect(await guard.check('https://shop.blocked.example.com/')).toBe(
+      'blocked.example.com is on the deny list'
+    );
+    expect(await guard.check('https://elsewhere.test/')).toBe(
+      'elsewhere.test is not on the allow list'
+    );
+    expect(transport.requested).toEqual([]);
+  });
+});
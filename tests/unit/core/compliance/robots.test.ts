@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  crawlDelay,
+  isAllowedByRobots,
+  parseRobotsTxt,
+} from '../../../../src/core/compliance/index.js';
+
+const ROBOTS = `
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/press/
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: BadBot
+User-agent: d13-business-prospector
+Disallow: /admin
+Allow: /
+Crawl-delay: 5
+`;
+
+describe('robots.txt', () => {
+  const robots = parseRobotsTxt(ROBOTS);
+  const allowed = (agent: string, path: string): boolean =>
+    isAllowedByRobots(robots, agent, `https://shop.example${path}`);
+
+  it('should group consecutive user-agent lines', () => {
+    expect(robots.groups.map((group) => group.agents)).toEqual([
+      ['*'],
+      ['badbot', 'd13-business-prospector'],
+    ]);
+  });
+
+  it('should apply the longest matching rule', () => {
+    expect(allowed('other-bot', '/')).toBe(true);
+    expect(allowed('other-bot', '/private/accounts')).toBe(false);
+    expect(allowed('other-bot', '/private/press/launch')).toBe(true);
+  });
+
+  it('should support wildcards and end anchors', () => {
+    expect(allowed('other-bot', '/menus/dinner.pdf')).toBe(false);
+    expect(allowed('other-bot', '/menus/dinner.pdf?v=2')).toBe(true);
+  });
+
+  it('should prefer the group naming our user agent', () => {
+    expect(allowed('d13-business-prospector', '/private/accounts')).toBe(true);
+    expect(allowed('D13-Business-Prospector', '/admin/login')).toBe(false);
+    expect(crawlDelay(robots, 'd13-business-prospector')).toBe(5);
+    expect(crawlDelay(robots, 'other-bot')).toBe(2);
+  });
+
+  it('should allow everything when nothing matches', () => {
+    const empty = parseRobotsTxt('User-agent: *\nDisallow:\n');
+
+    expect(isAllowedByRobots(empty, 'any', 'https://a.example/x')).toBe(true);
+    expect(crawlDelay(empty, 'any')).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  CrmError,
+  HUBSPOT,
+  HubSpotConnector,
+} from '../../../../src/core/crm/index.js';
+import type { CrmIds } from '../../../../src/core/crm/index.js';
+import { createFetchHttpSender } from '../../../../src/utils/http.js';
+import { createProspect } from '../../../helpers/prospect.js';
+import { startMockServer } from '../../../helpers/server.js';
+import type {
+  MockReply,
+  MockRequest,
+  MockServer,
+} from '../../../helpers/server.js';
+
+describe('HubSpotConnector', () => {
+  const servers: MockServer[] = [];
+  const start = async (
+    handler: (request: MockRequest) => MockReply | undefined
+  ): Promise<{ server: MockServer; connector: HubSpotConnector }> => {
+    const server = await startMockServer(handler);
+    servers.push(server);
+    const connector = new HubSpotConnector({
+      accessToken: 'pat-na1-secret',
+      baseUrl: server.url,
+      sender: createFetchHttpSender(),
+      request: { sleep: async () => {} },
+    });
+    return { server, connector };
+  };
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) await server.close();
+  });
+
+  const record = {
+    company: { name: 'Acme' },
+    contact: { email: 'info@acme.com' },
+    deal: { dealname: 'Acme website' },
+  };
+
+  it('should create objects and associate them to the company', async () => {
+    let next = 1;
+    const { server, connector } = await start((request) =>
+      request.method === 'POST'
+        ? { status: 201, body: { id: `${next++}` } }
+        : {}
+    );
+    const ids: CrmIds = {};
+
+    await connector.upsert(createProspect(), record, ids);
+
+    expect(ids).toEqual({ company: '1', contact: '2', deal: '3' });
+    expect(
+      server.requests.map((request) => `${request.method} ${request.url}`)
+    ).toEqual([
+      'POST /crm/v3/objects/companies',
+      'POST /crm/v3/objects/contacts',
+      'PUT /crm/v4/objects/contacts/2/associations/default/companies/1',
+      'POST /crm/v3/objects/deals',
+      'PUT /crm/v4/objects/deals/3/associations/default/companies/1',
+      'PUT /crm/v4/objects/deals/3/associations/default/contacts/2',
+    ]);
+    expect(server.requests[0]?.headers.authorization).toBe(
+      'Bearer pat-na1-secret'
+    );
+    expect(server.requests[0]?.json).toEqual({
+      properties: { name: 'Acme' },
+    });
+  });
+
+  it('should update known objects and recreate deleted ones', async () => {
+    const { server, connector } = await start((request) => {
+      if (request.url === '/crm/v3/objects/contacts/20') return { status: 404 };
+      if (request.method === 'POST') return { status: 201, body: { id: '21' } };
+      return { body: {} };
+    });
+    const ids: CrmIds = { company: '10', contact: '20', deal: '30' };
+
+    await connector.upsert(createProspect(), record, ids);
+
+    expect(ids).toEqual({ company: '10', contact: '21', deal: '30' });
+    expect(
+      server.requests.map((request) => `${request.method} ${request.url}`)
+    ).toEqual([
+      'PATCH /crm/v3/objects/companies/10',
+      'PATCH /crm/v3/objects/contacts/20',
+      'POST /crm/v3/objects/contacts',
+      'PUT /crm/v4/objects/contacts/21/associations/default/companies/10',
+      'PATCH /crm/v3/objects/deals/30',
+    ]);
+  });
+
+  it('should wait out rate limits and report other errors', async () => {
+    const replies: MockReply[] = [
+      { status: 429, headers: { 'retry-after': '2' } },
+      { status: 400, body: { message: 'Property "zip" does not exist' } },
+    ];
+    const { server, connector } = await start(() => replies.shift());
+    const ids: CrmIds = {};
+
+    const pushing = connector.upsert(
+      createProspect(),
+      { company: { name: 'Acme' } },
+      ids
+    );
+
+    await expect(pushing).rejects.toThrow(CrmError);
+    await expect(pushing).rejects.toThrow(
+      /HTTP 400 \{"message":"Property \\"zip\\" does not exist"\}/
+    );
+    expect(server.requests).toHaveLength(2);
+    expect(ids).toEqual({});
+  });
+
+  it('should need an access token', () => {
+    expect(() =>
+      HUBSPOT.create(
+        { hubspot: {}, pipedrive: {}, webhook: {} },
+        { sender: createFetchHttpSender() }
+      )
+    ).toThrow('HubSpot needs an access token');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CrmMappingError,
+  HUBSPOT,
+  mapProspect,
+  resolveMapping,
+} from '../../../../src/core/crm/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('resolveMapping', () => {
+  it('should lay overrides over the defaults object by object', () => {
+    expect(
+      resolveMapping(
+        {
+          company: { name: 'name', phone: 'contact.phone' },
+          contact: { email: 'contact.email' },
+          deal: { dealname: 'name' },
+        },
+        {
+          company: { phone: '', rating: 'rating' },
+          deal: false,
+        }
+      )
+    ).toEqual({
+      company: { name: 'name', rating: 'rating' },
+      contact: { email: 'contact.email' },
+    });
+  });
+
+  it('should add objects the defaults do not map', () => {
+    expect(
+      resolveMapping({ company: { name: 'name' } }, { deal: { title: 'name' } })
+    ).toEqual({ company: { name: 'name' }, deal: { title: 'name' } });
+  });
+});
+
+describe('mapProspect', () => {
+  it('should map paths, templates and literals', () => {
+    const prospect = createProspect({
+      webPresence: {
+        hasWebsite: false,
+        websiteType: 'none',
+        websiteQuality: 'none',
+        issues: ['No website', 'No online booking'],
+        opportunities: [],
+      },
+    });
+
+    expect(
+      mapProspect(prospect, {
+        company: {
+          name: 'name',
+          rating: 'rating',
+          issues: 'webPresence.issues',
+          hasWebsite: 'webPresence.hasWebsite',
+          website: 'contact.website',
+        },
+        deal: {
+          dealname: '{{name}} website ({{location.city}})',
+          dealstage: '=appointmentscheduled',
+        },
+      })
+    ).toEqual({
+      company: {
+        name: 'Tampa Cleaning Services',
+        rating: 4.5,
+        issues: 'No website; No online booking',
+        hasWebsite: false,
+      },
+      deal: {
+        dealname: 'Tampa Cleaning Services website (Tampa)',
+        dealstage: 'appointmentscheduled',
+      },
+    });
+  });
+
+  it('should leave out objects missing a required property', () => {
+    const prospect = createProspect({
+      contact: { phone: '+18135550123', email: 'unknown' },
+    });
+
+    const record = mapProspect(
+      prospect,
+      resolveMapping(HUBSPOT.mapping),
+      HUBSPOT.required
+    );
+
+    expect(record.contact).toBeUndefined();
+    expect(record.company).toMatchObject({
+      name: 'Tampa Cleaning Services',
+      phone: '+18135550123',
+      zip: '33601',
+    });
+    expect(record.deal).toEqual({
+      dealname: 'Tampa Cleaning Services website',
+      pipeline: 'default',
+      dealstage: 'appointmentscheduled',
+    });
+  });
+
+  it('should reject an invalid template', () => {
+    expect(() =>
+      mapProspect(createProspect(), { deal: { dealname: '{{#if name}}' } })
+    ).toThrow(CrmMappingError);
+  });
+});
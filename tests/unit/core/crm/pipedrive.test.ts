@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { PipedriveConnector } from '../../../../src/core/crm/index.js';
+import type { CrmIds } from '../../../../src/core/crm/index.js';
+import { createFetchHttpSender } from '../../../../src/utils/http.js';
+import { createProspect } from '../../../helpers/prospect.js';
+import { startMockServer } from '../../../helpers/server.js';
+import type {
+  MockReply,
+  MockRequest,
+  MockServer,
+} from '../../../helpers/server.js';
+
+describe('PipedriveConnector', () => {
+  const servers: MockServer[] = [];
+  const start = async (
+    handler: (request: MockRequest) => MockReply | undefined
+  ): Promise<{ server: MockServer; connector: PipedriveConnector }> => {
+    const server = await startMockServer(handler);
+    servers.push(server);
+    const connector = new PipedriveConnector({
+      apiToken: 'pd-secret-token',
+      baseUrl: server.url,
+      sender: createFetchHttpSender(),
+    });
+    return { server, connector };
+  };
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) await server.close();
+  });
+
+  const record = {
+    company: { name: 'Acme' },
+    contact: { name: 'Acme', phone: '+18135550123' },
+    deal: { title: 'Acme website' },
+  };
+
+  it('should create an organization, person and deal linked together', async () => {
+    let next = 7;
+    const { server, connector } = await start(() => ({
+      status: 201,
+      body: { success: true, data: { id: next++ } },
+    }));
+    const ids: CrmIds = {};
+
+    await connector.upsert(createProspect(), record, ids);
+
+    expect(ids).toEqual({ company: '7', contact: '8', deal: '9' });
+    expect(
+      server.requests.map((request) => `${request.method} ${request.url}`)
+    ).toEqual([
+      'POST /v1/organizations?api_token=pd-secret-token',
+      'POST /v1/persons?api_token=pd-secret-token',
+      'POST /v1/deals?api_token=pd-secret-token',
+    ]);
+    expect(server.requests.map((request) => request.json)).toEqual([
+      { name: 'Acme' },
+      { name: 'Acme', phone: '+18135550123', org_id: 7 },
+      { title: 'Acme website', org_id: 7, person_id: 8 },
+    ]);
+  });
+
+  it('should update known objects in place', async () => {
+    const { server, connector } = await start(() => ({
+      body: { success: true, data: {} },
+    }));
+    const ids: CrmIds = { company: '7', contact: '8', deal: '9' };
+
+    await connector.upsert(createProspect(), record, ids);
+
+    expect(ids).toEqual({ company: '7', contact: '8', deal: '9' });
+    expect(server.requests.map((request) => request.method)).toEqual([
+      'PUT',
+      'PUT',
+      'PUT',
+    ]);
+    expect(server.requests[2]?.url).toBe(
+      '/v1/deals/9?api_token=pd-secret-token'
+    );
+  });
+
+  it('should keep the API token out of error messages', async () => {
+    const { connector } = await start(() => ({
+      status: 401,
+      body: { success: false, error: 'unauthorized access' },
+    }));
+
+    const pushing = connector.upsert(createProspect(), record, {});
+
+    await expect(pushing).rejects.toThrow(
+      /POST http:\/\/127\.0\.0\.1:\d+\/v1\/organizations failed: HTTP 401/
+    );
+    await expect(pushing).rejects.not.toThrow(/pd-secret-token/);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CrmLinkStore,
+  WEBHOOK,
+  diffRecords,
+  planPush,
+  planPushes,
+  pushPlans,
+} from '../../../../src/core/crm/index.js';
+import type {
+  CrmConnector,
+  CrmIds,
+  CrmLink,
+  CrmRecord,
+} from '../../../../src/core/crm/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const PUSHED_AT = '2026-10-01T12:00:00.000Z';
+
+/** Connector that numbers new objects and can fail on one object type */
+function createFakeConnector(failOn?: keyof CrmIds): CrmConnector & {
+  calls: { id: string; ids: CrmIds; pushedBefore: boolean }[];
+} {
+  let next = 100;
+  const calls: { id: string; ids: CrmIds; pushedBefore: boolean }[] = [];
+  return {
+    name: 'hubspot',
+    calls,
+    async upsert(prospect, record, ids, pushedBefore): Promise<void> {
+      calls.push({ id: prospect.id, ids: { ...ids }, pushedBefore });
+      for (const type of ['company', 'contact', 'deal'] as const) {
+        if (!record[type]) continue;
+        if (type === failOn) throw new Error(`${type} rejected`);
+        ids[type] ??= String(next++);
+      }
+    },
+  };
+}
+
+describe('diffRecords', () => {
+  it('should list added, changed and removed properties', () => {
+    expect(
+      diffRecords(
+        { company: { name: 'Acme', phone: '1' }, deal: { title: 'Acme' } },
+        { company: { name: 'Acme', phone: '2', city: 'Tampa' } }
+      )
+    ).toEqual([
+      { object: 'company', field: 'phone', before: '1', after: '2' },
+      { object: 'company', field: 'city', after: 'Tampa' },
+      { object: 'deal', field: 'title', before: 'Acme' },
+    ]);
+  });
+});
+
+describe('planPush', () => {
+  const record: CrmRecord = { company: { name: 'Acme' } };
+  const link: CrmLink = {
+    ids: { company: '1' },
+    pushedAt: PUSHED_AT,
+    record,
+  };
+
+  it('should create, update or skip by the last push', () => {
+    const prospect = createProspect();
+
+    expect(planPush(prospect, record).action).toBe('create');
+    expect(planPush(prospect, record, link).action).toBe('unchanged');
+    expect(
+      planPush(prospect, { company: { name: 'Acme Inc' } }, link)
+    ).toMatchObject({
+      action: 'update',
+      changes: [
+        { object: 'company', field: 'name', before: 'Acme', after: 'Acme Inc' },
+      ],
+    });
+  });
+
+  it('should plan with the configured mapping over the default', () => {
+    const [plan] = planPushes([createProspect()], {
+      definition: WEBHOOK,
+      mapping: { company: { category: '', source: '=d13' } },
+      links: {},
+    });
+
+    expect(plan?.record.company).toMatchObject({
+      name: 'Tampa Cleaning Services',
+      source: 'd13',
+    });
+    expect(plan?.record.company).not.toHaveProperty('category');
+  });
+});
+
+describe('pushPlans', () => {
+  const dirs: string[] = [];
+  const createLinks = (): CrmLinkStore => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-crm-'));
+    dirs.push(dir);
+    return new CrmLinkStore(dir);
+  };
+  const now = (): Date => new Date(PUSHED_AT);
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should push once and update from the stored IDs afterwards', async () => {
+    const links = createLinks();
+    const connector = createFakeConnector();
+    const prospect = createProspect();
+    const record: CrmRecord = {
+      company: { name: 'Acme' },
+      deal: { title: 'Acme website' },
+    };
+
+    const [created] = await pushPlans([planPush(prospect, record)], {
+      connector,
+      links,
+      now,
+    });
+    expect(created).toMatchObject({
+      action: 'create',
+      ids: { company: '100', deal: '101' },
+    });
+    expect(await links.list('hubspot')).toEqual({
+      [prospect.id]: {
+        ids: { company: '100', deal: '101' },
+        pushedAt: PUSHED_AT,
+        record,
+      },
+    });
+
+    const stored = await links.list('hubspot');
+    const unchanged = await pushPlans(
+      [planPush(prospect, record, stored[prospect.id])],
+      { connector, links, now }
+    );
+    expect(unchanged[0]?.action).toBe('unchanged');
+    expect(connector.calls).toHaveLength(1);
+
+    const changed: CrmRecord = { ...record, company: { name: 'Acme Inc' } };
+    await pushPlans([planPush(prospect, changed, stored[prospect.id])], {
+      connector,
+      links,
+      now,
+    });
+    expect(connector.calls[1]).toEqual({
+      id: prospect.id,
+      ids: { company: '100', deal: '101' },
+      pushedBefore: true,
+    });
+  });
+
+  it('should keep IDs from a push that failed halfway', async () => {
+    const links = createLinks();
+    const prospect = createProspect();
+    const record: CrmRecord = {
+      company: { name: 'Acme' },
+      contact: { email: 'info@acme.com' },
+    };
+
+    const [failed] = await pushPlans([planPush(prospect, record)], {
+      connector: createFakeConnector('contact'),
+      links,
+      now,
+    });
+    expect(failed?.error).toBe('contact rejected');
+
+    const link = (await links.list('hubspot'))[prospect.id];
+    expect(link).toEqual({
+      ids: { company: '100' },
+      pushedAt: PUSHED_AT,
+      record: {},
+    });
+    // The retry updates the company instead of creating another
+    expect(planPush(prospect, record, link).action).toBe('update');
+  });
+
+  it('should not save a link when nothing was created', async () => {
+    const links = createLinks();
+
+    const [failed] = await pushPlans(
+      [planPush(createProspect(), { company: { name: 'Acme' } })],
+      { connector: createFakeConnector('company'), links, now }
+    );
+
+    expect(failed?.error).toBe('company rejected');
+    expect(await links.list('hubspot')).toEqual({});
+  });
+
+  it('should move merged duplicate links to the kept prospect', async () => {
+    const links = createLinks();
+    const link = (company: string, pushedAt: string): CrmLink => ({
+      ids: { company },
+      pushedAt,
+      record: {},
+    });
+    await links.set('hubspot', 'older', link('1', PUSHED_AT));
+    await links.set('hubspot', 'newer', link('2', '2026-10-02T12:00:00.000Z'));
+    await links.set('webhook', 'kept', link('3', PUSHED_AT));
+    await links.set('webhook', 'newer', link('4', PUSHED_AT));
+
+    await links.merge('kept', ['older', 'newer']);
+    expect(await links.list('hubspot')).toEqual({
+      kept: link('2', '2026-10-02T12:00:00.000Z'),
+    });
+    expect(await links.list('webhook')).toEqual({
+      kept: link('3', PUSHED_AT),
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  WEBHOOK,
+  WebhookConnector,
+  signWebhook,
+  verifyWebhookSignature,
+} from '../../../../src/core/crm/index.js';
+import type { CrmIds } from '../../../../src/core/crm/index.js';
+import { createFetchHttpSender } from '../../../../src/utils/http.js';
+import { createProspect } from '../../../helpers/prospect.js';
+import { startMockServer } from '../../../helpers/server.js';
+import type { MockReply, MockServer } from '../../../helpers/server.js';
+
+const SECRET = 'whsec-test';
+const NOW = Date.parse('2026-10-01T12:00:00Z');
+
+describe('WebhookConnector', () => {
+  const servers: MockServer[] = [];
+  const start = async (
+    reply: MockReply
+  ): Promise<{ server: MockServer; connector: WebhookConnector }> => {
+    const server = await startMockServer(() => reply);
+    servers.push(server);
+    const connector = new WebhookConnector({
+      url: `${server.url}/hooks/prospects`,
+      secret: SECRET,
+      sender: createFetchHttpSender(),
+      now: () => NOW,
+    });
+    return { server, connector };
+  };
+
+  afterEach(async () => {
+    for (const server of servers.splice(0)) await server.close();
+  });
+
+  it('should post a signed payload and keep returned IDs', async () => {
+    const { server, connector } = await start({
+      body: { ids: { company: 4711 } },
+    });
+    const prospect = createProspect();
+    const ids: CrmIds = {};
+
+    await connector.upsert(prospect, { company: { name: 'Acme' } }, ids, false);
+
+    const request = server.requests[0]!;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/hooks/prospects');
+    expect(request.headers['x-d13-timestamp']).toBe(String(NOW / 1000));
+    expect(
+      verifyWebhookSignature(SECRET, request.headers, request.body, {
+        now: NOW,
+      })
+    ).toBe(true);
+    expect(request.json).toMatchObject({
+      event: 'prospect.created',
+      id: prospect.id,
+      ids: {},
+      record: { company: { name: 'Acme' } },
+      prospect: { id: prospect.id, name: prospect.name },
+    });
+    expect(ids).toEqual({ company: '4711' });
+  });
+
+  it('should send later pushes as updates', async () => {
+    const { server, connector } = await start({ status: 204 });
+    const ids: CrmIds = { company: '4711' };
+
+    await connector.upsert(
+      createProspect(),
+      { company: { name: 'Acme' } },
+      ids,
+      true
+    );
+
+    expect(server.requests[0]?.json).toMatchObject({
+      event: 'prospect.updated',
+      ids: { company: '4711' },
+    });
+    expect(ids).toEqual({ company: '4711' });
+  });
+
+  it('should need a URL and secret', () => {
+    expect(() =>
+      WEBHOOK.create(
+        { hubspot: {}, pipedrive: {}, webhook: { url: 'https://example.com' } },
+        { sender: createFetchHttpSender() }
+      )
+    ).toThrow('signing secret');
+  });
+});
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"event":"prospect.created"}';
+  const timestamp = String(NOW / 1000);
+  const headers = {
+    'x-d13-timestamp': timestamp,
+    'x-d13-signature': signWebhook(SECRET, timestamp, body),
+  };
+
+  it('should reject tampered bodies, wrong secrets and stale deliveries', () => {
+    expect(verifyWebhookSignature(SECRET, headers, body, { now: NOW })).toBe(
+      true
+    );
+    expect(
+      verifyWebhookSignature(SECRET, headers, `${body} `, { now: NOW })
+    ).toBe(false);
+    expect(verifyWebhookSignature('other', headers, body, { now: NOW })).toBe(
+      false
+    );
+    expect(
+      verifyWebhookSignature(SECRET, headers, body, {
+        now: NOW + 10 * 60 * 1000,
+      })
+    ).toBe(false);
+    expect(verifyWebhookSignature(SECRET, {}, body, { now: NOW })).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDuplicateClusters,
+  matchProspects,
+  mergeProspects,
+  nameSimilarity,
+  normalizeName,
+  normalizePhoneDigits,
+} from '../../../../src/core/dedupe/index.js';
+import type { BusinessProspect } from '../../../../src/types/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+function listing(
+  id: string,
+  name: string,
+  phone: string,
+  offset: { latitude?: number; longitude?: number } = {},
+  extra: Partial<BusinessProspect> = {}
+): BusinessProspect {
+  const base = createProspect();
+  return createProspect({
+    id,
+    name,
+    contact: { ...base.contact, phone },
+    location: {
+      ...base.location,
+      latitude: base.location.latitude + (offset.latitude ?? 0),
+      longitude: base.location.longitude + (offset.longitude ?? 0),
+    },
+    ...extra,
+  });
+}
+
+describe('Duplicate detection', () => {
+  describe('normalization', () => {
+    it('should drop punctuation and legal suffixes from names', () => {
+      expect(normalizeName('The Bay Area Plumbing Co., LLC')).toBe(
+        'bay area plumbing'
+      );
+      expect(normalizeName("Joe's Tile & Grout")).toBe('joes tile and grout');
+    });
+
+    it('should compare phone numbers by their national digits', () => {
+      expect(normalizePhoneDigits('+1-813-555-0123')).toBe('8135550123');
+      expect(normalizePhoneDigits('(813) 555-0123')).toBe('8135550123');
+      expect(normalizePhoneDigits('+18135550123;ext=4')).toBe('8135550123');
+    });
+
+    it('should score similar names close to 1 and unrelated ones low', () => {
+      expect(nameSimilarity('Bay Area Plumbing Co', 'Bay Area Plumbing')).toBe(
+        1
+      );
+      expect(
+        nameSimilarity('Bay Area Plumbing', 'Bay Area Plumbing & Drain')
+      ).toBeGreaterThan(0.7);
+      expect(
+        nameSimilarity('Bay Area Plumbing', 'Sparkle Cleaning')
+      ).toBeLessThan(0.3);
+    });
+  });
+
+  describe('matchProspects', () => {
+    it('should match the same phone and name despite formatting', () => {
+      const match = matchProspects(
+        listing('a', 'Bay Area Plumbing Co', '+1-813-555-0177'),
+        listing('b', 'Bay Area Plumbing', '(813) 555-0177', {
+          latitude: 0.0002,
+        })
+      );
+
+      expect(match.confidence).toBeGreaterThan(0.9);
+      expect(match.evidence).toEqual({
+        samePhone: true,
+        nameSimilarity: 1,
+        distanceMeters: 22,
+      });
+    });
+
+    it('should match on name and location alone', () => {
+      const match = matchProspects(
+        listing('a', 'Summit Roofing & Repair', '+1-813-555-0108'),
+        listing('b', 'Summit Roofing and Repair LLC', '+1-813-555-9999')
+      );
+
+      expect(match.confidence).toBeGreaterThanOrEqual(0.75);
+    });
+
+    it('should not match different businesses sharing a phone number', () => {
+      const match = matchProspects(
+        listing('a', 'Bay Area Plumbing', '+1-813-555-0177'),
+        listing('b', 'Sparkle Home Cleaning', '+1-813-555-0177')
+      );
+
+      expect(match.confidence).toBe(0);
+    });
+
+    it('should not match similar names in different cities', () => {
+      const match = matchProspects(
+        listing('a', 'Quality Plumbing', '+1-813-555-0101'),
+        listing('b', 'Quality Plumbing Services', '+1-512-555-0101', {
+          latitude: 2.4,
+          longitude: -15.3,
+        })
+      );
+
+      expect(match.confidence).toBeLessThan(0.75);
+    });
+  });
+
+  describe('mergeProspects', () => {
+    it('should keep the newest record and record field provenance', () => {
+      const older = listing(
+        'google-1',
+        'Bay Area Plumbing',
+        '+18135550177',
+        {},
+        {
+          rating: 4.6,
+          reviewCount: 210,
+          extractedAt: new Date('2024-08-01T00:00:00Z'),
+        }
+      );
+      const newer = listing(
+        'yelp-1',
+        'Bay Area Plumbing Co',
+        '+1-813-555-0177',
+        {},
+        {
+          rating: 4.0,
+          reviewCount: 12,
+          extractedAt: new Date('2024-09-01T00:00:00Z'),
+        }
+      );
+      older.contact.website = 'https://bayareaplumbing.example';
+
+      const merged = mergeProspects([older, newer]);
+
+      expect(merged.mergedIds).toEqual(['yelp-1', 'google-1']);
+      expect(merged.prospect.id).toBe('yelp-1');
+      expect(merged.prospect.name).toBe('Bay Area Plumbing Co');
+      expect(merged.prospect.rating).toBe(4.6);
+      expect(merged.prospect.reviewCount).toBe(210);
+      expect(merged.prospect.contact.website).toBe(
+        'https://bayareaplumbing.example'
+      );
+      expect(merged.provenance).toMatchObject({
+        id: 'yelp-1',
+        name: 'yelp-1',
+        rating: 'google-1',
+        'contact.website': 'google-1',
+        'contact.phone': 'yelp-1',
+      });
+      expect(newer.contact.website).toBeUndefined();
+    });
+  });
+
+  describe('findDuplicateClusters', () => {
+    it('should cluster transitive matches and leave singletons out', () => {
+      const prospects = [
+        listing('a', 'Bay Area Plumbing', '+1-813-555-0177'),
+        listing('b', 'Bay Area Plumbing Co', '(813) 555-0177', {
+          latitude: 0.0001,
+        }),
+        listing('c', 'Bay Area Plumbing & Drain', '813.555.0177', {
+          latitude: 0.0002,
+        }),
+        listing('d', 'Sparkle Home Cleaning', '+1-813-555-0142', {
+          latitude: 0.01,
+        }),
+      ];
+
+      const clusters = findDuplicateClusters(prospects);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0]?.ids).toEqual(['a', 'b', 'c']);
+      expect(clusters[0]?.confidence).toBeGreaterThanOrEqual(0.75);
+      expect(clusters[0]?.merged.mergedIds).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { UrlSkippedError } from '../../../../src/core/compliance/index.js';
+import { ContactDiscovery } from '../../../../src/core/enrichment/index.js';
+import { OfflineCacheMissError } from '../../../../src/core/http/index.js';
+import { createFakeTransport } from '../../../helpers/http.js';
+
+const HOME = `
+  <a href="/about-us">About</a>
+  <a href="/contact#form">Contact</a>
+  <a href="https://other.example/contact">Partner</a>
+  <a href="https://m.facebook.com/SummitRoofing/about">Facebook</a>
+  <a href="https://www.facebook.com/sharer/sharer.php?u=summitroofing.com">Share</a>
+  <p>Call us today</p>`;
+
+describe('ContactDiscovery', () => {
+  it('should read the contact pages and linked social profiles', async () => {
+    const http = createFakeTransport({
+      'https://summitroofing.com/': { body: HOME },
+      'https://summitroofing.com/about-us': {
+        body: '<p>Owner: mike [at] summitroofing [dot] com</p>',
+      },
+      'https://summitroofing.com/contact': {
+        body: '<a href="mailto:estimates@summitroofing.com">Email</a> mike@summitroofing.com <a href="https://instagram.com/summit.roofing/">Instagram</a>',
+      },
+      'https://www.facebook.com/summitroofing': new UrlSkippedError(
+        'https://www.facebook.com/summitroofing',
+        'disallowed by robots.txt'
+      ),
+      'https://www.instagram.com/summit.roofing': { status: 404 },
+    });
+    const lookups: string[] = [];
+    const discovery = new ContactDiscovery({
+      http,
+      resolveMx: async (domain) => {
+        lookups.push(domain);
+        return [`mx.${domain}`];
+      },
+    });
+
+    const result = await discovery.discover('https://summitroofing.com/');
+
+    expect(http.requested).not.toContain('https://other.example/contact');
+    expect(result.pages).toEqual([
+      'https://summitroofing.com/',
+      'https://summitroofing.com/about-us',
+      'https://summitroofing.com/contact',
+    ]);
+    expect(result.skipped).toEqual([
+      'https://www.facebook.com/summitroofing: disallowed by robots.txt',
+      'https://www.instagram.com/summit.roofing: HTTP 404',
+    ]);
+    expect(lookups).toEqual(['summitroofing.com']);
+    expect(result.socialMedia).toEqual([
+      {
+        platform: 'facebook',
+        url: 'https://www.facebook.com/summitroofing',
+        handle: 'summitroofing',
+      },
+      {
+        platform: 'instagram',
+        url: 'https://www.instagram.com/summit.roofing',
+        handle: 'summit.roofing',
+      },
+    ]);
+    expect(
+      result.emails.map(({ address, source, confidence, role, mx }) => ({
+        address,
+        source,
+        confidence,
+        role,
+        mx,
+      }))
+    ).toEqual([
+      {
+        address: 'estimates@summitroofing.com',
+        source: 'mailto',
+        confidence: 0.95,
+        role: true,
+        mx: true,
+      },
+      // Found on two pages, once in plain text
+      {
+        address: 'mike@summitroofing.com',
+        source: 'text',
+        confidence: 0.9,
+        role: false,
+        mx: true,
+      },
+    ]);
+  });
+
+  it('should read a Facebook-only business from its page', async () => {
+    const url = 'https://www.facebook.com/casalupita';
+    const http = createFakeTransport({
+      [url]: { body: '<div>casalupita@gmail.com</div>' },
+    });
+
+    const result = await new ContactDiscovery({ http }).discover(url);
+
+    expect(result.socialMedia).toEqual([
+      { platform: 'facebook', url, handle: 'casalupita' },
+    ]);
+    expect(result.emails).toEqual([
+      {
+        address: 'casalupita@gmail.com',
+        source: 'social',
+        url,
+        confidence: 0.5,
+        role: false,
+        disposable: false,
+      },
+    ]);
+  });
+
+  it('should find nothing without a website', async () => {
+    const http = createFakeTransport({});
+
+    expect(await new ContactDiscovery({ http }).discover(undefined)).toEqual({
+      emails: [],
+      socialMedia: [],
+      pages: [],
+      skipped: [],
+    });
+  });
+
+  it('should not treat an offline cache miss as a missing page', async () => {
+    const http = createFakeTransport({
+      'https://summitroofing.com/': new OfflineCacheMissError(
+        'https://summitroofing.com/'
+      ),
+    });
+
+    await expect(
+      new ContactDiscovery({ http }).discover('https://summitroofing.com/')
+    ).rejects.toThrow(OfflineCacheMissError);
+  });
+});
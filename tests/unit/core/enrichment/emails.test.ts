@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bestEmail,
+  decodeCloudflareEmail,
+  extractEmails,
+  mergeDiscoveredEmails,
+  scoreEmails,
+} from '../../../../src/core/enrichment/index.js';
+import type { DiscoveredEmail } from '../../../../src/types/index.js';
+
+const PAGE = 'https://summitroofing.com/contact';
+
+describe('Email extraction', () => {
+  it('should find mailto links and plain-text addresses', () => {
+    const html = `
+      <a href="mailto:Estimates@SummitRoofing.com?subject=Quote">Email us</a>
+      <p>Or write to mike@summitroofing.com.</p>
+      <script>var dsn = "key@o1.ingest.sentry.io";</script>
+      <img src="logo@2x.png" />`;
+
+    expect(extractEmails(html, PAGE)).toEqual([
+      { address: 'estimates@summitroofing.com', source: 'mailto', url: PAGE },
+      { address: 'mike@summitroofing.com', source: 'text', url: PAGE },
+    ]);
+  });
+
+  it('should skip mailto links with malformed percent escapes', () => {
+    const html = `
+      <a href="mailto:sales%ZZ@summitroofing.com">Sales</a>
+      <a href="mailto:mike%40summitroofing.com">Mike</a>`;
+
+    expect(extractEmails(html, PAGE)).toEqual([
+      { address: 'mike@summitroofing.com', source: 'mailto', url: PAGE },
+    ]);
+  });
+
+  it('should decode obfuscated addresses', () => {
+    const cloudflare = '5a293b363f291a292f3737332e2835353c33343d74393537';
+    const html = `
+      <p>mike [at] summitroofing [dot] com</p>
+      <p>office&#64;summitroofing&#46;com</p>
+      <a class="__cf_email__" data-cfemail="${cloudflare}">[email&#160;protected]</a>`;
+
+    expect(decodeCloudflareEmail(cloudflare)).toBe('sales@summitroofing.com');
+    expect(extractEmails(html, PAGE).map((found) => found.address)).toEqual([
+      'sales@summitroofing.com',
+      'office@summitroofing.com',
+      'mike@summitroofing.com',
+    ]);
+    expect(
+      extractEmails(html, PAGE).every((found) => found.source === 'obfuscated')
+    ).toBe(true);
+  });
+
+  it('should label everything found on a social page as social', () => {
+    const html = '<div>Email: casalupita@gmail.com</div>';
+
+    expect(
+      extractEmails(html, 'https://www.facebook.com/casalupita', 'social')
+    ).toEqual([
+      {
+        address: 'casalupita@gmail.com',
+        source: 'social',
+        url: 'https://www.facebook.com/casalupita',
+      },
+    ]);
+  });
+});
+
+describe('Email scoring', () => {
+  const website = 'https://www.summitroofing.com/';
+
+  it('should trust addresses at the website domain found in several places', () => {
+    const emails = scoreEmails(
+      [
+        { address: 'mike@summitroofing.com', source: 'text', url: PAGE },
+        {
+          address: 'mike@summitroofing.com',
+          source: 'mailto',
+          url: 'https://summitroofing.com/',
+        },
+        {
+          address: 'roofer77@gmail.com',
+          source: 'social',
+          url: 'https://facebook.com/summit',
+        },
+      ],
+      { website }
+    );
+
+    expect(emails).toEqual([
+      {
+        address: 'mike@summitroofing.com',
+        source: 'mailto',
+        url: 'https://summitroofing.com/',
+        confidence: 1,
+        role: false,
+        disposable: false,
+      },
+      {
+        address: 'roofer77@gmail.com',
+        source: 'social',
+        url: 'https://facebook.com/summit',
+        confidence: 0.5,
+        role: false,
+        disposable: false,
+      },
+    ]);
+  });
+
+  it('should demote disposable addresses and domains without mail servers', () => {
+    const emails = scoreEmails(
+      [
+        { address: 'info@summitroofing.com', source: 'text', url: PAGE },
+        { address: 'deals@mailinator.com', source: 'mailto', url: PAGE },
+        { address: 'mike@old-summit.net', source: 'mailto', url: PAGE },
+      ],
+      { website, mx: { 'summitroofing.com': true, 'old-summit.net': false } }
+    );
+
+    expect(
+      emails.map(({ address, confidence, role, mx }) => ({
+        address,
+        confidence,
+        role,
+        mx,
+      }))
+    ).toEqual([
+      {
+        address: 'info@summitroofing.com',
+        confidence: 0.85,
+        role: true,
+        mx: true,
+      },
+      {
+        address: 'deals@mailinator.com',
+        confidence: 0.1,
+        role: false,
+        mx: undefined,
+      },
+      {
+        address: 'mike@old-summit.net',
+        confidence: 0.05,
+        role: false,
+        mx: false,
+      },
+    ]);
+    expect(bestEmail(emails)?.address).toBe('info@summitroofing.com');
+    expect(bestEmail(emails.slice(1))).toBeUndefined();
+  });
+
+  it('should keep earlier addresses and take the latest finding of each', () => {
+    const found = (address: string, confidence: number): DiscoveredEmail => ({
+      address,
+      source: 'text',
+      url: PAGE,
+      confidence,
+      role: false,
+      disposable: false,
+    });
+    const earlier = [
+      found('roofer77@gmail.com', 0.4),
+      found('mike@summitroofing.com', 0.7),
+    ];
+
+    expect(mergeDiscoveredEmails(earlier, [])).toEqual([
+      found('mike@summitroofing.com', 0.7),
+      found('roofer77@gmail.com', 0.4),
+    ]);
+    expect(
+      mergeDiscoveredEmails(earlier, [found('roofer77@gmail.com', 0.9)])
+    ).toEqual([
+      found('roofer77@gmail.com', 0.9),
+      found('mike@summitroofing.com', 0.7),
+    ]);
+  });
+});
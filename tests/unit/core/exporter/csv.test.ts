@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeCsvField,
+  formatCsvRow,
+  parseCsv,
+  parseCsvRecords,
+} from '../../../../src/core/exporter/index.js';
+
+describe('CSV (RFC 4180)', () => {
+  describe('escapeCsvField', () => {
+    it('should leave plain values unquoted', () => {
+      expect(escapeCsvField('Tampa')).toBe('Tampa');
+      expect(escapeCsvField(4.5)).toBe('4.5');
+      expect(escapeCsvField(null)).toBe('');
+    });
+
+    it('should quote commas, quotes and line breaks', () => {
+      expect(escapeCsvField('Tampa, FL')).toBe('"Tampa, FL"');
+      expect(escapeCsvField('Joe "The Plumber"')).toBe('"Joe ""The Plumber"""');
+      expect(escapeCsvField('line one\nline two')).toBe('"line one\nline two"');
+    });
+  });
+
+  it('should terminate rows with CRLF', () => {
+    expect(formatCsvRow(['a', 1, true, null])).toBe('a,1,true,\r\n');
+  });
+
+  it('should parse quoted fields, escaped quotes and embedded newlines', () => {
+    const text = 'name,notes\r\n"Joe ""The Plumber""","a, b\r\nc"\r\nAl,\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['name', 'notes'],
+      ['Joe "The Plumber"', 'a, b\r\nc'],
+      ['Al', ''],
+    ]);
+  });
+
+  it('should accept LF line endings, a BOM and a missing final newline', () => {
+    expect(parseCsv('\uFEFFa,b\n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should reject an unterminated quoted field', () => {
+    expect(() => parseCsv('a\n"oops')).toThrow(/unterminated/);
+  });
+
+  it('should key records by header and skip blank lines', () => {
+    expect(parseCsvRecords('id,name\n1,Joe\n\n2,Al\n')).toEqual([
+      { id: '1', name: 'Joe' },
+      { id: '2', name: 'Al' },
+    ]);
+  });
+});
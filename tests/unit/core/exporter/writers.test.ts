@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import ExcelJS from 'exceljs';
+import {
+  PROSPECT_COLUMNS,
+  flattenProspect,
+  importProspectsCsv,
+  selectColumns,
+  toSheetName,
+  writeProspects,
+} from '../../../../src/core/exporter/index.js';
+import type { ExportFormat } from '../../../../src/core/exporter/index.js';
+import type { BusinessProspect } from '../../../../src/types/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+async function exportToBuffer(
+  prospects: BusinessProspect[],
+  format: ExportFormat,
+  fields?: string[]
+): Promise<Buffer> {
+  const stream = new PassThrough();
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(Buffer.from(chunk)));
+  await writeProspects(prospects, format, stream, fields ? { fields } : {});
+  stream.end();
+  return Buffer.concat(chunks);
+}
+
+const richProspect = createProspect({
+  id: 'rich-1',
+  name: 'Joe "The Plumber", LLC',
+  category: 'Plumbing',
+  contact: {
+    phone: '+18135550123',
+    phoneType: 'landlineOrMobile',
+    email: 'joe@example.com',
+    website: 'https://joe.example',
+  },
+  webPresence: {
+    hasWebsite: true,
+    websiteType: 'template',
+    websiteQuality: 'poor',
+    issues: ['No mobile viewport', 'Missing meta description'],
+    opportunities: ['Mobile-friendly responsive design'],
+  },
+  templateConfig: {
+    company: { name: 'Joe "The Plumber", LLC', foundingYear: 1998 },
+    contact: {
+      phone: '+18135550123',
+      email: 'joe@example.com',
+      address: {
+        street: '123 Main St',
+        city: 'Tampa',
+        state: 'FL',
+        zipCode: '33601',
+        country: 'USA',
+      },
+    },
+    hours: { monday: '8:00 AM - 5:00 PM', christmas: 'Closed' },
+    socialMedia: [
+      { platform: 'facebook', url: 'https://facebook.com/joe', handle: 'joe' },
+    ],
+    rating: { average: 4.5, count: 127, source: 'google' },
+    seo: { keywords: ['plumber tampa', 'drain cleaning'] },
+    schema: { businessType: 'Plumber', priceRange: '$$' },
+    services: {
+      primary: 'Drain Cleaning',
+      categories: ['residential', 'commercial'],
+      descriptions: { residential: 'Homes,\nsmall and large' },
+    },
+  },
+});
+
+describe('Prospect export', () => {
+  describe('columns', () => {
+    it('should flatten nested fields into stable dotted columns', () => {
+      const flat = flattenProspect(richProspect);
+
+      expect(Object.keys(flat)).toEqual(PROSPECT_COLUMNS.map((c) => c.key));
+      expect(flat['location.city']).toBe('Tampa');
+      expect(flat['webPresence.issues']).toBe(
+        'No mobile viewport | Missing meta description'
+      );
+      expect(flat['templateConfig.company.legalName']).toBeNull();
+      expect(flat['extractedAt']).toBe('2024-09-18T22:30:00.000Z');
+    });
+
+    it('should select columns by key or prefix in canonical order', () => {
+      expect(
+        selectColumns(['contact.phone', 'name']).map((c) => c.key)
+      ).toEqual(['name', 'contact.phone']);
+      expect(selectColumns(['contact']).map((c) => c.key)).toEqual([
+        'contact.phone',
+        'contact.phoneType',
+        'contact.email',
+        'contact.website',
+      ]);
+    });
+
+    it('should reject unknown fields', () => {
+      expect(() => selectColumns(['name', 'nope'])).toThrow(
+        'Unknown field(s): nope'
+      );
+    });
+  });
+
+  describe('writeProspects', () => {
+    it('should round-trip CSV back through BusinessProspectSchema', async () => {
+      const plain = createProspect({ id: 'plain-1' });
+      const csv = (await exportToBuffer([richProspect, plain], 'csv')).toString(
+        'utf8'
+      );
+
+      const result = importProspectsCsv(csv);
+
+      expect(result.errors).toEqual([]);
+      expect(result.prospects).toEqual([richProspect, plain]);
+    });
+
+    it('should number import errors by their line in the file', async () => {
+      const csv = (
+        await exportToBuffer([createProspect({ id: 'ok-1' })], 'csv')
+      ).toString('utf8');
+      const [header, row] = csv.split('\r\n');
+
+      const result = importProspectsCsv(`${header}\r\n${row}\r\n\r\nbad-1\r\n`);
+
+      expect(result.prospects).toHaveLength(1);
+      expect(result.errors).toEqual([{ row: 4, message: expect.any(String) }]);
+    });
+
+    it('should write a CSV header of the selected fields', async () => {
+      const csv = (
+        await exportToBuffer([richProspect], 'csv', ['id', 'name'])
+      ).toString('utf8');
+
+      expect(csv).toBe('id,name\r\nrich-1,"Joe ""The Plumber"", LLC"\r\n');
+    });
+
+    it('should write one JSON object per line for NDJSON', async () => {
+      const ndjson = (
+        await exportToBuffer(
+          [richProspect, createProspect({ id: 'b' })],
+          'ndjson'
+        )
+      ).toString('utf8');
+      const lines = ndjson.trimEnd().split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1] as string).id).toBe('b');
+    });
+
+    it('should emit flat records for JSON when fields are selected', async () => {
+      const json = (
+        await exportToBuffer([richProspect], 'json', ['id', 'location.city'])
+      ).toString('utf8');
+
+      expect(JSON.parse(json)).toEqual([
+        { id: 'rich-1', 'location.city': 'Tampa' },
+      ]);
+    });
+
+    it('should write one XLSX sheet per category', async () => {
+      const buffer = await exportToBuffer(
+        [
+          richProspect,
+          createProspect({ id: 'c1' }),
+          createProspect({ id: 'c2' }),
+        ],
+        'xlsx',
+        ['id', 'name', 'rating']
+      );
+      const workbook = new ExcelJS.Workbook();
+      // exceljs types predate the generic Node Buffer
+      await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+
+      expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual([
+        'Plumbing',
+        'Cleaning Services',
+      ]);
+      const cleaning = workbook.getWorksheet('Cleaning Services');
+      expect(cleaning?.rowCount).toBe(3);
+      expect(cleaning?.getRow(1).values).toEqual([
+        undefined,
+        'id',
+        'name',
+        'rating',
+      ]);
+      expect(cleaning?.getRow(2).getCell(3).value).toBe(4.5);
+    });
+  });
+
+  describe('toSheetName', () => {
+    it('should strip invalid characters, truncate and de-duplicate', () => {
+      const taken = new Set<string>();
+
+      expect(toSheetName('HVAC / Heating: Repair [24h]', taken)).toBe(
+        'HVAC Heating Repair 24h'
+      );
+      expect(toSheetName('A'.repeat(40), taken)).toBe('A'.repeat(31));
+      expect(toSheetName('a'.repeat(40), taken)).toBe(`${'a'.repeat(27)} (2)`);
+    });
+  });
+});
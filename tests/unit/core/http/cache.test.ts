@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  HttpMetrics,
+  OfflineCacheMissError,
+  withCache,
+} from '../../../../src/core/http/index.js';
+import { createFakeClock, createFakeTransport } from '../../../helpers/http.js';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Response cache', () => {
+  const dirs: string[] = [];
+  const cacheDir = (): string => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-http-cache-'));
+    dirs.push(dir);
+    return join(dir, 'http-cache');
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should serve repeat requests from disk until the TTL passes', async () => {
+    const clock = createFakeClock();
+    const metrics = new HttpMetrics();
+    const transport = createFakeTransport({
+      'https://a.com/': [{ body: 'first' }, { body: 'second' }],
+    });
+    const client = withCache(transport, {
+      dir: cacheDir(),
+      ttlMs: HOUR,
+      metrics,
+      now: clock.now,
+    });
+
+    expect((await client.get('https://a.com/')).body).toBe('first');
+    clock.advance(HOUR - 1);
+    expect((await client.get('https://a.com/')).body).toBe('first');
+    clock.advance(2);
+    expect((await client.get('https://a.com/')).body).toBe('second');
+    expect(transport.requested).toHaveLength(2);
+    expect(metrics.byHost()['a.com']?.cacheHits).toBe(1);
+  });
+
+  it('should not cache transient failures', async () => {
+    const transport = createFakeTransport({
+      'https://a.com/': [{ status: 503 }, { status: 200 }],
+    });
+    const client = withCache(transport, { dir: cacheDir(), ttlMs: HOUR });
+
+    expect((await client.get('https://a.com/')).status).toBe(503);
+    expect((await client.get('https://a.com/')).status).toBe(200);
+  });
+
+  it('should serve stale entries offline and never fetch', async () => {
+    const dir = cacheDir();
+    const clock = createFakeClock();
+    const online = withCache(
+      createFakeTransport({ 'https://a.com/': { body: 'cached' } }),
+      { dir, ttlMs: HOUR, now: clock.now }
+    );
+    await online.get('https://a.com/');
+    clock.advance(30 * HOUR);
+
+    const transport = createFakeTransport({});
+    const offline = withCache(transport, {
+      dir,
+      ttlMs: HOUR,
+      offline: true,
+      now: clock.now,
+    });
+
+    expect((await offline.get('https://a.com/')).body).toBe('cached');
+    await expect(offline.get('https://b.com/')).rejects.toThrow(
+      OfflineCacheMissError
+    );
+    expect(transport.requested).toEqual([]);
+  });
+});
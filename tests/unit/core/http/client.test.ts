@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createHttpLayer } from '../../../../src/core/http/index.js';
+import { createFakeClock, createFakeTransport } from '../../../helpers/http.js';
+
+describe('HTTP layer', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should combine cache, retries and rate limiting with metrics', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-http-'));
+    dirs.push(dir);
+    const clock = createFakeClock();
+    const transport = createFakeTransport({
+      'https://a.com/': [
+        { status: 429, headers: { 'retry-after': '2' } },
+        { body: 'ok' },
+      ],
+      'https://b.com/': { body: 'ok' },
+    });
+    const { client, metrics } = createHttpLayer({
+      transport,
+      requestsPerSecond: 1,
+      cache: { dir, ttlMs: 60_000 },
+      now: clock.now,
+      sleep: clock.sleep,
+    });
+
+    await client.get('https://a.com/');
+    await client.get('https://a.com/');
+    await client.get('https://b.com/');
+
+    expect(transport.requested).toEqual([
+      'https://a.com/',
+      'https://a.com/',
+      'https://b.com/',
+    ]);
+    expect(metrics.byHost()).toEqual({
+      'a.com': {
+        requests: 2,
+        networkRequests: 2,
+        cacheHits: 1,
+        retries: 1,
+        rateLimited: 1,
+        failures: 0,
+        waitedMs: 2000,
+      },
+      'b.com': {
+        requests: 1,
+        networkRequests: 1,
+        cacheHits: 0,
+        retries: 0,
+        rateLimited: 0,
+        failures: 0,
+        waitedMs: 0,
+      },
+    });
+    expect(metrics.total().requests).toBe(3);
+    expect(metrics.format()[0]).toBe(
+      'a.com: 2 request(s), 1 from cache, 1 retry, 1 rate-limited, 0 failed, waited 2.0s'
+    );
+  });
+
+  it('should refuse offline mode without a cache', () => {
+    expect(() =>
+      createHttpLayer({ requestsPerSecond: 1, offline: true })
+    ).toThrow('Offline mode needs the response cache');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HostRateLimiter,
+  HttpMetrics,
+  withRateLimit,
+} from '../../../../src/core/http/index.js';
+import { createFakeClock, createFakeTransport } from '../../../helpers/http.js';
+
+describe('Rate limiting', () => {
+  describe('HostRateLimiter', () => {
+    it('should allow a burst, then space requests by the refill rate', () => {
+      const clock = createFakeClock();
+      const limiter = new HostRateLimiter(2, 2, clock.now);
+
+      expect(limiter.reserve('a.com')).toBe(0);
+      expect(limiter.reserve('a.com')).toBe(0);
+      expect(limiter.reserve('a.com')).toBe(500);
+      expect(limiter.reserve('a.com')).toBe(1000);
+      // Other hosts have their own bucket
+      expect(limiter.reserve('b.com')).toBe(0);
+    });
+
+    it('should refill over time up to the burst size', () => {
+      const clock = createFakeClock();
+      const limiter = new HostRateLimiter(1, 2, clock.now);
+      limiter.reserve('a.com');
+      limiter.reserve('a.com');
+
+      clock.advance(10_000);
+
+      expect(limiter.reserve('a.com')).toBe(0);
+      expect(limiter.reserve('a.com')).toBe(0);
+      expect(limiter.reserve('a.com')).toBe(1000);
+    });
+
+    it('should reject a rate that is not positive', () => {
+      expect(() => new HostRateLimiter(0)).toThrow('Invalid rate limit');
+    });
+  });
+
+  describe('withRateLimit', () => {
+    it('should wait before requests over the limit and record the wait', async () => {
+      const clock = createFakeClock();
+      const metrics = new HttpMetrics();
+      const client = withRateLimit(
+        createFakeTransport({ 'https://a.com/': { body: 'ok' } }),
+        { requestsPerSecond: 1, metrics, now: clock.now, sleep: clock.sleep }
+      );
+
+      for (let i = 0; i < 3; i++) await client.get('https://a.com/');
+
+      expect(clock.sleeps).toEqual([1000, 1000]);
+      expect(metrics.byHost()['a.com']).toMatchObject({
+        networkRequests: 3,
+        waitedMs: 2000,
+      });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HttpMetrics,
+  retryAfterMs,
+  withRetry,
+} from '../../../../src/core/http/index.js';
+import { createFakeClock, createFakeTransport } from '../../../helpers/http.js';
+
+const URL = 'https://api.example.com/search';
+
+describe('Retry with backoff', () => {
+  const setup = (
+    responses: Parameters<typeof createFakeTransport>[0][string]
+  ) => {
+    const clock = createFakeClock(Date.parse('2024-10-01T00:00:00Z'));
+    const metrics = new HttpMetrics();
+    const transport = createFakeTransport({ [URL]: responses });
+    const client = withRetry(transport, {
+      maxRetries: 3,
+      baseDelayMs: 100,
+      metrics,
+      now: clock.now,
+      sleep: clock.sleep,
+      random: () => 1,
+    });
+    return { client, clock, metrics, transport };
+  };
+
+  it('should back off exponentially on transient failures', async () => {
+    const { client, clock, metrics } = setup([
+      { status: 503 },
+      new Error('ECONNRESET'),
+      { status: 200, body: 'ok' },
+    ]);
+
+    const response = await client.get(URL);
+
+    expect(response.body).toBe('ok');
+    expect(clock.sleeps).toEqual([100, 200]);
+    expect(metrics.byHost()['api.example.com']).toMatchObject({
+      retries: 2,
+      failures: 0,
+    });
+  });
+
+  it('should wait as long as Retry-After asks', async () => {
+    const { client, clock, metrics } = setup([
+      { status: 429, headers: { 'retry-after': '7' } },
+      {
+        status: 429,
+        headers: { 'retry-after': 'Tue, 01 Oct 2024 00:00:10 GMT' },
+      },
+      { status: 200 },
+    ]);
+
+    await client.get(URL);
+
+    // The second Retry-After date is 3 s after the clock has moved to 0:07
+    expect(clock.sleeps).toEqual([7000, 3000]);
+    expect(metrics.byHost()['api.example.com']?.rateLimited).toBe(2);
+  });
+
+  it('should give up after the last retry', async () => {
+    const { client, transport, metrics } = setup({ status: 500 });
+
+    expect((await client.get(URL)).status).toBe(500);
+    expect(transport.requested).toHaveLength(4);
+    expect(metrics.byHost()['api.example.com']?.failures).toBe(1);
+
+    const failing = setup(new Error('ETIMEDOUT'));
+    await expect(failing.client.get(URL)).rejects.toThrow('ETIMEDOUT');
+  });
+
+  it('should not retry client errors', async () => {
+    const { client, transport } = setup({ status: 404 });
+
+    expect((await client.get(URL)).status).toBe(404);
+    expect(transport.requested).toHaveLength(1);
+  });
+
+  it('should read Retry-After as seconds or a date', () => {
+    const response = (value: string) => ({
+      url: URL,
+      status: 429,
+      headers: { 'retry-after': value },
+      body: '',
+    });
+
+    expect(retryAfterMs(response('120'))).toBe(120_000);
+    expect(
+      retryAfterMs(
+        response('Tue, 01 Oct 2024 00:01:00 GMT'),
+        Date.parse('2024-10-01T00:00:00Z')
+      )
+    ).toBe(60_000);
+    expect(retryAfterMs(response('soon'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  LeadError,
+  LeadStore,
+  dueLeads,
+  mergeLeads,
+  parseFollowUp,
+  withoutDoNotContact,
+} from '../../../../src/core/leads/index.js';
+import type { Lead } from '../../../../src/core/leads/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const lead = (overrides: Partial<Lead> = {}): Lead => ({
+  status: 'new',
+  notes: [],
+  updatedAt: '2026-10-01T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('parseFollowUp', () => {
+  const now = new Date(2026, 9, 19, 15, 30);
+
+  it('should accept dates and offsets from today', () => {
+    expect(parseFollowUp('2026-11-02', now)).toBe('2026-11-02');
+    expect(parseFollowUp('today', now)).toBe('2026-10-19');
+    expect(parseFollowUp('Tomorrow', now)).toBe('2026-10-20');
+    expect(parseFollowUp('+3d', now)).toBe('2026-10-22');
+    expect(parseFollowUp('+2w', now)).toBe('2026-11-02');
+    expect(parseFollowUp('none', now)).toBeNull();
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseFollowUp('next week', now)).toThrow(LeadError);
+    expect(() => parseFollowUp('2026-02-30', now)).toThrow(
+      'Invalid follow-up date "2026-02-30"'
+    );
+  });
+});
+
+describe('dueLeads', () => {
+  it('should list open leads due by the date, earliest first', () => {
+    const due = dueLeads(
+      {
+        later: lead({ followUp: '2026-10-25' }),
+        overdue: lead({ status: 'contacted', followUp: '2026-10-10' }),
+        today: lead({ status: 'demo-sent', followUp: '2026-10-19' }),
+        won: lead({ status: 'won', followUp: '2026-10-01' }),
+        blocked: lead({ status: 'do-not-contact', followUp: '2026-10-01' }),
+        unscheduled: lead(),
+      },
+      '2026-10-19'
+    );
+    expect(due.map(([id]) => id)).toEqual(['overdue', 'today']);
+  });
+});
+
+describe('withoutDoNotContact', () => {
+  it('should drop prospects marked do-not-contact', () => {
+    const prospects = [
+      createProspect({ id: 'a' }),
+      createProspect({ id: 'b' }),
+      createProspect({ id: 'c' }),
+    ];
+    const kept = withoutDoNotContact(prospects, {
+      a: lead({ status: 'lost' }),
+      b: lead({ status: 'do-not-contact' }),
+    });
+    expect(kept.map((prospect) => prospect.id)).toEqual(['a', 'c']);
+  });
+});
+
+describe('mergeLeads', () => {
+  it('should keep the most restrictive status and every note', () => {
+    const merged = mergeLeads([
+      lead({
+        status: 'demo-sent',
+        owner: 'dana',
+        notes: [{ at: '2026-10-05T09:00:00.000Z', text: 'Sent the demo' }],
+      }),
+      lead({
+        status: 'do-not-contact',
+        followUp: '2026-10-21',
+        notes: [{ at: '2026-10-02T09:00:00.000Z', text: 'Asked not to call' }],
+        updatedAt: '2026-10-02T09:00:00.000Z',
+      }),
+      lead({ status: 'won' }),
+    ]);
+
+    expect(merged).toEqual({
+      status: 'do-not-contact',
+      owner: 'dana',
+      followUp: '2026-10-21',
+      notes: [
+        { at: '2026-10-02T09:00:00.000Z', text: 'Asked not to call' },
+        { at: '2026-10-05T09:00:00.000Z', text: 'Sent the demo' },
+      ],
+      updatedAt: '2026-10-02T09:00:00.000Z',
+    });
+    expect(mergeLeads([lead({ status: 'lost' }), lead()]).status).toBe('lost');
+  });
+});
+
+describe('LeadStore', () => {
+  const dirs: string[] = [];
+  const createStore = (): LeadStore => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-leads-'));
+    dirs.push(dir);
+    return new LeadStore(dir);
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should start a new lead on the first change', async () => {
+    const store = createStore();
+    expect(await store.list()).toEqual({});
+
+    const saved = await store.update(
+      'prospect-123',
+      { owner: 'dana', followUp: '2026-10-21' },
+      new Date('2026-10-19T10:00:00.000Z')
+    );
+    expect(saved).toEqual({
+      status: 'new',
+      owner: 'dana',
+      followUp: '2026-10-21',
+      notes: [],
+      updatedAt: '2026-10-19T10:00:00.000Z',
+    });
+    expect(await store.get('prospect-123')).toEqual(saved);
+  });
+
+  it('should keep notes in order and clear fields set to null', async () => {
+    const store = createStore();
+    await store.update(
+      'prospect-123',
+      {
+        status: 'contacted',
+        owner: 'dana',
+        followUp: '2026-10-21',
+        note: { text: 'Left a voicemail', author: 'dana' },
+      },
+      new Date('2026-10-19T10:00:00.000Z')
+    );
+    const saved = await store.update(
+      'prospect-123',
+      { owner: null, followUp: null, note: { text: '  Asked for a demo ' } },
+      new Date('2026-10-20T11:00:00.000Z')
+    );
+
+    expect(saved).toEqual({
+      status: 'contacted',
+      notes: [
+        {
+          at: '2026-10-19T10:00:00.000Z',
+          text: 'Left a voicemail',
+          author: 'dana',
+        },
+        { at: '2026-10-20T11:00:00.000Z', text: 'Asked for a demo' },
+      ],
+      updatedAt: '2026-10-20T11:00:00.000Z',
+    });
+  });
+
+  it('should delete leads', async () => {
+    const store = createStore();
+    await store.update('prospect-123', { status: 'won' });
+    expect(await store.delete('prospect-123')).toBe(true);
+    expect(await store.delete('prospect-123')).toBe(false);
+    expect(await store.list()).toEqual({});
+  });
+
+  it('should move duplicate leads to the kept prospect', async () => {
+    const store = createStore();
+    await store.update('duplicate', {
+      status: 'do-not-contact',
+      note: { text: 'Asked not to call' },
+    });
+    await store.update('other', { status: 'contacted' });
+
+    const merged = await store.merge('kept', ['duplicate']);
+    expect(merged?.status).toBe('do-not-contact');
+    expect(await store.list()).toEqual({
+      other: expect.objectContaining({ status: 'contacted' }),
+      kept: merged,
+    });
+    expect(await store.merge('unknown', ['missing'])).toBeUndefined();
+  });
+
+  it('should reject an invalid leads file', async () => {
+    const store = createStore();
+    writeFileSync(
+      join(store.dataDir, 'leads.json'),
+      JSON.stringify({ 'prospect-123': { status: 'maybe', notes: [] } })
+    );
+    await expect(store.list()).rejects.toThrow(LeadError);
+    await expect(store.list()).rejects.toThrow('prospect-123.status');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeAddress,
+  normalizeState,
+  normalizeStreet,
+  normalizeZipCode,
+} from '../../../../src/core/normalizer/index.js';
+
+describe('Address normalizer', () => {
+  describe('normalizeStreet', () => {
+    it('should abbreviate suffixes, directionals and unit designators', () => {
+      expect(normalizeStreet('123 North Main Street, Suite 200')).toBe(
+        '123 N Main St Ste 200'
+      );
+      expect(normalizeStreet('4500 W. Kennedy Boulevard')).toBe(
+        '4500 W Kennedy Blvd'
+      );
+      expect(normalizeStreet('900 Congress Avenue Northeast #4')).toBe(
+        '900 Congress Ave NE #4'
+      );
+      expect(normalizeStreet('77 Lakeview Pkwy Apartment 3B')).toBe(
+        '77 Lakeview Pkwy Apt 3B'
+      );
+    });
+
+    it('should leave names that only look like suffixes alone', () => {
+      expect(normalizeStreet('45 Court Street')).toBe('45 Court St');
+      expect(normalizeStreet('12 North Street')).toBe('12 North St');
+      expect(normalizeStreet('PO Box 120')).toBe('PO Box 120');
+    });
+  });
+
+  describe('normalizeState', () => {
+    it('should turn state names into USPS codes', () => {
+      expect(normalizeState('Florida')).toBe('FL');
+      expect(normalizeState('new york')).toBe('NY');
+      expect(normalizeState('tx')).toBe('TX');
+      expect(normalizeState('Ontario')).toBe('Ontario');
+    });
+  });
+
+  describe('normalizeZipCode', () => {
+    it('should format ZIP and ZIP+4 codes', () => {
+      expect(normalizeZipCode(' 33601 ')).toBe('33601');
+      expect(normalizeZipCode('336011234')).toBe('33601-1234');
+      expect(normalizeZipCode('33601 1234')).toBe('33601-1234');
+      expect(normalizeZipCode('SW1A 1AA')).toBe('SW1A 1AA');
+    });
+  });
+
+  describe('normalizeAddress', () => {
+    it('should only standardize US addresses', () => {
+      expect(
+        normalizeAddress({
+          street: '1 Main Street',
+          city: ' Tampa ',
+          state: 'Florida',
+          zipCode: '336021234',
+          country: 'USA',
+        })
+      ).toEqual({
+        street: '1 Main St',
+        city: 'Tampa',
+        state: 'FL',
+        zipCode: '33602-1234',
+        country: 'USA',
+      });
+
+      const london = {
+        street: '10 Downing Street',
+        city: 'London',
+        state: 'England',
+        zipCode: 'SW1A 2AA',
+        country: 'UK',
+      };
+      expect(normalizeAddress(london)).toEqual(london);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isDisposableEmail,
+  isRoleEmail,
+  isValidEmail,
+  normalizeEmail,
+} from '../../../../src/core/normalizer/index.js';
+
+describe('Email normalization', () => {
+  it('should normalize addresses and mailto links', () => {
+    expect(normalizeEmail(' MailTo:Owner@Casa-Lupita.com ')).toBe(
+      'owner@casa-lupita.com'
+    );
+  });
+
+  it('should accept well-formed addresses', () => {
+    expect(isValidEmail('maria.lopez+quotes@casa-lupita.com')).toBe(true);
+    expect(isValidEmail("o'brien@plumbing.co.uk")).toBe(true);
+  });
+
+  it('should reject malformed addresses and asset names', () => {
+    expect(isValidEmail('no-at-sign.com')).toBe(false);
+    expect(isValidEmail('double..dot@example.com')).toBe(false);
+    expect(isValidEmail('user@localhost')).toBe(false);
+    expect(isValidEmail('user@-bad-.com')).toBe(false);
+    expect(isValidEmail('logo@2x.png')).toBe(false);
+    expect(isValidEmail(`${'a'.repeat(65)}@example.com`)).toBe(false);
+  });
+
+  it('should flag role and disposable mailboxes', () => {
+    expect(isRoleEmail('info@summitroofing.com')).toBe(true);
+    expect(isRoleEmail('contact-us@summitroofing.com')).toBe(true);
+    expect(isRoleEmail('mike@summitroofing.com')).toBe(false);
+    expect(isDisposableEmail('lead@mailinator.com')).toBe(true);
+    expect(isDisposableEmail('lead@gmail.com')).toBe(false);
+  });
+});
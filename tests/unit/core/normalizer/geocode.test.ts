@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import {
+  distanceFromStatedPlace,
+  geocodeOffline,
+} from '../../../../src/core/normalizer/index.js';
+
+describe('Offline geocoder', () => {
+  it('should prefer the ZIP code centroid', () => {
+    expect(
+      geocodeOffline({ city: 'Tampa', state: 'FL', zipCode: '33609-1234' })
+    ).toEqual({ latitude: 27.943, longitude: -82.506, precision: 'zip' });
+  });
+
+  it('should fall back to the city centroid', () => {
+    expect(
+      geocodeOffline({ city: 'St. Petersburg', state: 'FL', zipCode: '33701' })
+    ).toEqual({ latitude: 27.7676, longitude: -82.6403, precision: 'city' });
+    expect(geocodeOffline({ city: 'Ft Worth', state: 'tx' })?.precision).toBe(
+      'city'
+    );
+  });
+
+  it('should return nothing for places outside the dataset', () => {
+    expect(geocodeOffline({ city: 'Smallville', state: 'KS' })).toBeUndefined();
+  });
+
+  it('should measure how far coordinates are from the stated place', () => {
+    const tampa = { city: 'Tampa', state: 'FL' };
+
+    expect(
+      distanceFromStatedPlace(tampa, { latitude: 27.95, longitude: -82.46 })
+    ).toBeLessThan(1_000);
+    // Coordinates that belong to Austin
+    expect(
+      distanceFromStatedPlace(tampa, { latitude: 30.2672, longitude: -97.7431 })
+    ).toBeGreaterThan(1_000_000);
+  });
+});
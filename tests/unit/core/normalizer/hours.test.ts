@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatDayHours,
+  formatTime24,
+  normalizeBusinessHours,
+  parseBusinessHours,
+  parseDayHours,
+} from '../../../../src/core/normalizer/index.js';
+
+function canonical(text: string): string | undefined {
+  const day = parseDayHours(text);
+  return day && formatDayHours(day);
+}
+
+describe('Business hours normalizer', () => {
+  describe('parseDayHours', () => {
+    it('should read common range formats', () => {
+      expect(canonical('9:00 AM – 5:00 PM')).toBe('9:00 AM - 5:00 PM');
+      expect(canonical('9am-5pm')).toBe('9:00 AM - 5:00 PM');
+      expect(canonical('09:00-17:30')).toBe('9:00 AM - 5:30 PM');
+      expect(canonical('8 a.m. to 6 p.m.')).toBe('8:00 AM - 6:00 PM');
+      expect(canonical('11:30am until noon')).toBe('11:30 AM - 12:00 PM');
+    });
+
+    it('should infer AM/PM when it is missing', () => {
+      expect(canonical('9-5')).toBe('9:00 AM - 5:00 PM');
+      expect(canonical('9-5pm')).toBe('9:00 AM - 5:00 PM');
+      expect(canonical('1-5pm')).toBe('1:00 PM - 5:00 PM');
+      expect(canonical('7:30-11')).toBe('7:30 AM - 11:00 AM');
+      expect(canonical('5-11')).toBe('5:00 PM - 11:00 PM');
+    });
+
+    it('should read split shifts in order', () => {
+      expect(parseDayHours('1pm-5pm, 8am-12pm')).toEqual({
+        kind: 'open',
+        intervals: [
+          { opens: 480, closes: 720 },
+          { opens: 780, closes: 1020 },
+        ],
+      });
+      expect(canonical('11am-2pm & 5pm-9pm')).toBe(
+        '11:00 AM - 2:00 PM, 5:00 PM - 9:00 PM'
+      );
+    });
+
+    it('should keep ranges that run past midnight', () => {
+      expect(parseDayHours('6pm-2am')).toEqual({
+        kind: 'open',
+        intervals: [{ opens: 1080, closes: 120 }],
+      });
+      expect(parseDayHours('5pm-midnight')).toEqual({
+        kind: 'open',
+        intervals: [{ opens: 1020, closes: 1440 }],
+      });
+      expect(canonical('6pm-2am')).toBe('6:00 PM - 2:00 AM');
+    });
+
+    it('should recognize closed, 24 hour and appointment-only days', () => {
+      expect(parseDayHours('Closed')).toEqual({ kind: 'closed' });
+      expect(parseDayHours('Open 24 hours')).toEqual({ kind: 'allDay' });
+      expect(parseDayHours('24/7')).toEqual({ kind: 'allDay' });
+      expect(parseDayHours('by appointment')).toEqual({
+        kind: 'byAppointment',
+      });
+    });
+
+    it('should reject text it cannot read', () => {
+      expect(parseDayHours('call ahead')).toBeUndefined();
+      expect(parseDayHours('9-5-7')).toBeUndefined();
+      expect(parseDayHours('13pm-2pm')).toBeUndefined();
+      expect(parseDayHours('9am-9am')).toBeUndefined();
+    });
+  });
+
+  describe('formatTime24', () => {
+    it('should format the end of the day as 23:59', () => {
+      expect(formatTime24(0)).toBe('00:00');
+      expect(formatTime24(1020)).toBe('17:00');
+      expect(formatTime24(1440)).toBe('23:59');
+    });
+  });
+
+  describe('parseBusinessHours', () => {
+    it('should report values it cannot parse', () => {
+      const { days, issues } = parseBusinessHours({
+        monday: '9-5',
+        sunday: 'call ahead',
+      });
+
+      expect(Object.keys(days)).toEqual(['monday']);
+      expect(issues).toEqual([
+        {
+          key: 'sunday',
+          value: 'call ahead',
+          message: 'Unrecognized hours "call ahead"',
+        },
+      ]);
+    });
+  });
+
+  describe('normalizeBusinessHours', () => {
+    it('should rewrite readable values and preserve special keys', () => {
+      const { hours, issues } = normalizeBusinessHours({
+        monday: '9-5',
+        saturday: 'closed',
+        holidays: 'Closed Thanksgiving and Christmas',
+        christmasEve: '9am-noon',
+      });
+
+      expect(hours).toEqual({
+        monday: '9:00 AM - 5:00 PM',
+        saturday: 'Closed',
+        holidays: 'Closed Thanksgiving and Christmas',
+        christmasEve: '9:00 AM - 12:00 PM',
+      });
+      expect(issues.map((issue) => issue.key)).toEqual(['holidays']);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatPhone,
+  normalizePhone,
+  parsePhone,
+  phoneTelUri,
+  regionForCountry,
+} from '../../../../src/core/normalizer/index.js';
+
+describe('Phone normalizer', () => {
+  describe('regionForCountry', () => {
+    it('should map country names and codes to phone regions', () => {
+      expect(regionForCountry('USA')).toBe('US');
+      expect(regionForCountry('United Kingdom')).toBe('GB');
+      expect(regionForCountry('de')).toBe('DE');
+      expect(regionForCountry('Atlantis')).toBeUndefined();
+      expect(regionForCountry(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('parsePhone', () => {
+    it('should normalize US directory formats to E.164', () => {
+      for (const raw of [
+        '(813) 555-0123',
+        '813.555.0123',
+        '+1-813-555-0123',
+        '1 813 555 0123',
+      ]) {
+        expect(normalizePhone(raw)).toBe('+18135550123');
+      }
+    });
+
+    it('should keep extensions', () => {
+      expect(parsePhone('813.555.0123 ext 4')).toEqual({
+        value: '+18135550123;ext=4',
+        e164: '+18135550123',
+        extension: '4',
+        region: 'US',
+        lineType: 'landlineOrMobile',
+      });
+      expect(normalizePhone('+18135550123;ext=4')).toBe('+18135550123;ext=4');
+    });
+
+    it('should read national formats in the given region', () => {
+      expect(parsePhone('020 7946 0958', 'GB')).toMatchObject({
+        value: '+442079460958',
+        region: 'GB',
+        lineType: 'landline',
+      });
+      expect(normalizePhone('020 7946 0958')).toBeUndefined();
+    });
+
+    it('should classify toll-free numbers', () => {
+      expect(parsePhone('1-800-555-0199')?.lineType).toBe('tollFree');
+    });
+
+    it('should reject invalid numbers', () => {
+      expect(parsePhone('555-0123')).toBeUndefined();
+      expect(parsePhone('+1-000-000-0000')).toBeUndefined();
+      expect(parsePhone('call us')).toBeUndefined();
+    });
+  });
+
+  describe('display helpers', () => {
+    it('should format stored numbers for people and tel: links', () => {
+      expect(formatPhone('+18135550123;ext=4')).toBe('(813) 555-0123 ext. 4');
+      expect(phoneTelUri('+18135550123;ext=4')).toBe('tel:+18135550123;ext=4');
+      expect(formatPhone('not a phone')).toBe('not a phone');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseProspect,
+  readProspectsFile,
+  safeParseProspect,
+} from '../../../../src/core/normalizer/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('Prospect normalizer', () => {
+  describe('parseProspect', () => {
+    it('should parse a JSON round-tripped prospect', () => {
+      const prospect = createProspect();
+      const roundTripped = JSON.parse(JSON.stringify(prospect));
+
+      expect(parseProspect(roundTripped)).toEqual(prospect);
+    });
+
+    it('should list every issue for an invalid prospect', () => {
+      expect(() =>
+        parseProspect({ ...createProspect(), id: 'bad', rating: 7 })
+      ).toThrow(/Invalid prospect bad: rating:/);
+    });
+
+    it('should normalize directory phone formats to E.164', () => {
+      const prospect = createProspect();
+      const parse = (phone: string) =>
+        parseProspect({ ...prospect, contact: { ...prospect.contact, phone } })
+          .contact;
+
+      expect(parse('(813) 555-0123')).toMatchObject({
+        phone: '+18135550123',
+        phoneType: 'landlineOrMobile',
+      });
+      expect(parse('813.555.0123 ext 4').phone).toBe('+18135550123;ext=4');
+      expect(parse('1-800-555-0199').phoneType).toBe('tollFree');
+    });
+
+    it('should reject phone numbers that do not parse', () => {
+      const prospect = createProspect();
+
+      expect(
+        safeParseProspect({
+          ...prospect,
+          contact: { ...prospect.contact, phone: '+1-000-000-0000' },
+        })
+      ).toEqual({
+        success: false,
+        issues: ['contact.phone: Invalid phone number "+1-000-000-0000"'],
+      });
+    });
+
+    it('should read national phone numbers in the location country', () => {
+      const prospect = createProspect();
+      const parsed = parseProspect({
+        ...prospect,
+        location: { ...prospect.location, city: 'London', country: 'UK' },
+        contact: { ...prospect.contact, phone: '020 7946 0958' },
+        templateConfig: {
+          ...prospect.templateConfig,
+          contact: {
+            ...prospect.templateConfig.contact,
+            phone: '020 7946 0958',
+            address: {
+              ...prospect.templateConfig.contact.address,
+              country: 'GB',
+            },
+          },
+        },
+      });
+
+      expect(parsed.contact.phone).toBe('+442079460958');
+      expect(parsed.contact.phoneType).toBe('landline');
+      expect(parsed.templateConfig.contact.phone).toBe('+442079460958');
+    });
+
+    it('should standardize the address and fill in missing coordinates', () => {
+      const prospect = createProspect();
+      const { city, country } = prospect.location;
+      const written = {
+        city,
+        state: 'Florida',
+        zipCode: '336091234',
+        country,
+      };
+      const parsed = parseProspect({
+        ...prospect,
+        location: { ...written, address: '2201 West Kennedy Boulevard' },
+        templateConfig: {
+          ...prospect.templateConfig,
+          contact: {
+            ...prospect.templateConfig.contact,
+            address: { ...written, street: '2201 West Kennedy Boulevard' },
+          },
+        },
+      });
+
+      expect(parsed.location).toEqual({
+        address: '2201 W Kennedy Blvd',
+        city: 'Tampa',
+        state: 'FL',
+        zipCode: '33609-1234',
+        country: 'USA',
+        latitude: 27.943,
+        longitude: -82.506,
+        flags: ['geocoded'],
+      });
+      // The template address is kept in step with the location
+      expect(parsed.templateConfig.contact.address).toEqual({
+        street: '2201 W Kennedy Blvd',
+        city: 'Tampa',
+        state: 'FL',
+        zipCode: '33609-1234',
+        country: 'USA',
+      });
+    });
+
+    it('should keep a template address that differs from the location', () => {
+      const prospect = createProspect();
+      const mailing = {
+        street: 'PO Box 1234',
+        city: 'Tampa',
+        state: 'FL',
+        zipCode: '33601',
+        country: 'USA',
+      };
+      const parsed = parseProspect({
+        ...prospect,
+        templateConfig: {
+          ...prospect.templateConfig,
+          contact: { ...prospect.templateConfig.contact, address: mailing },
+        },
+      });
+
+      expect(parsed.templateConfig.contact.address).toEqual(mailing);
+    });
+
+    it('should fill in a missing template address from the location', () => {
+      const prospect = createProspect();
+      const contact: Record<string, unknown> = {
+        ...prospect.templateConfig.contact,
+      };
+      delete contact.address;
+      const parsed = parseProspect({
+        ...prospect,
+        templateConfig: { ...prospect.templateConfig, contact },
+      });
+
+      expect(parsed.templateConfig.contact.address).toEqual({
+        street: '123 Main St',
+        city: 'Tampa',
+        state: 'FL',
+        zipCode: '33601',
+        country: 'USA',
+      });
+    });
+
+    it('should flag coordinates far from the stated city', () => {
+      const prospect = createProspect();
+      const parsed = parseProspect({
+        ...prospect,
+        location: { ...prospect.location, latitude: 30.27, longitude: -97.74 },
+      });
+
+      expect(parsed.location.flags).toEqual(['farFromCity']);
+    });
+
+    it('should require coordinates outside the offline dataset', () => {
+      const prospect = createProspect();
+      const { address, city, state, zipCode, country } = prospect.location;
+      const location = { address, city, state, zipCode, country };
+
+      expect(() =>
+        parseProspect({
+          ...prospect,
+          location: { ...location, city: 'Smallville', zipCode: '66002' },
+        })
+      ).toThrow(/not in the offline geocoding dataset/);
+    });
+  });
+
+  describe('readProspectsFile', () => {
+    it('should read an array of prospects from disk', () => {
+      const prospects = readProspectsFile('tests/fixtures/prospects.json');
+
+      expect(prospects).toHaveLength(3);
+      expect(prospects[0]?.extractedAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject a file containing an invalid prospect', () => {
+      expect(() => readProspectsFile('tests/fixtures/businesses.json')).toThrow(
+        /Invalid prospect fixture-tampa-broken/
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeSocialAccounts,
+  parseSocialProfile,
+} from '../../../../src/core/normalizer/index.js';
+
+describe('Social profile normalization', () => {
+  it.each([
+    [
+      'https://m.facebook.com/CasaLupitaATX/about/?ref=page_internal',
+      'facebook',
+      'https://www.facebook.com/casalupitaatx',
+      'casalupitaatx',
+    ],
+    [
+      'fb.com/casalupitaatx',
+      'facebook',
+      'https://www.facebook.com/casalupitaatx',
+      'casalupitaatx',
+    ],
+    [
+      'https://www.facebook.com/profile.php?id=100063512345678&sk=about',
+      'facebook',
+      'https://www.facebook.com/profile.php?id=100063512345678',
+      '100063512345678',
+    ],
+    [
+      'https://www.facebook.com/people/Casa-Lupita/100063512345678/',
+      'facebook',
+      'https://www.facebook.com/profile.php?id=100063512345678',
+      '100063512345678',
+    ],
+    [
+      'https://www.facebook.com/p/Casa-Lupita-100063512345678/?mibextid=abc',
+      'facebook',
+      'https://www.facebook.com/profile.php?id=100063512345678',
+      '100063512345678',
+    ],
+    [
+      'https://www.facebook.com/pages/Casa-Lupita/123456789',
+      'facebook',
+      'https://www.facebook.com/123456789',
+      'casa-lupita',
+    ],
+    [
+      'https://instagram.com/Casa.Lupita/',
+      'instagram',
+      'https://www.instagram.com/casa.lupita',
+      'casa.lupita',
+    ],
+    [
+      'https://www.linkedin.com/company/summit-roofing-tampa/about/',
+      'linkedin',
+      'https://www.linkedin.com/company/summit-roofing-tampa',
+      'summit-roofing-tampa',
+    ],
+    [
+      'https://mobile.twitter.com/SummitRoofs',
+      'x',
+      'https://x.com/summitroofs',
+      'summitroofs',
+    ],
+    [
+      'https://www.tiktok.com/@hillcountrybbq?lang=en',
+      'tiktok',
+      'https://www.tiktok.com/@hillcountrybbq',
+      'hillcountrybbq',
+    ],
+    [
+      'https://youtube.com/@FreshStartATX/videos',
+      'youtube',
+      'https://www.youtube.com/@freshstartatx',
+      'freshstartatx',
+    ],
+    [
+      'https://www.youtube.com/channel/UCabcdefghijklmnopqrstuV',
+      'youtube',
+      'https://www.youtube.com/channel/UCabcdefghijklmnopqrstuV',
+      'UCabcdefghijklmnopqrstuV',
+    ],
+    [
+      'https://nextdoor.com/pages/bay-area-plumbing-tampa-fl/?init_source=org_pages',
+      'nextdoor',
+      'https://nextdoor.com/pages/bay-area-plumbing-tampa-fl',
+      'bay-area-plumbing-tampa-fl',
+    ],
+    [
+      'https://m.yelp.com/biz/casa-lupita-austin?osq=tacos',
+      'yelp',
+      'https://www.yelp.com/biz/casa-lupita-austin',
+      'casa-lupita-austin',
+    ],
+  ])('should canonicalize %s', (input, platform, url, handle) => {
+    expect(parseSocialProfile(input)).toEqual({ platform, url, handle });
+  });
+
+  it.each([
+    'https://www.facebook.com/sharer/sharer.php?u=https://casalupita.com',
+    'https://www.facebook.com/groups/austinfoodies',
+    'https://www.facebook.com/reel/1234567890',
+    'https://www.facebook.com/reels/1234567890',
+    'https://www.facebook.com/marketplace/item/1234567890',
+    'https://www.facebook.com/permalink.php?story_fbid=1&id=2',
+    'https://www.facebook.com/video.php?v=1234567890',
+    'https://www.facebook.com/photo/?fbid=1234567890',
+    'https://www.facebook.com/photos/1234567890',
+    'https://www.facebook.com/business/help',
+    'https://www.facebook.com/people/Casa-Lupita/',
+    'https://www.facebook.com/p/Casa-Lupita/',
+    'https://www.instagram.com/p/C1a2b3c4d5/',
+    'https://twitter.com/intent/tweet?text=hi',
+    'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://www.yelp.com/search?find_desc=tacos',
+    'https://www.linkedin.com/shareArticle?url=x',
+    'https://casalupita.com/',
+    'mailto:hello@casalupita.com',
+  ])('should ignore %s', (input) => {
+    expect(parseSocialProfile(input)).toBeUndefined();
+  });
+
+  it('should merge variants of the same profile and fill in the platform', () => {
+    expect(
+      normalizeSocialAccounts([
+        { platform: 'Facebook', url: 'https://m.facebook.com/casalupitaatx' },
+        {
+          platform: 'facebook',
+          url: 'https://www.facebook.com/CasaLupitaATX/posts/123',
+        },
+        { platform: 'Twitter', url: 'https://twitter.com/casalupita' },
+        { platform: 'Blog', url: 'https://blog.casalupita.com/' },
+      ])
+    ).toEqual([
+      {
+        platform: 'facebook',
+        url: 'https://www.facebook.com/casalupitaatx',
+        handle: 'casalupitaatx',
+      },
+      { platform: 'x', url: 'https://x.com/casalupita', handle: 'casalupita' },
+      { platform: 'blog', url: 'https://blog.casalupita.com/' },
+    ]);
+  });
+});
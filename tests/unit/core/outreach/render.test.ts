@@ -0,0 +1,154 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DEFAULT_OUTREACH_TEMPLATES,
+  OUTREACH_STEPS,
+  OutreachError,
+  chooseVariant,
+  readOutreachTemplates,
+  renderCallScript,
+  renderOutreachEmail,
+  textToHtml,
+} from '../../../../src/core/outreach/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const prospect = createProspect({
+  webPresence: {
+    hasWebsite: true,
+    websiteType: 'facebook',
+    websiteQuality: 'poor',
+    issues: ['Facebook page only, no standalone website'],
+    opportunities: ['Professional website', 'Local SEO and online presence'],
+  },
+});
+const sender = { name: 'Dana Reyes', company: 'D13 Digital' };
+
+describe('Outreach rendering', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should personalize the intro from the analysis', () => {
+    const email = renderOutreachEmail(prospect, 'intro', {
+      sender,
+      variant: 'a',
+    });
+
+    expect(email.subject).toBe('A quick idea for Tampa Cleaning Services');
+    expect(email.text).toContain(
+      'Cleaning Services businesses in Tampa. 4.5 stars from 127 reviews'
+    );
+    expect(email.text).toContain(
+      '- Facebook page only, no standalone website\n'
+    );
+    expect(email.text).toContain('starting with Professional website.');
+    expect(email.text).toMatch(/Thanks,\nDana Reyes\nD13 Digital\n$/);
+    expect(email.html).toContain(
+      '<ul>\n  <li>Facebook page only, no standalone website</li>\n</ul>'
+    );
+    expect(email.missing).toEqual([]);
+  });
+
+  it('should render every step of the sequence', () => {
+    const emails = OUTREACH_STEPS.map((step) =>
+      renderOutreachEmail(prospect, step, { sender })
+    );
+
+    expect(emails.map((email) => email.step)).toEqual([
+      'intro',
+      'follow-up-1',
+      'follow-up-2',
+    ]);
+    expect(emails[1]?.text).toContain('- Local SEO and online presence');
+    expect(emails.every((email) => email.missing.length === 0)).toBe(true);
+  });
+
+  it('should assign each prospect a stable variant', () => {
+    const variants = Object.keys(DEFAULT_OUTREACH_TEMPLATES.steps.intro);
+    const assigned = Array.from({ length: 40 }, (_, index) =>
+      chooseVariant(`prospect-${index}`, variants)
+    );
+
+    expect(chooseVariant('prospect-7', variants)).toBe(assigned[7]);
+    expect(new Set(assigned)).toEqual(new Set(['a', 'b']));
+    expect(() =>
+      renderOutreachEmail(prospect, 'intro', { variant: 'c' })
+    ).toThrow('No variant "c" for intro. Use one of: a, b');
+    // A single-variant step ignores the requested variant
+    expect(
+      renderOutreachEmail(prospect, 'follow-up-2', { variant: 'b' }).variant
+    ).toBe('a');
+  });
+
+  it('should report the fields a prospect lacks', () => {
+    const bare = createProspect();
+
+    const email = renderOutreachEmail(bare, 'follow-up-2');
+    const script = renderCallScript(bare, { sender });
+
+    expect(email.missing).toEqual(['sender.name']);
+    expect(script.text).toContain(
+      '- How new customers find Tampa Cleaning Services today'
+    );
+    expect(script.missing).toEqual([]);
+  });
+
+  it('should use a template file over the built-in steps', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-outreach-'));
+    dirs.push(dir);
+    const path = join(dir, 'outreach.yaml');
+    writeFileSync(
+      path,
+      [
+        'steps:',
+        '  intro:',
+        '    short:',
+        '      subject: "Hi {{name}}"',
+        '      text: "Saw {{owner}} & co. in {{location.city}}."',
+        '      html: "<p>Saw <b>{{name}}</b></p>"',
+      ].join('\n')
+    );
+    const templates = readOutreachTemplates(path);
+
+    const email = renderOutreachEmail(
+      createProspect({ name: 'Tom & Sons' }),
+      'intro',
+      { templates }
+    );
+
+    expect(email).toMatchObject({
+      variant: 'short',
+      subject: 'Hi Tom & Sons',
+      text: 'Saw  & co. in Tampa.\n',
+      html: '<p>Saw <b>Tom &amp; Sons</b></p>',
+      missing: ['owner'],
+    });
+    expect(templates.steps['follow-up-1']).toBe(
+      DEFAULT_OUTREACH_TEMPLATES.steps['follow-up-1']
+    );
+  });
+
+  it('should reject invalid template files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-outreach-'));
+    dirs.push(dir);
+    const path = join(dir, 'outreach.json');
+    writeFileSync(path, JSON.stringify({ steps: { intro: {} } }));
+
+    expect(() => readOutreachTemplates(path)).toThrow(OutreachError);
+    expect(() => readOutreachTemplates(path)).toThrow(
+      'steps.intro: At least one variant is required'
+    );
+  });
+
+  it('should turn text into paragraphs and lists', () => {
+    expect(textToHtml('Hi <you>,\nthanks\n\n- one\n- two\n')).toBe(
+      '<p>Hi &lt;you&gt;,<br />\nthanks</p>\n<ul>\n  <li>one</li>\n  <li>two</li>\n</ul>'
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TemplateError,
+  compileTemplate,
+  renderTemplate,
+} from '../../../../src/core/outreach/index.js';
+import { escapeHtml } from '../../../../src/utils/html.js';
+
+const render = (source: string, context: unknown) =>
+  renderTemplate(compileTemplate(source), context);
+
+describe('Outreach template language', () => {
+  const context = {
+    name: 'Casa Lupita',
+    rating: 4.7,
+    location: { city: 'Austin' },
+    issues: ['No website', 'Facebook page only'],
+    owner: undefined,
+  };
+
+  it('should insert nested fields', () => {
+    expect(
+      render('{{name}} in {{ location.city }} ({{rating}})', context)
+    ).toEqual({
+      output: 'Casa Lupita in Austin (4.7)',
+      missing: [],
+    });
+  });
+
+  it('should render conditional sections', () => {
+    const template =
+      'Hi{{#if owner}} {{owner}}{{else}} there{{/if}}!{{#unless issues}} All good.{{/unless}}';
+
+    expect(render(template, context).output).toBe('Hi there!');
+    expect(render(template, { owner: 'Maria' }).output).toBe(
+      'Hi Maria! All good.'
+    );
+  });
+
+  it('should loop over lists with item and position fields', () => {
+    const template =
+      '{{#each issues}}{{@number}}. {{this}} at {{name}}{{#unless @last}}; {{/unless}}{{/each}}';
+
+    expect(render(template, context).output).toBe(
+      '1. No website at Casa Lupita; 2. Facebook page only at Casa Lupita'
+    );
+  });
+
+  it('should report fields printed or looped over without a value', () => {
+    const result = render(
+      'Hi {{owner}}, {{#if phone}}{{phone}}{{/if}}{{#each reviews}}-{{/each}}{{#each photos}}x{{else}}no photos{{/each}}',
+      context
+    );
+
+    expect(result.output).toBe('Hi , no photos');
+    // Guarded fields and lists with an {{else}} are expected to be empty
+    expect(result.missing).toEqual(['owner', 'reviews']);
+  });
+
+  it('should escape values but not triple-braced ones', () => {
+    const template = compileTemplate('<b>{{name}}</b> {{{name}}}');
+
+    expect(
+      renderTemplate(template, { name: 'Tom & Jerry' }, { escape: escapeHtml })
+        .output
+    ).toBe('<b>Tom &amp; Jerry</b> Tom & Jerry');
+  });
+
+  it('should ignore comments', () => {
+    expect(render('a{{! note to self }}b', {}).output).toBe('ab');
+  });
+
+  it.each([
+    ['{{#if name}}open', 'Unclosed {{#if}} at position 0'],
+    ['{{/each}}', 'Unexpected {{/each}} at position 0'],
+    ['{{#if a}}x{{/each}}', 'Unexpected {{/each}} at position 10'],
+    ['{{else}}', 'Unexpected {{else}} at position 0'],
+    ['Hi {{first name}}', 'Invalid field "first name" at position 3'],
+  ])('should reject %s', (source, message) => {
+    expect(() => compileTemplate(source)).toThrow(TemplateError);
+    expect(() => compileTemplate(source)).toThrow(message);
+  });
+});
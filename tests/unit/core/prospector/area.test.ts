@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SearchAreaError,
+  areaContains,
+  circleArea,
+  gridCells,
+  parseCoordinates,
+  parseDistance,
+  parseGeoJsonArea,
+  withinDistance,
+} from '../../../../src/core/prospector/index.js';
+import { distanceMeters } from '../../../../src/utils/geo.js';
+
+const TAMPA = { latitude: 27.9506, longitude: -82.4572 };
+
+// A square around downtown Tampa with a hole cut out of its south-west corner
+const TERRITORY = {
+  type: 'Feature',
+  properties: { name: 'Downtown' },
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [-82.5, 27.9],
+        [-82.4, 27.9],
+        [-82.4, 28.0],
+        [-82.5, 28.0],
+        [-82.5, 27.9],
+      ],
+      [
+        [-82.5, 27.9],
+        [-82.47, 27.9],
+        [-82.47, 27.93],
+        [-82.5, 27.93],
+      ],
+    ],
+  },
+};
+
+describe('Search areas', () => {
+  describe('parseDistance', () => {
+    it('should convert units to meters, reading bare numbers as miles', () => {
+      expect(parseDistance('800m')).toBe(800);
+      expect(parseDistance('15 km')).toBe(15_000);
+      expect(parseDistance('10')).toBeCloseTo(16_093.44);
+    });
+
+    it('should reject unknown units and zero', () => {
+      expect(() => parseDistance('10 furlongs')).toThrow(SearchAreaError);
+      expect(() => parseDistance('0km')).toThrow(SearchAreaError);
+    });
+  });
+
+  describe('parseCoordinates', () => {
+    it('should read latitude,longitude', () => {
+      expect(parseCoordinates('27.9506, -82.4572')).toEqual(TAMPA);
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(() => parseCoordinates('127.5,-82.4')).toThrow(SearchAreaError);
+      expect(() => parseCoordinates('27.9')).toThrow(SearchAreaError);
+    });
+  });
+
+  describe('parseGeoJsonArea', () => {
+    it('should read polygons with holes from features', () => {
+      const area = parseGeoJsonArea(TERRITORY);
+
+      expect(areaContains(area, TAMPA)).toBe(true);
+      expect(areaContains(area, { latitude: 27.91, longitude: -82.49 })).toBe(
+        false
+      );
+      expect(areaContains(area, { latitude: 28.05, longitude: -82.45 })).toBe(
+        false
+      );
+    });
+
+    it('should collect every polygon of a feature collection', () => {
+      const area = parseGeoJsonArea({
+        type: 'FeatureCollection',
+        features: [
+          TERRITORY,
+          {
+            type: 'Feature',
+            geometry: {
+              type: 'MultiPolygon',
+              coordinates: [
+                [
+                  [
+                    [-97.8, 30.2],
+                    [-97.7, 30.2],
+                    [-97.7, 30.3],
+                  ],
+                ],
+              ],
+            },
+          },
+        ],
+      });
+
+      expect(area).toMatchObject({ kind: 'polygon' });
+      expect(area.kind === 'polygon' && area.polygons).toHaveLength(2);
+    });
+
+    it('should reject geometry that is not a polygon', () => {
+      expect(() =>
+        parseGeoJsonArea({ type: 'Point', coordinates: [-82.4, 27.9] })
+      ).toThrow('unsupported type "Point"');
+      expect(() =>
+        parseGeoJsonArea({ type: 'Polygon', coordinates: [[[0, 0]]] })
+      ).toThrow(SearchAreaError);
+    });
+  });
+
+  describe('gridCells', () => {
+    it('should use the circle itself as a single cell', () => {
+      expect(gridCells(circleArea(TAMPA, 5000))).toEqual([
+        { center: TAMPA, radiusMeters: 5000 },
+      ]);
+    });
+
+    it('should cover the area with overlapping cells', () => {
+      const area = circleArea(TAMPA, 10_000);
+      const cells = gridCells(area, 8);
+
+      // The four corner cells lie entirely outside the circle
+      expect(cells).toHaveLength(60);
+      const [first, second] = cells as [(typeof cells)[0], (typeof cells)[0]];
+      expect(distanceMeters(first.center, second.center)).toBeLessThan(
+        first.radiusMeters + second.radiusMeters
+      );
+    });
+
+    it('should skip cells that miss a polygon', () => {
+      const area = parseGeoJsonArea({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [-82.5, 27.9],
+            [-82.4, 27.9],
+            [-82.5, 28.0],
+          ],
+        ],
+      });
+
+      // The triangle leaves the north-east cells of a 5 x 5 grid untouched
+      const cells = gridCells(area, 5);
+      expect(cells.length).toBeGreaterThan(12);
+      expect(cells.length).toBeLessThan(25);
+    });
+
+    it('should reject grid sizes outside the supported range', () => {
+      expect(() => gridCells(circleArea(TAMPA, 5000), 0)).toThrow(
+        SearchAreaError
+      );
+      expect(() => gridCells(circleArea(TAMPA, 5000), 21)).toThrow(
+        SearchAreaError
+      );
+    });
+  });
+
+  describe('withinDistance', () => {
+    it('should keep items close to the center', () => {
+      const near = {
+        id: 'near',
+        location: { latitude: 27.96, longitude: -82.46 },
+      };
+      const far = {
+        id: 'far',
+        location: { latitude: 28.54, longitude: -81.38 },
+      };
+
+      expect(withinDistance([near, far], TAMPA, 5000)).toEqual([near]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FixtureProvider,
+  ProviderError,
+  matchesIndustry,
+  matchesLocation,
+} from '../../../../src/core/prospector/index.js';
+
+const FIXTURE_PATH = 'tests/fixtures/businesses.json';
+
+describe('FixtureProvider', () => {
+  describe('matchesIndustry', () => {
+    it('should match plural and -ing variants of the same trade', () => {
+      expect(matchesIndustry('Plumbing', 'plumbers')).toBe(true);
+      expect(matchesIndustry('Accounting', 'accountants')).toBe(true);
+      expect(matchesIndustry('Roofing Contractor', 'roofers')).toBe(true);
+    });
+
+    it('should require every industry word to match', () => {
+      expect(matchesIndustry('Cleaning Services', 'cleaning services')).toBe(
+        true
+      );
+      expect(matchesIndustry('Cleaning Services', 'pool cleaning')).toBe(false);
+    });
+  });
+
+  describe('matchesLocation', () => {
+    const record = { city: 'Tampa', state: 'FL' };
+
+    it('should match city with or without state', () => {
+      expect(matchesLocation(record, 'Tampa, FL')).toBe(true);
+      expect(matchesLocation(record, 'tampa')).toBe(true);
+    });
+
+    it('should reject a different city or state', () => {
+      expect(matchesLocation(record, 'Austin, TX')).toBe(false);
+      expect(matchesLocation(record, 'Tampa, TX')).toBe(false);
+    });
+  });
+
+  describe('withSampleData', () => {
+    it('should find bundled businesses by industry and location', async () => {
+      const provider = FixtureProvider.withSampleData();
+      const records = await provider.search({
+        industry: 'cleaning services',
+        location: 'Austin, TX',
+      });
+
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({
+        id: 'fixture-austin-fresh-start-cleaning',
+      });
+    });
+  });
+
+  describe('fromFile', () => {
+    it('should revive extractedAt strings into dates', async () => {
+      const provider = FixtureProvider.fromFile(FIXTURE_PATH);
+      const [first] = await provider.search({
+        industry: 'cleaning',
+        location: 'Tampa, FL',
+      });
+
+      expect((first as { extractedAt: unknown }).extractedAt).toEqual(
+        new Date('2024-09-18T22:30:00Z')
+      );
+    });
+
+    it('should raise a ProviderError for a missing file', () => {
+      expect(() => FixtureProvider.fromFile('does/not/exist.json')).toThrow(
+        ProviderError
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FixtureProvider,
+  ProviderNotFoundError,
+  ProviderRegistry,
+  circleArea,
+  createDefaultRegistry,
+  searchArea,
+  searchBusinesses,
+} from '../../../../src/core/prospector/index.js';
+import type { BusinessSourceProvider } from '../../../../src/core/prospector/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const FIXTURE_PATH = 'tests/fixtures/businesses.json';
+
+describe('Business search', () => {
+  describe('ProviderRegistry', () => {
+    it('should register and resolve providers by name', () => {
+      const registry = createDefaultRegistry();
+
+      expect(registry.names()).toEqual(['fixture']);
+      expect(registry.get('fixture')).toBeInstanceOf(FixtureProvider);
+    });
+
+    it('should throw ProviderNotFoundError for an unknown source', () => {
+      const registry = createDefaultRegistry();
+
+      expect(() => registry.get('yelp')).toThrow(ProviderNotFoundError);
+      expect(() => registry.get('yelp')).toThrow(/Available sources: fixture/);
+    });
+
+    it('should refuse duplicate provider names', () => {
+      const registry = new ProviderRegistry().register(
+        FixtureProvider.withSampleData()
+      );
+
+      expect(() => registry.register(FixtureProvider.withSampleData())).toThrow(
+        /already registered/
+      );
+    });
+  });
+
+  describe('searchBusinesses', () => {
+    it('should validate records and report rejected ones', async () => {
+      const provider = FixtureProvider.fromFile(FIXTURE_PATH);
+      const result = await searchBusinesses(provider, {
+        industry: 'cleaning services',
+        location: 'Tampa, FL',
+      });
+
+      expect(result.source).toBe('fixture');
+      expect(result.prospects.map((p) => p.id)).toEqual([
+        'fixture-tampa-clean',
+      ]);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0]?.issues).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^location\.latitude:/),
+          expect.stringMatching(/^rating:/),
+        ])
+      );
+    });
+
+    it('should apply the result limit after validation', async () => {
+      const provider: BusinessSourceProvider = {
+        name: 'stub',
+        description: 'Stub provider',
+        search: async () => [
+          createProspect({ id: 'a' }),
+          createProspect({ id: 'b' }),
+          createProspect({ id: 'c' }),
+        ],
+      };
+
+      const result = await searchBusinesses(provider, {
+        industry: 'cleaning',
+        location: 'Tampa, FL',
+        limit: 2,
+      });
+
+      expect(result.prospects.map((p) => p.id)).toEqual(['a', 'b']);
+    });
+
+    it('should return every bundled sample as a valid prospect', async () => {
+      const result = await searchBusinesses(FixtureProvider.withSampleData(), {
+        industry: '',
+        location: '',
+      });
+
+      expect(result.rejected).toEqual([]);
+      expect(result.prospects.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('searchArea', () => {
+    const downtown = { latitude: 27.9506, longitude: -82.4572 };
+
+    it('should search every cell and merge listings by id', async () => {
+      const cells: number[] = [];
+      const result = await searchArea(
+        FixtureProvider.withSampleData(),
+        { industry: '', location: 'Tampa, FL' },
+        circleArea(downtown, 8000),
+        { gridSize: 3, onCell: (index) => cells.push(index) }
+      );
+
+      expect(cells).toHaveLength(result.cells.length);
+      expect(result.duplicates).toBeGreaterThan(0);
+      const ids = result.prospects.map((prospect) => prospect.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(ids).toContain('fixture-tampa-sparkle-cleaning');
+      // Seminole Heights lies about 9.5 km north of downtown
+      expect(ids).not.toContain('fixture-tampa-summit-roofing');
+    });
+
+    it('should apply the limit to the merged results', async () => {
+      const result = await searchArea(
+        FixtureProvider.withSampleData(),
+        { industry: '', location: 'Tampa, FL', limit: 2 },
+        circleArea(downtown, 20_000),
+        { gridSize: 2 }
+      );
+
+      expect(result.prospects).toHaveLength(2);
+    });
+
+    it('should report a rejected record once however many cells return it', async () => {
+      const provider: BusinessSourceProvider = {
+        name: 'stub',
+        description: 'Stub provider',
+        search: async () => [
+          { ...createProspect({ id: 'broken' }), rating: 9 },
+          { name: 'No id' },
+        ],
+      };
+      const result = await searchArea(
+        provider,
+        { industry: '', location: 'Tampa, FL' },
+        circleArea(downtown, 8000),
+        { gridSize: 3 }
+      );
+
+      expect(result.cells.length).toBeGreaterThan(1);
+      expect(result.rejected.map(({ record }) => record)).toEqual([
+        expect.objectContaining({ id: 'broken' }),
+        { name: 'No id' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FilterError,
+  matchesFilter,
+  parseFilter,
+} from '../../../../src/core/query/index.js';
+import type { BusinessProspect } from '../../../../src/types/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const roofer = createProspect({
+  id: 'roofer',
+  category: 'Roofing Contractor',
+  rating: 4.6,
+  reviewCount: 41,
+  opportunityScore: 78,
+  webPresence: {
+    hasWebsite: true,
+    websiteType: 'facebook',
+    websiteQuality: 'poor',
+    issues: [],
+    opportunities: [],
+  },
+});
+
+function matches(prospect: BusinessProspect, filter: string): boolean {
+  return matchesFilter(prospect, parseFilter(filter));
+}
+
+describe('Filter expressions', () => {
+  describe('parseFilter', () => {
+    it('should resolve aliases and give and precedence over or', () => {
+      expect(parseFilter('score >= 70 or rating > 4 and reviews > 20')).toEqual(
+        {
+          kind: 'or',
+          operands: [
+            {
+              kind: 'compare',
+              field: 'opportunityScore',
+              operator: '>=',
+              value: 70,
+            },
+            {
+              kind: 'and',
+              operands: [
+                {
+                  kind: 'compare',
+                  field: 'rating',
+                  operator: '>',
+                  value: 4,
+                },
+                {
+                  kind: 'compare',
+                  field: 'reviewCount',
+                  operator: '>',
+                  value: 20,
+                },
+              ],
+            },
+          ],
+        }
+      );
+    });
+
+    it('should read symbol spellings of operators', () => {
+      expect(parseFilter('rating ≥ 4.3 && !(state == TX)')).toEqual(
+        parseFilter('rating >= 4.3 and not location.state = TX')
+      );
+    });
+
+    it('should report where an expression goes wrong', () => {
+      expect(() => parseFilter('rating >= high')).toThrow(
+        new FilterError('rating needs a number, got "high" at position 10')
+      );
+      expect(() => parseFilter('rating >= 4 and')).toThrow(
+        'Expected a field name at position 15'
+      );
+      expect(() => parseFilter('category > roofing')).toThrow(
+        'category is text and cannot use >'
+      );
+      expect(() => parseFilter('county = Hillsborough')).toThrow(
+        'Unknown field "county"'
+      );
+      expect(() => parseFilter('name = "Bay')).toThrow('Unterminated string');
+    });
+  });
+
+  describe('matchesFilter', () => {
+    it('should match a typical prospecting query', () => {
+      expect(
+        matches(
+          roofer,
+          'category ~ roof and rating >= 4.3 and reviews >= 20 and website in (none, facebook) and score >= 70'
+        )
+      ).toBe(true);
+      expect(matches(roofer, 'website in (none, directory)')).toBe(false);
+    });
+
+    it('should compare text case-insensitively with wildcards', () => {
+      expect(matches(roofer, 'city = tampa')).toBe(true);
+      expect(matches(roofer, 'zip = 336*')).toBe(true);
+      expect(matches(roofer, 'zip = 337*')).toBe(false);
+      expect(matches(roofer, 'category != "Roofing Contractor"')).toBe(false);
+    });
+
+    it('should combine not, or and parentheses', () => {
+      expect(matches(roofer, 'not (rating < 4 or reviews < 10)')).toBe(true);
+      expect(matches(roofer, '!(website = facebook) || score > 90')).toBe(
+        false
+      );
+    });
+  });
+});
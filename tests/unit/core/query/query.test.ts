@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FilterError,
+  applyQuery,
+  parseSort,
+  sortProspects,
+} from '../../../../src/core/query/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const prospects = [
+  createProspect({ id: 'a', name: 'beta', rating: 4.2, opportunityScore: 60 }),
+  createProspect({ id: 'b', name: 'Alpha', rating: 4.8, opportunityScore: 80 }),
+  createProspect({ id: 'c', name: 'gamma', rating: 4.8, opportunityScore: 70 }),
+];
+
+const ids = (list: { id: string }[]): string[] => list.map((p) => p.id);
+
+describe('Prospect queries', () => {
+  describe('parseSort', () => {
+    it('should read directions as suffixes or a leading dash', () => {
+      expect(parseSort('score:desc, -rating,name')).toEqual([
+        { field: 'opportunityScore', direction: 'desc' },
+        { field: 'rating', direction: 'desc' },
+        { field: 'name', direction: 'asc' },
+      ]);
+    });
+
+    it('should reject unknown directions', () => {
+      expect(() => parseSort('rating:up')).toThrow(FilterError);
+    });
+  });
+
+  describe('sortProspects', () => {
+    it('should break ties with later keys and ignore case', () => {
+      expect(
+        ids(sortProspects(prospects, parseSort('-rating,-score')))
+      ).toEqual(['b', 'c', 'a']);
+      expect(ids(sortProspects(prospects, parseSort('name')))).toEqual([
+        'b',
+        'a',
+        'c',
+      ]);
+    });
+  });
+
+  describe('applyQuery', () => {
+    it('should filter, then sort, then limit', () => {
+      expect(
+        ids(
+          applyQuery(prospects, {
+            where: 'rating > 4.5',
+            sort: 'score',
+            limit: 1,
+          })
+        )
+      ).toEqual(['c']);
+    });
+
+    it('should return prospects unchanged for an empty query', () => {
+      expect(applyQuery(prospects, {})).toBe(prospects);
+    });
+  });
+});
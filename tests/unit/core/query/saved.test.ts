@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FilterError,
+  SavedQueryError,
+  SavedQueryStore,
+} from '../../../../src/core/query/index.js';
+
+describe('SavedQueryStore', () => {
+  const dirs: string[] = [];
+  const createStore = (): SavedQueryStore => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-queries-'));
+    dirs.push(dir);
+    return new SavedQueryStore(dir);
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should save, replace and delete queries by name', async () => {
+    const store = createStore();
+    await store.save('hot-roofers', { where: 'category ~ roof', limit: 5 });
+    await store.save('top', { sort: 'score:desc' });
+    await store.save('top', { sort: 'rating:desc', limit: 10 });
+
+    expect(await store.list()).toEqual({
+      'hot-roofers': { where: 'category ~ roof', limit: 5 },
+      top: { sort: 'rating:desc', limit: 10 },
+    });
+    expect(await store.delete('top')).toBe(true);
+    expect(await store.delete('top')).toBe(false);
+    await expect(store.get('top')).rejects.toThrow(
+      'No saved query named "top"'
+    );
+  });
+
+  it('should refuse queries that do not parse', async () => {
+    const store = createStore();
+
+    await expect(store.save('bad', { where: 'rating >' })).rejects.toThrow(
+      FilterError
+    );
+    await expect(store.save('no spaces', { sort: 'name' })).rejects.toThrow(
+      SavedQueryError
+    );
+    await expect(store.save('empty', {})).rejects.toThrow('Nothing to save');
+    expect(await store.list()).toEqual({});
+  });
+
+  it('should report a malformed queries file', async () => {
+    const store = createStore();
+    writeFileSync(
+      join(store.dataDir, 'queries.json'),
+      JSON.stringify({ top: { limit: 0 } })
+    );
+
+    await expect(store.list()).rejects.toThrow(
+      'top.limit: Limit must be at least 1'
+    );
+  });
+});
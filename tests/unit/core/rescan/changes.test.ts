@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseFilter } from '../../../../src/core/query/index.js';
+import {
+  compareSnapshots,
+  diffSnapshots,
+  isNewlyQualified,
+} from '../../../../src/core/rescan/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('diffSnapshots', () => {
+  it('should report changed tracked fields with numeric deltas', () => {
+    const before = createProspect({ opportunityScore: 64 });
+    const after = createProspect({
+      name: 'Tampa Cleaning Co',
+      rating: 4.2,
+      reviewCount: 130,
+      opportunityScore: 64,
+      webPresence: {
+        hasWebsite: true,
+        websiteType: 'professional',
+        websiteQuality: 'good',
+        issues: [],
+        opportunities: [],
+      },
+    });
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { field: 'rating', before: 4.5, after: 4.2, delta: -0.3 },
+      { field: 'reviewCount', before: 127, after: 130, delta: 3 },
+      {
+        field: 'webPresence.websiteType',
+        before: 'none',
+        after: 'professional',
+      },
+    ]);
+  });
+
+  it('should find nothing between identical snapshots', () => {
+    expect(diffSnapshots(createProspect(), createProspect())).toEqual([]);
+  });
+});
+
+describe('compareSnapshots', () => {
+  it('should flag prospects that newly match the qualifying filter', () => {
+    const qualify = parseFilter('score >= 70');
+    const before = createProspect({ opportunityScore: 65 });
+
+    const rising = compareSnapshots(
+      before,
+      createProspect({ opportunityScore: 72 }),
+      qualify
+    );
+    const falling = compareSnapshots(
+      createProspect({ opportunityScore: 80 }),
+      before,
+      qualify
+    );
+
+    expect(rising.qualified).toEqual({ before: false, after: true });
+    expect(isNewlyQualified(rising)).toBe(true);
+    expect(falling.qualified).toEqual({ before: true, after: false });
+    expect(isNewlyQualified(falling)).toBe(false);
+  });
+});
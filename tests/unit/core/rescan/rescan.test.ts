@@ -0,0 +1,201 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureProvider } from '../../../../src/core/prospector/index.js';
+import type { SearchQuery } from '../../../../src/core/prospector/index.js';
+import {
+  buildChangeReport,
+  mergeRescanned,
+  rescanProspects,
+  saveChangeReport,
+} from '../../../../src/core/rescan/index.js';
+import type { BusinessProspect } from '../../../../src/types/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const ANALYZED = {
+  hasWebsite: true,
+  websiteType: 'template' as const,
+  websiteQuality: 'poor' as const,
+  issues: ['No mobile layout'],
+  opportunities: ['Responsive redesign'],
+};
+
+// Scores by review count so rescoring is easy to follow
+const score = (prospect: BusinessProspect): BusinessProspect => ({
+  ...prospect,
+  opportunityScore: Math.min(100, prospect.reviewCount),
+});
+
+describe('mergeRescanned', () => {
+  it('should keep enrichment and analysis while the website is unchanged', () => {
+    const previous = createProspect({
+      contact: {
+        phone: '+18135550123',
+        email: 'owner@tampacleaning.com',
+        website: 'https://tampacleaning.com',
+      },
+      webPresence: ANALYZED,
+    });
+    const fresh = createProspect({
+      rating: 4.1,
+      contact: {
+        phone: '+18135550123',
+        email: 'unknown',
+        website: 'https://tampacleaning.com',
+      },
+    });
+
+    const merged = mergeRescanned(previous, fresh);
+
+    expect(merged.rating).toBe(4.1);
+    expect(merged.contact.email).toBe('owner@tampacleaning.com');
+    expect(merged.webPresence).toEqual(ANALYZED);
+  });
+
+  it('should keep the email and social profiles enrich added to the site config', () => {
+    const stored = createProspect();
+    const previous = createProspect({
+      templateConfig: {
+        ...stored.templateConfig,
+        contact: {
+          ...stored.templateConfig.contact,
+          email: 'owner@tampacleaning.com',
+        },
+        socialMedia: [
+          {
+            platform: 'facebook',
+            url: 'https://www.facebook.com/tampacleaning',
+            handle: 'tampacleaning',
+          },
+        ],
+      },
+    });
+    const fresh = createProspect({
+      templateConfig: {
+        ...stored.templateConfig,
+        contact: { ...stored.templateConfig.contact, email: 'unknown' },
+        socialMedia: [
+          { platform: 'Facebook', url: 'https://m.facebook.com/TampaCleaning' },
+          { platform: 'instagram', url: 'https://instagram.com/tampaclean' },
+        ],
+      },
+    });
+
+    const { templateConfig } = mergeRescanned(previous, fresh);
+
+    expect(templateConfig.contact.email).toBe('owner@tampacleaning.com');
+    expect(templateConfig.socialMedia).toEqual([
+      {
+        platform: 'facebook',
+        url: 'https://www.facebook.com/tampacleaning',
+        handle: 'tampacleaning',
+      },
+      {
+        platform: 'instagram',
+        url: 'https://www.instagram.com/tampaclean',
+        handle: 'tampaclean',
+      },
+    ]);
+  });
+
+  it('should take the new web presence when the website changed', () => {
+    const previous = createProspect({ webPresence: ANALYZED });
+    const fresh = createProspect({
+      contact: {
+        phone: '+18135550123',
+        email: 'info@tampacleaning.com',
+        website: 'https://newsite.example',
+      },
+    });
+
+    expect(mergeRescanned(previous, fresh).webPresence).toEqual(
+      fresh.webPresence
+    );
+  });
+});
+
+describe('rescanProspects', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  const stored = [
+    createProspect({ id: 'a', reviewCount: 60, opportunityScore: 60 }),
+    createProspect({ id: 'b', reviewCount: 90, opportunityScore: 90 }),
+    createProspect({ id: 'gone', reviewCount: 10, opportunityScore: 10 }),
+  ];
+  const provider = new FixtureProvider([
+    createProspect({ id: 'a', reviewCount: 75 }),
+    createProspect({ id: 'b', reviewCount: 90 }),
+  ]);
+
+  it('should re-fetch each category and city once and compare by id', async () => {
+    const searches: SearchQuery[] = [];
+
+    const result = await rescanProspects(stored, {
+      provider,
+      qualify: 'score >= 70',
+      score,
+      onSearch: (query) => searches.push(query),
+    });
+
+    expect(searches).toEqual([
+      { industry: 'Cleaning Services', location: 'Tampa, FL' },
+    ]);
+    expect(result.missing.map((prospect) => prospect.id)).toEqual(['gone']);
+    expect(
+      result.prospects.map(({ after, changes, qualified }) => ({
+        id: after.id,
+        changes,
+        qualified,
+      }))
+    ).toEqual([
+      {
+        id: 'a',
+        changes: [
+          { field: 'reviewCount', before: 60, after: 75, delta: 15 },
+          { field: 'opportunityScore', before: 60, after: 75, delta: 15 },
+        ],
+        qualified: { before: false, after: true },
+      },
+      { id: 'b', changes: [], qualified: { before: true, after: true } },
+    ]);
+  });
+
+  it('should report changed and newly qualified prospects', async () => {
+    const result = await rescanProspects(stored, {
+      provider,
+      qualify: 'score >= 70',
+      score,
+    });
+    const report = buildChangeReport(result, {
+      source: 'fixture',
+      qualify: 'score >= 70',
+      scannedAt: new Date('2026-10-19T09:30:00.123Z'),
+    });
+
+    expect(report.summary).toEqual({
+      scanned: 3,
+      changed: 1,
+      newlyQualified: 1,
+      noLongerQualified: 0,
+      missing: 1,
+    });
+    expect(report.prospects.map((prospect) => prospect.id)).toEqual(['a']);
+    expect(report.prospects[0]?.newlyQualified).toBe(true);
+    expect(report.missing).toEqual([
+      { id: 'gone', name: 'Tampa Cleaning Services' },
+    ]);
+
+    const dir = mkdtempSync(join(tmpdir(), 'd13-rescan-'));
+    dirs.push(dir);
+    const path = await saveChangeReport(dir, report);
+    expect(path).toBe(join(dir, 'rescans', 'rescan-2026-10-19T09-30-00Z.json'));
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual(report);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ReviewSession,
+  formatReviewDetail,
+  renderReviewScreen,
+} from '../../../../src/core/review/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const ANSI_CODE = new RegExp(`${String.fromCharCode(27)}\\[\\d+m`, 'g');
+const plain = (line: string): string => line.replace(ANSI_CODE, '');
+
+const prospects = Array.from({ length: 30 }, (_, index) =>
+  createProspect({
+    id: `p${index}`,
+    name: `Business ${String(index).padStart(2, '0')}`,
+    opportunityScore: index,
+  })
+);
+
+describe('renderReviewScreen', () => {
+  it('should fill the screen with the table, details and key help', () => {
+    const session = new ReviewSession(prospects, {
+      p29: { decision: 'marked', tags: ['hot'] },
+    });
+    const lines = renderReviewScreen(session, { width: 80, height: 24 });
+
+    expect(lines).toHaveLength(24);
+    expect(lines.every((line) => plain(line).length <= 80)).toBe(true);
+    expect(plain(lines[0]!)).toContain(
+      '30 of 30 prospects · 1 marked · 0 rejected · view: all'
+    );
+    expect(lines[1]).toMatch(/NAME .*SCORE▼/);
+    // The selected row is drawn in inverse video
+    expect(lines[2]!.startsWith('\u001b[7m')).toBe(true);
+    expect(plain(lines[2]!)).toMatch(/^\* Business 29/);
+    expect(lines.join('\n')).toContain('Review: marked · tags: hot');
+    expect(lines.at(-1)).toMatch(/^↑\/↓ move/);
+  });
+
+  it('should scroll to keep the cursor in view', () => {
+    const session = new ReviewSession(prospects);
+    session.moveTo(25);
+    const lines = renderReviewScreen(session, {
+      width: 80,
+      height: 24,
+      status: 'Tag: vip',
+    });
+    const selected = lines.find((line) => line.startsWith('\u001b[7m'));
+
+    expect(plain(selected!)).toContain('Business 04');
+    expect(lines.at(-1)).toBe('Tag: vip');
+  });
+});
+
+describe('formatReviewDetail', () => {
+  it('should list the website issues and opportunities', () => {
+    const prospect = createProspect({
+      webPresence: {
+        hasWebsite: false,
+        websiteType: 'none',
+        websiteQuality: 'none',
+        issues: ['no website'],
+        opportunities: ['professional website', 'Google Business Profile'],
+      },
+    });
+    expect(formatReviewDetail(prospect, undefined)).toEqual([
+      'Tampa Cleaning Services (prospect-123)',
+      expect.stringContaining('Cleaning Services · Tampa, FL'),
+      'Website: none (none)',
+      'Review: unreviewed',
+      'Issues:',
+      '  - no website',
+      'Opportunities:',
+      '  - professional website',
+      '  - Google Business Profile',
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ReviewError,
+  ReviewSession,
+  applyReviewCommand,
+  parseReviewCommand,
+} from '../../../../src/core/review/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('parseReviewCommand', () => {
+  it('should parse each command', () => {
+    expect(parseReviewCommand('mark a b')).toEqual({
+      type: 'decide',
+      ids: ['a', 'b'],
+      decision: 'marked',
+    });
+    expect(parseReviewCommand('clear a')).toEqual({
+      type: 'decide',
+      ids: ['a'],
+      decision: null,
+    });
+    expect(parseReviewCommand('untag a hot vip')).toEqual({
+      type: 'tag',
+      id: 'a',
+      tags: ['hot', 'vip'],
+      remove: true,
+    });
+    expect(parseReviewCommand('sort reviews:desc, name')).toEqual({
+      type: 'sort',
+      keys: [
+        { field: 'reviewCount', direction: 'desc' },
+        { field: 'name', direction: 'asc' },
+      ],
+    });
+    expect(parseReviewCommand('view marked')).toEqual({
+      type: 'view',
+      view: 'marked',
+    });
+    expect(parseReviewCommand('  export ')).toEqual({ type: 'export' });
+  });
+
+  it('should skip blank lines and comments', () => {
+    expect(parseReviewCommand('')).toBeUndefined();
+    expect(parseReviewCommand('# first pass')).toBeUndefined();
+  });
+
+  it('should reject unknown commands and missing arguments', () => {
+    expect(() => parseReviewCommand('star a')).toThrow(ReviewError);
+    expect(() => parseReviewCommand('tag a')).toThrow(
+      'Usage: tag <id> <tag...>'
+    );
+    expect(() => parseReviewCommand('view starred')).toThrow(
+      'Unknown view "starred"'
+    );
+  });
+});
+
+describe('applyReviewCommand', () => {
+  it('should change the session and leave output commands to the caller', () => {
+    const session = new ReviewSession([
+      createProspect({ id: 'a' }),
+      createProspect({ id: 'b' }),
+    ]);
+    for (const line of ['reject a', 'mark b', 'tag b hot', 'view marked']) {
+      expect(applyReviewCommand(session, parseReviewCommand(line)!)).toBe(true);
+    }
+    expect(applyReviewCommand(session, { type: 'list' })).toBe(false);
+
+    expect(session.rows.map((prospect) => prospect.id)).toEqual(['b']);
+    expect(session.entries).toEqual({
+      a: { decision: 'rejected', tags: [] },
+      b: { decision: 'marked', tags: ['hot'] },
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseSort } from '../../../../src/core/query/index.js';
+import {
+  ReviewError,
+  ReviewSession,
+  ReviewStore,
+} from '../../../../src/core/review/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+const prospects = [
+  createProspect({ id: 'a', name: 'Acme Roofing', opportunityScore: 60 }),
+  createProspect({ id: 'b', name: 'Best Plumbing', opportunityScore: 90 }),
+  createProspect({ id: 'c', name: 'City Cleaners', opportunityScore: 75 }),
+];
+
+const ids = (session: ReviewSession): string[] =>
+  session.rows.map((prospect) => prospect.id);
+
+describe('ReviewSession', () => {
+  it('should sort by score first and cycle through the columns', () => {
+    const session = new ReviewSession(prospects);
+    expect(ids(session)).toEqual(['b', 'c', 'a']);
+
+    session.nextSort();
+    expect(session.sort).toEqual([{ field: 'name', direction: 'asc' }]);
+    expect(ids(session)).toEqual(['a', 'b', 'c']);
+
+    session.reverseSort();
+    expect(ids(session)).toEqual(['c', 'b', 'a']);
+    session.sortBy('opportunityScore');
+    expect(ids(session)).toEqual(['b', 'c', 'a']);
+    session.sortBy('opportunityScore');
+    expect(ids(session)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should keep the cursor on the selected prospect when re-sorting', () => {
+    const session = new ReviewSession(prospects);
+    session.move(1);
+    expect(session.current?.id).toBe('c');
+
+    session.setSort(parseSort('name'));
+    expect(session.current?.id).toBe('c');
+    expect(session.cursor).toBe(2);
+    session.move(5);
+    expect(session.cursor).toBe(2);
+  });
+
+  it('should toggle marks and rejections and filter by view', () => {
+    const session = new ReviewSession(prospects);
+    session.toggleDecision('marked');
+    session.decide('a', 'rejected');
+    expect(session.counts()).toEqual({ marked: 1, rejected: 1 });
+    expect(session.marked().map((prospect) => prospect.id)).toEqual(['b']);
+
+    session.setView('unreviewed');
+    expect(ids(session)).toEqual(['c']);
+    session.nextView();
+    expect(session.view).toBe('marked');
+    expect(ids(session)).toEqual(['b']);
+
+    session.toggleDecision('marked');
+    expect(ids(session)).toEqual([]);
+    expect(session.current).toBeUndefined();
+    expect(session.entry('b')).toEqual({ tags: [] });
+  });
+
+  it('should toggle tags on the selected prospect', () => {
+    const session = new ReviewSession(prospects);
+    session.toggleTag('hot');
+    session.toggleTag('call-first');
+    expect(session.entry('b')?.tags).toEqual(['call-first', 'hot']);
+    session.toggleTag(' hot ');
+    expect(session.entry('b')?.tags).toEqual(['call-first']);
+  });
+
+  it('should reject prospects that are not under review', () => {
+    const session = new ReviewSession(prospects);
+    expect(() => session.decide('zzz', 'marked')).toThrow(ReviewError);
+  });
+});
+
+describe('ReviewStore', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should save entries and drop empty ones', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-review-'));
+    dirs.push(dir);
+    const store = new ReviewStore(dir);
+    expect(await store.list()).toEqual({});
+
+    await store.save({
+      a: { decision: 'marked', tags: ['hot'] },
+      b: { tags: [] },
+    });
+    expect(await store.list()).toEqual({
+      a: { decision: 'marked', tags: ['hot'] },
+    });
+  });
+
+  it('should merge duplicates into the kept prospect, rejections first', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-review-'));
+    dirs.push(dir);
+    const store = new ReviewStore(dir);
+    await store.save({
+      a: { decision: 'marked', tags: ['hot'] },
+      b: { decision: 'rejected', tags: ['chain', 'hot'] },
+      c: { tags: ['call'] },
+    });
+
+    await store.merge('a', ['b']);
+    expect(await store.list()).toEqual({
+      a: { decision: 'rejected', tags: ['chain', 'hot'] },
+      c: { tags: ['call'] },
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCORING_PROFILE,
+  applyScore,
+  scoreProspect,
+} from '../../../../src/core/scorer/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('Opportunity scoring engine', () => {
+  it('should score an established business with no website highly', () => {
+    const breakdown = scoreProspect(
+      createProspect({ rating: 4.8, reviewCount: 140 })
+    );
+
+    expect(breakdown.score).toBeGreaterThanOrEqual(80);
+    expect(breakdown.profile).toBe('default');
+  });
+
+  it('should score a business with a professional website low', () => {
+    const breakdown = scoreProspect(
+      createProspect({
+        webPresence: {
+          hasWebsite: true,
+          websiteType: 'professional',
+          websiteQuality: 'excellent',
+          issues: [],
+          opportunities: [],
+        },
+      })
+    );
+
+    expect(breakdown.score).toBeLessThan(40);
+  });
+
+  it('should return one entry per factor whose points sum to the score', () => {
+    const breakdown = scoreProspect(createProspect());
+    const total = breakdown.factors.reduce((sum, f) => sum + f.points, 0);
+
+    expect(breakdown.factors.map((f) => f.factor)).toEqual([
+      'rating',
+      'reviewCount',
+      'websiteType',
+      'websiteQuality',
+      'issues',
+      'category',
+    ]);
+    expect(Math.round(total)).toBe(breakdown.score);
+  });
+
+  it('should explain each factor', () => {
+    const breakdown = scoreProspect(createProspect({ reviewCount: 12 }));
+    const reviews = breakdown.factors.find((f) => f.factor === 'reviewCount');
+
+    expect(reviews?.reason).toContain('12 reviews');
+    expect(reviews?.signal).toBeGreaterThan(0);
+    expect(reviews?.signal).toBeLessThan(1);
+  });
+
+  it('should give no rating signal at or below the minimum rating', () => {
+    const breakdown = scoreProspect(createProspect({ rating: 2.5 }));
+    const rating = breakdown.factors.find((f) => f.factor === 'rating');
+
+    expect(rating?.signal).toBe(0);
+    expect(rating?.points).toBe(0);
+  });
+
+  it('should match category keywords case-insensitively', () => {
+    const roofing = scoreProspect(
+      createProspect({ category: 'Roofing Contractor' })
+    );
+    const unknown = scoreProspect(createProspect({ category: 'Florist' }));
+
+    expect(roofing.factors.at(-1)?.signal).toBe(0.9);
+    expect(unknown.factors.at(-1)?.signal).toBe(
+      DEFAULT_SCORING_PROFILE.defaultCategorySignal
+    );
+  });
+
+  it('should ignore factors with zero weight', () => {
+    const profile = {
+      ...DEFAULT_SCORING_PROFILE,
+      weights: {
+        rating: 0,
+        reviewCount: 0,
+        websiteType: 1,
+        websiteQuality: 0,
+        issues: 0,
+        category: 0,
+      },
+    };
+
+    expect(scoreProspect(createProspect(), profile).score).toBe(100);
+  });
+
+  it('should fill in opportunityScore without mutating the input', () => {
+    const prospect = createProspect();
+    const scored = applyScore(prospect);
+
+    expect(prospect.opportunityScore).toBe(0);
+    expect(scored.opportunityScore).toBe(scoreProspect(prospect).score);
+  });
+});
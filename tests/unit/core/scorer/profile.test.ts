@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCORING_PROFILE,
+  ScoringProfileError,
+  loadScoringProfile,
+  resolveScoringProfile,
+} from '../../../../src/core/scorer/index.js';
+
+describe('Scoring profiles', () => {
+  it('should merge a partial YAML profile over the defaults', () => {
+    const profile = loadScoringProfile('tests/fixtures/scoring-profile.yaml');
+
+    expect(profile.name).toBe('website-first');
+    expect(profile.weights.websiteType).toBe(80);
+    expect(profile.weights.rating).toBe(5);
+    expect(profile.weights.category).toBe(
+      DEFAULT_SCORING_PROFILE.weights.category
+    );
+    expect(profile.categorySignals.pool).toBe(1);
+    expect(profile.categorySignals.roof).toBe(0.9);
+  });
+
+  it('should name unnamed profiles "custom"', () => {
+    expect(resolveScoringProfile({ minRating: 4 }).name).toBe('custom');
+  });
+
+  it('should reject out-of-range signals', () => {
+    expect(() =>
+      resolveScoringProfile({ websiteTypeSignals: { none: 2 } })
+    ).toThrow(/websiteTypeSignals\.none/);
+  });
+
+  it('should reject profiles where every weight is zero', () => {
+    expect(() =>
+      resolveScoringProfile({
+        weights: {
+          rating: 0,
+          reviewCount: 0,
+          websiteType: 0,
+          websiteQuality: 0,
+          issues: 0,
+          category: 0,
+        },
+      })
+    ).toThrow(ScoringProfileError);
+  });
+
+  it('should raise ScoringProfileError for an unreadable file', () => {
+    expect(() => loadScoringProfile('missing.json')).toThrow(
+      ScoringProfileError
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProspectStore, StoreError } from '../../../../src/core/store/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('ProspectStore', () => {
+  let dataDir: string;
+  let store: ProspectStore;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'd13-store-'));
+    store = new ProspectStore(join(dataDir, 'nested'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should start empty without creating files', async () => {
+    expect(await store.list()).toEqual([]);
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('should insert and read back prospects with real dates', async () => {
+    const prospect = createProspect();
+
+    expect(await store.upsert([prospect])).toEqual({ inserted: 1, updated: 0 });
+    expect(await store.get(prospect.id)).toEqual(prospect);
+    expect((await store.list())[0]?.extractedAt).toBeInstanceOf(Date);
+  });
+
+  it('should upsert on id and keep every extractedAt snapshot', async () => {
+    const first = createProspect({ rating: 4.1 });
+    const second = createProspect({
+      rating: 4.6,
+      extractedAt: new Date('2024-10-18T22:30:00Z'),
+    });
+
+    await store.upsert([first]);
+    expect(await store.upsert([second])).toEqual({ inserted: 0, updated: 1 });
+
+    expect(await store.list()).toEqual([second]);
+    expect(
+      (await store.history(first.id)).map((snapshot) => snapshot.rating)
+    ).toEqual([4.1, 4.6]);
+  });
+
+  it('should replace a snapshot re-saved with the same extractedAt', async () => {
+    await store.upsert([createProspect({ opportunityScore: 10 })]);
+    await store.upsert([createProspect({ opportunityScore: 80 })]);
+
+    const history = await store.history('prospect-123');
+    expect(history).toHaveLength(1);
+    expect(history[0]?.opportunityScore).toBe(80);
+  });
+
+  it('should delete a prospect together with its history', async () => {
+    await store.upsert([createProspect(), createProspect({ id: 'keep' })]);
+
+    expect(await store.delete('prospect-123')).toBe(true);
+    expect(await store.delete('prospect-123')).toBe(false);
+    expect((await store.list()).map((p) => p.id)).toEqual(['keep']);
+    expect(await store.history('prospect-123')).toEqual([]);
+    expect(await store.history('keep')).toHaveLength(1);
+  });
+
+  it('should report the line of a corrupt record', async () => {
+    const corrupt = new ProspectStore(dataDir);
+    writeFileSync(join(dataDir, 'prospects.jsonl'), '{"id":"x"}\n');
+
+    await expect(corrupt.list()).rejects.toThrow(StoreError);
+    await expect(corrupt.list()).rejects.toThrow(/prospects\.jsonl:1/);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { BusinessConfigSchema } from '../../../../src/schemas/index.js';
+import {
+  buildBusinessConfig,
+  resolveIndustry,
+} from '../../../../src/core/template/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('Business config builder', () => {
+  describe('resolveIndustry', () => {
+    it('should map categories to schema.org business types', () => {
+      expect(resolveIndustry('Plumbing').businessType).toBe('Plumber');
+      expect(resolveIndustry('Roofing Contractor').businessType).toBe(
+        'RoofingContractor'
+      );
+      expect(resolveIndustry('Mexican Restaurant').businessType).toBe(
+        'Restaurant'
+      );
+    });
+
+    it('should fall back to a generic LocalBusiness', () => {
+      expect(resolveIndustry('Florist')).toEqual({
+        businessType: 'LocalBusiness',
+        primary: 'Florist',
+        services: ['Florist'],
+      });
+    });
+  });
+
+  describe('buildBusinessConfig', () => {
+    it('should build a config that validates against BusinessConfigSchema', () => {
+      const config = buildBusinessConfig(createProspect());
+
+      expect(() => BusinessConfigSchema.parse(config)).not.toThrow();
+      expect(config.contact.address).toEqual({
+        street: '123 Main St',
+        city: 'Tampa',
+        state: 'FL',
+        zipCode: '33601',
+        country: 'USA',
+      });
+      expect(config.rating).toEqual({ average: 4.5, count: 127 });
+      expect(config.schema).toEqual({
+        businessType: 'HomeAndConstructionBusiness',
+        areaServed: 'Tampa, FL',
+      });
+    });
+
+    it('should derive services and SEO fields from category and location', () => {
+      const config = buildBusinessConfig(
+        createProspect({ name: 'Bay Area Plumbing', category: 'Plumbing' })
+      );
+
+      expect(config.services.primary).toBe('Plumbing Services');
+      expect(config.services.categories).toContain('Drain Cleaning');
+      expect(config.services.descriptions?.['Drain Cleaning']).toContain(
+        'Tampa, FL'
+      );
+      expect(config.seo).toMatchObject({
+        title: 'Bay Area Plumbing | Plumbing Services in Tampa, FL',
+        localArea: 'Tampa, FL',
+      });
+      expect(config.seo?.description).toBe(
+        'Bay Area Plumbing provides drain cleaning, leak repair, water heaters and emergency plumbing in Tampa, FL. Rated 4.5/5 from 127 reviews. Call (813) 555-0123.'
+      );
+      expect(config.seo?.keywords).toContain('plumbing services tampa');
+    });
+
+    it('should keep SEO titles and descriptions within display limits', () => {
+      const config = buildBusinessConfig(
+        createProspect({
+          name: 'The Extraordinarily Long Named Residential Cleaning Company',
+        })
+      );
+
+      expect(config.seo?.title?.length).toBeLessThanOrEqual(60);
+      expect(config.seo?.description?.length).toBeLessThanOrEqual(160);
+    });
+
+    it('should keep hand-entered hours and company details', () => {
+      const prospect = createProspect();
+      prospect.templateConfig.hours = { monday: '9-5', holidays: 'Call' };
+      prospect.templateConfig.company.owner = 'Maria Lopez';
+
+      const config = buildBusinessConfig(prospect);
+
+      expect(config.hours).toEqual({
+        monday: '9:00 AM - 5:00 PM',
+        holidays: 'Call',
+      });
+      expect(config.company.owner).toBe('Maria Lopez');
+    });
+
+    it('should treat a Facebook page as social media, not a company site', () => {
+      const config = buildBusinessConfig(
+        createProspect({
+          contact: {
+            phone: '+1-813-555-0123',
+            email: 'info@tampacleaning.com',
+            website: 'https://www.facebook.com/tampacleaning',
+          },
+          webPresence: {
+            hasWebsite: true,
+            websiteType: 'facebook',
+            websiteQuality: 'poor',
+            issues: [],
+            opportunities: [],
+          },
+        })
+      );
+
+      expect(config.company.website).toBeUndefined();
+      expect(config.socialMedia).toEqual([
+        {
+          platform: 'facebook',
+          url: 'https://www.facebook.com/tampacleaning',
+          handle: 'tampacleaning',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildBusinessConfig,
+  renderDemoSite,
+  resolveTheme,
+} from '../../../../src/core/template/index.js';
+import type { BusinessConfig } from '../../../../src/types/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+function extractJsonLd(html: string): Record<string, unknown> {
+  const match = html.match(
+    /<script type="application\/ld\+json">([\s\S]*?)<\/script>/
+  );
+  expect(match).not.toBeNull();
+  return JSON.parse(match?.[1] ?? '{}');
+}
+
+describe('Demo site generator', () => {
+  const config = buildBusinessConfig(
+    createProspect({
+      name: 'Bay Plumbing',
+      category: 'Plumbing',
+      rating: 4.6,
+      reviewCount: 58,
+    })
+  );
+
+  describe('resolveTheme', () => {
+    it('should pick a theme from the business type', () => {
+      expect(resolveTheme('Plumber').name).toBe('trades');
+      expect(resolveTheme('Restaurant').name).toBe('food');
+      expect(resolveTheme('Florist').name).toBe('default');
+    });
+
+    it('should reject an unknown theme name', () => {
+      expect(() => resolveTheme('Plumber', 'neon')).toThrow(/Unknown theme/);
+    });
+  });
+
+  describe('renderDemoSite', () => {
+    it('should render an industry-themed page with services and a call link', () => {
+      const site = renderDemoSite(config);
+      const html = site.files['index.html'] ?? '';
+
+      expect(site.theme).toBe('trades');
+      expect(Object.keys(site.files)).toEqual(['index.html', 'styles.css']);
+      expect(html).toContain('<h1>Bay Plumbing</h1>');
+      expect(html).toContain('href="tel:+18135550123"');
+      for (const service of config.services.categories) {
+        expect(html).toContain(`<h3>${service}</h3>`);
+      }
+      expect(html).toContain('4.6</strong> from 58 reviews');
+    });
+
+    it('should not reference any external assets', () => {
+      const site = renderDemoSite({
+        ...config,
+        socialMedia: [
+          { platform: 'facebook', url: 'https://facebook.com/bayplumbing' },
+        ],
+      });
+      const html = site.files['index.html'] ?? '';
+
+      expect(html).not.toMatch(/<(img|iframe)\b/);
+      expect(html).not.toMatch(/<script(?! type="application\/ld\+json")/);
+      expect(html).toMatch(/<link rel="stylesheet" href="styles.css"/);
+      expect(site.files['styles.css']).not.toMatch(/url\(|@import/);
+      // The only absolute links are the business's own profiles
+      const links = [...html.matchAll(/href="(https?:[^"]+)"/g)].map(
+        (match) => match[1]
+      );
+      expect(links).toEqual(['https://facebook.com/bayplumbing']);
+    });
+
+    it('should list weekday hours in order before special hours', () => {
+      const html =
+        renderDemoSite({
+          ...config,
+          hours: {
+            holidays: 'Closed',
+            saturday: '9:00 AM - 1:00 PM',
+            monday: '8:00 AM - 5:00 PM',
+          },
+        }).files['index.html'] ?? '';
+
+      const monday = html.indexOf('>Monday<');
+      const saturday = html.indexOf('>Saturday<');
+      const holidays = html.indexOf('>Holidays<');
+      expect(monday).toBeGreaterThan(-1);
+      expect(monday).toBeLessThan(saturday);
+      expect(saturday).toBeLessThan(holidays);
+    });
+
+    it('should escape business data in markup and JSON-LD', () => {
+      const hostile: BusinessConfig = {
+        ...config,
+        company: { name: 'Tom & Jerry <script>alert(1)</script>' },
+      };
+      const html = renderDemoSite(hostile).files['index.html'] ?? '';
+
+      expect(html).toContain('Tom &amp; Jerry &lt;script&gt;');
+      expect(html).not.toContain('<script>alert(1)');
+      expect(extractJsonLd(html).name).toBe(hostile.company.name);
+    });
+
+    it('should embed schema.org JSON-LD for the business type', () => {
+      const jsonLd = extractJsonLd(
+        renderDemoSite(config).files['index.html'] ?? ''
+      );
+
+      expect(jsonLd).toMatchObject({
+        '@context': 'https://schema.org',
+        '@type': 'Plumber',
+        name: 'Bay Plumbing',
+        telephone: '+18135550123',
+        areaServed: 'Tampa, FL',
+        address: { '@type': 'PostalAddress', addressLocality: 'Tampa' },
+      });
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildBusinessConfig,
+  buildJsonLd,
+  validateJsonLd,
+} from '../../../../src/core/template/index.js';
+import { createProspect } from '../../../helpers/prospect.js';
+
+describe('JSON-LD export', () => {
+  const config = {
+    ...buildBusinessConfig(
+      createProspect({ name: 'Bay Plumbing', category: 'Plumbing' })
+    ),
+    hours: {
+      monday: '8:00 AM - 5:00 PM',
+      tuesday: '8:00 AM - 5:00 PM',
+      wednesday: '8am-12pm, 1pm-5pm',
+      saturday: 'Closed',
+      sunday: 'by appointment',
+      holidays: 'Closed',
+    },
+    rating: { average: 4.6, count: 58, source: 'google' },
+    socialMedia: [
+      { platform: 'facebook', url: 'https://facebook.com/bayplumbing' },
+    ],
+  };
+  const geo = { latitude: 27.9506, longitude: -82.4572 };
+
+  describe('buildJsonLd', () => {
+    it('should emit the LocalBusiness subtype with contact details', () => {
+      const document = buildJsonLd(config, { geo });
+
+      expect(document).toMatchObject({
+        '@context': 'https://schema.org',
+        '@type': 'Plumber',
+        name: 'Bay Plumbing',
+        telephone: '+18135550123',
+        areaServed: 'Tampa, FL',
+        address: { '@type': 'PostalAddress', postalCode: '33601' },
+        geo: { '@type': 'GeoCoordinates', ...geo },
+        aggregateRating: {
+          ratingValue: 4.6,
+          ratingCount: 58,
+          bestRating: 5,
+          worstRating: 1,
+        },
+        sameAs: ['https://facebook.com/bayplumbing'],
+      });
+    });
+
+    it('should group days with identical hours and split shifts', () => {
+      const document = buildJsonLd(config);
+
+      expect(document.openingHoursSpecification).toEqual([
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Monday', 'Tuesday'],
+          opens: '08:00',
+          closes: '17:00',
+        },
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Wednesday'],
+          opens: '08:00',
+          closes: '12:00',
+        },
+        {
+          '@type': 'OpeningHoursSpecification',
+          dayOfWeek: ['Wednesday'],
+          opens: '13:00',
+          closes: '17:00',
+        },
+      ]);
+    });
+
+    it('should drop the extension from the telephone', () => {
+      const document = buildJsonLd({
+        ...config,
+        contact: { ...config.contact, phone: '+18135550123;ext=4' },
+      });
+
+      expect(document.telephone).toBe('+18135550123');
+    });
+
+    it('should leave out an average rating below the 1 to 5 scale', () => {
+      const document = buildJsonLd({
+        ...config,
+        rating: { average: 0, count: 3, source: 'google' },
+      });
+
+      expect(document).not.toHaveProperty('aggregateRating');
+    });
+
+    it('should omit optional sections that have no data', () => {
+      const { company, contact, services } = config;
+      const document = buildJsonLd({ company, contact, services });
+
+      expect(document).not.toHaveProperty('aggregateRating');
+      expect(document).not.toHaveProperty('sameAs');
+      expect(document).not.toHaveProperty('openingHoursSpecification');
+      expect(document).not.toHaveProperty('geo');
+    });
+  });
+
+  describe('validateJsonLd', () => {
+    it('should accept a complete document', () => {
+      expect(validateJsonLd(buildJsonLd(config, { geo }))).toEqual([]);
+    });
+
+    it('should report missing required and recommended properties', () => {
+      const issues = validateJsonLd({
+        '@context': 'https://schema.org',
+        '@type': 'Restaurant',
+        name: 'Taqueria',
+      });
+
+      expect(issues).toContainEqual({
+        severity: 'error',
+        path: 'address',
+        message: 'required property is missing',
+      });
+      expect(issues).toContainEqual({
+        severity: 'warning',
+        path: 'servesCuisine',
+        message: 'recommended property is missing',
+      });
+    });
+
+    it('should check nested values', () => {
+      const document = buildJsonLd(config, {
+        geo: { latitude: 95, longitude: 0 },
+      });
+      document.aggregateRating = { '@type': 'AggregateRating', ratingValue: 7 };
+      const paths = validateJsonLd(document).map((issue) => issue.path);
+
+      expect(paths).toEqual([
+        'geo.latitude',
+        'aggregateRating.ratingCount',
+        'aggregateRating.ratingValue',
+      ]);
+    });
+
+    it('should warn about types outside the LocalBusiness hierarchy', () => {
+      const issues = validateJsonLd({
+        ...buildJsonLd(config, { geo }),
+        '@type': 'Florist',
+      });
+
+      expect(issues).toEqual([
+        {
+          severity: 'warning',
+          path: '@type',
+          message: 'Florist is not a known LocalBusiness subtype',
+        },
+      ]);
+    });
+  });
+});
@@ -88,14 +88,16 @@ describe('Business Schema Validation', () => {
       expect(() => ContactInfoSchema.parse(validContact)).not.toThrow();
     });
 
-    it('should reject invalid phone number format', () => {
-      const invalidContact = {
-        phone: '813-555-0123', // Missing country code
-        email: 'info@example.com',
-        website: 'https://example.com',
-      };
-
-      expect(() => ContactInfoSchema.parse(invalidContact)).toThrow();
+    it('should reject invalid phone numbers', () => {
+      for (const phone of ['555-0123', '(813) 555-0123', '']) {
+        const invalidContact = {
+          phone,
+          email: 'info@example.com',
+          website: 'https://example.com',
+        };
+
+        expect(() => ContactInfoSchema.parse(invalidContact)).toThrow();
+      }
     });
 
     it('should reject invalid email format', () => {
@@ -108,6 +110,43 @@ describe('Business Schema Validation', () => {
       expect(() => ContactInfoSchema.parse(invalidContact)).toThrow();
     });
 
+    it('should store "unknown" rather than a made-up email', () => {
+      expect(
+        ContactInfoSchema.parse({ phone: '+1-813-555-0123', email: 'unknown' })
+          .email
+      ).toBe('unknown');
+      expect(ContactInfoSchema.parse({ phone: '+1-813-555-0123' }).email).toBe(
+        'unknown'
+      );
+    });
+
+    it('should validate discovered emails', () => {
+      const discovered = {
+        address: 'mike@tampacleaning.com',
+        source: 'mailto',
+        url: 'https://tampacleaning.com/contact',
+        confidence: 0.95,
+        role: false,
+        disposable: false,
+        mx: true,
+      };
+      const contact = (emails: unknown[]) => ({
+        phone: '+1-813-555-0123',
+        email: 'mike@tampacleaning.com',
+        emails,
+      });
+
+      expect(ContactInfoSchema.parse(contact([discovered])).emails).toEqual([
+        discovered,
+      ]);
+      expect(() =>
+        ContactInfoSchema.parse(contact([{ ...discovered, confidence: 2 }]))
+      ).toThrow();
+      expect(() =>
+        ContactInfoSchema.parse(contact([{ ...discovered, source: 'guess' }]))
+      ).toThrow();
+    });
+
     it('should reject invalid URL format', () => {
       const invalidContact = {
         phone: '+1-813-555-0123',
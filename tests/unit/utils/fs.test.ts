@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { readJsonFile, writeJsonAtomic } from '../../../src/utils/fs.js';
+
+class TestFileError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'TestFileError';
+  }
+}
+
+const CountsSchema = z.record(z.number().int());
+
+describe('JSON files', () => {
+  const dirs: string[] = [];
+  const createDir = (): string => {
+    const dir = mkdtempSync(join(tmpdir(), 'd13-fs-'));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should write a file that reads back the same', async () => {
+    const path = join(createDir(), 'nested', 'counts.json');
+
+    await writeJsonAtomic(path, { a: 1, b: 2 });
+
+    expect(readFileSync(path, 'utf8')).toBe('{\n  "a": 1,\n  "b": 2\n}\n');
+    expect(readdirSync(join(path, '..'))).toEqual(['counts.json']);
+    await expect(
+      readJsonFile<Record<string, number>>(path, CountsSchema, TestFileError)
+    ).resolves.toEqual({ a: 1, b: 2 });
+  });
+
+  it('should read a missing file as undefined', async () => {
+    const path = join(createDir(), 'counts.json');
+
+    await expect(
+      readJsonFile(path, CountsSchema, TestFileError)
+    ).resolves.toBeUndefined();
+  });
+
+  it('should raise the given error for invalid JSON or contents', async () => {
+    const path = join(createDir(), 'counts.json');
+
+    writeFileSync(path, '{ "a": ', 'utf8');
+    await expect(
+      readJsonFile(path, CountsSchema, TestFileError)
+    ).rejects.toThrow(new TestFileError(`${path} is not valid JSON`));
+
+    writeFileSync(path, '{ "a": 1.5 }', 'utf8');
+    await expect(
+      readJsonFile(path, CountsSchema, TestFileError)
+    ).rejects.toThrow(/^Invalid .*counts\.json: a: Expected integer/);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { distanceMeters } from '../../../src/utils/geo.js';
+
+describe('distanceMeters', () => {
+  it('should be zero for identical points', () => {
+    const tampa = { latitude: 27.9506, longitude: -82.4572 };
+
+    expect(distanceMeters(tampa, tampa)).toBe(0);
+  });
+
+  it('should measure the distance between Tampa and Orlando', () => {
+    const tampa = { latitude: 27.9506, longitude: -82.4572 };
+    const orlando = { latitude: 28.5384, longitude: -81.3789 };
+
+    expect(distanceMeters(tampa, orlando) / 1000).toBeCloseTo(124.2, 1);
+  });
+});
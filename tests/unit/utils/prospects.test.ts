@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { reviveProspect } from '../../../src/utils/prospects.js';
+
+describe('Prospect parsing helpers', () => {
+  it('should revive ISO date strings', () => {
+    const revived = reviveProspect({ extractedAt: '2024-09-18T22:30:00Z' });
+
+    expect(revived).toEqual({
+      extractedAt: new Date('2024-09-18T22:30:00Z'),
+    });
+  });
+});